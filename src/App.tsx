@@ -2,6 +2,13 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, useParams, useNavigate } from 'react-router-dom';
 import { HomePage } from './pages/HomePage';
 import { BookingDetailsPage } from './pages/BookingDetailsPage';
+import { MagicLinkPage } from './pages/MagicLinkPage';
+import { MyBookingsPage } from './pages/MyBookingsPage';
+import { SignInPage } from './pages/SignInPage';
+import { AdminPage } from './pages/AdminPage';
+import { RequireSession } from './components/RequireSession';
+import { ConsentBanner } from './components/ConsentBanner';
+import { getConfig } from './config/environment';
 
 // Route component for booking details that extracts bookingId from URL params
 function BookingDetailsRoute() {
@@ -20,6 +27,18 @@ function BookingDetailsRoute() {
   );
 }
 
+// Route component for magic links (/appt/:magicLinkId) sent to customers
+function MagicLinkRoute() {
+  const { magicLinkId } = useParams<{ magicLinkId: string }>();
+
+  return <MagicLinkPage magicLinkId={magicLinkId} />;
+}
+
+// With VITE_REQUIRE_SIGN_IN, bookings are only shown to a signed-in customer
+function gated(element: React.ReactElement) {
+  return getConfig().requireSignIn ? <RequireSession>{element}</RequireSession> : element;
+}
+
 function App() {
   return (
     <Router>
@@ -28,11 +47,31 @@ function App() {
         <Route path="/" element={<HomePage />} />
         
         {/* Booking details route */}
-        <Route path="/booking/:bookingId" element={<BookingDetailsRoute />} />
+        <Route path="/booking/:bookingId" element={gated(<BookingDetailsRoute />)} />
+
+        {/* Bookings remembered on this device, plus the signed-in customer's */}
+        <Route path="/my-bookings" element={gated(<MyBookingsPage />)} />
+
+        {/* Staff console; needs a session with the staff role */}
+        <Route
+          path="/admin"
+          element={
+            <RequireSession role="staff">
+              <AdminPage />
+            </RequireSession>
+          }
+        />
+
+        {/* Phone sign-in; returns to ?redirect= afterwards */}
+        <Route path="/sign-in" element={<SignInPage />} />
+
+        {/* Magic link landing route */}
+        <Route path="/appt/:magicLinkId" element={<MagicLinkRoute />} />
         
         {/* Catch-all route - redirect to homepage */}
         <Route path="*" element={<HomePage />} />
       </Routes>
+      <ConsentBanner />
     </Router>
   );
 }
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { CalendarPlus, Download } from 'lucide-react';
+import {
+  CalendarBooking,
+  downloadIcs,
+  getGoogleCalendarUrl,
+  getOutlookCalendarUrl,
+  toCalendarEvent,
+} from '../services/calendarExport';
+import { useI18n } from '../hooks/useI18n';
+
+interface AddToCalendarProps {
+  booking: CalendarBooking;
+  magicLink: string;
+}
+
+const linkClassName =
+  'inline-flex items-center justify-center space-x-2 border border-gray-300 text-gray-700 hover:bg-gray-50 py-2 px-3 rounded-lg text-sm font-medium transition-all duration-200';
+
+// Google and Outlook links add the event once; the .ics download also carries
+// later reschedules and cancellations, as it reuses the event's UID
+export const AddToCalendar: React.FC<AddToCalendarProps> = ({ booking, magicLink }) => {
+  const { locale, t } = useI18n();
+  const event = useMemo(() => toCalendarEvent(booking, magicLink, locale), [booking, magicLink, locale]);
+
+  const downloadLabel = event.cancelled
+    ? t('calendar.downloadCancellation')
+    : booking.rescheduledAt
+      ? t('calendar.downloadUpdate')
+      : t('calendar.download');
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {!event.cancelled && (
+          <>
+            <a href={getGoogleCalendarUrl(event)} target="_blank" rel="noopener noreferrer" className={linkClassName}>
+              <CalendarPlus className="h-4 w-4" />
+              <span>{t('calendar.google')}</span>
+            </a>
+            <a href={getOutlookCalendarUrl(event)} target="_blank" rel="noopener noreferrer" className={linkClassName}>
+              <CalendarPlus className="h-4 w-4" />
+              <span>{t('calendar.outlook')}</span>
+            </a>
+          </>
+        )}
+        <button
+          type="button"
+          onClick={() => downloadIcs(event, `booking-${booking.bookingId}.ics`)}
+          className={linkClassName}
+        >
+          <Download className="h-4 w-4" />
+          <span>{downloadLabel}</span>
+        </button>
+      </div>
+      {(event.cancelled || booking.rescheduledAt) && (
+        <p className="text-xs text-gray-500">
+          {event.cancelled ? t('calendar.removeHint') : t('calendar.updateHint')}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React from 'react';
+import { Booking } from '../types/booking';
+import { APPOINTMENT_TYPE_LABELS } from '../services/appointmentFields';
+import { BOOKING_STATUS_LABELS, PAYMENT_STATUS_LABELS } from '../services/bookingStatus';
+import { formatInTimeZone, getTimeZoneAbbreviation, getViewerTimeZone } from '../services/timeZone';
+
+interface AdminBookingTableProps {
+  bookings: Booking[];
+  selected: string[];
+  onToggle: (uuid: string) => void;
+  // Selects every booking on the page, or clears them when all are selected
+  onToggleAll: () => void;
+  activeUuid?: string;
+  onManage: (uuid: string) => void;
+}
+
+const STATUS_COLORS: Record<Booking['status'], string> = {
+  pending_confirmation: 'text-amber-700 bg-amber-50',
+  confirmed: 'text-green-700 bg-green-50',
+  completed: 'text-blue-700 bg-blue-50',
+  cancelled: 'text-red-700 bg-red-50',
+};
+
+const PAYMENT_STATUS_COLORS: Record<Booking['paymentStatus'], string> = {
+  pending: 'text-amber-700 bg-amber-50',
+  processing: 'text-blue-700 bg-blue-50',
+  completed: 'text-green-700 bg-green-50',
+  failed: 'text-red-700 bg-red-50',
+  refunded: 'text-gray-700 bg-gray-100',
+};
+
+const formatAppointment = (date: string) => {
+  const timeZone = getViewerTimeZone();
+  const formatted = formatInTimeZone(date, timeZone, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  return `${formatted} ${getTimeZoneAbbreviation(new Date(date), timeZone)}`;
+};
+
+export const AdminBookingTable: React.FC<AdminBookingTableProps> = ({
+  bookings,
+  selected,
+  onToggle,
+  onToggleAll,
+  activeUuid,
+  onManage,
+}) => {
+  const allSelected = bookings.length > 0 && bookings.every(booking => selected.includes(booking.id));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+          <tr>
+            <th scope="col" className="px-4 py-3 w-10">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={onToggleAll}
+                aria-label="Select all bookings on this page"
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+            </th>
+            <th scope="col" className="px-4 py-3">Customer</th>
+            <th scope="col" className="px-4 py-3">Appointment</th>
+            <th scope="col" className="px-4 py-3">Status</th>
+            <th scope="col" className="px-4 py-3">Payment</th>
+            <th scope="col" className="px-4 py-3">
+              <span className="sr-only">Actions</span>
+            </th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 bg-white">
+          {bookings.map(booking => (
+            <tr key={booking.id} className={booking.id === activeUuid ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+              <td className="px-4 py-3">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(booking.id)}
+                  onChange={() => onToggle(booking.id)}
+                  aria-label={`Select booking for ${booking.userName}`}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+              </td>
+              <td className="px-4 py-3">
+                <p className="font-medium text-gray-900">{booking.userName}</p>
+                <p className="text-gray-500">{booking.userPhone}</p>
+                <p className="text-xs text-gray-400 font-mono">{booking.bookingId}</p>
+              </td>
+              <td className="px-4 py-3">
+                <p className="text-gray-900">{formatAppointment(booking.appointmentDate)}</p>
+                <p className="text-gray-500">{APPOINTMENT_TYPE_LABELS[booking.appointmentType]}</p>
+              </td>
+              <td className="px-4 py-3">
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[booking.status]}`}>
+                  {BOOKING_STATUS_LABELS[booking.status]}
+                </span>
+              </td>
+              <td className="px-4 py-3">
+                <span
+                  className={`px-2 py-1 rounded-full text-xs font-medium ${PAYMENT_STATUS_COLORS[booking.paymentStatus]}`}
+                >
+                  {PAYMENT_STATUS_LABELS[booking.paymentStatus]}
+                </span>
+              </td>
+              <td className="px-4 py-3 text-right">
+                <button
+                  type="button"
+                  onClick={() => onManage(booking.id)}
+                  aria-pressed={booking.id === activeUuid}
+                  className="text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  Manage
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
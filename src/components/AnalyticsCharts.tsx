@@ -0,0 +1,109 @@
+import React from 'react';
+import { CheckCircle, Circle } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+
+// Small chart components for the analytics dashboards, drawn with plain
+// elements so no chart library is needed
+
+export interface ColumnDatum {
+  key: string;
+  // Shown under the column
+  label: string;
+  value: number;
+  // Tooltip and screen reader text
+  title: string;
+}
+
+interface ColumnChartProps {
+  data: ColumnDatum[];
+  // Summary read out instead of the individual columns
+  ariaLabel: string;
+  height?: number;
+}
+
+export const ColumnChart: React.FC<ColumnChartProps> = ({ data, ariaLabel, height = 120 }) => {
+  const max = Math.max(1, ...data.map(datum => datum.value));
+
+  return (
+    <figure role="img" aria-label={ariaLabel}>
+      <div className="flex items-end gap-1" style={{ height }}>
+        {data.map(datum => (
+          <div key={datum.key} className="flex-1 flex flex-col justify-end h-full" title={datum.title}>
+            {datum.value > 0 && (
+              <span className="text-[10px] text-gray-500 text-center leading-none mb-1">{datum.value}</span>
+            )}
+            <div
+              className={`rounded-t ${datum.value > 0 ? 'bg-blue-500' : 'bg-gray-100'}`}
+              style={{ height: `${Math.max(datum.value / max, 0.02) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-1" aria-hidden="true">
+        {data.map(datum => (
+          <span key={datum.key} className="flex-1 text-[10px] text-gray-400 text-center truncate">
+            {datum.label}
+          </span>
+        ))}
+      </div>
+    </figure>
+  );
+};
+
+interface BarListProps {
+  items: { label: string; count: number }[];
+  emptyText: string;
+}
+
+// Horizontal bars scaled to the largest count
+export const BarList: React.FC<BarListProps> = ({ items, emptyText }) => {
+  if (items.length === 0) return <p className="text-sm text-gray-500">{emptyText}</p>;
+  const max = Math.max(...items.map(item => item.count));
+
+  return (
+    <ul className="space-y-2">
+      {items.map(item => (
+        <li key={item.label}>
+          <div className="flex justify-between text-sm text-gray-700 mb-0.5">
+            <span className="truncate">{item.label}</span>
+            <span className="font-medium ml-2">{item.count}</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden" aria-hidden="true">
+            <div className="h-full bg-blue-500 rounded-full" style={{ width: `${(item.count / max) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+interface FunnelChartProps {
+  steps: { key: string; label: string; reached: boolean; detail?: string }[];
+}
+
+// Steps in order; each is filled once reached
+export const FunnelChart: React.FC<FunnelChartProps> = ({ steps }) => {
+  const { t } = useI18n();
+
+  return (
+    <ol className="space-y-2">
+      {steps.map((step, index) => (
+        <li key={step.key}>
+          <div
+            className={`flex items-center justify-between rounded-lg px-3 py-2 text-sm ${
+              step.reached ? 'bg-green-50 text-green-800' : 'bg-gray-50 text-gray-500'
+            }`}
+            style={{ width: `${100 - index * 12}%` }}
+          >
+            <span className="flex items-center font-medium">
+              {step.reached ? <CheckCircle className="h-4 w-4 mr-2" /> : <Circle className="h-4 w-4 mr-2" />}
+              {step.label}
+              <span className="sr-only"> ({step.reached ? t('analytics.stepDone') : t('analytics.stepPending')})</span>
+            </span>
+            {step.detail && <span className="text-xs ml-2 truncate">{step.detail}</span>}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
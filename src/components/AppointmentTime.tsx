@@ -0,0 +1,72 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import {
+  formatInTimeZone,
+  getTimeZoneAbbreviation,
+  getViewerTimeZone,
+  isValidTimeZone,
+  sameWallClock,
+} from '../services/timeZone';
+
+interface AppointmentTimeProps {
+  // ISO instant
+  date: string;
+  tutorTimeZone?: string;
+  bookerTimeZone?: string;
+}
+
+const FULL_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+};
+
+const SHORT_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: 'short',
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+};
+
+// Shows the appointment in the viewer's zone, plus the tutor's and booker's
+// wall-clock time whenever those differ from what the viewer sees
+export const AppointmentTime: React.FC<AppointmentTimeProps> = ({ date, tutorTimeZone, bookerTimeZone }) => {
+  const { locale, t } = useI18n();
+  const viewerTimeZone = getViewerTimeZone();
+  const instant = new Date(date);
+
+  const otherZones: { label: string; timeZone: string }[] = [];
+  if (isValidTimeZone(tutorTimeZone) && !sameWallClock(instant, tutorTimeZone, viewerTimeZone)) {
+    otherZones.push({ label: t('time.tutor'), timeZone: tutorTimeZone });
+  }
+  if (
+    isValidTimeZone(bookerTimeZone) &&
+    !sameWallClock(instant, bookerTimeZone, viewerTimeZone) &&
+    !otherZones.some(zone => sameWallClock(instant, zone.timeZone, bookerTimeZone))
+  ) {
+    otherZones.push({ label: t('time.booker'), timeZone: bookerTimeZone });
+  }
+
+  return (
+    <div>
+      <p className="text-gray-900">
+        {formatInTimeZone(date, viewerTimeZone, FULL_FORMAT, locale)}{' '}
+        <span className="text-gray-500">{getTimeZoneAbbreviation(instant, viewerTimeZone, locale)}</span>
+      </p>
+      {otherZones.map(zone => (
+        <p key={zone.timeZone} className="text-sm text-gray-600">
+          {t('time.otherZone', {
+            label: zone.label,
+            time: formatInTimeZone(date, zone.timeZone, SHORT_FORMAT, locale),
+            abbreviation: getTimeZoneAbbreviation(instant, zone.timeZone, locale),
+            zone: zone.timeZone,
+          })}
+        </p>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+import { AuditAction, AuditChange } from '../services/api';
+import { useBookingAuditLog } from '../hooks/useAdmin';
+
+interface BookingAuditLogProps {
+  uuid: string;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  created: 'Booking created',
+  confirmed: 'Booking confirmed',
+  cancelled: 'Booking cancelled',
+  rescheduled: 'Booking rescheduled',
+  payment_updated: 'Payment updated',
+  data_deletion_requested: 'Data deletion requested',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  paymentStatus: 'Payment status',
+  paymentId: 'Reference',
+  paymentAmount: 'Amount',
+  paymentCurrency: 'Currency',
+  appointmentDate: 'Appointment',
+  cancellationReason: 'Reason',
+  refundAmount: 'Refund requested',
+};
+
+const describeChange = ({ field, from, to }: AuditChange) =>
+  `${FIELD_LABELS[field] ?? field}: ${from ?? '—'} → ${to ?? '—'}`;
+
+// Who changed what on one booking, oldest first
+export const BookingAuditLog: React.FC<BookingAuditLogProps> = ({ uuid }) => {
+  const { data, loading, error, refetch } = useBookingAuditLog(uuid);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <RefreshCw className="h-5 w-5 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (error && !data) {
+    return (
+      <div className="flex items-center justify-between text-sm text-red-600">
+        <span className="flex items-center">
+          <AlertCircle className="h-4 w-4 mr-2" />
+          {error}
+        </span>
+        <button type="button" onClick={() => refetch()} className="text-blue-600 hover:text-blue-700 font-medium">
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  if (!data || data.length === 0) {
+    return <p className="text-sm text-gray-500">No changes have been recorded for this booking.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {data.map(entry => (
+        <li key={entry.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-600" />
+          <p className="text-sm font-medium text-gray-900">{ACTION_LABELS[entry.action]}</p>
+          <p className="text-xs text-gray-500">
+            {new Date(entry.at).toLocaleString()} ·{' '}
+            {entry.actorRole === 'staff' ? `Staff ${entry.actorPhone ?? ''}`.trim() : 'Customer'}
+          </p>
+          {entry.changes.length > 0 && (
+            <ul className="mt-1 text-sm text-gray-700">
+              {entry.changes.map(change => (
+                <li key={change.field}>{describeChange(change)}</li>
+              ))}
+            </ul>
+          )}
+          {entry.note && <p className="mt-1 text-sm text-gray-600 italic">“{entry.note}”</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
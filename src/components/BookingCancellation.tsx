@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { AlertCircle, Loader2, XCircle } from 'lucide-react';
+import { Booking, CANCELLATION_REASONS, CancellationReason } from '../types/booking';
+import { useBooking } from '../hooks/useBooking';
+import { useI18n } from '../hooks/useI18n';
+import { refusedAction } from '../services/apiError';
+import { formatRefusedAction } from '../services/bookingLifecycle';
+import {
+  LATE_CANCELLATION_REFUND_RATE,
+  MAX_CANCELLATION_NOTE_LENGTH,
+  REASONS_REQUIRING_NOTE,
+  getCancellationTerms,
+} from '../services/cancellationPolicy';
+
+interface BookingCancellationProps {
+  booking: Booking;
+  onClose: () => void;
+}
+
+// Asks why the booking is being cancelled and spells out what the policy
+// refunds before anything is sent
+export const BookingCancellation: React.FC<BookingCancellationProps> = ({ booking, onClose }) => {
+  const { cancel } = useBooking();
+  const { locale, t, formatDateTime, formatNumber, formatPrice } = useI18n();
+  const terms = getCancellationTerms(booking);
+
+  const [reason, setReason] = useState<CancellationReason | ''>('');
+  const [note, setNote] = useState('');
+  const [errors, setErrors] = useState<{ reason?: string; note?: string }>({});
+
+  const validate = () => {
+    const next: { reason?: string; note?: string } = {};
+    if (!reason) next.reason = t('cancel.error.reason');
+    else if (REASONS_REQUIRING_NOTE.includes(reason) && !note.trim()) {
+      next.note = t('cancel.error.noteRequired');
+    }
+    if (note.trim().length > MAX_CANCELLATION_NOTE_LENGTH) {
+      next.note = t('cancel.error.noteTooLong', { max: MAX_CANCELLATION_NOTE_LENGTH });
+    }
+    setErrors(next);
+    return Object.keys(next).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate() || !reason) return;
+
+    const response = await cancel.mutate({
+      uuid: booking.id,
+      request: { reason, note: note.trim() || undefined },
+    });
+    if (response.success) onClose();
+  };
+
+  const lateRefundShare = formatNumber(LATE_CANCELLATION_REFUND_RATE, { style: 'percent' });
+  const refused = refusedAction(cancel.apiError);
+  const noteRequired = reason !== '' && REASONS_REQUIRING_NOTE.includes(reason);
+
+  return (
+    <form onSubmit={handleSubmit} className="border border-red-200 rounded-lg p-4 space-y-4" noValidate>
+      <h4 className="font-semibold text-gray-900">{t('cancel.title')}</h4>
+
+      <div
+        className={`rounded-lg p-3 text-sm border ${
+          terms.isLate ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-gray-50 border-gray-200 text-gray-700'
+        }`}
+      >
+        {terms.isLate ? (
+          <p>
+            {t('cancel.late')}
+            {terms.refund && ` ${t('cancel.lateRefund', { share: lateRefundShare })}`}
+          </p>
+        ) : (
+          <p>{t('cancel.freeUntil', { date: formatDateTime(terms.freeUntil) })}</p>
+        )}
+        {terms.refund && (
+          <p className="mt-1 font-medium">
+            {t('cancel.refund', { amount: formatPrice(terms.refund.amount, terms.refund.currency) })}
+          </p>
+        )}
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-700 mb-2">{t('cancel.reason')}</legend>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {CANCELLATION_REASONS.map(option => (
+            <label
+              key={option}
+              className={`flex items-center space-x-2 border rounded-lg px-3 py-2 text-sm cursor-pointer ${
+                reason === option ? 'border-red-400 bg-red-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="cancellation-reason"
+                value={option}
+                checked={reason === option}
+                onChange={() => setReason(option)}
+                className="text-red-600 focus:ring-red-500"
+              />
+              <span>{t(`cancellationReason.${option}`)}</span>
+            </label>
+          ))}
+        </div>
+        {errors.reason && (
+          <p role="alert" className="text-red-600 text-xs mt-1">
+            {errors.reason}
+          </p>
+        )}
+      </fieldset>
+
+      <div>
+        <label htmlFor="cancellation-note" className="block text-sm font-medium text-gray-700 mb-1">
+          {t('cancel.note')}{' '}
+          {!noteRequired && <span className="text-gray-400 font-normal">{t('cancel.optional')}</span>}
+        </label>
+        <textarea
+          id="cancellation-note"
+          rows={2}
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          aria-invalid={errors.note ? true : undefined}
+          aria-describedby={errors.note ? 'cancellation-note-error' : undefined}
+          className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+            errors.note ? 'border-red-400' : 'border-gray-300'
+          }`}
+        />
+        {errors.note && (
+          <p id="cancellation-note-error" role="alert" className="text-red-600 text-xs mt-1">
+            {errors.note}
+          </p>
+        )}
+      </div>
+
+      {cancel.error && (
+        <div role="alert" className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 mt-0.5 mr-2 flex-shrink-0" />
+          <span>{refused ? formatRefusedAction(locale, refused) : cancel.error}</span>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-3">
+        <button
+          type="submit"
+          disabled={cancel.loading}
+          className="inline-flex items-center space-x-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200"
+        >
+          {cancel.loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <XCircle className="h-4 w-4" />}
+          <span>{t('details.cancelBooking')}</span>
+        </button>
+        <button type="button" onClick={onClose} className="text-gray-600 hover:text-gray-900 font-medium">
+          {t('cancel.keep')}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -1,6 +1,17 @@
 import React from 'react';
 import { Calendar, Clock, User, Phone, BookOpen, CreditCard } from 'lucide-react';
 import { Booking } from '../types/booking';
+import {
+  formatInTimeZone,
+  getTimeZoneAbbreviation,
+  getViewerTimeZone,
+  isValidTimeZone,
+  sameWallClock,
+} from '../services/timeZone';
+import { DEFAULT_CURRENCY } from '../services/pricing';
+import { useI18n } from '../hooks/useI18n';
+import { BookingStatusIcon, PaymentStatusIcon } from './StatusIcon';
+import { BOOKING_STATUS_STYLES, PAYMENT_STATUS_STYLES } from './statusStyles';
 
 interface BookingCardProps {
   booking: Booking;
@@ -8,61 +19,44 @@ interface BookingCardProps {
 }
 
 export const BookingCard: React.FC<BookingCardProps> = ({ booking, onPayment }) => {
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
+  const { locale, t, formatPrice } = useI18n();
+  const viewerTimeZone = getViewerTimeZone();
+
+  const formatDate = (dateString: string, timeZone: string = viewerTimeZone) => {
+    return formatInTimeZone(dateString, timeZone, {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
       day: 'numeric',
-    });
+    }, locale);
   };
 
-  const formatTime = (dateString: string) => {
-    return new Date(dateString).toLocaleTimeString('en-US', {
-      hour: '2-digit',
+  // Includes the zone name, since the same instant reads differently per zone
+  const formatTime = (dateString: string, timeZone: string = viewerTimeZone) => {
+    const time = formatInTimeZone(dateString, timeZone, {
+      hour: 'numeric',
       minute: '2-digit',
-    });
-  };
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'confirmed':
-        return 'text-green-600 bg-green-50';
-      case 'pending_confirmation':
-        return 'text-amber-600 bg-amber-50';
-      case 'completed':
-        return 'text-blue-600 bg-blue-50';
-      case 'cancelled':
-        return 'text-red-600 bg-red-50';
-      default:
-        return 'text-gray-600 bg-gray-50';
-    }
+    }, locale);
+    return `${time} ${getTimeZoneAbbreviation(new Date(dateString), timeZone, locale)}`;
   };
 
-  const getPaymentStatusColor = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return 'text-green-600 bg-green-50';
-      case 'processing':
-        return 'text-blue-600 bg-blue-50';
-      case 'failed':
-        return 'text-red-600 bg-red-50';
-      case 'pending':
-        return 'text-amber-600 bg-amber-50';
-      default:
-        return 'text-gray-600 bg-gray-50';
-    }
-  };
+  const tutorTimeZone = isValidTimeZone(booking.tutorTimeZone) &&
+    !sameWallClock(new Date(booking.appointmentDate), booking.tutorTimeZone, viewerTimeZone)
+    ? booking.tutorTimeZone
+    : null;
 
   return (
     <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden transition-all duration-300 hover:shadow-xl">
       {/* Header */}
       <div className="bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-4 text-white">
         <div className="flex items-center justify-between">
-          <h2 className="text-xl font-semibold">Booking Confirmation</h2>
+          <h2 className="text-xl font-semibold">{t('card.title')}</h2>
           <div className="flex space-x-2">
-            <span className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(booking.status)}`}>
-              {booking.status.replace('_', ' ').toUpperCase()}
+            <span
+              className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium uppercase ${BOOKING_STATUS_STYLES[booking.status]}`}
+            >
+              <BookingStatusIcon status={booking.status} className="h-3.5 w-3.5 mr-1" />
+              {t(`bookingStatus.${booking.status}`)}
             </span>
           </div>
         </div>
@@ -77,7 +71,7 @@ export const BookingCard: React.FC<BookingCardProps> = ({ booking, onPayment })
               <User className="h-5 w-5 text-blue-600" />
             </div>
             <div>
-              <p className="text-sm text-gray-600">Student Name</p>
+              <p className="text-sm text-gray-600">{t('card.studentName')}</p>
               <p className="font-semibold text-gray-900">{booking.userName}</p>
             </div>
           </div>
@@ -86,7 +80,7 @@ export const BookingCard: React.FC<BookingCardProps> = ({ booking, onPayment })
               <Phone className="h-5 w-5 text-blue-600" />
             </div>
             <div>
-              <p className="text-sm text-gray-600">Phone Number</p>
+              <p className="text-sm text-gray-600">{t('common.phoneNumber')}</p>
               <p className="font-semibold text-gray-900">{booking.userPhone}</p>
             </div>
           </div>
@@ -94,14 +88,14 @@ export const BookingCard: React.FC<BookingCardProps> = ({ booking, onPayment })
 
         {/* Appointment Details */}
         <div className="border-t pt-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Appointment Details</h3>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('card.appointmentDetails')}</h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="flex items-center space-x-3">
               <div className="p-2 bg-green-50 rounded-lg">
                 <Calendar className="h-5 w-5 text-green-600" />
               </div>
               <div>
-                <p className="text-sm text-gray-600">Date</p>
+                <p className="text-sm text-gray-600">{t('card.date')}</p>
                 <p className="font-semibold text-gray-900">{formatDate(booking.appointmentDate)}</p>
               </div>
             </div>
@@ -110,8 +104,15 @@ export const BookingCard: React.FC<BookingCardProps> = ({ booking, onPayment })
                 <Clock className="h-5 w-5 text-green-600" />
               </div>
               <div>
-                <p className="text-sm text-gray-600">Time</p>
+                <p className="text-sm text-gray-600">{t('card.time')}</p>
                 <p className="font-semibold text-gray-900">{formatTime(booking.appointmentDate)}</p>
+                {tutorTimeZone && (
+                  <p className="text-xs text-gray-500">
+                    {t('card.tutorTime', { time: formatTime(booking.appointmentDate, tutorTimeZone) })}
+                    {formatDate(booking.appointmentDate, tutorTimeZone) !== formatDate(booking.appointmentDate) &&
+                      ` (${formatDate(booking.appointmentDate, tutorTimeZone)})`}
+                  </p>
+                )}
               </div>
             </div>
             <div className="flex items-center space-x-3">
@@ -119,8 +120,8 @@ export const BookingCard: React.FC<BookingCardProps> = ({ booking, onPayment })
                 <BookOpen className="h-5 w-5 text-purple-600" />
               </div>
               <div>
-                <p className="text-sm text-gray-600">Type</p>
-                <p className="font-semibold text-gray-900 capitalize">{booking.appointmentType}</p>
+                <p className="text-sm text-gray-600">{t('card.type')}</p>
+                <p className="font-semibold text-gray-900">{t(`appointmentType.${booking.appointmentType}`)}</p>
               </div>
             </div>
             {booking.bookingDetails.subject && (
@@ -129,7 +130,7 @@ export const BookingCard: React.FC<BookingCardProps> = ({ booking, onPayment })
                   <BookOpen className="h-5 w-5 text-purple-600" />
                 </div>
                 <div>
-                  <p className="text-sm text-gray-600">Subject</p>
+                  <p className="text-sm text-gray-600">{t('common.subject')}</p>
                   <p className="font-semibold text-gray-900">{booking.bookingDetails.subject}</p>
                 </div>
               </div>
@@ -140,17 +141,20 @@ export const BookingCard: React.FC<BookingCardProps> = ({ booking, onPayment })
         {/* Payment Section */}
         <div className="border-t pt-6">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold text-gray-900">Payment Information</h3>
-            <span className={`px-3 py-1 rounded-full text-xs font-medium ${getPaymentStatusColor(booking.paymentStatus)}`}>
-              {booking.paymentStatus.toUpperCase()}
+            <h3 className="text-lg font-semibold text-gray-900">{t('card.paymentInformation')}</h3>
+            <span
+              className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium uppercase ${PAYMENT_STATUS_STYLES[booking.paymentStatus]}`}
+            >
+              <PaymentStatusIcon status={booking.paymentStatus} className="h-3.5 w-3.5 mr-1" />
+              {t(`paymentStatus.${booking.paymentStatus}`)}
             </span>
           </div>
           
-          {booking.paymentAmount && (
+          {booking.paymentAmount !== undefined && (
             <div className="flex items-center justify-between mb-4">
-              <span className="text-gray-600">Amount:</span>
+              <span className="text-gray-600">{t('card.amount')}</span>
               <span className="text-2xl font-bold text-gray-900">
-                ${booking.paymentAmount.toFixed(2)} {booking.paymentCurrency}
+                {formatPrice(booking.paymentAmount, booking.paymentCurrency ?? DEFAULT_CURRENCY)}
               </span>
             </div>
           )}
@@ -161,15 +165,15 @@ export const BookingCard: React.FC<BookingCardProps> = ({ booking, onPayment })
               className="w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white py-3 px-6 rounded-lg font-semibold flex items-center justify-center space-x-2 hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg hover:shadow-xl"
             >
               <CreditCard className="h-5 w-5" />
-              <span>Complete Payment</span>
+              <span>{t('payment.title')}</span>
             </button>
           )}
 
           {booking.paymentStatus === 'completed' && (
             <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-center">
-              <p className="text-green-800 font-semibold">Payment Completed Successfully!</p>
+              <p className="text-green-800 font-semibold">{t('card.paymentCompleted')}</p>
               <p className="text-green-600 text-sm mt-1">
-                You will receive a confirmation email shortly.
+                {t('card.confirmationEmail')}
               </p>
             </div>
           )}
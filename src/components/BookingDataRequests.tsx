@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { AlertCircle, Download, Loader2, Trash2 } from 'lucide-react';
+import { Booking } from '../types/booking';
+import { useBookingData } from '../hooks/useBookingData';
+import { useConsent } from '../hooks/useConsent';
+import { useI18n } from '../hooks/useI18n';
+import { downloadBookingData } from '../services/privacy';
+
+interface BookingDataRequestsProps {
+  booking: Booking;
+}
+
+// Lets the customer download everything held about this booking or ask for it
+// to be erased. Tracked activity goes straight away; the booking itself is
+// removed by the tutor once it has been settled.
+export const BookingDataRequests: React.FC<BookingDataRequestsProps> = ({ booking }) => {
+  const { exportData, requestDeletion } = useBookingData();
+  const { openPreferences } = useConsent();
+  const { t, formatDate } = useI18n();
+  const [confirmingDeletion, setConfirmingDeletion] = useState(false);
+
+  const handleExport = async () => {
+    const response = await exportData.mutate(booking.id);
+    if (response.success && response.data) {
+      downloadBookingData(response.data, `booking-${booking.bookingId}-data.json`);
+    }
+  };
+
+  const handleDeletion = async () => {
+    const response = await requestDeletion.mutate(booking.id);
+    if (response.success) setConfirmingDeletion(false);
+  };
+
+  const error = exportData.error ?? requestDeletion.error;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">{t('data.intro')}</p>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={exportData.loading}
+          className="flex-1 border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 py-2 px-4 rounded-lg font-medium flex items-center justify-center space-x-2 transition-all duration-200"
+        >
+          {exportData.loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          <span>{t('data.download')}</span>
+        </button>
+        {!booking.dataDeletionRequestedAt && !confirmingDeletion && (
+          <button
+            type="button"
+            onClick={() => setConfirmingDeletion(true)}
+            className="flex-1 border border-red-200 text-red-700 hover:bg-red-50 py-2 px-4 rounded-lg font-medium flex items-center justify-center space-x-2 transition-all duration-200"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span>{t('data.requestDeletion')}</span>
+          </button>
+        )}
+      </div>
+
+      {confirmingDeletion && (
+        <div className="border border-red-200 rounded-lg p-4 space-y-3">
+          <p className="text-sm text-gray-700">{t('data.confirmDeletion')}</p>
+          <div className="flex items-center space-x-3">
+            <button
+              type="button"
+              onClick={handleDeletion}
+              disabled={requestDeletion.loading}
+              className="inline-flex items-center space-x-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200"
+            >
+              {requestDeletion.loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              <span>{t('data.delete')}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setConfirmingDeletion(false)}
+              className="text-gray-600 hover:text-gray-900 font-medium"
+            >
+              {t('data.keep')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {booking.dataDeletionRequestedAt && (
+        <div role="status" className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm text-gray-700">
+          {t('data.deletionRequested', { date: formatDate(booking.dataDeletionRequestedAt) })}
+        </div>
+      )}
+
+      {error && (
+        <div role="alert" className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 mt-0.5 mr-2 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <button type="button" onClick={openPreferences} className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+        {t('common.privacySettings')}
+      </button>
+    </div>
+  );
+};
@@ -1,19 +1,81 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { 
   Calendar, 
   Clock, 
   User, 
   Phone, 
   BookOpen, 
-  CheckCircle, 
   AlertCircle, 
   CreditCard,
   ExternalLink,
   Copy,
-  RefreshCw
+  RefreshCw,
+  SearchX,
+  WifiOff,
+  Timer,
+  Lock,
+  XCircle,
+  CalendarClock,
+  History,
+  BarChart3,
+  Link2,
+  ShieldCheck
 } from 'lucide-react';
 import { useBooking } from '../hooks/useBooking';
-import { BookingDetails as BookingDetailsType } from '../services/api';
+import { getBookingPrice } from '../services/pricing';
+import { PaymentInterface } from './PaymentInterface';
+import { PaymentRecovery } from './PaymentRecovery';
+import { AppointmentTime } from './AppointmentTime';
+import { BookingCancellation } from './BookingCancellation';
+import { BookingReschedule } from './BookingReschedule';
+import { BookingTimeline } from './BookingTimeline';
+import { AddToCalendar } from './AddToCalendar';
+import { MagicLinkAnalytics } from './MagicLinkAnalytics';
+import { BookingDataRequests } from './BookingDataRequests';
+import { BookingStatusIcon, PaymentStatusIcon } from './StatusIcon';
+import { BOOKING_STATUS_STYLES, PAYMENT_STATUS_STYLES } from './statusStyles';
+import { describeBookingDetails } from '../services/appointmentFields';
+import { FREE_CHANGE_WINDOW_HOURS, getCancellationTerms } from '../services/cancellationPolicy';
+import { canTransition } from '../services/bookingLifecycle';
+import { getMagicLinkUrl } from '../config/environment';
+import { track, TrackingContext } from '../services/tracking';
+import { useI18n } from '../hooks/useI18n';
+import { useFocusAfterRender } from '../hooks/useFocusAfterRender';
+import { ApiError, BookingDetails as BookingDetailsType } from '../services/api';
+
+interface ErrorContent {
+  // Which `details.error.*` texts to show; null shows the raw error
+  messages: 'notFound' | 'expired' | 'unauthorized' | 'forbidden' | 'network' | 'decode' | 'server' | null;
+  Icon: typeof AlertCircle;
+  tone: string;
+  canRetry: boolean;
+}
+
+// Maps a failed fetch onto the message shown in place of the booking
+const getErrorContent = (apiError: ApiError | null): ErrorContent => {
+  switch (apiError?.kind) {
+    case 'not_found':
+      return { messages: 'notFound', Icon: SearchX, tone: 'text-gray-500', canRetry: false };
+    case 'expired':
+      return { messages: 'expired', Icon: Timer, tone: 'text-gray-500', canRetry: false };
+    case 'unauthorized':
+      return { messages: 'unauthorized', Icon: Lock, tone: 'text-gray-500', canRetry: false };
+    case 'forbidden':
+      return { messages: 'forbidden', Icon: Lock, tone: 'text-gray-500', canRetry: false };
+    case 'network':
+    case 'timeout':
+      return { messages: 'network', Icon: WifiOff, tone: 'text-amber-600', canRetry: true };
+    case 'decode':
+      return { messages: 'decode', Icon: AlertCircle, tone: 'text-red-600', canRetry: true };
+    case 'server':
+      return { messages: 'server', Icon: AlertCircle, tone: 'text-red-600', canRetry: true };
+    default:
+      return { messages: null, Icon: AlertCircle, tone: 'text-red-600', canRetry: true };
+  }
+};
+
+const STATUS_ID = 'booking-status';
+const PAY_BUTTON_ID = 'booking-pay-button';
 
 interface BookingDetailsProps {
   bookingId?: string;
@@ -26,120 +88,103 @@ export const BookingDetails: React.FC<BookingDetailsProps> = ({
   uuid, 
   onPaymentUpdate 
 }) => {
-  const { 
-    loading, 
-    error, 
-    success, 
-    bookingDetails, 
-    getBookingDetails,
-    updatePayment,
-    confirmBooking,
-    clearState 
-  } = useBooking();
-
-  const [paymentLoading, setPaymentLoading] = useState(false);
+  const { locale, t, formatDateTime, formatPrice } = useI18n();
+  const { details } = useBooking(uuid);
+  const { data: bookingDetails, loading, fetching, error, apiError, refetch } = details;
+
   const [copied, setCopied] = useState(false);
+  const [showCheckout, setShowCheckout] = useState(false);
+  const [changePanel, setChangePanel] = useState<'cancel' | 'reschedule' | null>(null);
+  const [showLinkAnalytics, setShowLinkAnalytics] = useState(false);
 
-  useEffect(() => {
-    if (uuid) {
-      getBookingDetails(uuid);
-    }
-  }, [uuid, getBookingDetails]);
+  // So focus isn't lost when the checkout closes
+  const focusAfterRender = useFocusAfterRender();
+
+  const price = bookingDetails ? getBookingPrice(bookingDetails) : null;
+  const terms = bookingDetails ? getCancellationTerms(bookingDetails) : null;
+  const detailEntries = bookingDetails ? describeBookingDetails(bookingDetails, locale) : [];
+  const trackingContext: TrackingContext = bookingDetails
+    ? { bookingUuid: bookingDetails.id, magicLinkId: bookingDetails.magicLinkId }
+    : {};
 
-  const handleConfirmBooking = async () => {
-    if (uuid && bookingDetails?.status === 'pending_confirmation') {
-      await confirmBooking(uuid);
-      // Refresh booking details after confirmation
-      setTimeout(() => getBookingDetails(uuid), 1000);
+  const handleCheckoutComplete = () => {
+    setShowCheckout(false);
+    focusAfterRender(STATUS_ID);
+    if (uuid && onPaymentUpdate) {
+      onPaymentUpdate(uuid, 'completed');
     }
   };
 
-  const handlePaymentUpdate = async (status: 'completed' | 'failed') => {
-    if (!uuid) return;
-    
-    setPaymentLoading(true);
-    try {
-      await updatePayment(uuid, {
-        paymentStatus: status,
-        paymentId: `payment_${Date.now()}`,
-        amount: status === 'completed' ? 100 : undefined,
-        currency: status === 'completed' ? 'USD' : undefined,
-      });
-      
-      // Call parent callback if provided
-      if (onPaymentUpdate) {
-        onPaymentUpdate(uuid, status);
-      }
-      
-      // Refresh booking details
-      setTimeout(() => getBookingDetails(uuid), 1000);
-    } catch (error) {
-      console.error('Payment update failed:', error);
-    } finally {
-      setPaymentLoading(false);
+  const handleCheckoutFailed = () => {
+    if (uuid && onPaymentUpdate) {
+      onPaymentUpdate(uuid, 'failed');
     }
   };
 
-  const copyToClipboard = async (text: string) => {
+  const copyToClipboard = async (text: string): Promise<boolean> => {
     try {
       await navigator.clipboard.writeText(text);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
+      return true;
     } catch (error) {
       console.error('Failed to copy:', error);
+      return false;
     }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleString();
+  const copyBookingLink = async (magicLinkId: string) => {
+    if (await copyToClipboard(getMagicLinkUrl(magicLinkId))) {
+      track('link_copied', {}, trackingContext);
+    }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'confirmed':
-        return 'text-green-600 bg-green-50 border-green-200';
-      case 'pending_confirmation':
-        return 'text-yellow-600 bg-yellow-50 border-yellow-200';
-      case 'cancelled':
-        return 'text-red-600 bg-red-50 border-red-200';
-      default:
-        return 'text-gray-600 bg-gray-50 border-gray-200';
-    }
+  const openCheckout = (amount: number, currency: string) => {
+    setShowCheckout(true);
+    track('checkout_opened', { amount, currency }, trackingContext);
   };
 
-  const getPaymentStatusColor = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return 'text-green-600 bg-green-50 border-green-200';
-      case 'pending':
-        return 'text-yellow-600 bg-yellow-50 border-yellow-200';
-      case 'failed':
-        return 'text-red-600 bg-red-50 border-red-200';
-      default:
-        return 'text-gray-600 bg-gray-50 border-gray-200';
-    }
+  const openChangePanel = (panel: 'cancel' | 'reschedule') => {
+    setChangePanel(panel);
+    track('change_panel_opened', { panel }, trackingContext);
+  };
+
+  const closeCheckout = () => {
+    setShowCheckout(false);
+    focusAfterRender(PAY_BUTTON_ID);
   };
 
   if (loading) {
     return (
       <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-8">
-        <div className="flex items-center justify-center">
-          <RefreshCw className="h-8 w-8 animate-spin text-blue-600" />
-          <span className="ml-3 text-lg text-gray-600">Loading booking details...</span>
+        <div role="status" className="flex items-center justify-center">
+          <RefreshCw className="h-8 w-8 animate-spin text-blue-600" aria-hidden="true" />
+          <span className="ml-3 text-lg text-gray-600">{t('details.loading')}</span>
         </div>
       </div>
     );
   }
 
-  if (error) {
+  if (!bookingDetails && error) {
+    const { messages, Icon, tone, canRetry } = getErrorContent(apiError);
+    const title = messages ? t(`details.error.${messages}.title`) : t('details.error.unknown.title');
+    const description = messages ? t(`details.error.${messages}.description`) : error;
+
     return (
       <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-8">
-        <div className="flex items-center justify-center text-red-600">
-          <AlertCircle className="h-8 w-8 mr-3" />
-          <div>
-            <h3 className="text-lg font-semibold">Error Loading Booking</h3>
-            <p className="text-sm text-red-500 mt-1">{error}</p>
-          </div>
+        <div role="alert" className={`text-center ${tone}`}>
+          <Icon className="h-12 w-12 mx-auto mb-4" aria-hidden="true" />
+          <h3 className="text-lg font-semibold">{title}</h3>
+          <p className="text-sm mt-1">{description}</p>
+          {canRetry && uuid && (
+            <button
+              onClick={() => refetch()}
+              className="mt-6 inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>{t('common.tryAgain')}</span>
+            </button>
+          )}
         </div>
       </div>
     );
@@ -150,8 +195,8 @@ export const BookingDetails: React.FC<BookingDetailsProps> = ({
       <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-8">
         <div className="text-center text-gray-500">
           <BookOpen className="h-12 w-12 mx-auto mb-4" />
-          <h3 className="text-lg font-semibold">No Booking Found</h3>
-          <p className="text-sm mt-1">Please check your booking ID and try again.</p>
+          <h3 className="text-lg font-semibold">{t('details.noBooking.title')}</h3>
+          <p className="text-sm mt-1">{t('details.noBooking.description')}</p>
         </div>
       </div>
     );
@@ -162,8 +207,8 @@ export const BookingDetails: React.FC<BookingDetailsProps> = ({
       <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-8">
         <div className="text-center text-gray-500">
           <BookOpen className="h-12 w-12 mx-auto mb-4" />
-          <h3 className="text-lg font-semibold">Booking Expired</h3>
-          <p className="text-sm mt-1">Your booking has expired. Please contact support.</p>
+          <h3 className="text-lg font-semibold">{t('details.expired.title')}</h3>
+          <p className="text-sm mt-1">{t('details.expired.description')}</p>
         </div>
       </div>
     );
@@ -173,34 +218,55 @@ export const BookingDetails: React.FC<BookingDetailsProps> = ({
     <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
       {/* Header */}
       <div className="bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-4 text-white">
-        <h2 className="text-xl font-semibold">Booking Details</h2>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">{t('details.title')}</h2>
+          {fetching && <RefreshCw className="h-4 w-4 animate-spin text-blue-100" aria-hidden="true" />}
+        </div>
         <p className="text-blue-100 text-sm mt-1">
-          Booking ID: {bookingDetails.bookingId}
+          {t('details.bookingId', { id: bookingDetails.bookingId })}
         </p>
       </div>
 
       <div className="p-6 space-y-6">
-        {/* Status Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div className={`p-4 rounded-lg border ${getStatusColor(bookingDetails.status)}`}>
+        {/* Background refresh failure - the last loaded data stays visible */}
+        {error && (
+          <div
+            role="alert"
+            className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-center justify-between text-sm text-amber-800"
+          >
+            <span>{t('details.refreshFailed', { error })}</span>
+            <button type="button" onClick={() => refetch()} className="font-medium underline">
+              {t('common.retry')}
+            </button>
+          </div>
+        )}
+
+        {/* Status Cards - announced when a payment or refresh changes them */}
+        <div
+          id={STATUS_ID}
+          tabIndex={-1}
+          aria-live="polite"
+          className="grid grid-cols-1 md:grid-cols-2 gap-4 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <div className={`p-4 rounded-lg border ${BOOKING_STATUS_STYLES[bookingDetails.status]}`}>
             <div className="flex items-center">
-              <CheckCircle className="h-5 w-5 mr-2" />
+              <BookingStatusIcon status={bookingDetails.status} className="h-5 w-5 mr-2 flex-shrink-0" />
               <div>
-                <p className="font-medium">Booking Status</p>
-                <p className="text-sm capitalize">{bookingDetails.status.replace('_', ' ')}</p>
+                <p className="font-medium">{t('details.bookingStatus')}</p>
+                <p className="text-sm">{t(`bookingStatus.${bookingDetails.status}`)}</p>
               </div>
             </div>
           </div>
           
-          <div className={`p-4 rounded-lg border ${getPaymentStatusColor(bookingDetails.paymentStatus)}`}>
+          <div className={`p-4 rounded-lg border ${PAYMENT_STATUS_STYLES[bookingDetails.paymentStatus]}`}>
             <div className="flex items-center">
-              <CreditCard className="h-5 w-5 mr-2" />
+              <PaymentStatusIcon status={bookingDetails.paymentStatus} className="h-5 w-5 mr-2 flex-shrink-0" />
               <div>
-                <p className="font-medium">Payment Status</p>
-                <p className="text-sm capitalize">{bookingDetails.paymentStatus}</p>
-                {bookingDetails.paymentAmount && (
+                <p className="font-medium">{t('details.paymentStatus')}</p>
+                <p className="text-sm">{t(`paymentStatus.${bookingDetails.paymentStatus}`)}</p>
+                {price && (
                   <p className="text-xs">
-                    ${bookingDetails.paymentAmount} {bookingDetails.paymentCurrency}
+                    {formatPrice(price.amount, price.currency)}
                   </p>
                 )}
               </div>
@@ -212,146 +278,270 @@ export const BookingDetails: React.FC<BookingDetailsProps> = ({
         <div className="border-t pt-6">
           <h3 className="text-lg font-semibold text-gray-900 flex items-center mb-4">
             <User className="h-5 w-5 mr-2" />
-            Personal Information
+            {t('details.personalInformation')}
           </h3>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Full Name
-              </label>
-              <p className="text-gray-900">{bookingDetails.userName}</p>
+              <dt className="block text-sm font-medium text-gray-700 mb-1">
+                {t('common.fullName')}
+              </dt>
+              <dd className="text-gray-900">{bookingDetails.userName}</dd>
             </div>
             
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Phone Number
-              </label>
-              <div className="flex items-center space-x-2">
-                <p className="text-gray-900">{bookingDetails.userPhone}</p>
+              <dt className="block text-sm font-medium text-gray-700 mb-1">
+                {t('common.phoneNumber')}
+              </dt>
+              <dd className="flex items-center space-x-2">
+                <span className="text-gray-900">{bookingDetails.userPhone}</span>
                 <button
+                  type="button"
                   onClick={() => copyToClipboard(bookingDetails.userPhone)}
-                  className="text-gray-400 hover:text-gray-600"
+                  aria-label={t('details.copyPhone')}
+                  title={t('details.copyPhone')}
+                  className="text-gray-500 hover:text-gray-700 rounded p-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
-                  <Copy className="h-4 w-4" />
+                  <Copy className="h-4 w-4" aria-hidden="true" />
                 </button>
-              </div>
+              </dd>
             </div>
-          </div>
+          </dl>
         </div>
 
         {/* Appointment Details */}
         <div className="border-t pt-6">
           <h3 className="text-lg font-semibold text-gray-900 flex items-center mb-4">
             <Calendar className="h-5 w-5 mr-2" />
-            Appointment Details
+            {t('details.appointmentDetails')}
           </h3>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Appointment Type
-              </label>
-                             <p className="text-gray-900 capitalize">
-                 {bookingDetails.appointmentType.toLowerCase().replace('_', ' ')}
-               </p>
+              <dt className="block text-sm font-medium text-gray-700 mb-1">
+                {t('common.appointmentType')}
+              </dt>
+              <dd className="text-gray-900">{t(`appointmentType.${bookingDetails.appointmentType}`)}</dd>
             </div>
             
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Date & Time
-              </label>
-              <p className="text-gray-900">{formatDate(bookingDetails.appointmentDate)}</p>
+              <dt className="block text-sm font-medium text-gray-700 mb-1">
+                {t('common.dateTime')}
+              </dt>
+              <dd>
+                <AppointmentTime
+                  date={bookingDetails.appointmentDate}
+                  tutorTimeZone={bookingDetails.tutorTimeZone}
+                  bookerTimeZone={bookingDetails.bookerTimeZone}
+                />
+              </dd>
             </div>
-          </div>
+          </dl>
+
+          {/* A booking that was confirmed before it was cancelled may already
+              be in the customer's calendar, so it offers the cancellation file */}
+          {(bookingDetails.status === 'confirmed' ||
+            (bookingDetails.status === 'cancelled' && bookingDetails.confirmedAt)) && (
+            <div className="mt-4">
+              <AddToCalendar booking={bookingDetails} magicLink={getMagicLinkUrl(bookingDetails.magicLinkId)} />
+            </div>
+          )}
         </div>
 
         {/* Additional Details */}
-        {bookingDetails.bookingDetails && Object.keys(bookingDetails.bookingDetails).length > 0 && (
+        {detailEntries.length > 0 && (
           <div className="border-t pt-6">
             <h3 className="text-lg font-semibold text-gray-900 flex items-center mb-4">
               <BookOpen className="h-5 w-5 mr-2" />
-              Additional Details
+              {t('details.additionalDetails')}
             </h3>
-            
-            <div className="bg-gray-50 rounded-lg p-4">
-              <pre className="text-sm text-gray-700 whitespace-pre-wrap">
-                {JSON.stringify(bookingDetails.bookingDetails, null, 2)}
-              </pre>
-            </div>
+
+            <dl className="bg-gray-50 rounded-lg p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+              {detailEntries.map(entry => (
+                <div key={entry.id} className={Array.isArray(entry.value) || entry.id === 'notes' ? 'md:col-span-2' : ''}>
+                  <dt className="text-sm font-medium text-gray-700">{entry.label}</dt>
+                  <dd className="text-gray-900 whitespace-pre-wrap">
+                    {Array.isArray(entry.value) ? (
+                      <ul className="list-disc list-inside">
+                        {entry.value.map((item, index) => (
+                          <li key={index}>{item}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      entry.value
+                    )}
+                  </dd>
+                </div>
+              ))}
+            </dl>
           </div>
         )}
 
         {/* Action Buttons */}
         <div className="border-t pt-6 space-y-4">
-          {bookingDetails.status === 'pending_confirmation' && (
-            <button
-              onClick={handleConfirmBooking}
-              disabled={loading}
-              className="w-full bg-green-600 hover:bg-green-700 text-white py-3 px-6 rounded-lg font-semibold flex items-center justify-center space-x-2 transition-all duration-200 disabled:opacity-50"
-            >
-              <CheckCircle className="h-5 w-5" />
-              <span>Confirm Booking</span>
-            </button>
+          {/* Which actions show is decided by services/bookingLifecycle.ts. Staff
+              confirm bookings from /admin; customers pay once it is confirmed. */}
+          {canTransition(bookingDetails, 'confirm', 'staff') && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start text-sm text-yellow-800">
+              <Clock className="h-5 w-5 mr-3 flex-shrink-0" />
+              <span>{t('details.awaitingConfirmation')}</span>
+            </div>
           )}
 
-          {bookingDetails.status === 'confirmed' && bookingDetails.paymentStatus === 'pending' && (
-            <div className="grid grid-cols-2 gap-4">
+          {/* An open checkout stays up until it finishes or is closed, even if a
+              refetch meanwhile reports the payment as processing */}
+          {(showCheckout || canTransition(bookingDetails, 'start_payment')) &&
+            uuid &&
+            price &&
+            (showCheckout ? (
+              <PaymentInterface
+                uuid={uuid}
+                amount={price.amount}
+                currency={price.currency}
+                onPaymentComplete={handleCheckoutComplete}
+                onPaymentFailed={handleCheckoutFailed}
+                onCancel={closeCheckout}
+              />
+            ) : (
               <button
-                onClick={() => handlePaymentUpdate('completed')}
-                disabled={paymentLoading}
-                className="bg-green-600 hover:bg-green-700 text-white py-3 px-6 rounded-lg font-semibold flex items-center justify-center space-x-2 transition-all duration-200 disabled:opacity-50"
+                id={PAY_BUTTON_ID}
+                type="button"
+                onClick={() => openCheckout(price.amount, price.currency)}
+                className="w-full bg-gradient-to-r from-green-700 to-green-800 text-white py-3 px-6 rounded-lg font-semibold flex items-center justify-center space-x-2 hover:from-green-800 hover:to-green-900 transition-all duration-200 shadow-lg hover:shadow-xl"
               >
-                {paymentLoading ? (
-                  <RefreshCw className="h-5 w-5 animate-spin" />
+                <CreditCard className="h-5 w-5" aria-hidden="true" />
+                <span>
+                  {t(bookingDetails.paymentStatus === 'failed' ? 'details.retryPayment' : 'details.payNow', {
+                    amount: formatPrice(price.amount, price.currency),
+                  })}
+                </span>
+              </button>
+            ))}
+
+          {bookingDetails.paymentStatus === 'processing' && !showCheckout && uuid && price && (
+            <PaymentRecovery booking={bookingDetails} onRecovered={() => openCheckout(price.amount, price.currency)} />
+          )}
+
+          {bookingDetails.status === 'cancelled' && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start text-sm text-red-800">
+              <XCircle className="h-5 w-5 mr-3 flex-shrink-0" />
+              <div>
+                <p className="font-medium">
+                  {bookingDetails.cancellationReason
+                    ? t('details.cancelledWithReason', {
+                        reason: t(`cancellationReason.${bookingDetails.cancellationReason}`).toLocaleLowerCase(locale),
+                      })
+                    : t('details.cancelled')}
+                </p>
+                {bookingDetails.cancellationNote && <p className="mt-1 italic">“{bookingDetails.cancellationNote}”</p>}
+                {bookingDetails.paymentStatus === 'refunded' ? (
+                  <p className="mt-1">{t('details.refunded')}</p>
                 ) : (
-                  <CreditCard className="h-5 w-5" />
+                  bookingDetails.refundAmount !== undefined &&
+                  price && (
+                    <p className="mt-1">
+                      {t('details.refundRequested', {
+                        amount: formatPrice(bookingDetails.refundAmount, bookingDetails.paymentCurrency ?? price.currency),
+                      })}
+                    </p>
+                  )
                 )}
-                <span>Mark Paid</span>
+              </div>
+            </div>
+          )}
+
+          {/* Customers can cancel until the appointment starts, and move it
+              until the cancellation window opens */}
+          {terms?.changeable && uuid && (
+            changePanel === 'cancel' ? (
+              <BookingCancellation booking={bookingDetails} onClose={() => setChangePanel(null)} />
+            ) : changePanel === 'reschedule' ? (
+              <BookingReschedule booking={bookingDetails} onClose={() => setChangePanel(null)} />
+            ) : (
+              <div className="space-y-2">
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    onClick={() => openChangePanel('reschedule')}
+                    disabled={!terms.canReschedule}
+                    className="flex-1 border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed py-2 px-4 rounded-lg font-medium flex items-center justify-center space-x-2 transition-all duration-200"
+                  >
+                    <CalendarClock className="h-4 w-4" />
+                    <span>{t('details.reschedule')}</span>
+                  </button>
+                  <button
+                    onClick={() => openChangePanel('cancel')}
+                    className="flex-1 border border-red-200 text-red-700 hover:bg-red-50 py-2 px-4 rounded-lg font-medium flex items-center justify-center space-x-2 transition-all duration-200"
+                  >
+                    <XCircle className="h-4 w-4" />
+                    <span>{t('details.cancelBooking')}</span>
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {terms.isLate
+                    ? t('details.lateChange', { count: FREE_CHANGE_WINDOW_HOURS })
+                    : t('details.freeChangesUntil', { date: formatDateTime(terms.freeUntil) })}
+                </p>
+              </div>
+            )
+          )}
+        </div>
+
+        {/* Status Timeline */}
+        <div className="border-t pt-6">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center mb-4">
+            <History className="h-5 w-5 mr-2" />
+            {t('details.timeline')}
+          </h3>
+          <BookingTimeline booking={bookingDetails} />
+        </div>
+
+        {/* Link Activity */}
+        <div className="border-t pt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <BarChart3 className="h-5 w-5 mr-2" />
+              {t('details.linkActivity')}
+            </h3>
+            <div className="flex items-center space-x-4">
+              <button
+                type="button"
+                onClick={() => copyBookingLink(bookingDetails.magicLinkId)}
+                className="text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center"
+              >
+                <Link2 className="h-4 w-4 mr-1" />
+                {t('details.copyLink')}
               </button>
-              
               <button
-                onClick={() => handlePaymentUpdate('failed')}
-                disabled={paymentLoading}
-                className="bg-red-600 hover:bg-red-700 text-white py-3 px-6 rounded-lg font-semibold flex items-center justify-center space-x-2 transition-all duration-200 disabled:opacity-50"
+                type="button"
+                onClick={() => setShowLinkAnalytics(show => !show)}
+                aria-expanded={showLinkAnalytics}
+                className="text-sm text-blue-600 hover:text-blue-700 font-medium"
               >
-                <AlertCircle className="h-5 w-5" />
-                <span>Mark Failed</span>
+                {showLinkAnalytics ? t('details.hideDetails') : t('details.showDetails')}
               </button>
             </div>
-          )}
+          </div>
+          <MagicLinkAnalytics booking={bookingDetails} compact={!showLinkAnalytics} />
         </div>
 
-        {/* Timestamps */}
+        {/* Your Data */}
         <div className="border-t pt-6">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-500">
-            <div>
-              <p className="font-medium">Created</p>
-              <p>{formatDate(bookingDetails.createdAt)}</p>
-            </div>
-            
-            {bookingDetails.confirmedAt && (
-              <div>
-                <p className="font-medium">Confirmed</p>
-                <p>{formatDate(bookingDetails.confirmedAt)}</p>
-              </div>
-            )}
-            
-            {bookingDetails.lastAccessedAt && (
-              <div>
-                <p className="font-medium">Last Accessed</p>
-                <p>{formatDate(bookingDetails.lastAccessedAt)} ({bookingDetails.accessCount} times)</p>
-              </div>
-            )}
-          </div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center mb-4">
+            <ShieldCheck className="h-5 w-5 mr-2" />
+            {t('details.yourData')}
+          </h3>
+          <BookingDataRequests booking={bookingDetails} />
         </div>
 
-        {/* Copy Success Message */}
-        {copied && (
-          <div className="fixed top-4 right-4 bg-green-600 text-white px-4 py-2 rounded-lg shadow-lg">
-            Copied to clipboard!
-          </div>
-        )}
+        {/* Copy Success Message - the live region stays mounted so the
+            message is announced when it appears */}
+        <div role="status" className="fixed top-4 right-4">
+          {copied && (
+            <div className="bg-green-700 text-white px-4 py-2 rounded-lg shadow-lg">
+              {t('details.copied')}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -1,4 +1,5 @@
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import {
   Calendar,
   Clock,
@@ -6,12 +7,110 @@ import {
   Phone,
   BookOpen,
   Send,
-  CheckCircle,
   AlertCircle,
   ExternalLink,
+  ArrowLeft,
+  ArrowRight,
+  ClipboardCheck,
+  RotateCcw,
 } from "lucide-react";
-import { BookingFormData, AppointmentType } from "../types/booking";
+import { APPOINTMENT_TYPES, BookingFormData, AppointmentType } from "../types/booking";
 import { useBooking } from "../hooks/useBooking";
+import { useI18n } from "../hooks/useI18n";
+import { useFocusAfterRender } from "../hooks/useFocusAfterRender";
+import {
+  CURRENCIES,
+  Currency,
+  DEFAULT_CURRENCY,
+  DURATION_OPTIONS,
+  checkPromoCode,
+  quoteAppointment,
+} from "../services/pricing";
+import { PriceQuote } from "./PriceQuote";
+import { SlotPicker } from "./SlotPicker";
+import { BookingReview } from "./BookingReview";
+import { BookingSuccess } from "./BookingSuccess";
+import { getViewerTimeZone } from "../services/timeZone";
+import { getBookingWindow } from "../services/availability";
+import { useAvailability } from "../hooks/useAvailability";
+import {
+  GROUP_SIZE,
+  TypeFieldDefinition,
+  getTypeFields,
+  resizeAttendees,
+} from "../services/appointmentFields";
+import {
+  BOOKING_FIELDS,
+  BookingField,
+  DURATION_LIMITS,
+  NOTES_MAX_LENGTH,
+  mapServerFieldErrors,
+  validateBooking,
+  validateBookingField,
+} from "../services/bookingValidation";
+import {
+  BOOKING_STEPS,
+  BookingStep,
+  clearBookingDraft,
+  createIdempotencyKey,
+  loadBookingDraft,
+  saveBookingDraft,
+} from "../services/bookingDraft";
+import { existingBookingUuid } from "../services/apiError";
+import { track } from "../services/tracking";
+
+type FormErrors = Partial<Record<BookingField, string>>;
+
+const fieldId = (field: BookingField) => `booking-${field.replace(".", "-")}`;
+const errorId = (field: BookingField) => `${fieldId(field)}-error`;
+
+const durationOptionsFor = (appointmentType: AppointmentType) =>
+  DURATION_OPTIONS.filter(
+    (minutes) =>
+      minutes >= DURATION_LIMITS[appointmentType].min &&
+      minutes <= DURATION_LIMITS[appointmentType].max
+  );
+
+const EMPTY_FORM: BookingFormData = {
+  userName: "",
+  userPhone: "",
+  appointmentType: "CONSULTATION",
+  // ISO start of the slot picked in SlotPicker
+  appointmentDate: "",
+  bookingDetails: {
+    subject: "",
+    level: "",
+    duration: 60,
+    notes: "",
+  },
+};
+
+// Step names and headings are the `form.steps.*` messages
+const STEP_ICONS: Record<BookingStep, typeof User> = {
+  details: User,
+  appointment: Calendar,
+  extras: BookOpen,
+  review: ClipboardCheck,
+};
+
+const LEVELS = ["beginner", "intermediate", "advanced", "expert"] as const;
+
+// The wizard step a field is entered on; per-type fields sit with the
+// appointment type that asks for them
+const stepForField = (field: BookingField): BookingStep => {
+  if (field === "userName" || field === "userPhone") return "details";
+  if (field === "bookingDetails.subject" || field === "bookingDetails.notes") return "extras";
+  return "appointment";
+};
+
+const STEP_HEADING_ID = "booking-step-heading";
+const SUBMIT_ERROR_ID = "booking-submit-error";
+const LEVEL_ID = "booking-level";
+const PROMO_CODE_ID = "booking-promo-code";
+const CURRENCY_ID = "booking-currency";
+
+// Autosave waits for a pause in typing
+const DRAFT_SAVE_DELAY_MS = 400;
 
 interface BookingFormProps {
   onSubmit?: (data: BookingFormData) => void;
@@ -22,60 +121,238 @@ export const BookingForm: React.FC<BookingFormProps> = ({
   onSubmit,
   loading: externalLoading = false,
 }) => {
-  const {
-    loading: apiLoading,
-    error,
-    success,
-    bookingResponse,
-    createBooking,
-    clearState,
-  } = useBooking();
-
-  const isLoading = externalLoading || apiLoading;
-  const [formData, setFormData] = useState<BookingFormData>({
-    userName: "",
-    userPhone: "",
-    appointmentType: "CONSULTATION",
-    appointmentDate: new Date().toISOString().slice(0, 16),
-    bookingDetails: {
-      subject: "",
-      level: "",
-      duration: 60,
-      notes: "",
-    },
-  });
+  const { locale, t, formatDateTime } = useI18n();
+  const { create } = useBooking();
+  const navigate = useNavigate();
+  const { error, success, data: bookingResponse } = create;
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const isLoading = externalLoading || create.loading;
+
+  // Picks up where the user left off, e.g. after a refresh
+  const [draft] = useState(() => loadBookingDraft());
+  const [restoredAt, setRestoredAt] = useState(draft?.savedAt ?? null);
+  const [formData, setFormData] = useState<BookingFormData>(
+    draft?.formData ?? EMPTY_FORM
+  );
+  const [promoCode, setPromoCode] = useState(draft?.promoCode ?? "");
+  const [currency, setCurrency] = useState<Currency>(draft?.currency ?? DEFAULT_CURRENCY);
+  const [step, setStep] = useState<BookingStep>(draft?.step ?? "details");
+  const [idempotencyKey, setIdempotencyKey] = useState(
+    () => draft?.idempotencyKey ?? createIdempotencyKey()
+  );
+  const [fieldErrors, setFieldErrors] = useState<FormErrors>({});
+
+  // Guards against a second submit before the first one has re-rendered the
+  // form as locked
+  const submitting = useRef(false);
 
-    // Clear previous state
-    clearState();
+  // E.g. the first field with an error after jumping back to its step
+  const focusAfterRender = useFocusAfterRender();
 
-    // Basic validation
-    if (!formData.userName.trim()) {
-      console.error("User name is required");
+  useEffect(() => {
+    if (success) return;
+
+    const pristine =
+      step === "details" &&
+      !promoCode.trim() &&
+      currency === DEFAULT_CURRENCY &&
+      JSON.stringify(formData) === JSON.stringify(EMPTY_FORM);
+    if (pristine) {
+      clearBookingDraft();
       return;
     }
 
-    if (!formData.userPhone.trim()) {
-      console.error("Phone number is required");
+    const timer = window.setTimeout(
+      () => saveBookingDraft({ formData, promoCode, currency, step, idempotencyKey }),
+      DRAFT_SAVE_DELAY_MS
+    );
+    return () => window.clearTimeout(timer);
+  }, [formData, promoCode, currency, step, idempotencyKey, success]);
+
+  useEffect(() => {
+    if (!success) track("booking_step_viewed", { step });
+  }, [step, success]);
+
+  // A failed submit that no field explains takes focus, so it is read out;
+  // the others move focus to the field to fix instead
+  const submitError = create.apiError;
+  useEffect(() => {
+    if (!submitError || submitError.kind === "conflict") return;
+    if (
+      submitError.kind === "validation" &&
+      Object.keys(mapServerFieldErrors(submitError.fieldErrors).fields).length > 0
+    ) {
       return;
     }
+    document.getElementById(SUBMIT_ERROR_ID)?.focus();
+  }, [submitError]);
+
+  const stepIndex = BOOKING_STEPS.indexOf(step);
+
+  // Same cached range as SlotPicker, used for the business-hours check
+  const { from, to } = getBookingWindow(getViewerTimeZone());
+  const { data: availability } = useAvailability(from, to);
+  const validationContext = useMemo(() => ({ availability, locale }), [availability, locale]);
+
+  const promoCheck = useMemo(
+    () =>
+      promoCode.trim()
+        ? checkPromoCode(promoCode, formData.appointmentType, currency, locale)
+        : null,
+    [promoCode, formData.appointmentType, currency, locale]
+  );
+
+  // Live quote; the backend prices the booking again on submit and refuses a
+  // total that differs, then checkout charges the stored total
+  const quote = useMemo(
+    () =>
+      quoteAppointment(
+        {
+          appointmentType: formData.appointmentType,
+          durationMinutes: formData.bookingDetails.duration,
+          level: formData.bookingDetails.level,
+          promoCode: promoCheck?.valid ? promoCheck.code : undefined,
+          currency,
+        },
+        locale
+      ),
+    [
+      formData.appointmentType,
+      formData.bookingDetails.duration,
+      formData.bookingDetails.level,
+      promoCheck,
+      currency,
+      locale,
+    ]
+  );
+
+  const goToStep = (next: BookingStep, focusId: string = STEP_HEADING_ID) => {
+    setStep(next);
+    focusAfterRender(focusId);
+  };
+
+  const validateStep = (target: BookingStep): FormErrors => {
+    const errors: FormErrors = {};
+    for (const field of BOOKING_FIELDS) {
+      if (stepForField(field) !== target) continue;
+      const message = validateBookingField(field, formData, validationContext);
+      if (message) errors[field] = message;
+    }
+    return errors;
+  };
 
-    if (!formData.appointmentDate) {
-      console.error("Appointment date is required");
+  const handleNext = () => {
+    const errors = validateStep(step);
+    if (Object.keys(errors).length > 0) {
+      showErrors(errors);
       return;
     }
+    goToStep(BOOKING_STEPS[stepIndex + 1]);
+  };
+
+  const handleBack = () => {
+    if (stepIndex > 0) goToStep(BOOKING_STEPS[stepIndex - 1]);
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setPromoCode("");
+    setCurrency(DEFAULT_CURRENCY);
+    setFieldErrors({});
+    setStep("details");
+    setRestoredAt(null);
+    // A new booking is a new submission
+    setIdempotencyKey(createIdempotencyKey());
+    clearBookingDraft();
+  };
+
+  const handleStartOver = () => {
+    create.reset();
+    resetForm();
+    focusAfterRender(fieldId("userName"));
+  };
 
+  const handleBookAnother = () => {
+    create.reset();
+    resetForm();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Enter on an earlier step moves forward instead of submitting
+    if (step !== "review") {
+      handleNext();
+      return;
+    }
+
+    if (submitting.current) return;
+
+    // Clear the previous attempt's error; the input itself is kept for retry
+    create.reset();
+
+    const validation = validateBooking(formData, validationContext);
+    if (!validation.valid) {
+      showErrors(validation.errors);
+      return;
+    }
+    setFieldErrors({});
+
+    submitting.current = true;
+    track("confirm_clicked", { appointmentType: formData.appointmentType });
     try {
       // Ensure appointmentDate is properly formatted as ISO string
       const formattedData = {
-        ...formData,
-        appointmentDate: new Date(formData.appointmentDate).toISOString(),
+        ...validation.value,
+        appointmentDate: new Date(validation.value.appointmentDate).toISOString(),
+        bookerTimeZone: getViewerTimeZone(),
+        bookingDetails: {
+          ...validation.value.bookingDetails,
+          quote: {
+            total: quote.total,
+            currency: quote.currency,
+            promoCode: quote.discount?.code,
+          },
+        },
       };
 
-      // Use the API hook to create booking
-      await createBooking(formattedData);
+      // Retries of this draft reuse the key, so they cannot book twice
+      const response = await create.mutate({ data: formattedData, idempotencyKey });
+      if (response.success && response.data) {
+        track(
+          "booking_created",
+          { appointmentType: formattedData.appointmentType },
+          { bookingUuid: response.data.uuid }
+        );
+      } else if (response.apiError) {
+        track("booking_failed", { reason: response.apiError.kind });
+      }
+
+      // An earlier attempt already created it; show that booking instead
+      const existingUuid = existingBookingUuid(response.apiError);
+      if (existingUuid) {
+        clearBookingDraft();
+        navigate(`/booking/${existingUuid}`);
+        return;
+      }
+
+      // The slot was taken while the form was open; make the user pick again.
+      // A price change stays on the review step with the message shown.
+      if (response.apiError?.kind === "conflict" && response.apiError.code !== "PRICE_CHANGED") {
+        setFormData((prev) => ({ ...prev, appointmentDate: "" }));
+        goToStep("appointment", fieldId("appointmentDate"));
+        return;
+      }
+
+      // Show the server's field errors next to the matching fields
+      if (response.apiError?.kind === "validation") {
+        showErrors(mapServerFieldErrors(response.apiError.fieldErrors).fields);
+        return;
+      }
+
+      if (response.success) {
+        clearBookingDraft();
+      }
 
       // Also call the external onSubmit if provided
       if (onSubmit) {
@@ -83,249 +360,660 @@ export const BookingForm: React.FC<BookingFormProps> = ({
       }
     } catch (error) {
       console.error("Form submission error:", error);
+    } finally {
+      submitting.current = false;
     }
   };
 
-  const handleInputChange = (field: keyof BookingFormData, value: any) => {
-    setFormData((prev) => ({
+  // Shows the errors and takes the user to the first of them, switching step
+  // if it was entered earlier
+  const showErrors = (errors: FormErrors) => {
+    setFieldErrors((prev) => ({ ...prev, ...errors }));
+    const first = BOOKING_FIELDS.find((field) => errors[field]);
+    if (first) goToStep(stepForField(first), fieldId(first));
+  };
+
+  // Checks one field; called on blur, and on change once it shows an error
+  const validateField = (field: BookingField, data: BookingFormData = formData) => {
+    setFieldErrors((prev) => ({
       ...prev,
-      [field]: value,
+      [field]: validateBookingField(field, data, validationContext) ?? undefined,
     }));
   };
 
+  const updateFormData = (next: BookingFormData, field: BookingField) => {
+    setFormData(next);
+    if (fieldErrors[field]) validateField(field, next);
+  };
+
+  const handleInputChange = (field: keyof BookingFormData, value: any) => {
+    const next = { ...formData, [field]: value };
+
+    // Keep the duration within what the new appointment type allows
+    if (field === "appointmentType") {
+      const options = durationOptionsFor(value);
+      const duration = next.bookingDetails.duration ?? 60;
+      if (!options.includes(duration as (typeof options)[number])) {
+        next.bookingDetails = {
+          ...next.bookingDetails,
+          duration: options.reduce((best, option) =>
+            Math.abs(option - duration) < Math.abs(best - duration) ? option : best
+          ),
+        };
+      }
+
+      // Group sessions start with the smallest group and a name slot each
+      const asksForGroup = getTypeFields(value).some(
+        (typeField) => typeField.key === "participantCount"
+      );
+      if (asksForGroup && next.bookingDetails.participantCount === undefined) {
+        next.bookingDetails = {
+          ...next.bookingDetails,
+          participantCount: GROUP_SIZE.min,
+          attendeeNames: resizeAttendees(next.bookingDetails.attendeeNames, GROUP_SIZE.min),
+        };
+      }
+    }
+
+    updateFormData(next, field as BookingField);
+  };
+
+  const handleParticipantCountChange = (raw: string) => {
+    const count = raw === "" ? undefined : Number(raw);
+    updateFormData(
+      {
+        ...formData,
+        bookingDetails: {
+          ...formData.bookingDetails,
+          participantCount: count,
+          // Capped so a typo cannot render hundreds of name inputs
+          attendeeNames: resizeAttendees(
+            formData.bookingDetails.attendeeNames,
+            Math.min(count ?? 0, GROUP_SIZE.max)
+          ),
+        },
+      },
+      "bookingDetails.participantCount"
+    );
+  };
+
+  const handleAttendeeChange = (index: number, name: string) => {
+    const attendeeNames = [...(formData.bookingDetails.attendeeNames ?? [])];
+    attendeeNames[index] = name;
+    handleBookingDetailsChange("attendeeNames", attendeeNames);
+  };
+
   const handleBookingDetailsChange = (field: string, value: any) => {
-    setFormData((prev) => ({
-      ...prev,
-      bookingDetails: {
-        ...prev.bookingDetails,
-        [field]: value,
+    updateFormData(
+      {
+        ...formData,
+        bookingDetails: {
+          ...formData.bookingDetails,
+          [field]: value,
+        },
       },
-    }));
+      `bookingDetails.${field}` as BookingField
+    );
+  };
+
+  const inputClassName = (field: BookingField) =>
+    `w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+      fieldErrors[field] ? "border-red-400" : "border-gray-300"
+    }`;
+
+  // `hintId` ties help text to the field along with any error
+  const fieldProps = (field: BookingField, hintId?: string) => ({
+    id: fieldId(field),
+    "aria-invalid": fieldErrors[field] ? true : undefined,
+    "aria-describedby":
+      [hintId, fieldErrors[field] ? errorId(field) : undefined].filter(Boolean).join(" ") ||
+      undefined,
+    onBlur: () => validateField(field),
+  });
+
+  const renderFieldError = (field: BookingField) =>
+    fieldErrors[field] && (
+      <p id={errorId(field)} role="alert" className="text-red-600 text-xs mt-1">
+        {fieldErrors[field]}
+      </p>
+    );
+
+  // Inputs for the extra fields the selected appointment type asks for
+  const renderTypeField = (typeField: TypeFieldDefinition) => {
+    const path = `bookingDetails.${typeField.key}` as const;
+    const label = (
+      <label
+        htmlFor={fieldId(path)}
+        className="block text-sm font-medium text-gray-700 mb-2"
+      >
+        {t(typeField.label)}
+        {typeField.required && <span className="text-red-600" aria-hidden="true"> *</span>}
+      </label>
+    );
+
+    switch (typeField.kind) {
+      case "number":
+        return (
+          <div key={typeField.key}>
+            {label}
+            <input
+              type="number"
+              min={typeField.min}
+              max={typeField.max}
+              required={typeField.required}
+              {...fieldProps(path, typeField.hint ? `${fieldId(path)}-hint` : undefined)}
+              value={formData.bookingDetails.participantCount ?? ""}
+              onChange={(e) => handleParticipantCountChange(e.target.value)}
+              className={inputClassName(path)}
+            />
+            {typeField.hint && (
+              <p id={`${fieldId(path)}-hint`} className="text-xs text-gray-500 mt-1">
+                {t(typeField.hint, { min: typeField.min, max: typeField.max })}
+              </p>
+            )}
+            {renderFieldError(path)}
+          </div>
+        );
+      case "select":
+        return (
+          <div key={typeField.key}>
+            {label}
+            <select
+              required={typeField.required}
+              {...fieldProps(path)}
+              value={formData.bookingDetails[typeField.key] ?? ""}
+              onChange={(e) =>
+                handleBookingDetailsChange(typeField.key, e.target.value)
+              }
+              className={inputClassName(path)}
+            >
+              <option value="">{t("form.selectOption", { label: t(typeField.label) })}</option>
+              {typeField.options.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {t(option.label)}
+                </option>
+              ))}
+            </select>
+            {renderFieldError(path)}
+          </div>
+        );
+      case "text":
+        return (
+          <div key={typeField.key}>
+            {label}
+            <input
+              type="text"
+              maxLength={typeField.maxLength}
+              required={typeField.required}
+              {...fieldProps(path)}
+              value={formData.bookingDetails[typeField.key] ?? ""}
+              onChange={(e) =>
+                handleBookingDetailsChange(typeField.key, e.target.value)
+              }
+              className={inputClassName(path)}
+              placeholder={typeField.placeholder && t(typeField.placeholder)}
+            />
+            {renderFieldError(path)}
+          </div>
+        );
+      case "list": {
+        const names = formData.bookingDetails.attendeeNames ?? [];
+        return (
+          <fieldset
+            key={typeField.key}
+            className="md:col-span-2"
+            aria-describedby={fieldErrors[path] ? errorId(path) : undefined}
+          >
+            <legend className="block text-sm font-medium text-gray-700 mb-2">
+              {t(typeField.label)}
+              {typeField.required && <span className="text-red-600" aria-hidden="true"> *</span>}
+            </legend>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {names.map((name, index) => (
+                <input
+                  key={index}
+                  type="text"
+                  // The first input is the focus target for this field's error
+                  id={index === 0 ? fieldId(path) : `${fieldId(path)}-${index}`}
+                  aria-label={t("form.numberedItem", { item: t(typeField.itemLabel), number: index + 1 })}
+                  aria-required={typeField.required || undefined}
+                  aria-invalid={fieldErrors[path] && !name.trim() ? true : undefined}
+                  maxLength={typeField.maxItemLength}
+                  value={name}
+                  onChange={(e) => handleAttendeeChange(index, e.target.value)}
+                  onBlur={() => validateField(path)}
+                  className={inputClassName(path)}
+                  placeholder={t("form.numberedItem", { item: t(typeField.itemLabel), number: index + 1 })}
+                />
+              ))}
+            </div>
+            {names.length === 0 && (
+              <p className="text-xs text-gray-500">
+                {t("form.setParticipantsFirst")}
+              </p>
+            )}
+            {renderFieldError(path)}
+          </fieldset>
+        );
+      }
+    }
   };
 
-  // Generate default date/time (tomorrow at 2 PM)
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  tomorrow.setHours(14, 0, 0, 0);
-  const defaultDateTime = tomorrow.toISOString().slice(0, 16);
+  const serverMessages =
+    create.apiError?.kind === "validation"
+      ? mapServerFieldErrors(create.apiError.fieldErrors).unmatched
+      : [];
+
+  const handleSlotChange = useCallback((start: string) => {
+    setFormData((prev) => ({ ...prev, appointmentDate: start }));
+    if (start) {
+      setFieldErrors((prev) => ({ ...prev, appointmentDate: undefined }));
+    }
+  }, []);
+
+  if (success && bookingResponse) {
+    return (
+      <BookingSuccess booking={bookingResponse} appointment={formData} onBookAnother={handleBookAnother} />
+    );
+  }
+
+  const StepIcon = STEP_ICONS[step];
 
   return (
     <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
       {/* Header */}
       <div className="bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-4 text-white">
-        <h2 className="text-xl font-semibold">Create New Booking</h2>
+        <h2 className="text-xl font-semibold">{t("form.title")}</h2>
         <p className="text-blue-100 text-sm mt-1">
-          Fill out the form to schedule your appointment
+          {t("form.stepProgress", { step: stepIndex + 1, total: BOOKING_STEPS.length })}
         </p>
+        <ol className="flex flex-wrap gap-2 mt-3 text-sm">
+          {BOOKING_STEPS.map((item, index) => (
+            <li
+              key={item}
+              aria-current={item === step ? "step" : undefined}
+              className={`flex items-center space-x-2 px-3 py-1 rounded-full ${
+                item === step
+                  ? "bg-white text-blue-700 font-semibold"
+                  : index < stepIndex
+                  ? "bg-blue-500 text-white"
+                  : "bg-blue-800/40 text-blue-100"
+              }`}
+            >
+              <span>{index + 1}.</span>
+              <span>{t(`form.steps.${item}.label`)}</span>
+            </li>
+          ))}
+        </ol>
       </div>
 
+      {restoredAt && (
+        <div
+          role="status"
+          className="bg-blue-50 border-b border-blue-100 px-6 py-3 flex items-center justify-between text-sm text-blue-800"
+        >
+          <span>
+            {t("form.restored", { date: formatDateTime(restoredAt) })}
+          </span>
+          <button
+            type="button"
+            onClick={handleStartOver}
+            disabled={isLoading}
+            className="inline-flex items-center space-x-1 text-blue-700 hover:text-blue-800 font-medium disabled:opacity-50"
+          >
+            <RotateCcw className="h-4 w-4" aria-hidden="true" />
+            <span>{t("form.startOver")}</span>
+          </button>
+        </div>
+      )}
+
       {/* Form */}
-      <form onSubmit={handleSubmit} className="p-6 space-y-6">
-        {/* Personal Information */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
-            <User className="h-5 w-5 mr-2" />
-            Personal Information
-          </h3>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Full Name
-              </label>
-              <input
-                type="text"
-                required
-                value={formData.userName}
-                onChange={(e) => handleInputChange("userName", e.target.value)}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-                placeholder="Enter your full name"
-              />
-            </div>
+      <form onSubmit={handleSubmit} noValidate className="p-6 space-y-6">
+        {/* Locked while a submission is in flight */}
+        <fieldset disabled={isLoading} aria-busy={isLoading} className="space-y-6 min-w-0">
+          <div className="space-y-4">
+            <h3
+              id={STEP_HEADING_ID}
+              tabIndex={-1}
+              className="text-lg font-semibold text-gray-900 flex items-center focus:outline-none"
+            >
+              <StepIcon className="h-5 w-5 mr-2" aria-hidden="true" />
+              {t(`form.steps.${step}.title`)}
+            </h3>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Phone Number
-              </label>
-              <input
-                type="tel"
-                required
-                value={formData.userPhone}
-                onChange={(e) => handleInputChange("userPhone", e.target.value)}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-                placeholder="+1 (555) 123-4567"
-              />
-            </div>
-          </div>
-        </div>
+            {step === "details" && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label
+                    htmlFor={fieldId("userName")}
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    {t("common.fullName")}
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    autoComplete="name"
+                    value={formData.userName}
+                    onChange={(e) => handleInputChange("userName", e.target.value)}
+                    {...fieldProps("userName")}
+                    className={inputClassName("userName")}
+                    placeholder={t("form.fullNamePlaceholder")}
+                  />
+                  {renderFieldError("userName")}
+                </div>
 
-        {/* Appointment Details */}
-        <div className="space-y-4 border-t pt-6">
-          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
-            <Calendar className="h-5 w-5 mr-2" />
-            Appointment Details
-          </h3>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Appointment Type
-              </label>
-              <select
-                value={formData.appointmentType}
-                onChange={(e) =>
-                  handleInputChange(
-                    "appointmentType",
-                    e.target.value as AppointmentType
-                  )
-                }
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-              >
-                <option value="CONSULTATION">Consultation</option>
-                <option value="TUTORIAL">Tutorial Session</option>
-                <option value="ASSESSMENT">Assessment</option>
-                <option value="GROUP_SESSION">Group Session</option>
-                <option value="WORKSHOP">Workshop</option>
-              </select>
-            </div>
+                <div>
+                  <label
+                    htmlFor={fieldId("userPhone")}
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    {t("common.phoneNumber")}
+                  </label>
+                  <input
+                    type="tel"
+                    required
+                    autoComplete="tel"
+                    value={formData.userPhone}
+                    onChange={(e) => handleInputChange("userPhone", e.target.value)}
+                    {...fieldProps("userPhone")}
+                    className={inputClassName("userPhone")}
+                    placeholder="+1 (555) 123-4567"
+                  />
+                  {renderFieldError("userPhone")}
+                </div>
+              </div>
+            )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Date & Time
-              </label>
-              <input
-                type="datetime-local"
-                required
-                value={formData.appointmentDate || defaultDateTime}
-                onChange={(e) =>
-                  handleInputChange("appointmentDate", e.target.value)
-                }
-                min={new Date().toISOString().slice(0, 16)}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-              />
-            </div>
-          </div>
-        </div>
+            {step === "appointment" && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label
+                      htmlFor={fieldId("appointmentType")}
+                      className="block text-sm font-medium text-gray-700 mb-2"
+                    >
+                      {t("common.appointmentType")}
+                    </label>
+                    <select
+                      {...fieldProps("appointmentType")}
+                      value={formData.appointmentType}
+                      onChange={(e) =>
+                        handleInputChange(
+                          "appointmentType",
+                          e.target.value as AppointmentType
+                        )
+                      }
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    >
+                      {APPOINTMENT_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                          {t(`appointmentType.${type}`)}
+                        </option>
+                      ))}
+                    </select>
+                    {renderFieldError("appointmentType")}
+                  </div>
 
-        {/* Additional Details */}
-        <div className="space-y-4 border-t pt-6">
-          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
-            <BookOpen className="h-5 w-5 mr-2" />
-            Additional Details
-          </h3>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Subject
-              </label>
-              <input
-                type="text"
-                value={formData.bookingDetails.subject || ""}
-                onChange={(e) =>
-                  handleBookingDetailsChange("subject", e.target.value)
-                }
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-                placeholder="Mathematics, Science, etc."
-              />
-            </div>
+                  <div>
+                    <label
+                      htmlFor={fieldId("bookingDetails.duration")}
+                      className="block text-sm font-medium text-gray-700 mb-2"
+                    >
+                      {t("form.duration")}
+                    </label>
+                    <select
+                      {...fieldProps("bookingDetails.duration")}
+                      value={formData.bookingDetails.duration ?? 60}
+                      onChange={(e) =>
+                        handleBookingDetailsChange("duration", Number(e.target.value))
+                      }
+                      className={inputClassName("bookingDetails.duration")}
+                    >
+                      {durationOptionsFor(formData.appointmentType).map((minutes) => (
+                        <option key={minutes} value={minutes}>
+                          {t("form.durationOption", { count: minutes })}
+                        </option>
+                      ))}
+                    </select>
+                    {renderFieldError("bookingDetails.duration")}
+                  </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Level
-              </label>
-              <select
-                value={formData.bookingDetails.level || ""}
-                onChange={(e) =>
-                  handleBookingDetailsChange("level", e.target.value)
-                }
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-              >
-                <option value="">Select Level</option>
-                <option value="beginner">Beginner</option>
-                <option value="intermediate">Intermediate</option>
-                <option value="advanced">Advanced</option>
-                <option value="expert">Expert</option>
-              </select>
-            </div>
-          </div>
+                  {getTypeFields(formData.appointmentType).map(renderTypeField)}
+                </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Additional Notes
-            </label>
-            <textarea
-              value={formData.bookingDetails.notes || ""}
-              onChange={(e) =>
-                handleBookingDetailsChange("notes", e.target.value)
-              }
-              rows={3}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-              placeholder="Any special requirements or notes..."
-            />
-          </div>
-        </div>
+                <div>
+                  <label
+                    id={`${fieldId("appointmentDate")}-label`}
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    {t("common.dateTime")}
+                  </label>
+                  {/* Focus target for the error summary; the picker itself is a set of buttons */}
+                  <div
+                    id={fieldId("appointmentDate")}
+                    tabIndex={-1}
+                    role="group"
+                    aria-labelledby={`${fieldId("appointmentDate")}-label`}
+                    aria-describedby={
+                      fieldErrors.appointmentDate ? errorId("appointmentDate") : undefined
+                    }
+                    className={`rounded-lg focus:outline-none ${
+                      fieldErrors.appointmentDate ? "ring-2 ring-red-400" : ""
+                    }`}
+                  >
+                    <SlotPicker
+                      value={formData.appointmentDate}
+                      onChange={handleSlotChange}
+                      durationMinutes={formData.bookingDetails.duration ?? 60}
+                    />
+                  </div>
+                  {renderFieldError("appointmentDate")}
+                </div>
+              </>
+            )}
 
-        {/* Submit Button */}
-        {/* Success/Error Messages */}
-        {(success || error) && (
-          <div className="border-t pt-6">
-            {success && bookingResponse && (
-              <div className="bg-green-50 border border-green-200 rounded-lg p-6 mb-6">
-                <div className="text-center">
-                  <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
-                  <h4 className="text-2xl font-bold text-green-800 mb-2">
-                    Booking Created Successfully!
-                  </h4>
-                  <p className="text-green-700 mb-4">
-                    {bookingResponse.message}
-                  </p>
+            {step === "extras" && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label
+                      htmlFor={fieldId("bookingDetails.subject")}
+                      className="block text-sm font-medium text-gray-700 mb-2"
+                    >
+                      {t("common.subject")}
+                    </label>
+                    <input
+                      type="text"
+                      {...fieldProps("bookingDetails.subject")}
+                      value={formData.bookingDetails.subject || ""}
+                      onChange={(e) =>
+                        handleBookingDetailsChange("subject", e.target.value)
+                      }
+                      className={inputClassName("bookingDetails.subject")}
+                      placeholder={t("form.subjectPlaceholder")}
+                    />
+                    {renderFieldError("bookingDetails.subject")}
+                  </div>
+
+                  <div>
+                    <label htmlFor={LEVEL_ID} className="block text-sm font-medium text-gray-700 mb-2">
+                      {t("form.level")}
+                    </label>
+                    <select
+                      id={LEVEL_ID}
+                      value={formData.bookingDetails.level || ""}
+                      onChange={(e) =>
+                        handleBookingDetailsChange("level", e.target.value)
+                      }
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    >
+                      <option value="">{t("form.selectLevel")}</option>
+                      {LEVELS.map((level) => (
+                        <option key={level} value={level}>
+                          {t(`level.${level}`)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
 
-                  <div className="bg-white rounded-lg p-4 mb-6 border border-green-300">
-                    <p className="text-green-700 font-medium mb-2">
-                      <strong>Booking Magic Link:</strong> <a href={bookingResponse.magicLink} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-700">{bookingResponse.magicLink}</a>
+                  <div>
+                    <label htmlFor={PROMO_CODE_ID} className="block text-sm font-medium text-gray-700 mb-2">
+                      {t("form.promoCode")}
+                    </label>
+                    <input
+                      id={PROMO_CODE_ID}
+                      type="text"
+                      aria-describedby={promoCheck ? `${PROMO_CODE_ID}-result` : undefined}
+                      value={promoCode}
+                      onChange={(e) => setPromoCode(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 uppercase"
+                      placeholder={t("form.promoCodePlaceholder")}
+                    />
+                    {/* Always mounted so the result is announced as it changes */}
+                    <p
+                      id={`${PROMO_CODE_ID}-result`}
+                      aria-live="polite"
+                      className={`text-xs mt-1 ${
+                        promoCheck?.valid ? "text-green-700" : "text-red-600"
+                      }`}
+                    >
+                      {promoCheck && (promoCheck.valid ? promoCheck.description : promoCheck.reason)}
                     </p>
                   </div>
+
+                  <div>
+                    <label htmlFor={CURRENCY_ID} className="block text-sm font-medium text-gray-700 mb-2">
+                      {t("form.currency")}
+                    </label>
+                    <select
+                      id={CURRENCY_ID}
+                      value={currency}
+                      onChange={(e) => setCurrency(e.target.value as Currency)}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    >
+                      {CURRENCIES.map((code) => (
+                        <option key={code} value={code}>
+                          {code}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
-              </div>
-            )}
 
-            {error && (
-              <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
-                <div className="flex items-start">
-                  <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 mr-3 flex-shrink-0" />
-                  <div className="flex-1">
-                    <h4 className="text-red-800 font-semibold">
-                      Booking Failed
-                    </h4>
-                    <p className="text-red-700 text-sm mt-1">{error}</p>
+                <div>
+                  <label
+                    htmlFor={fieldId("bookingDetails.notes")}
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    {t("form.notes")}
+                  </label>
+                  <textarea
+                    {...fieldProps("bookingDetails.notes")}
+                    value={formData.bookingDetails.notes || ""}
+                    onChange={(e) =>
+                      handleBookingDetailsChange("notes", e.target.value)
+                    }
+                    rows={3}
+                    className={inputClassName("bookingDetails.notes")}
+                    placeholder={t("form.notesPlaceholder")}
+                  />
+                  <div className="flex justify-between">
+                    <div>{renderFieldError("bookingDetails.notes")}</div>
+                    <p
+                      className={`text-xs mt-1 ${
+                        (formData.bookingDetails.notes ?? "").length > NOTES_MAX_LENGTH
+                          ? "text-red-600"
+                          : "text-gray-500"
+                      }`}
+                    >
+                      {(formData.bookingDetails.notes ?? "").length}/{NOTES_MAX_LENGTH}
+                    </p>
                   </div>
                 </div>
-              </div>
+
+                <PriceQuote quote={quote} />
+              </>
+            )}
+
+            {step === "review" && (
+              <BookingReview
+                formData={formData}
+                quote={quote}
+                tutorTimeZone={availability?.timeZone}
+                onEdit={(target) => goToStep(target)}
+              />
             )}
           </div>
-        )}
 
-        {/* Submit Button */}
-        <div className="border-t pt-6">
-          <button
-            type="submit"
-            disabled={isLoading}
-            className="w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white py-3 px-6 rounded-lg font-semibold flex items-center justify-center space-x-2 hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {isLoading ? (
-              <>
-                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                <span>Creating Booking...</span>
-              </>
-            ) : (
-              <>
-                <Send className="h-5 w-5" />
-                <span>Create Booking</span>
-              </>
+          {/* Error from the last submit; the input is kept so it can be retried */}
+          {error && (
+            <div
+              id={SUBMIT_ERROR_ID}
+              role="alert"
+              tabIndex={-1}
+              className="bg-red-50 border border-red-200 rounded-lg p-4 focus:outline-none focus:ring-2 focus:ring-red-500"
+            >
+              <div className="flex items-start">
+                <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 mr-3 flex-shrink-0" aria-hidden="true" />
+                <div className="flex-1">
+                  <h4 className="text-red-800 font-semibold">
+                    {t("form.failed")}
+                  </h4>
+                  <p className="text-red-700 text-sm mt-1">{error}</p>
+                  {serverMessages.length > 0 && (
+                    <ul className="text-red-700 text-sm mt-1 list-disc list-inside">
+                      {serverMessages.map((message) => (
+                        <li key={message}>{message}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <p role="status" className="sr-only">
+            {isLoading ? t("form.creating") : ""}
+          </p>
+
+          {/* Step Navigation */}
+          <div className="border-t pt-6 flex gap-3">
+            {stepIndex > 0 && (
+              <button
+                type="button"
+                onClick={handleBack}
+                disabled={isLoading}
+                className="flex items-center justify-center space-x-2 border border-gray-300 text-gray-700 py-3 px-6 rounded-lg font-semibold hover:bg-gray-50 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ArrowLeft className="h-5 w-5" aria-hidden="true" />
+                <span>{t("form.back")}</span>
+              </button>
             )}
-          </button>
-        </div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="flex-1 bg-gradient-to-r from-blue-600 to-blue-700 text-white py-3 px-6 rounded-lg font-semibold flex items-center justify-center space-x-2 hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {step !== "review" ? (
+                <>
+                  <span>{t("form.next", { step: t(`form.steps.${BOOKING_STEPS[stepIndex + 1]}.label`) })}</span>
+                  <ArrowRight className="h-5 w-5" aria-hidden="true" />
+                </>
+              ) : isLoading ? (
+                <>
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white" aria-hidden="true"></div>
+                  <span>{t("form.creating")}</span>
+                </>
+              ) : (
+                <>
+                  <Send className="h-5 w-5" aria-hidden="true" />
+                  <span>{t("form.create")}</span>
+                </>
+              )}
+            </button>
+          </div>
+        </fieldset>
       </form>
     </div>
   );
@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, CalendarClock, Loader2 } from 'lucide-react';
+import { Booking } from '../types/booking';
+import { useBooking } from '../hooks/useBooking';
+import { useI18n } from '../hooks/useI18n';
+import { SlotPicker } from './SlotPicker';
+import { DEFAULT_DURATION_MINUTES } from '../services/pricing';
+import { refusedAction } from '../services/apiError';
+import { formatRefusedAction } from '../services/bookingLifecycle';
+
+interface BookingRescheduleProps {
+  booking: Booking;
+  onClose: () => void;
+}
+
+// Offers the same free slots as the booking form, with the booking's current
+// slot counted as free so it can move to an overlapping time
+export const BookingReschedule: React.FC<BookingRescheduleProps> = ({ booking, onClose }) => {
+  const { reschedule } = useBooking();
+  const { locale, t } = useI18n();
+  const [appointmentDate, setAppointmentDate] = useState('');
+
+  const durationMinutes = booking.bookingDetails.duration ?? DEFAULT_DURATION_MINUTES;
+  const currentSlot = useMemo(() => {
+    const start = Date.parse(booking.appointmentDate);
+    return {
+      start: new Date(start).toISOString(),
+      end: new Date(start + durationMinutes * 60000).toISOString(),
+    };
+  }, [booking.appointmentDate, durationMinutes]);
+
+  const refused = refusedAction(reschedule.apiError);
+  const unchanged = appointmentDate !== '' && Date.parse(appointmentDate) === Date.parse(booking.appointmentDate);
+
+  const handleSubmit = async () => {
+    if (!appointmentDate || unchanged) return;
+    const response = await reschedule.mutate({ uuid: booking.id, request: { appointmentDate } });
+    if (response.success) onClose();
+  };
+
+  return (
+    <div className="border border-blue-200 rounded-lg p-4 space-y-4">
+      <h4 className="font-semibold text-gray-900">{t('reschedule.title')}</h4>
+
+      <SlotPicker
+        value={appointmentDate}
+        onChange={setAppointmentDate}
+        durationMinutes={durationMinutes}
+        releasedInterval={currentSlot}
+      />
+
+      {unchanged && <p className="text-sm text-gray-500">{t('reschedule.unchanged')}</p>}
+
+      {reschedule.error && (
+        <div role="alert" className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 mt-0.5 mr-2 flex-shrink-0" />
+          <span>{refused ? formatRefusedAction(locale, refused) : reschedule.error}</span>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-3">
+        <button
+          type="button"
+          onClick={() => void handleSubmit()}
+          disabled={!appointmentDate || unchanged || reschedule.loading}
+          className="inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200"
+        >
+          {reschedule.loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarClock className="h-4 w-4" />}
+          <span>{t('reschedule.submit')}</span>
+        </button>
+        <button type="button" onClick={onClose} className="text-gray-600 hover:text-gray-900 font-medium">
+          {t('reschedule.keep')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React from 'react';
+import { Pencil } from 'lucide-react';
+import { BookingFormData } from '../types/booking';
+import { Quote } from '../services/pricing';
+import { BookingStep } from '../services/bookingDraft';
+import { parsePhoneNumber } from '../services/bookingValidation';
+import { describeBookingDetails, pickTypeFields } from '../services/appointmentFields';
+import { getViewerTimeZone } from '../services/timeZone';
+import { useI18n } from '../hooks/useI18n';
+import { AppointmentTime } from './AppointmentTime';
+import { PriceQuote } from './PriceQuote';
+
+interface BookingReviewProps {
+  formData: BookingFormData;
+  quote: Quote;
+  tutorTimeZone?: string;
+  onEdit: (step: BookingStep) => void;
+}
+
+interface ReviewSectionProps {
+  title: string;
+  onEdit: () => void;
+  children: React.ReactNode;
+}
+
+const ReviewSection: React.FC<ReviewSectionProps> = ({ title, onEdit, children }) => {
+  const { t } = useI18n();
+
+  return (
+    <section className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-semibold text-gray-900">{title}</h4>
+        <button
+          type="button"
+          onClick={onEdit}
+          className="inline-flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+          aria-label={t('review.editSection', { section: title })}
+        >
+          <Pencil className="h-4 w-4" />
+          <span>{t('review.edit')}</span>
+        </button>
+      </div>
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">{children}</dl>
+    </section>
+  );
+};
+
+// Details collected on the extras step; the rest belong to the appointment
+const EXTRA_DETAILS = new Set(['subject', 'level', 'notes']);
+
+const ReviewItem: React.FC<{ label: string; value: React.ReactNode; wide?: boolean }> = ({
+  label,
+  value,
+  wide,
+}) => (
+  <div className={wide ? 'md:col-span-2' : ''}>
+    <dt className="text-gray-600">{label}</dt>
+    <dd className="text-gray-900 whitespace-pre-wrap">{value}</dd>
+  </div>
+);
+
+// Read-only summary shown as the last wizard step, before submitting
+export const BookingReview: React.FC<BookingReviewProps> = ({ formData, quote, tutorTimeZone, onEdit }) => {
+  const { locale, t } = useI18n();
+  const phone = parsePhoneNumber(formData.userPhone);
+  const details = describeBookingDetails(
+    {
+      appointmentType: formData.appointmentType,
+      bookingDetails: pickTypeFields(formData.appointmentType, formData.bookingDetails),
+    },
+    locale
+  );
+
+  const renderValue = (value: string | string[]) =>
+    Array.isArray(value) ? value.join(', ') : value;
+
+  const extras = details.filter(entry => EXTRA_DETAILS.has(entry.id));
+
+  return (
+    <div className="space-y-4">
+      <ReviewSection title={t('review.yourDetails')} onEdit={() => onEdit('details')}>
+        <ReviewItem label={t('common.fullName')} value={formData.userName.trim()} />
+        <ReviewItem label={t('common.phoneNumber')} value={phone.ok ? phone.e164 : formData.userPhone} />
+      </ReviewSection>
+
+      <ReviewSection title={t('form.steps.appointment.label')} onEdit={() => onEdit('appointment')}>
+        <ReviewItem label={t('common.appointmentType')} value={t(`appointmentType.${formData.appointmentType}`)} />
+        {details
+          .filter(entry => !EXTRA_DETAILS.has(entry.id))
+          .map(entry => (
+            <ReviewItem key={entry.id} label={entry.label} value={renderValue(entry.value)} />
+          ))}
+        <ReviewItem
+          wide
+          label={t('common.dateTime')}
+          value={
+            formData.appointmentDate ? (
+              <AppointmentTime
+                date={formData.appointmentDate}
+                tutorTimeZone={tutorTimeZone}
+                bookerTimeZone={getViewerTimeZone()}
+              />
+            ) : (
+              t('review.notSelected')
+            )
+          }
+        />
+      </ReviewSection>
+
+      <ReviewSection title={t('form.steps.extras.label')} onEdit={() => onEdit('extras')}>
+        {extras.length === 0 && <ReviewItem wide label={t('review.nothingAdded')} value="" />}
+        {extras.map(entry => (
+          <ReviewItem
+            key={entry.id}
+            wide={entry.id === 'notes'}
+            label={entry.label}
+            value={renderValue(entry.value)}
+          />
+        ))}
+      </ReviewSection>
+
+      <PriceQuote quote={quote} />
+    </div>
+  );
+};
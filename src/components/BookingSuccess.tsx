@@ -0,0 +1,89 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle, ExternalLink, Plus } from 'lucide-react';
+import { BookingResponse } from '../services/api';
+import { BookingFormData } from '../types/booking';
+import { useI18n } from '../hooks/useI18n';
+import { AddToCalendar } from './AddToCalendar';
+
+interface BookingSuccessProps {
+  booking: BookingResponse;
+  // What was submitted; the create response doesn't repeat the appointment
+  appointment: BookingFormData;
+  onBookAnother: () => void;
+}
+
+// Shown in place of BookingForm once a booking has been created
+export const BookingSuccess: React.FC<BookingSuccessProps> = ({ booking, appointment, onBookAnother }) => {
+  const { t } = useI18n();
+  const calendarBooking = useMemo(
+    () => ({
+      id: booking.uuid,
+      bookingId: booking.bookingId,
+      appointmentType: appointment.appointmentType,
+      appointmentDate: appointment.appointmentDate,
+      bookingDetails: appointment.bookingDetails,
+    }),
+    [booking, appointment]
+  );
+
+  // The form this replaces had focus; land on the confirmation instead
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, []);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+      <div className="p-6">
+        <div className="bg-green-50 border border-green-200 rounded-lg p-6">
+          <div className="text-center">
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" aria-hidden="true" />
+            <h2 ref={headingRef} tabIndex={-1} className="text-2xl font-bold text-green-800 mb-2 focus:outline-none">
+              {t('success.title')}
+            </h2>
+            <p className="text-green-700 mb-4">{booking.message}</p>
+
+            <div className="bg-white rounded-lg p-4 mb-6 border border-green-300">
+              <p className="text-green-700 font-medium mb-2 break-all">
+                <strong>{t('success.magicLink')}</strong>{' '}
+                <a
+                  href={booking.magicLink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:text-blue-700"
+                >
+                  {booking.magicLink}
+                </a>
+              </p>
+              <p className="text-sm text-gray-600">{t('details.bookingId', { id: booking.bookingId })}</p>
+            </div>
+
+            <div className="flex flex-col items-center mb-6">
+              <p className="text-sm font-medium text-green-800 mb-2">{t('success.addToCalendar')}</p>
+              <AddToCalendar booking={calendarBooking} magicLink={booking.magicLink} />
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-center gap-3">
+              <Link
+                to={`/booking/${booking.uuid}`}
+                className="inline-flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200"
+              >
+                <ExternalLink className="h-4 w-4" />
+                <span>{t('success.viewBooking')}</span>
+              </Link>
+              <button
+                type="button"
+                onClick={onBookAnother}
+                className="inline-flex items-center justify-center space-x-2 border border-gray-300 text-gray-700 hover:bg-gray-50 py-2 px-4 rounded-lg font-medium transition-all duration-200"
+              >
+                <Plus className="h-4 w-4" />
+                <span>{t('success.bookAnother')}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React from 'react';
+import { Ban, CalendarCheck, CalendarClock, CheckCircle, CreditCard, Hourglass, PlusCircle, RotateCcw } from 'lucide-react';
+import { Booking } from '../types/booking';
+import { useI18n } from '../hooks/useI18n';
+import { getCancellationTerms } from '../services/cancellationPolicy';
+import { getBookingPrice } from '../services/pricing';
+
+interface BookingTimelineProps {
+  booking: Booking;
+}
+
+type Tone = 'neutral' | 'positive' | 'negative';
+
+interface TimelineEvent {
+  key: string;
+  label: string;
+  at: string;
+  detail?: string;
+  Icon: React.ComponentType<{ className?: string }>;
+  tone: Tone;
+}
+
+const DOT_COLORS: Record<Tone, string> = {
+  neutral: 'bg-blue-600 text-white',
+  positive: 'bg-green-600 text-white',
+  negative: 'bg-red-600 text-white',
+};
+
+type I18n = ReturnType<typeof useI18n>;
+
+// Past events come from the booking's timestamps; the free-change deadline and
+// the appointment itself are added as upcoming events while they still apply
+const buildEvents = (
+  booking: Booking,
+  now: number,
+  { t, formatDateTime, formatPrice }: I18n
+): TimelineEvent[] => {
+  const currency = booking.paymentCurrency ?? getBookingPrice(booking).currency;
+  const events: (TimelineEvent | null)[] = [
+    { key: 'created', label: t('timeline.created'), at: booking.createdAt, Icon: PlusCircle, tone: 'neutral' },
+    booking.confirmedAt
+      ? {
+          key: 'confirmed',
+          label: t('timeline.confirmed'),
+          at: booking.confirmedAt,
+          Icon: CheckCircle,
+          tone: 'positive',
+        }
+      : null,
+    booking.paymentUpdatedAt
+      ? {
+          key: 'payment',
+          label: t(`timeline.payment.${booking.paymentStatus}`),
+          at: booking.paymentUpdatedAt,
+          Icon: CreditCard,
+          tone: booking.paymentStatus === 'failed' ? 'negative' : booking.paymentStatus === 'completed' ? 'positive' : 'neutral',
+        }
+      : null,
+    booking.rescheduledAt
+      ? {
+          key: 'rescheduled',
+          label: t('timeline.rescheduled'),
+          at: booking.rescheduledAt,
+          detail:
+            booking.previousAppointmentDate &&
+            t('timeline.movedFrom', { date: formatDateTime(booking.previousAppointmentDate) }),
+          Icon: CalendarClock,
+          tone: 'neutral',
+        }
+      : null,
+    booking.cancelledAt
+      ? {
+          key: 'cancelled',
+          label: t('timeline.cancelled'),
+          at: booking.cancelledAt,
+          detail: booking.cancellationReason && t(`cancellationReason.${booking.cancellationReason}`),
+          Icon: Ban,
+          tone: 'negative',
+        }
+      : null,
+    booking.refundRequestedAt
+      ? {
+          key: 'refund',
+          label: t('timeline.refundRequested'),
+          at: booking.refundRequestedAt,
+          detail: booking.refundAmount !== undefined ? formatPrice(booking.refundAmount, currency) : undefined,
+          Icon: RotateCcw,
+          tone: 'neutral',
+        }
+      : null,
+  ];
+
+  const terms = getCancellationTerms(booking, now);
+  if (terms.canReschedule) {
+    events.push({
+      key: 'free-change-deadline',
+      label: t('timeline.freeChangeDeadline'),
+      at: terms.freeUntil,
+      Icon: Hourglass,
+      tone: 'neutral',
+    });
+  }
+  if (booking.status !== 'cancelled') {
+    events.push({
+      key: 'appointment',
+      label: t('timeline.appointment'),
+      at: booking.appointmentDate,
+      Icon: CalendarCheck,
+      tone: 'positive',
+    });
+  }
+
+  return events
+    .filter((event): event is TimelineEvent => event !== null)
+    .sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+};
+
+// Vertical timeline of what has happened to a booking and what is coming up
+export const BookingTimeline: React.FC<BookingTimelineProps> = ({ booking }) => {
+  const i18n = useI18n();
+  const now = Date.now();
+  const events = buildEvents(booking, now, i18n);
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-3 space-y-5">
+      {events.map(({ key, label, at, detail, Icon, tone }) => {
+        const upcoming = Date.parse(at) > now;
+        return (
+          <li key={key} className="ml-6">
+            <span
+              className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-white ${
+                upcoming ? 'bg-white border-2 border-dashed border-gray-300 text-gray-400' : DOT_COLORS[tone]
+              }`}
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </span>
+            <p className={`text-sm font-medium ${upcoming ? 'text-gray-500' : 'text-gray-900'}`}>
+              {label}
+              {upcoming && (
+                <span className="ml-2 text-xs font-normal text-gray-400">{i18n.t('timeline.upcoming')}</span>
+              )}
+            </p>
+            <p className="text-xs text-gray-500">
+              <time dateTime={at}>{i18n.formatDateTime(at)}</time>
+            </p>
+            {detail && <p className="text-xs text-gray-600 mt-0.5">{detail}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
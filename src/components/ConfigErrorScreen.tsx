@@ -0,0 +1,45 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { EnvironmentIssue } from '../config/environment';
+
+interface ConfigErrorScreenProps {
+  profile: string;
+  issues: EnvironmentIssue[];
+}
+
+export const ConfigErrorScreen: React.FC<ConfigErrorScreenProps> = ({ profile, issues }) => {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden max-w-xl w-full">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-red-600 to-red-700 px-6 py-4 text-white">
+          <div className="flex items-center">
+            <AlertCircle className="h-6 w-6 mr-3" />
+            <h2 className="text-xl font-semibold">Configuration Error</h2>
+          </div>
+          <p className="text-red-100 text-sm mt-1">
+            The app cannot start with the current environment (profile: {profile}).
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <ul className="space-y-2">
+            {issues.map(issue => (
+              <li
+                key={`${issue.variable}-${issue.message}`}
+                className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700"
+              >
+                <code className="font-semibold">{issue.variable}</code> {issue.message}
+              </li>
+            ))}
+          </ul>
+
+          <p className="text-sm text-gray-600">
+            Set the variables above in <code>.env.local</code> (see <code>.env.example</code>) and
+            restart the dev server.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
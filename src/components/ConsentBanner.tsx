@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Cookie, X } from 'lucide-react';
+import { useConsent } from '../hooks/useConsent';
+import { useI18n } from '../hooks/useI18n';
+import { ACCEPT_ALL, REJECT_ALL } from '../services/consent';
+import { CONSENT_CATEGORIES, ConsentChoices } from '../types/consent';
+
+const PREFERENCES_HEADING_ID = 'consent-preferences-heading';
+
+interface ConsentPreferencesProps {
+  initial: ConsentChoices;
+  onSave: (choices: ConsentChoices) => void;
+  onClose: () => void;
+}
+
+const ConsentPreferences: React.FC<ConsentPreferencesProps> = ({ initial, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [choices, setChoices] = useState(initial);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+
+  useEffect(() => {
+    headingRef.current?.focus();
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={PREFERENCES_HEADING_ID}
+        className="bg-white rounded-xl shadow-lg border border-gray-100 w-full max-w-lg p-6 space-y-5"
+      >
+        <div className="flex items-start justify-between">
+          <h2 id={PREFERENCES_HEADING_ID} ref={headingRef} tabIndex={-1} className="text-lg font-semibold text-gray-900">
+            {t('consent.preferences.title')}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label={t('consent.preferences.close')}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <ul className="space-y-4">
+          {CONSENT_CATEGORIES.map(category => {
+            const id = `consent-${category}`;
+            const locked = category === 'necessary';
+            return (
+              <li key={category} className="flex items-start">
+                <input
+                  id={id}
+                  type="checkbox"
+                  checked={locked || choices[category]}
+                  disabled={locked}
+                  onChange={event => {
+                    if (!locked) setChoices(prev => ({ ...prev, [category]: event.target.checked }));
+                  }}
+                  aria-describedby={`${id}-description`}
+                  className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <div className="ml-3">
+                  <label htmlFor={id} className="text-sm font-medium text-gray-900">
+                    {t(`consent.category.${category}`)}
+                  </label>
+                  <p id={`${id}-description`} className="text-sm text-gray-600">
+                    {t(`consent.category.${category}.description`)}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex flex-col sm:flex-row justify-end gap-3">
+          <button
+            type="button"
+            onClick={() => onSave(REJECT_ALL)}
+            className="border border-gray-300 text-gray-700 hover:bg-gray-50 py-2 px-4 rounded-lg font-medium transition-all duration-200"
+          >
+            {t('consent.rejectAll')}
+          </button>
+          <button
+            type="button"
+            onClick={() => onSave(choices)}
+            className="bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200"
+          >
+            {t('consent.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Asks for consent until the user decides under the current version, and
+// hosts the preferences dialog that "Privacy settings" links open
+export const ConsentBanner: React.FC = () => {
+  const { record, preferencesOpen, save, openPreferences, closePreferences } = useConsent();
+  const { t } = useI18n();
+
+  return (
+    <>
+      {!record && !preferencesOpen && (
+        <section
+          aria-label={t('consent.banner.label')}
+          className="fixed bottom-0 inset-x-0 z-40 bg-white border-t border-gray-200 shadow-lg"
+        >
+          <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex flex-col md:flex-row md:items-center gap-4">
+            <div className="flex items-start flex-1 text-sm text-gray-700">
+              <Cookie className="h-5 w-5 text-blue-600 mr-3 flex-shrink-0" />
+              <p>{t('consent.banner.text')}</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={openPreferences}
+                className="text-blue-600 hover:text-blue-700 py-2 px-3 font-medium"
+              >
+                {t('consent.preferences')}
+              </button>
+              <button
+                type="button"
+                onClick={() => save(REJECT_ALL)}
+                className="border border-gray-300 text-gray-700 hover:bg-gray-50 py-2 px-4 rounded-lg font-medium transition-all duration-200"
+              >
+                {t('consent.rejectAll')}
+              </button>
+              <button
+                type="button"
+                onClick={() => save(ACCEPT_ALL)}
+                className="bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200"
+              >
+                {t('consent.acceptAll')}
+              </button>
+            </div>
+          </div>
+        </section>
+      )}
+
+      {preferencesOpen && (
+        <ConsentPreferences initial={record?.choices ?? REJECT_ALL} onSave={save} onClose={closePreferences} />
+      )}
+    </>
+  );
+};
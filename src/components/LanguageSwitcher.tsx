@@ -0,0 +1,30 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+import { Locale, LOCALE_NAMES, LOCALES } from '../types/i18n';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className = '' }) => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className={`inline-flex items-center space-x-2 text-sm ${className}`}>
+      <Globe className="h-4 w-4" />
+      <span className="sr-only">{t('language.label')}</span>
+      <select
+        value={locale}
+        onChange={e => setLocale(e.target.value as Locale)}
+        className="bg-transparent border border-current rounded-lg py-1 pl-2 pr-8 focus:ring-2 focus:ring-blue-500"
+      >
+        {LOCALES.map(code => (
+          <option key={code} value={code} lang={code} className="text-gray-900">
+            {LOCALE_NAMES[code]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
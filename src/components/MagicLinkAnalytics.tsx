@@ -0,0 +1,146 @@
+import React, { useMemo } from 'react';
+import { AlertCircle, Eye, EyeOff, RefreshCw, Smartphone, Clock } from 'lucide-react';
+import { Booking } from '../types/booking';
+import { useLinkAnalytics } from '../hooks/useLinkAnalytics';
+import { useI18n } from '../hooks/useI18n';
+import { OPENS_CHART_DAYS, summarizeLinkAnalytics } from '../services/linkAnalytics';
+import { getViewerTimeZone } from '../services/timeZone';
+import { BarList, ColumnChart, FunnelChart } from './AnalyticsCharts';
+
+interface MagicLinkAnalyticsProps {
+  booking: Pick<Booking, 'magicLinkId' | 'confirmedAt' | 'paymentStatus' | 'paymentUpdatedAt'>;
+  // Just the opened/not opened summary, without the charts
+  compact?: boolean;
+}
+
+// Day of month under each column; the full date is in the tooltip
+const formatDay = (dateKey: string) => String(Number(dateKey.slice(8)));
+
+// Date keys are calendar days, so they are formatted as UTC noon
+const DAY_FORMAT: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', timeZone: 'UTC' };
+
+// Whether and how a booking's magic link has been opened
+export const MagicLinkAnalytics: React.FC<MagicLinkAnalyticsProps> = ({ booking, compact = false }) => {
+  const { data, loading, error, refetch } = useLinkAnalytics(booking.magicLinkId);
+  const { locale, t, formatDateTime } = useI18n();
+
+  const summary = useMemo(
+    () => (data ? summarizeLinkAnalytics(data, booking, getViewerTimeZone(), locale) : null),
+    [data, booking, locale]
+  );
+
+  if (loading && !summary) {
+    return (
+      <div className="flex justify-center py-4">
+        <RefreshCw className="h-5 w-5 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (error && !summary) {
+    return (
+      <div className="flex items-center justify-between text-sm text-red-600">
+        <span className="flex items-center">
+          <AlertCircle className="h-4 w-4 mr-2" />
+          {error}
+        </span>
+        <button type="button" onClick={() => refetch()} className="text-blue-600 hover:text-blue-700 font-medium">
+          {t('common.tryAgain')}
+        </button>
+      </div>
+    );
+  }
+
+  if (!summary) return null;
+
+  const openedBanner = summary.opened ? (
+    <div className="flex items-start bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+      <Eye className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+      <span>
+        {summary.lastOpenedAt
+          ? t('analytics.openedRecently', {
+              count: summary.totalOpens,
+              date: formatDateTime(summary.lastOpenedAt),
+            })
+          : t('analytics.opened', { count: summary.totalOpens })}
+      </span>
+    </div>
+  ) : (
+    <div className="flex items-start bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm text-gray-700">
+      <EyeOff className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+      <span>{t('analytics.notOpened')}</span>
+    </div>
+  );
+
+  if (compact) return openedBanner;
+
+  const days = summary.opensByDay.map(({ date, count }) => ({
+    key: date,
+    label: formatDay(date),
+    value: count,
+    title: t('analytics.opensOnDay', { count, date: formatDateTime(`${date}T12:00:00Z`, DAY_FORMAT) }),
+  }));
+  const chartOpens = summary.opensByDay.reduce((total, day) => total + day.count, 0);
+
+  return (
+    <div className="space-y-6">
+      {openedBanner}
+
+      <dl className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="bg-gray-50 rounded-lg p-3">
+          <dt className="text-xs text-gray-500 flex items-center">
+            <Eye className="h-3.5 w-3.5 mr-1" /> {t('analytics.totalOpens')}
+          </dt>
+          <dd className="text-xl font-semibold text-gray-900">{summary.totalOpens}</dd>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <dt className="text-xs text-gray-500 flex items-center">
+            <Smartphone className="h-3.5 w-3.5 mr-1" /> {t('analytics.uniqueDevices')}
+          </dt>
+          <dd className="text-xl font-semibold text-gray-900">{summary.uniqueDevices}</dd>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <dt className="text-xs text-gray-500 flex items-center">
+            <Clock className="h-3.5 w-3.5 mr-1" /> {t('analytics.firstOpened')}
+          </dt>
+          <dd className="text-sm font-medium text-gray-900 mt-1">
+            {summary.firstOpenedAt ? formatDateTime(summary.firstOpenedAt) : '—'}
+          </dd>
+        </div>
+      </dl>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">
+          {t('analytics.opensChart', { count: OPENS_CHART_DAYS })}
+        </h4>
+        <ColumnChart
+          data={days}
+          ariaLabel={t('analytics.opensChartSummary', { count: chartOpens, days: OPENS_CHART_DAYS })}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">{t('analytics.devices')}</h4>
+          <BarList items={summary.devices} emptyText={t('analytics.noDevices')} />
+        </div>
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">{t('analytics.referrers')}</h4>
+          <BarList items={summary.referrers} emptyText={t('analytics.noVisits')} />
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">{t('analytics.conversion')}</h4>
+        <FunnelChart
+          steps={summary.funnel.map(step => ({
+            key: step.key,
+            label: step.label,
+            reached: step.reached,
+            detail: step.at ? formatDateTime(step.at) : undefined,
+          }))}
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,68 @@
-import React, { useState } from 'react';
-import { CreditCard, Shield, Lock, Check } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { CreditCard, Shield, Lock, Check, AlertCircle } from 'lucide-react';
+import { useCheckout } from '../hooks/useCheckout';
+import { CardDetails, CardField, getPaymentProvider, MAX_CARD_DIGITS, TEST_CARD_NUMBERS } from '../services/payments';
+import { useI18n } from '../hooks/useI18n';
+import { track } from '../services/tracking';
+
+type PaymentMethod = 'card' | 'paypal';
+
+// Form order, so the first invalid field gets focus
+const CARD_FIELDS: CardField[] = ['number', 'expiry', 'cvv', 'name'];
+
+// The longest number with a space after every fourth digit
+const CARD_NUMBER_MAX_LENGTH = MAX_CARD_DIGITS + Math.floor((MAX_CARD_DIGITS - 1) / 4);
+
+const fieldId = (field: CardField) => `payment-card-${field}`;
+const errorId = (field: CardField) => `${fieldId(field)}-error`;
 
 interface PaymentInterfaceProps {
+  uuid: string;
   amount: number;
   currency: string;
   onPaymentComplete: (paymentId: string) => void;
+  onPaymentFailed?: (message: string) => void;
   onCancel: () => void;
 }
 
 export const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
+  uuid,
   amount,
   currency,
   onPaymentComplete,
+  onPaymentFailed,
   onCancel,
 }) => {
-  const [processing, setProcessing] = useState(false);
-  const [paymentMethod, setPaymentMethod] = useState<'card' | 'paypal'>('card');
-  const [cardDetails, setCardDetails] = useState({
+  const { t, formatPrice } = useI18n();
+  const { step, cardErrors, error, payWithCard } = useCheckout(uuid);
+  const processing = step === 'processing';
+  const isTestProvider = getPaymentProvider().id === 'test';
+
+  // Card details that fail validation never get this far, so they don't
+  // count as a started payment
+  useEffect(() => {
+    if (processing) track('payment_started', { amount, currency }, { bookingUuid: uuid });
+  }, [processing, amount, currency, uuid]);
+
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  const errorRef = useRef<HTMLDivElement>(null);
+
+  // Opening the checkout moves focus into it
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const first = CARD_FIELDS.find(field => cardErrors[field]);
+    if (first) document.getElementById(fieldId(first))?.focus();
+  }, [cardErrors]);
+
+  useEffect(() => {
+    if (error) errorRef.current?.focus();
+  }, [error]);
+
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('card');
+  const [cardDetails, setCardDetails] = useState<CardDetails>({
     number: '',
     expiry: '',
     cvv: '',
@@ -25,31 +71,50 @@ export const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
 
   const handlePayment = async (e: React.FormEvent) => {
     e.preventDefault();
-    setProcessing(true);
-
-    // Simulate payment processing
-    setTimeout(() => {
-      const paymentId = `payment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      onPaymentComplete(paymentId);
-      setProcessing(false);
-    }, 2000);
-  };
+    if (paymentMethod !== 'card') return;
 
-  const formatCardNumber = (value: string) => {
-    const v = value.replace(/\s+/g, '').replace(/[^0-9]/gi, '');
-    const matches = v.match(/\d{4,16}/g);
-    const match = matches && matches[0] || '';
-    const parts = [];
-    for (let i = 0, len = match.length; i < len; i += 4) {
-      parts.push(match.substring(i, i + 4));
-    }
-    if (parts.length) {
-      return parts.join(' ');
-    } else {
-      return v;
+    const outcome = await payWithCard(cardDetails, { amount, currency });
+    if (outcome.status === 'succeeded') {
+      track('payment_succeeded', { amount, currency }, { bookingUuid: uuid });
+      onPaymentComplete(outcome.paymentId);
+    } else if (outcome.status === 'failed') {
+      track('payment_failed', { amount, currency, message: outcome.message }, { bookingUuid: uuid });
+      onPaymentFailed?.(outcome.message);
     }
   };
 
+  const inputClassName = (field: CardField) =>
+    `w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+      cardErrors[field] ? 'border-red-400' : 'border-gray-300'
+    }`;
+
+  const fieldProps = (field: CardField) => ({
+    id: fieldId(field),
+    'aria-invalid': cardErrors[field] ? true : undefined,
+    'aria-describedby': cardErrors[field] ? errorId(field) : undefined,
+  });
+
+  const renderFieldError = (field: CardField) =>
+    cardErrors[field] && (
+      <p id={errorId(field)} className="text-red-600 text-xs mt-1">
+        {cardErrors[field]}
+      </p>
+    );
+
+  const methodClassName = (method: PaymentMethod) =>
+    `p-3 border-2 rounded-lg flex items-center justify-center space-x-2 cursor-pointer transition-all duration-200 has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-blue-500 ${
+      paymentMethod === method
+        ? 'border-blue-600 bg-blue-50 text-blue-800'
+        : 'border-gray-300 hover:border-gray-400'
+    }`;
+
+  // Groups of four, up to the longest number validateCard accepts
+  const formatCardNumber = (value: string) =>
+    value
+      .replace(/\D/g, '')
+      .slice(0, MAX_CARD_DIGITS)
+      .replace(/(\d{4})(?=\d)/g, '$1 ');
+
   const formatExpiry = (value: string) => {
     const v = value.replace(/\s+/g, '').replace(/[^0-9]/gi, '');
     if (v.length >= 2) {
@@ -61,64 +126,72 @@ export const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
   return (
     <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden max-w-md mx-auto">
       {/* Header */}
-      <div className="bg-gradient-to-r from-green-600 to-green-700 px-6 py-4 text-white">
+      <div className="bg-gradient-to-r from-green-700 to-green-800 px-6 py-4 text-white">
         <div className="flex items-center justify-between">
-          <h2 className="text-xl font-semibold">Complete Payment</h2>
+          <h2 ref={headingRef} tabIndex={-1} className="text-xl font-semibold focus:outline-none">
+            {t('payment.title')}
+          </h2>
           <div className="flex items-center space-x-1">
-            <Shield className="h-5 w-5" />
-            <span className="text-sm">Secure</span>
+            <Shield className="h-5 w-5" aria-hidden="true" />
+            <span className="text-sm">{t('payment.secure')}</span>
           </div>
         </div>
         <div className="mt-2">
-          <p className="text-3xl font-bold">${amount.toFixed(2)} {currency}</p>
+          <p className="text-3xl font-bold">{formatPrice(amount, currency)}</p>
         </div>
       </div>
 
       {/* Payment Form */}
-      <form onSubmit={handlePayment} className="p-6 space-y-6">
-        {/* Payment Method Selection */}
-        <div className="space-y-3">
-          <label className="block text-sm font-medium text-gray-700">
-            Payment Method
-          </label>
+      <form onSubmit={handlePayment} noValidate aria-busy={processing} className="p-6 space-y-6">
+        {/* Payment Method Selection - native radios, so arrow keys move
+            between methods; the check mark shows the choice without colour */}
+        <fieldset className="space-y-3">
+          <legend className="block text-sm font-medium text-gray-700 mb-3">
+            {t('payment.method')}
+          </legend>
           <div className="grid grid-cols-2 gap-3">
-            <button
-              type="button"
-              onClick={() => setPaymentMethod('card')}
-              className={`p-3 border-2 rounded-lg flex items-center justify-center space-x-2 transition-all duration-200 ${
-                paymentMethod === 'card'
-                  ? 'border-blue-500 bg-blue-50 text-blue-700'
-                  : 'border-gray-200 hover:border-gray-300'
-              }`}
-            >
-              <CreditCard className="h-5 w-5" />
-              <span className="font-medium">Card</span>
-            </button>
-            <button
-              type="button"
-              onClick={() => setPaymentMethod('paypal')}
-              className={`p-3 border-2 rounded-lg flex items-center justify-center space-x-2 transition-all duration-200 ${
-                paymentMethod === 'paypal'
-                  ? 'border-blue-500 bg-blue-50 text-blue-700'
-                  : 'border-gray-200 hover:border-gray-300'
-              }`}
-            >
-              <div className="w-5 h-5 bg-blue-600 rounded"></div>
+            <label className={methodClassName('card')}>
+              <input
+                type="radio"
+                name="payment-method"
+                value="card"
+                checked={paymentMethod === 'card'}
+                onChange={() => setPaymentMethod('card')}
+                className="sr-only"
+              />
+              <CreditCard className="h-5 w-5" aria-hidden="true" />
+              <span className="font-medium">{t('payment.card')}</span>
+              {paymentMethod === 'card' && <Check className="h-4 w-4" aria-hidden="true" />}
+            </label>
+            <label className={methodClassName('paypal')}>
+              <input
+                type="radio"
+                name="payment-method"
+                value="paypal"
+                checked={paymentMethod === 'paypal'}
+                onChange={() => setPaymentMethod('paypal')}
+                className="sr-only"
+              />
+              <div className="w-5 h-5 bg-blue-600 rounded" aria-hidden="true"></div>
               <span className="font-medium">PayPal</span>
-            </button>
+              {paymentMethod === 'paypal' && <Check className="h-4 w-4" aria-hidden="true" />}
+            </label>
           </div>
-        </div>
+        </fieldset>
 
         {paymentMethod === 'card' && (
           <div className="space-y-4">
             {/* Card Number */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Card Number
+              <label htmlFor={fieldId('number')} className="block text-sm font-medium text-gray-700 mb-2">
+                {t('payment.cardNumber')}
               </label>
               <input
                 type="text"
+                inputMode="numeric"
+                autoComplete="cc-number"
                 required
+                {...fieldProps('number')}
                 value={cardDetails.number}
                 onChange={(e) =>
                   setCardDetails(prev => ({
@@ -127,20 +200,24 @@ export const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
                   }))
                 }
                 placeholder="1234 5678 9012 3456"
-                maxLength={19}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                maxLength={CARD_NUMBER_MAX_LENGTH}
+                className={inputClassName('number')}
               />
+              {renderFieldError('number')}
             </div>
 
             {/* Expiry and CVV */}
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Expiry Date
+                <label htmlFor={fieldId('expiry')} className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('payment.expiry')}
                 </label>
                 <input
                   type="text"
+                  inputMode="numeric"
+                  autoComplete="cc-exp"
                   required
+                  {...fieldProps('expiry')}
                   value={cardDetails.expiry}
                   onChange={(e) =>
                     setCardDetails(prev => ({
@@ -148,18 +225,22 @@ export const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
                       expiry: formatExpiry(e.target.value),
                     }))
                   }
-                  placeholder="MM/YY"
+                  placeholder={t('payment.expiryPlaceholder')}
                   maxLength={5}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  className={inputClassName('expiry')}
                 />
+                {renderFieldError('expiry')}
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  CVV
+                <label htmlFor={fieldId('cvv')} className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('payment.cvv')}
                 </label>
                 <input
                   type="text"
+                  inputMode="numeric"
+                  autoComplete="cc-csc"
                   required
+                  {...fieldProps('cvv')}
                   value={cardDetails.cvv}
                   onChange={(e) =>
                     setCardDetails(prev => ({
@@ -169,19 +250,22 @@ export const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
                   }
                   placeholder="123"
                   maxLength={4}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  className={inputClassName('cvv')}
                 />
+                {renderFieldError('cvv')}
               </div>
             </div>
 
             {/* Cardholder Name */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Cardholder Name
+              <label htmlFor={fieldId('name')} className="block text-sm font-medium text-gray-700 mb-2">
+                {t('payment.cardholder')}
               </label>
               <input
                 type="text"
+                autoComplete="cc-name"
                 required
+                {...fieldProps('name')}
                 value={cardDetails.name}
                 onChange={(e) =>
                   setCardDetails(prev => ({
@@ -189,9 +273,10 @@ export const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
                     name: e.target.value,
                   }))
                 }
-                placeholder="John Doe"
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                placeholder={t('payment.cardholderPlaceholder')}
+                className={inputClassName('name')}
               />
+              {renderFieldError('name')}
             </div>
           </div>
         )}
@@ -199,44 +284,77 @@ export const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
         {paymentMethod === 'paypal' && (
           <div className="text-center py-8">
             <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
-              <div className="w-8 h-8 bg-blue-600 rounded"></div>
+              <div className="w-8 h-8 bg-blue-600 rounded" aria-hidden="true"></div>
+            </div>
+            <p className="text-gray-600">{t('payment.paypalUnavailable')}</p>
+          </div>
+        )}
+
+        {paymentMethod === 'card' && isTestProvider && (
+          <p className="text-xs text-gray-500">
+            {t('payment.testMode', {
+              success: TEST_CARD_NUMBERS.success,
+              declined: TEST_CARD_NUMBERS.card_declined,
+            })}
+          </p>
+        )}
+
+        {error && (
+          <div
+            ref={errorRef}
+            role="alert"
+            tabIndex={-1}
+            className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start focus:outline-none focus:ring-2 focus:ring-red-500"
+          >
+            <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 mr-3 flex-shrink-0" aria-hidden="true" />
+            <div>
+              <h4 className="text-red-800 font-semibold">
+                {step === 'declined' ? t('payment.declined') : t('payment.failed')}
+              </h4>
+              <p className="text-red-700 text-sm mt-1">{error}</p>
             </div>
-            <p className="text-gray-600">You will be redirected to PayPal to complete your payment.</p>
           </div>
         )}
 
         {/* Security Notice */}
         <div className="bg-gray-50 rounded-lg p-4 flex items-start space-x-3">
-          <Lock className="h-5 w-5 text-gray-500 mt-0.5" />
+          <Lock className="h-5 w-5 text-gray-500 mt-0.5" aria-hidden="true" />
           <div className="text-sm text-gray-600">
-            <p className="font-medium">Your payment is secure</p>
-            <p>We use bank-level encryption to protect your information.</p>
+            <p className="font-medium">{t('payment.secureTitle')}</p>
+            <p>{t('payment.secureDescription')}</p>
           </div>
         </div>
 
+        {/* Announces the wait; the outcome is announced by the error alert or
+            by the booking's payment status */}
+        <p role="status" className="sr-only">
+          {processing ? t('payment.processing') : ''}
+        </p>
+
         {/* Action Buttons */}
         <div className="flex space-x-3">
           <button
             type="button"
             onClick={onCancel}
+            disabled={processing}
             className="flex-1 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-all duration-200"
           >
-            Cancel
+            {t('common.cancel')}
           </button>
           <button
             type="submit"
-            disabled={processing}
-            className="flex-1 bg-gradient-to-r from-green-600 to-green-700 text-white py-3 px-6 rounded-lg font-semibold flex items-center justify-center space-x-2 hover:from-green-700 hover:to-green-800 transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={processing || paymentMethod !== 'card'}
+            className="flex-1 bg-gradient-to-r from-green-700 to-green-800 text-white py-3 px-6 rounded-lg font-semibold flex items-center justify-center space-x-2 hover:from-green-800 hover:to-green-900 transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {processing ? (
               <>
-                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                <span>Processing...</span>
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white" aria-hidden="true"></div>
+                <span>{t('payment.processing')}</span>
               </>
             ) : (
               <>
-                <Check className="h-5 w-5" />
-                <span>Pay ${amount.toFixed(2)}</span>
+                <Check className="h-5 w-5" aria-hidden="true" />
+                <span>{t('payment.pay', { amount: formatPrice(amount, currency) })}</span>
               </>
             )}
           </button>
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle, Loader2, Receipt } from 'lucide-react';
+import { Booking, PAYMENT_STATUSES, PaymentStatus } from '../types/booking';
+import { useReconcilePayment } from '../hooks/useAdmin';
+import { PAYMENT_STATUS_LABELS } from '../services/bookingStatus';
+import { getBookingPrice } from '../services/pricing';
+import { canTransition, paymentActionFor } from '../services/bookingLifecycle';
+
+interface PaymentReconciliationProps {
+  booking: Booking;
+}
+
+type ReconciliationField = 'amount' | 'currency' | 'reference';
+
+const inputClassName = (invalid: boolean) =>
+  `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+    invalid ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+// Records a payment taken outside checkout (bank transfer, cash, a refund made
+// in the payment provider's dashboard) with the real amount and a reference
+export const PaymentReconciliation: React.FC<PaymentReconciliationProps> = ({ booking }) => {
+  const reconcile = useReconcilePayment();
+  const price = getBookingPrice(booking);
+
+  // Only statuses the lifecycle lets staff move this booking's payment to
+  const statusOptions = PAYMENT_STATUSES.filter(target => {
+    const action = paymentActionFor(booking.paymentStatus, target);
+    return target !== booking.paymentStatus && action !== null && canTransition(booking, action, 'staff');
+  });
+
+  const defaultStatus = statusOptions.includes('completed') ? 'completed' : statusOptions[0];
+  const [pickedStatus, setPickedStatus] = useState<PaymentStatus | null>(null);
+  // Falls back to the default once a recorded change makes the pick invalid
+  const paymentStatus = pickedStatus && statusOptions.includes(pickedStatus) ? pickedStatus : defaultStatus;
+  const [amount, setAmount] = useState(String(booking.paymentAmount ?? price.amount));
+  const [currency, setCurrency] = useState(booking.paymentCurrency ?? price.currency);
+  const [reference, setReference] = useState('');
+  const [note, setNote] = useState('');
+  const [errors, setErrors] = useState<Partial<Record<ReconciliationField, string>>>({});
+
+  const validate = () => {
+    const next: Partial<Record<ReconciliationField, string>> = {};
+    const parsedAmount = Number(amount);
+    if (amount.trim() === '' || !Number.isFinite(parsedAmount) || parsedAmount < 0) {
+      next.amount = 'Enter the amount received, e.g. 45.00';
+    }
+    if (!/^[A-Za-z]{3}$/.test(currency.trim())) next.currency = 'Use a 3-letter currency code';
+    if (!reference.trim()) next.reference = 'Add the transfer, receipt or refund reference';
+    setErrors(next);
+    return Object.keys(next).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    const response = await reconcile.mutate({
+      uuid: booking.id,
+      paymentData: {
+        paymentStatus,
+        amount: Math.round(Number(amount) * 100) / 100,
+        currency: currency.trim().toUpperCase(),
+        paymentId: reference.trim(),
+        note: note.trim() || undefined,
+      },
+    });
+    if (response.success) {
+      setReference('');
+      setNote('');
+    }
+  };
+
+  const renderError = (field: ReconciliationField) =>
+    errors[field] && (
+      <p id={`reconcile-${field}-error`} role="alert" className="text-red-600 text-xs mt-1">
+        {errors[field]}
+      </p>
+    );
+
+  const fieldProps = (field: ReconciliationField) => ({
+    id: `reconcile-${field}`,
+    'aria-invalid': errors[field] ? true : undefined,
+    'aria-describedby': errors[field] ? `reconcile-${field}-error` : undefined,
+  });
+
+  if (statusOptions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        The payment for this booking is {PAYMENT_STATUS_LABELS[booking.paymentStatus].toLowerCase()} and can't be
+        changed from here.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="reconcile-status" className="block text-sm font-medium text-gray-700 mb-1">
+            Payment Status
+          </label>
+          <select
+            id="reconcile-status"
+            value={paymentStatus}
+            onChange={e => setPickedStatus(e.target.value as PaymentStatus)}
+            className={inputClassName(false)}
+          >
+            {statusOptions.map(status => (
+              <option key={status} value={status}>
+                {PAYMENT_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="reconcile-amount" className="block text-sm font-medium text-gray-700 mb-1">
+            Amount
+          </label>
+          <input
+            {...fieldProps('amount')}
+            type="number"
+            min="0"
+            step="0.01"
+            inputMode="decimal"
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+            className={inputClassName(Boolean(errors.amount))}
+          />
+          {renderError('amount')}
+        </div>
+        <div>
+          <label htmlFor="reconcile-currency" className="block text-sm font-medium text-gray-700 mb-1">
+            Currency
+          </label>
+          <input
+            {...fieldProps('currency')}
+            type="text"
+            maxLength={3}
+            value={currency}
+            onChange={e => setCurrency(e.target.value.toUpperCase())}
+            className={inputClassName(Boolean(errors.currency))}
+          />
+          {renderError('currency')}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="reconcile-reference" className="block text-sm font-medium text-gray-700 mb-1">
+          Reference
+        </label>
+        <input
+          {...fieldProps('reference')}
+          type="text"
+          value={reference}
+          onChange={e => setReference(e.target.value)}
+          className={inputClassName(Boolean(errors.reference))}
+          placeholder="Bank transfer or receipt number"
+        />
+        {renderError('reference')}
+      </div>
+
+      <div>
+        <label htmlFor="reconcile-note" className="block text-sm font-medium text-gray-700 mb-1">
+          Note <span className="text-gray-400 font-normal">(optional, shown in the audit log)</span>
+        </label>
+        <textarea
+          id="reconcile-note"
+          rows={2}
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          className={inputClassName(false)}
+        />
+      </div>
+
+      {reconcile.error && (
+        <div role="alert" className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 mt-0.5 mr-2 flex-shrink-0" />
+          <span>{reconcile.error}</span>
+        </div>
+      )}
+      {reconcile.success && (
+        <div role="status" className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-center text-sm text-green-700">
+          <CheckCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+          <span>Payment recorded.</span>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={reconcile.loading}
+        className="inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200"
+      >
+        {reconcile.loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Receipt className="h-4 w-4" />}
+        <span>Record Payment</span>
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { Booking } from '../types/booking';
+import { useCheckout } from '../hooks/useCheckout';
+import { useI18n } from '../hooks/useI18n';
+import { isPaymentStale, STALE_PAYMENT_MINUTES } from '../services/bookingLifecycle';
+
+interface PaymentRecoveryProps {
+  booking: Booking;
+  // Called once the stuck payment is marked failed and a new one may start
+  onRecovered: () => void;
+}
+
+// Shown while a booking's payment is `processing` outside this page's own
+// checkout, e.g. after the tab was closed mid-payment. Once the attempt is
+// stale the customer can give up on it and pay again.
+export const PaymentRecovery: React.FC<PaymentRecoveryProps> = ({ booking, onRecovered }) => {
+  const { t } = useI18n();
+  const { recoverPayment } = useCheckout(booking.id);
+  const [recovering, setRecovering] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  const stale = isPaymentStale(booking, now);
+
+  // Re-render when the attempt goes stale
+  useEffect(() => {
+    if (stale || !booking.paymentUpdatedAt) return;
+    const staleAt = Date.parse(booking.paymentUpdatedAt) + STALE_PAYMENT_MINUTES * 60 * 1000;
+    const timer = setTimeout(() => setNow(new Date()), Math.max(staleAt - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [stale, booking.paymentUpdatedAt]);
+
+  const handleRecover = async () => {
+    setRecovering(true);
+    setFailed(false);
+    const recovered = await recoverPayment();
+    setRecovering(false);
+    if (recovered) {
+      onRecovered();
+    } else {
+      setFailed(true);
+    }
+  };
+
+  if (!stale) {
+    return (
+      <div role="status" className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-start text-sm text-blue-800">
+        <Loader2 className="h-5 w-5 mr-3 flex-shrink-0 animate-spin" aria-hidden="true" />
+        <span>{t('details.paymentInProgress', { count: STALE_PAYMENT_MINUTES })}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800 space-y-3">
+      <p>{t('details.paymentInterrupted')}</p>
+      {failed && <p role="alert">{t('details.restartPaymentFailed')}</p>}
+      <button
+        type="button"
+        onClick={handleRecover}
+        disabled={recovering}
+        className="inline-flex items-center space-x-2 bg-amber-700 hover:bg-amber-800 disabled:opacity-50 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200"
+      >
+        {recovering ? (
+          <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+        ) : (
+          <RefreshCw className="h-4 w-4" aria-hidden="true" />
+        )}
+        <span>{t('details.restartPayment')}</span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, ArrowLeft, KeyRound, Loader2, Phone } from 'lucide-react';
+import { useOtpSignIn } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { OtpChallenge } from '../services/api';
+import { ApiError } from '../services/apiError';
+
+interface PhoneSignInProps {
+  onSignedIn: () => void;
+}
+
+const inputClassName = (invalid: boolean) =>
+  `w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${
+    invalid ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+const fieldError = (apiError: ApiError | null, field: string): string | undefined =>
+  apiError?.kind === 'validation' ? apiError.fieldErrors[field] : undefined;
+
+// Two steps: the phone number, then the 6-digit code texted to it
+export const PhoneSignIn: React.FC<PhoneSignInProps> = ({ onSignedIn }) => {
+  const { request, verify } = useOtpSignIn();
+  const { t } = useI18n();
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [challenge, setChallenge] = useState<OtpChallenge | null>(null);
+  // When another code may be requested; the server answers 429 before then
+  const [resendAt, setResendAt] = useState(0);
+  const [now, setNow] = useState(Date.now);
+
+  const resendIn = Math.max(0, Math.ceil((resendAt - now) / 1000));
+
+  // Ticks once a second until the countdown runs out
+  useEffect(() => {
+    if (resendIn === 0) return;
+    const timer = window.setTimeout(() => setNow(Date.now()), 1000);
+    return () => window.clearTimeout(timer);
+  }, [resendIn, now]);
+
+  const sendCode = async (target: string) => {
+    verify.reset();
+    const response = await request.mutate(target);
+    const error = response.apiError;
+    if (response.success && response.data) {
+      setChallenge(response.data);
+      setCode('');
+      setResendAt(Date.now() + response.data.resendAfterSeconds * 1000);
+    } else if (error?.kind === 'rate_limited' && error.retryAfterSeconds) {
+      setResendAt(Date.now() + error.retryAfterSeconds * 1000);
+    }
+    setNow(Date.now());
+  };
+
+  const handlePhoneSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    void sendCode(phone);
+  };
+
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    const response = await verify.mutate({ phone: challenge.phone, code });
+    if (response.success) onSignedIn();
+  };
+
+  const handleChangeNumber = () => {
+    setChallenge(null);
+    setCode('');
+    request.reset();
+    verify.reset();
+  };
+
+  const renderError = (apiError: ApiError | null, message: string | null, fields: string[]) => {
+    // Field errors are shown under their input instead
+    if (!message || fields.some(field => fieldError(apiError, field))) return null;
+    return (
+      <div role="alert" className="flex items-start space-x-2 bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+        <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <span>{message}</span>
+      </div>
+    );
+  };
+
+  if (!challenge) {
+    const phoneError = fieldError(request.apiError, 'phone');
+    return (
+      <form onSubmit={handlePhoneSubmit} className="space-y-4" noValidate>
+        <div>
+          <label htmlFor="sign-in-phone" className="block text-sm font-medium text-gray-700 mb-2">
+            {t('common.phoneNumber')}
+          </label>
+          <input
+            id="sign-in-phone"
+            type="tel"
+            required
+            autoComplete="tel"
+            value={phone}
+            onChange={e => setPhone(e.target.value)}
+            aria-invalid={phoneError ? true : undefined}
+            aria-describedby={phoneError ? 'sign-in-phone-error' : 'sign-in-phone-hint'}
+            className={inputClassName(Boolean(phoneError))}
+            placeholder="+1 (555) 123-4567"
+          />
+          {phoneError ? (
+            <p id="sign-in-phone-error" role="alert" className="text-red-600 text-xs mt-1">
+              {phoneError}
+            </p>
+          ) : (
+            <p id="sign-in-phone-hint" className="text-gray-500 text-xs mt-1">
+              {t('signIn.phoneHint')}
+            </p>
+          )}
+        </div>
+
+        {renderError(request.apiError, request.error, ['phone'])}
+
+        <button
+          type="submit"
+          disabled={request.loading || resendIn > 0}
+          className="w-full flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white py-3 px-4 rounded-lg font-medium transition-all duration-200"
+        >
+          {request.loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Phone className="h-4 w-4" />}
+          <span>{resendIn > 0 ? t('signIn.sendCodeIn', { seconds: resendIn }) : t('signIn.sendCode')}</span>
+        </button>
+      </form>
+    );
+  }
+
+  const codeError = fieldError(verify.apiError, 'code');
+  return (
+    <form onSubmit={handleCodeSubmit} className="space-y-4" noValidate>
+      <p className="text-sm text-gray-600">{t('signIn.codeSent', { phone: challenge.phone })}</p>
+      <div>
+        <label htmlFor="sign-in-code" className="block text-sm font-medium text-gray-700 mb-2">
+          {t('signIn.code')}
+        </label>
+        <input
+          id="sign-in-code"
+          type="text"
+          required
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          value={code}
+          onChange={e => setCode(e.target.value.replace(/\D/g, ''))}
+          aria-invalid={codeError ? true : undefined}
+          aria-describedby={codeError ? 'sign-in-code-error' : undefined}
+          className={`${inputClassName(Boolean(codeError))} tracking-widest text-lg`}
+          placeholder="123456"
+        />
+        {codeError && (
+          <p id="sign-in-code-error" role="alert" className="text-red-600 text-xs mt-1">
+            {codeError}
+          </p>
+        )}
+      </div>
+
+      {renderError(verify.apiError, verify.error, ['code', 'phone'])}
+      {renderError(request.apiError, request.error, [])}
+
+      <button
+        type="submit"
+        disabled={verify.loading}
+        className="w-full flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white py-3 px-4 rounded-lg font-medium transition-all duration-200"
+      >
+        {verify.loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+        <span>{t('home.signIn')}</span>
+      </button>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={handleChangeNumber}
+          className="inline-flex items-center text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          {t('signIn.changeNumber')}
+        </button>
+        <button
+          type="button"
+          onClick={() => void sendCode(challenge.phone)}
+          disabled={request.loading || resendIn > 0}
+          className="text-blue-600 hover:text-blue-700 font-medium disabled:text-gray-400"
+        >
+          {resendIn > 0 ? t('signIn.resendIn', { seconds: resendIn }) : t('signIn.resend')}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Receipt } from 'lucide-react';
+import { Quote } from '../services/pricing';
+import { useI18n } from '../hooks/useI18n';
+
+interface PriceQuoteProps {
+  quote: Quote;
+}
+
+// Line labels come with the quote, in the language it was built in
+export const PriceQuote: React.FC<PriceQuoteProps> = ({ quote }) => {
+  const { t, formatPrice } = useI18n();
+  const format = (amount: number) => formatPrice(amount, quote.currency);
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+      <h4 className="text-sm font-semibold text-gray-900 flex items-center mb-3">
+        <Receipt className="h-4 w-4 mr-2" />
+        {t('pricing.estimate')}
+      </h4>
+
+      <dl className="space-y-1 text-sm">
+        {quote.lines.map(line => (
+          <div key={line.label} className="flex justify-between text-gray-700">
+            <dt>{line.label}</dt>
+            <dd>{format(line.amount)}</dd>
+          </div>
+        ))}
+
+        {quote.discount && (
+          <div className="flex justify-between text-green-700">
+            <dt>{quote.discount.label}</dt>
+            <dd>{format(quote.discount.amount)}</dd>
+          </div>
+        )}
+
+        {quote.taxes.map(tax => (
+          <div key={tax.label} className="flex justify-between text-gray-500">
+            <dt>{tax.label}</dt>
+            <dd>{format(tax.amount)}</dd>
+          </div>
+        ))}
+
+        <div className="flex justify-between border-t border-gray-200 pt-2 mt-2 font-semibold text-gray-900">
+          <dt>{t('pricing.total')}</dt>
+          <dd>{format(quote.total)}</dd>
+        </div>
+      </dl>
+    </div>
+  );
+};
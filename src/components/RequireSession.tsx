@@ -0,0 +1,51 @@
+import React from 'react';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+import { useSession } from '../hooks/useSession';
+import { SessionRole } from '../types/session';
+
+interface RequireSessionProps {
+  children: React.ReactNode;
+  // Signed-in users without this role see a "not allowed" message
+  role?: SessionRole;
+}
+
+// Sends signed-out visitors to /sign-in, which brings them back here afterwards.
+// Also applies when a session ends mid-visit, e.g. its refresh token is revoked.
+export const RequireSession: React.FC<RequireSessionProps> = ({ children, role }) => {
+  const { session, signOut } = useSession();
+  const { t } = useI18n();
+  const location = useLocation();
+
+  if (!session) {
+    const redirect = `${location.pathname}${location.search}`;
+    return <Navigate to={`/sign-in?redirect=${encodeURIComponent(redirect)}`} replace />;
+  }
+
+  if (role && session.role !== role) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-8 max-w-md w-full text-center text-gray-500">
+          <ShieldAlert className="h-12 w-12 mx-auto mb-4" />
+          <h1 className="text-lg font-semibold">{t('signIn.staffOnly.title')}</h1>
+          <p className="text-sm mt-1">{t('signIn.staffOnly.description', { phone: session.phone })}</p>
+          <div className="mt-6 flex justify-center space-x-4 text-sm">
+            <Link to="/" className="text-blue-600 hover:text-blue-700 font-medium">
+              {t('signIn.staffOnly.home')}
+            </Link>
+            <button
+              type="button"
+              onClick={() => void signOut()}
+              className="text-gray-600 hover:text-gray-900 font-medium"
+            >
+              {t('signIn.staffOnly.signOut')}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
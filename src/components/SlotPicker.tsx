@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, ChevronLeft, ChevronRight, Clock, RefreshCw } from 'lucide-react';
+import { useAvailability } from '../hooks/useAvailability';
+import { useI18n } from '../hooks/useI18n';
+import { BookedInterval } from '../services/api';
+import {
+  BOOKING_WINDOW_DAYS,
+  TimeSlot,
+  buildSlots,
+  getBookingWindow,
+  groupSlotsByDate,
+} from '../services/availability';
+import {
+  addDaysToKey,
+  formatInTimeZone,
+  getTimeZoneAbbreviation,
+  getViewerTimeZone,
+  getWeekdayOfKey,
+  sameWallClock,
+  toDateKey,
+} from '../services/timeZone';
+
+interface SlotPickerProps {
+  // ISO start of the selected slot, or '' when nothing is selected
+  value: string;
+  onChange: (start: string) => void;
+  durationMinutes: number;
+  // Counted as free, e.g. the current slot of a booking being moved
+  releasedInterval?: BookedInterval;
+}
+
+// 7 January 2024 was a Sunday; the week starts on Sunday like getWeekdayOfKey
+const WEEK_START = '2024-01-07';
+
+// Months are handled as "YYYY-MM" keys in the viewer's calendar
+const shiftMonth = (month: string, delta: number): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, monthIndex - 1 + delta, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+// Date keys are calendar days, so they are formatted as UTC noon
+const keyToDate = (dateKey: string) => `${dateKey}T12:00:00Z`;
+
+const sameInterval = (a: BookedInterval, b: BookedInterval) =>
+  Date.parse(a.start) === Date.parse(b.start) && Date.parse(a.end) === Date.parse(b.end);
+
+export const SlotPicker: React.FC<SlotPickerProps> = ({ value, onChange, durationMinutes, releasedInterval }) => {
+  const { locale, t, formatDateTime } = useI18n();
+  const viewerTimeZone = getViewerTimeZone();
+  // One request covers the whole booking window
+  const { today, lastDay, from, to } = getBookingWindow(viewerTimeZone);
+  const { data: availability, loading, error, refetch } = useAvailability(from, to);
+
+  const slotsByDate = useMemo(() => {
+    if (!availability) return new Map<string, TimeSlot[]>();
+    const open = releasedInterval
+      ? { ...availability, booked: availability.booked.filter(interval => !sameInterval(interval, releasedInterval)) }
+      : availability;
+    const slots = buildSlots(open, { from, to, durationMinutes });
+    const byDate = groupSlotsByDate(slots, viewerTimeZone);
+    for (const day of byDate.keys()) {
+      if (day < today || day > lastDay) byDate.delete(day);
+    }
+    return byDate;
+  }, [availability, from, to, durationMinutes, viewerTimeZone, today, lastDay, releasedInterval]);
+
+  const selectedKey = value ? toDateKey(new Date(value), viewerTimeZone) : null;
+  const firstOpenDay = [...slotsByDate.keys()].sort()[0] ?? null;
+
+  const [pickedDay, setPickedDay] = useState<string | null>(null);
+  const activeDay = pickedDay ?? selectedKey ?? firstOpenDay;
+
+  const [visibleMonth, setVisibleMonth] = useState(today.slice(0, 7));
+
+  // Drop a selection that is no longer offered, e.g. after the duration
+  // changed or someone else booked the slot
+  useEffect(() => {
+    if (!availability || !value) return;
+    const daySlots = slotsByDate.get(toDateKey(new Date(value), viewerTimeZone)) ?? [];
+    if (!daySlots.some(slot => slot.start === value)) {
+      onChange('');
+    }
+  }, [availability, slotsByDate, value, viewerTimeZone, onChange]);
+
+  const monthDays = useMemo(() => {
+    const days: (string | null)[] = [];
+    const first = `${visibleMonth}-01`;
+    for (let i = 0; i < getWeekdayOfKey(first); i += 1) days.push(null);
+    for (let day = first; day.startsWith(visibleMonth); day = addDaysToKey(day, 1)) {
+      days.push(day);
+    }
+    return days;
+  }, [visibleMonth]);
+
+  const weekdayLabels = useMemo(
+    () =>
+      Array.from({ length: 7 }, (_, index) =>
+        formatInTimeZone(keyToDate(addDaysToKey(WEEK_START, index)), 'UTC', { weekday: 'short' }, locale)
+      ),
+    [locale]
+  );
+
+  const formatTime = (iso: string, timeZone: string): string =>
+    formatInTimeZone(iso, timeZone, { hour: 'numeric', minute: '2-digit' }, locale);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-gray-600">
+        <RefreshCw className="h-5 w-5 animate-spin text-blue-600 mr-2" />
+        <span>{t('slots.loading')}</span>
+      </div>
+    );
+  }
+
+  if (!availability) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start">
+        <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 mr-3 flex-shrink-0" />
+        <div className="flex-1">
+          <p className="text-red-700 text-sm">{error || t('slots.loadFailed')}</p>
+          <button
+            type="button"
+            onClick={() => refetch()}
+            className="mt-2 text-sm font-medium text-red-700 underline hover:text-red-800"
+          >
+            {t('common.tryAgain')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const activeSlots = activeDay ? slotsByDate.get(activeDay) ?? [] : [];
+  const tutorTimeZone = availability.timeZone;
+  // Compared per slot, as the two zones may change to or from DST on different dates
+  const showTutorTime = (iso: string) => !sameWallClock(new Date(iso), tutorTimeZone, viewerTimeZone);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {/* Calendar */}
+      <div className="border border-gray-200 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-3">
+          <button
+            type="button"
+            onClick={() => setVisibleMonth(month => shiftMonth(month, -1))}
+            disabled={visibleMonth <= today.slice(0, 7)}
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed"
+            aria-label={t('slots.previousMonth')}
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <span className="font-medium text-gray-900">
+            {formatDateTime(keyToDate(`${visibleMonth}-01`), { month: 'long', year: 'numeric', timeZone: 'UTC' })}
+          </span>
+          <button
+            type="button"
+            onClick={() => setVisibleMonth(month => shiftMonth(month, 1))}
+            disabled={visibleMonth >= lastDay.slice(0, 7)}
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed"
+            aria-label={t('slots.nextMonth')}
+          >
+            <ChevronRight className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-7 gap-1 text-center text-xs text-gray-500 mb-1">
+          {weekdayLabels.map(label => (
+            <span key={label}>{label}</span>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-7 gap-1">
+          {monthDays.map((day, index) => {
+            if (!day) return <span key={`blank-${index}`} />;
+
+            const open = slotsByDate.has(day);
+            const isActive = day === activeDay;
+            return (
+              <button
+                key={day}
+                type="button"
+                disabled={!open}
+                onClick={() => setPickedDay(day)}
+                className={`py-2 rounded-md text-sm transition-all duration-200 ${
+                  isActive
+                    ? 'bg-blue-600 text-white font-semibold'
+                    : open
+                      ? 'text-gray-900 hover:bg-blue-50'
+                      : 'text-gray-300 cursor-not-allowed'
+                }`}
+              >
+                {Number(day.slice(8))}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Times */}
+      <div className="border border-gray-200 rounded-lg p-4">
+        <p className="text-sm font-medium text-gray-900 mb-3 flex items-center">
+          <Clock className="h-4 w-4 mr-2" />
+          {activeDay
+            ? formatDateTime(keyToDate(activeDay), { weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC' })
+            : t('slots.noTimes')}
+        </p>
+
+        {activeSlots.length > 0 ? (
+          <div className="grid grid-cols-3 gap-2 max-h-64 overflow-y-auto">
+            {activeSlots.map(slot => (
+              <button
+                key={slot.start}
+                type="button"
+                onClick={() => onChange(slot.start)}
+                className={`py-2 px-2 rounded-md border text-sm transition-all duration-200 ${
+                  slot.start === value
+                    ? 'bg-blue-600 border-blue-600 text-white font-semibold'
+                    : 'border-gray-300 text-gray-700 hover:border-blue-500 hover:bg-blue-50'
+                }`}
+              >
+                <span className="block">{formatTime(slot.start, viewerTimeZone)}</span>
+                {showTutorTime(slot.start) && (
+                  <span className={`block text-xs ${slot.start === value ? 'text-blue-100' : 'text-gray-500'}`}>
+                    {t('slots.tutorTime', { time: formatTime(slot.start, tutorTimeZone) })}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            {activeDay ? t('slots.dayFull') : t('slots.noOpenings', { count: BOOKING_WINDOW_DAYS })}
+          </p>
+        )}
+
+        <p className="text-xs text-gray-500 mt-3">
+          {t('slots.viewerZone', {
+            zone: viewerTimeZone,
+            abbreviation: getTimeZoneAbbreviation(new Date(value || Date.now()), viewerTimeZone, locale),
+          })}
+          {!sameWallClock(new Date(value || Date.now()), tutorTimeZone, viewerTimeZone) &&
+            ` ${t('slots.tutorZone', { zone: tutorTimeZone })}`}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { AlertCircle, CheckCircle, Clock, RefreshCw, RotateCcw, XCircle } from 'lucide-react';
+import { BookingStatus, PaymentStatus } from '../types/booking';
+
+// A distinct shape per status, so a status never depends on colour alone.
+// Decorative: the status label is always shown next to it.
+
+const BOOKING_STATUS_ICONS: Record<BookingStatus, typeof CheckCircle> = {
+  pending_confirmation: Clock,
+  confirmed: CheckCircle,
+  completed: CheckCircle,
+  cancelled: XCircle,
+};
+
+const PAYMENT_STATUS_ICONS: Record<PaymentStatus, typeof CheckCircle> = {
+  pending: Clock,
+  processing: RefreshCw,
+  completed: CheckCircle,
+  failed: AlertCircle,
+  refunded: RotateCcw,
+};
+
+interface StatusIconProps<T> {
+  status: T;
+  className?: string;
+}
+
+export const BookingStatusIcon: React.FC<StatusIconProps<BookingStatus>> = ({ status, className }) => {
+  const Icon = BOOKING_STATUS_ICONS[status];
+  return <Icon className={className} aria-hidden="true" />;
+};
+
+export const PaymentStatusIcon: React.FC<StatusIconProps<PaymentStatus>> = ({ status, className }) => {
+  const Icon = PAYMENT_STATUS_ICONS[status];
+  return <Icon className={className} aria-hidden="true" />;
+};
@@ -0,0 +1,121 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import axe from 'axe-core';
+import { apiService, BookingDetails as BookingDetailsType } from '../services/api';
+import { queryCache } from '../services/queryCache';
+import { bookingQueryKey } from '../hooks/useBooking';
+import { BookingForm } from './BookingForm';
+import { BookingDetails } from './BookingDetails';
+import { PaymentInterface } from './PaymentInterface';
+
+// jsdom does no layout, so axe cannot measure contrast; the status shades are
+// checked by hand (see statusStyles.ts). `region` is about whole pages, and
+// these render a single component.
+const AXE_OPTIONS: axe.RunOptions = {
+  rules: { 'color-contrast': { enabled: false }, region: { enabled: false } },
+};
+
+const expectNoViolations = async (container: HTMLElement) => {
+  const { violations } = await axe.run(container, AXE_OPTIONS);
+  expect(violations.map(violation => `${violation.id}: ${violation.nodes.map(node => node.target).join(', ')}`)).toEqual(
+    []
+  );
+};
+
+const renderInRouter = (element: React.ReactElement) => render(<MemoryRouter>{element}</MemoryRouter>);
+
+const booking = (overrides: Partial<BookingDetailsType> = {}): BookingDetailsType => ({
+  id: '3f2b8c1e-5d4a-4e6f-9a7b-1c2d3e4f5a6b',
+  bookingId: 'TB-1001',
+  magicLinkId: 'ml-1001',
+  userName: 'Ana García',
+  userPhone: '+15551234567',
+  appointmentType: 'TUTORIAL',
+  appointmentDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+  bookerTimeZone: 'America/New_York',
+  tutorTimeZone: 'Europe/London',
+  bookingDetails: { subject: 'Chemistry', level: 'advanced', duration: 60, notes: 'Bring past papers' },
+  status: 'confirmed',
+  paymentStatus: 'pending',
+  createdAt: new Date().toISOString(),
+  confirmedAt: new Date().toISOString(),
+  accessCount: 1,
+  ...overrides,
+});
+
+beforeEach(() => {
+  window.localStorage.clear();
+  vi.spyOn(apiService, 'getAvailability').mockResolvedValue({
+    success: true,
+    data: { timeZone: 'Europe/London', businessHours: [], blackoutDates: [], booked: [], leadTimeMinutes: 60 },
+  });
+});
+
+afterEach(() => {
+  cleanup();
+  // The cache outlives each render; a booking fetched by one test would
+  // otherwise still be fresh in the next
+  queryCache.remove(bookingQueryKey(booking().id));
+});
+
+describe('BookingForm', () => {
+  it('has no violations on the first step', async () => {
+    const { container } = renderInRouter(<BookingForm />);
+    await expectNoViolations(container);
+  });
+
+  it('has no violations while showing field errors', async () => {
+    const { container } = renderInRouter(<BookingForm />);
+    fireEvent.click(screen.getByRole('button', { name: /^Next/ }));
+    expect(await screen.findAllByRole('textbox', { description: /required/ })).not.toHaveLength(0);
+    await expectNoViolations(container);
+  });
+});
+
+describe('BookingDetails', () => {
+  it('has no violations for a confirmed, unpaid booking', async () => {
+    vi.spyOn(apiService, 'getBookingDetails').mockResolvedValue({ success: true, data: booking() });
+    const { container } = renderInRouter(<BookingDetails uuid={booking().id} />);
+    await screen.findByText('TB-1001', { exact: false });
+    expect(screen.getByRole('button', { name: /^Pay Now/ })).toBeTruthy();
+    await expectNoViolations(container);
+  });
+
+  it('has no violations for a cancelled booking', async () => {
+    vi.spyOn(apiService, 'getBookingDetails').mockResolvedValue({
+      success: true,
+      data: booking({ status: 'cancelled', cancelledAt: new Date().toISOString(), cancellationReason: 'illness' }),
+    });
+    const { container } = renderInRouter(<BookingDetails uuid={booking().id} />);
+    await screen.findByText('This booking was cancelled (illness).');
+    await expectNoViolations(container);
+  });
+});
+
+describe('PaymentInterface', () => {
+  const renderCheckout = () =>
+    renderInRouter(
+      <PaymentInterface
+        uuid={booking().id}
+        amount={45}
+        currency="USD"
+        onPaymentComplete={() => {}}
+        onCancel={() => {}}
+      />
+    );
+
+  it('has no violations when it opens', async () => {
+    const { container } = renderCheckout();
+    await expectNoViolations(container);
+  });
+
+  it('has no violations while showing card errors', async () => {
+    const { container } = renderCheckout();
+    fireEvent.click(screen.getByRole('button', { name: /^Pay/ }));
+    expect(await screen.findByRole('textbox', { name: 'Card Number', description: /digits/ })).toBeTruthy();
+    await expectNoViolations(container);
+  });
+});
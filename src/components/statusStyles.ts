@@ -0,0 +1,20 @@
+import { BookingStatus, PaymentStatus } from '../types/booking';
+
+// Text, background and border shades per status, shared by the booking card
+// and booking details. Shades chosen for at least 4.5:1 contrast; the status
+// icon and label carry the status too (see StatusIcon).
+
+export const BOOKING_STATUS_STYLES: Record<BookingStatus, string> = {
+  pending_confirmation: 'text-amber-800 bg-amber-50 border-amber-200',
+  confirmed: 'text-green-800 bg-green-50 border-green-200',
+  completed: 'text-blue-800 bg-blue-50 border-blue-200',
+  cancelled: 'text-red-800 bg-red-50 border-red-200',
+};
+
+export const PAYMENT_STATUS_STYLES: Record<PaymentStatus, string> = {
+  pending: 'text-amber-800 bg-amber-50 border-amber-200',
+  processing: 'text-blue-800 bg-blue-50 border-blue-200',
+  completed: 'text-green-800 bg-green-50 border-green-200',
+  failed: 'text-red-800 bg-red-50 border-red-200',
+  refunded: 'text-gray-700 bg-gray-50 border-gray-200',
+};
@@ -0,0 +1,278 @@
+// Environment configuration
+// Reads VITE_* variables at startup, layers them over a named profile and
+// validates the result before the app renders.
+
+export type EnvironmentProfile = 'local' | 'staging' | 'production';
+
+// "mock" swaps the HTTP transport for the in-browser backend in services/mock
+export type ApiMode = 'live' | 'mock';
+
+export interface MockBackendConfig {
+  latencyMs: number;
+  failureRate: number;
+  // E.164 numbers that sign in with the staff role
+  staffPhones: string[];
+}
+
+export interface EnvironmentConfig {
+  profile: EnvironmentProfile;
+  apiMode: ApiMode;
+  apiBaseUrl: string;
+  magicLinkBaseUrl: string;
+  frontendBaseUrl: string;
+  requestTimeoutMs: number;
+  // Extra attempts for idempotent GET requests after a retryable failure
+  maxRetries: number;
+  // Booking pages ask for a verified phone number before showing anything
+  requireSignIn: boolean;
+  mock: MockBackendConfig;
+}
+
+export interface EnvironmentIssue {
+  variable: string;
+  message: string;
+}
+
+export type EnvironmentResult =
+  | { valid: true; config: EnvironmentConfig }
+  | { valid: false; profile: string; issues: EnvironmentIssue[] };
+
+type ProfileDefaults = Partial<Pick<EnvironmentConfig, 'apiBaseUrl' | 'magicLinkBaseUrl' | 'frontendBaseUrl'>>;
+
+const PROFILES: Record<EnvironmentProfile, ProfileDefaults> = {
+  local: {
+    apiBaseUrl: 'http://localhost:3000',
+    magicLinkBaseUrl: 'http://localhost:3000',
+  },
+  // Staging URLs change per deployment, so they must always be supplied
+  staging: {},
+  production: {
+    apiBaseUrl: 'https://tbook-v1.vercel.app',
+    magicLinkBaseUrl: 'https://tbook-v1.vercel.app',
+  },
+};
+
+const DEFAULT_PROFILE: EnvironmentProfile = 'production';
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_MOCK_LATENCY_MS = 400;
+const DEFAULT_MOCK_STAFF_PHONES = ['+15550100000'];
+
+const isProfile = (value: string): value is EnvironmentProfile =>
+  Object.prototype.hasOwnProperty.call(PROFILES, value);
+
+const readVariable = (env: Record<string, unknown>, name: string): string | undefined => {
+  const value = env[name];
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed === '' ? undefined : trimmed;
+};
+
+// Validates an absolute http(s) URL and strips any trailing slash so that
+// endpoints can always be appended with a leading "/"
+const normalizeUrl = (
+  variable: string,
+  value: string | undefined,
+  issues: EnvironmentIssue[]
+): string => {
+  if (!value) {
+    issues.push({ variable, message: 'is required for this profile' });
+    return '';
+  }
+
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      issues.push({ variable, message: `must use http or https (got "${url.protocol}")` });
+      return '';
+    }
+  } catch {
+    issues.push({ variable, message: `is not a valid absolute URL ("${value}")` });
+    return '';
+  }
+
+  return value.replace(/\/+$/, '');
+};
+
+const parseNumber = (
+  variable: string,
+  value: string | undefined,
+  fallback: number,
+  range: { min: number; max: number },
+  issues: EnvironmentIssue[]
+): number => {
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < range.min || parsed > range.max) {
+    issues.push({
+      variable,
+      message: `must be a number between ${range.min} and ${range.max} (got "${value}")`,
+    });
+    return fallback;
+  }
+  return parsed;
+};
+
+const parseBoolean = (
+  variable: string,
+  value: string | undefined,
+  fallback: boolean,
+  issues: EnvironmentIssue[]
+): boolean => {
+  if (value === undefined) return fallback;
+  if (value === 'true' || value === 'false') return value === 'true';
+  issues.push({ variable, message: `must be true or false (got "${value}")` });
+  return fallback;
+};
+
+// Comma-separated E.164 phone numbers
+const parsePhoneList = (
+  variable: string,
+  value: string | undefined,
+  fallback: string[],
+  issues: EnvironmentIssue[]
+): string[] => {
+  if (value === undefined) return fallback;
+  const phones = value.split(',').map(phone => phone.trim()).filter(Boolean);
+  const invalid = phones.filter(phone => !/^\+[1-9]\d{7,14}$/.test(phone));
+  if (invalid.length > 0) {
+    issues.push({
+      variable,
+      message: `must be E.164 numbers like +15550100000 (got "${invalid.join(', ')}")`,
+    });
+    return fallback;
+  }
+  return phones;
+};
+
+export const loadEnvironment = (env: Record<string, unknown>): EnvironmentResult => {
+  const issues: EnvironmentIssue[] = [];
+  const requestedProfile = readVariable(env, 'VITE_APP_PROFILE') ?? DEFAULT_PROFILE;
+
+  if (!isProfile(requestedProfile)) {
+    return {
+      valid: false,
+      profile: requestedProfile,
+      issues: [
+        {
+          variable: 'VITE_APP_PROFILE',
+          message: `must be one of ${Object.keys(PROFILES).join(', ')} (got "${requestedProfile}")`,
+        },
+      ],
+    };
+  }
+
+  const fallbackOrigin = typeof window !== 'undefined' ? window.location.origin : undefined;
+
+  const apiModeValue = readVariable(env, 'VITE_API_MODE') ?? 'live';
+  let apiMode: ApiMode = 'live';
+  if (apiModeValue === 'live' || apiModeValue === 'mock') {
+    apiMode = apiModeValue;
+  } else {
+    issues.push({ variable: 'VITE_API_MODE', message: `must be live or mock (got "${apiModeValue}")` });
+  }
+
+  // The mock backend lives in the page, so it never needs a remote host
+  const defaults: ProfileDefaults =
+    apiMode === 'mock'
+      ? { apiBaseUrl: fallbackOrigin, magicLinkBaseUrl: fallbackOrigin }
+      : PROFILES[requestedProfile];
+
+  const config: EnvironmentConfig = {
+    profile: requestedProfile,
+    apiMode,
+    apiBaseUrl: normalizeUrl(
+      'VITE_API_BASE_URL',
+      readVariable(env, 'VITE_API_BASE_URL') ?? defaults.apiBaseUrl,
+      issues
+    ),
+    magicLinkBaseUrl: normalizeUrl(
+      'VITE_MAGIC_LINK_BASE_URL',
+      readVariable(env, 'VITE_MAGIC_LINK_BASE_URL') ?? defaults.magicLinkBaseUrl,
+      issues
+    ),
+    frontendBaseUrl: normalizeUrl(
+      'VITE_FRONTEND_BASE_URL',
+      readVariable(env, 'VITE_FRONTEND_BASE_URL') ?? defaults.frontendBaseUrl ?? fallbackOrigin,
+      issues
+    ),
+    requestTimeoutMs: parseNumber(
+      'VITE_API_TIMEOUT_MS',
+      readVariable(env, 'VITE_API_TIMEOUT_MS'),
+      DEFAULT_REQUEST_TIMEOUT_MS,
+      { min: 1000, max: 120000 },
+      issues
+    ),
+    maxRetries: parseNumber(
+      'VITE_API_MAX_RETRIES',
+      readVariable(env, 'VITE_API_MAX_RETRIES'),
+      DEFAULT_MAX_RETRIES,
+      { min: 0, max: 5 },
+      issues
+    ),
+    requireSignIn: parseBoolean(
+      'VITE_REQUIRE_SIGN_IN',
+      readVariable(env, 'VITE_REQUIRE_SIGN_IN'),
+      false,
+      issues
+    ),
+    mock: {
+      latencyMs: parseNumber(
+        'VITE_MOCK_LATENCY_MS',
+        readVariable(env, 'VITE_MOCK_LATENCY_MS'),
+        DEFAULT_MOCK_LATENCY_MS,
+        { min: 0, max: 30000 },
+        issues
+      ),
+      failureRate: parseNumber(
+        'VITE_MOCK_FAILURE_RATE',
+        readVariable(env, 'VITE_MOCK_FAILURE_RATE'),
+        0,
+        { min: 0, max: 1 },
+        issues
+      ),
+      staffPhones: parsePhoneList(
+        'VITE_MOCK_STAFF_PHONES',
+        readVariable(env, 'VITE_MOCK_STAFF_PHONES'),
+        DEFAULT_MOCK_STAFF_PHONES,
+        issues
+      ),
+    },
+  };
+
+  if (issues.length > 0) {
+    return { valid: false, profile: requestedProfile, issues };
+  }
+
+  return { valid: true, config };
+};
+
+export class EnvironmentConfigError extends Error {
+  constructor(public readonly issues: EnvironmentIssue[]) {
+    super(
+      `Invalid environment configuration: ${issues
+        .map(issue => `${issue.variable} ${issue.message}`)
+        .join('; ')}`
+    );
+    this.name = 'EnvironmentConfigError';
+  }
+}
+
+// Resolved once at module load; main.tsx renders an error screen instead of
+// the app when this is invalid
+export const environment: EnvironmentResult = loadEnvironment(import.meta.env);
+
+export const getConfig = (): EnvironmentConfig => {
+  if (!environment.valid) {
+    throw new EnvironmentConfigError(environment.issues);
+  }
+  return environment.config;
+};
+
+// Utility helpers
+export const getApiUrl = (endpoint: string): string => `${getConfig().apiBaseUrl}${endpoint}`;
+
+export const getMagicLinkUrl = (magicLinkId: string): string =>
+  `${getConfig().magicLinkBaseUrl}/appt/${magicLinkId}`;
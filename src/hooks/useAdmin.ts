@@ -0,0 +1,85 @@
+import { useCallback } from 'react';
+import {
+  apiService,
+  AdminBookingQuery,
+  BookingAuditEntry,
+  BookingPage,
+  BulkBookingAction,
+  BulkBookingResult,
+  PaymentUpdateRequest,
+} from '../services/api';
+import { queryCache } from '../services/queryCache';
+import { useMutation, useQuery, UseMutationResult, UseQueryResult } from './useQuery';
+import { BOOKING_KEY_PREFIX } from './useBooking';
+import { BOOKING_LIST_KEY_PREFIX } from './useMyBookings';
+
+export const ADMIN_BOOKINGS_KEY_PREFIX = 'admin-bookings:';
+export const AUDIT_LOG_KEY_PREFIX = 'booking-audit:';
+
+export const adminBookingsQueryKey = ({
+  search,
+  status,
+  paymentStatus,
+  sort,
+  page,
+  pageSize,
+}: AdminBookingQuery) =>
+  `${ADMIN_BOOKINGS_KEY_PREFIX}${search ?? ''}:${status ?? ''}:${paymentStatus ?? ''}:${sort ?? 'asc'}:${page}:${pageSize}`;
+
+export const auditLogQueryKey = (uuid: string) => `${AUDIT_LOG_KEY_PREFIX}${uuid}`;
+
+interface BulkActionVariables {
+  uuids: string[];
+  action: BulkBookingAction;
+}
+
+interface ReconcilePaymentVariables {
+  uuid: string;
+  // A reconciliation always records the amount and a reference
+  paymentData: PaymentUpdateRequest & { amount: number; currency: string; paymentId: string };
+}
+
+// Every view a staff change can show up in: the admin table, the customer
+// pages and the audit logs
+const invalidateAfterAdminChange = async () => {
+  await Promise.all([
+    queryCache.invalidateMatching(ADMIN_BOOKINGS_KEY_PREFIX),
+    queryCache.invalidateMatching(AUDIT_LOG_KEY_PREFIX),
+    queryCache.invalidateMatching(BOOKING_LIST_KEY_PREFIX),
+    queryCache.invalidateMatching(BOOKING_KEY_PREFIX),
+  ]);
+};
+
+// One page of the staff booking table
+export const useAdminBookings = (query: AdminBookingQuery): UseQueryResult<BookingPage> => {
+  const { search, status, paymentStatus, sort, page, pageSize } = query;
+  return useQuery<BookingPage>(
+    adminBookingsQueryKey(query),
+    useCallback(
+      signal =>
+        apiService.searchBookings({ search, status, paymentStatus, sort, page, pageSize }, { signal }),
+      [search, status, paymentStatus, sort, page, pageSize]
+    )
+  );
+};
+
+// Results are per booking, so a partly failed batch still succeeds
+export const useBulkBookingAction = (): UseMutationResult<BulkActionVariables, BulkBookingResult[]> =>
+  useMutation<BulkActionVariables, BulkBookingResult[]>(
+    ({ uuids, action }) => apiService.bulkUpdateBookings(uuids, action),
+    { onSuccess: invalidateAfterAdminChange }
+  );
+
+// Records a payment taken outside checkout, e.g. by bank transfer
+export const useReconcilePayment = (): UseMutationResult<ReconcilePaymentVariables, unknown> =>
+  useMutation<ReconcilePaymentVariables>(
+    ({ uuid, paymentData }) => apiService.updatePaymentStatus(uuid, paymentData),
+    { onSuccess: invalidateAfterAdminChange }
+  );
+
+// Idle when no uuid is given
+export const useBookingAuditLog = (uuid?: string): UseQueryResult<BookingAuditEntry[]> =>
+  useQuery<BookingAuditEntry[]>(
+    uuid ? auditLogQueryKey(uuid) : null,
+    useCallback(signal => apiService.getBookingAuditLog(uuid!, { signal }), [uuid])
+  );
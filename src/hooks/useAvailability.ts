@@ -0,0 +1,16 @@
+import { useCallback } from 'react';
+import { apiService, Availability } from '../services/api';
+import { useQuery, UseQueryResult } from './useQuery';
+
+export const AVAILABILITY_KEY_PREFIX = 'availability:';
+
+export const availabilityQueryKey = (from: string, to: string) =>
+  `${AVAILABILITY_KEY_PREFIX}${from}:${to}`;
+
+// Cached availability for an inclusive range of tutor-zone dates. Creating a
+// booking invalidates every range, so a slot someone just took disappears.
+export const useAvailability = (from: string, to: string): UseQueryResult<Availability> =>
+  useQuery<Availability>(
+    availabilityQueryKey(from, to),
+    useCallback(signal => apiService.getAvailability(from, to, { signal }), [from, to])
+  );
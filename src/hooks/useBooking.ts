@@ -1,174 +1,128 @@
-import { useState, useCallback } from 'react';
+import { useCallback } from 'react';
 import { BookingFormData } from '../types/booking';
-import { apiService, BookingResponse, BookingDetails, PaymentUpdateRequest } from '../services/api';
+import {
+  apiService,
+  BookingResponse,
+  BookingDetails,
+  CancelBookingRequest,
+  PaymentUpdateRequest,
+  RescheduleBookingRequest,
+} from '../services/api';
+import { queryCache } from '../services/queryCache';
+import { useQuery, useMutation, UseQueryResult, UseMutationResult } from './useQuery';
+import { AVAILABILITY_KEY_PREFIX } from './useAvailability';
+import { BOOKING_LIST_KEY_PREFIX } from './useMyBookings';
+import { existingBookingUuid } from '../services/apiError';
+import { rememberBooking } from '../services/rememberedBookings';
 
-interface UseBookingState {
-  loading: boolean;
-  error: string | null;
-  success: boolean;
-  bookingResponse: BookingResponse | null;
-  bookingDetails: BookingDetails | null;
+export const BOOKING_KEY_PREFIX = 'booking:';
+
+export const bookingQueryKey = (uuid: string) => `${BOOKING_KEY_PREFIX}${uuid}`;
+
+interface CreateBookingVariables {
+  data: BookingFormData;
+  // Reused for every attempt at the same booking; see CreateBookingOptions
+  idempotencyKey?: string;
 }
 
-interface UseBookingActions {
-  createBooking: (data: BookingFormData) => Promise<void>;
-  confirmBooking: (uuid: string) => Promise<void>;
-  updatePayment: (uuid: string, paymentData: PaymentUpdateRequest) => Promise<void>;
-  getBookingDetails: (uuid: string) => Promise<void>;
-  clearState: () => void;
+interface PaymentUpdateVariables {
+  uuid: string;
+  paymentData: PaymentUpdateRequest;
 }
 
-export const useBooking = (): UseBookingState & UseBookingActions => {
-  const [state, setState] = useState<UseBookingState>({
-    loading: false,
-    error: null,
-    success: false,
-    bookingResponse: null,
-    bookingDetails: null,
-  });
+interface CancelBookingVariables {
+  uuid: string;
+  request: CancelBookingRequest;
+}
 
-  const clearState = useCallback(() => {
-    setState({
-      loading: false,
-      error: null,
-      success: false,
-      bookingResponse: null,
-      bookingDetails: null,
-    });
-  }, []);
+interface RescheduleBookingVariables {
+  uuid: string;
+  request: RescheduleBookingRequest;
+}
 
-  const createBooking = useCallback(async (data: BookingFormData) => {
-    setState(prev => ({ ...prev, loading: true, error: null, success: false }));
-    
-    try {
-      const response = await apiService.createBooking(data);
-      
-      if (response.success && response.data) {
-        setState(prev => ({
-          ...prev,
-          loading: false,
-          success: true,
-          bookingResponse: response.data!,
-          error: null,
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          loading: false,
-          error: response.error || 'Failed to create booking',
-          success: false,
-        }));
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: error instanceof Error ? error.message : 'An unexpected error occurred',
-        success: false,
-      }));
-    }
-  }, []);
+interface UseBookingResult {
+  // Cached booking for `uuid`; idle when no uuid is given
+  details: UseQueryResult<BookingDetails>;
+  create: UseMutationResult<CreateBookingVariables, BookingResponse>;
+  confirm: UseMutationResult<string, unknown>;
+  payment: UseMutationResult<PaymentUpdateVariables, unknown>;
+  cancel: UseMutationResult<CancelBookingVariables, BookingDetails>;
+  reschedule: UseMutationResult<RescheduleBookingVariables, BookingDetails>;
+}
 
-  const confirmBooking = useCallback(async (uuid: string) => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-    
-    try {
-      const response = await apiService.confirmBooking(uuid);
-      
-      if (response.success) {
-        setState(prev => ({
-          ...prev,
-          loading: false,
-          success: true,
-          error: null,
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          loading: false,
-          error: response.error || 'Failed to confirm booking',
-          success: false,
-        }));
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: error instanceof Error ? error.message : 'An unexpected error occurred',
-        success: false,
-      }));
-    }
-  }, []);
+// Each operation carries its own loading and error state, so a payment update
+// no longer puts the whole booking view back into its loading state
+export const useBooking = (uuid?: string): UseBookingResult => {
+  const details = useQuery<BookingDetails>(
+    uuid ? bookingQueryKey(uuid) : null,
+    useCallback(signal => apiService.getBookingDetails(uuid!, { signal }), [uuid])
+  );
 
-  const updatePayment = useCallback(async (uuid: string, paymentData: PaymentUpdateRequest) => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-    
-    try {
-      const response = await apiService.updatePaymentStatus(uuid, paymentData);
-      
-      if (response.success) {
-        setState(prev => ({
-          ...prev,
-          loading: false,
-          success: true,
-          error: null,
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          loading: false,
-          error: response.error || 'Failed to update payment',
-          success: false,
-        }));
+  const create = useMutation<CreateBookingVariables, BookingResponse>(
+    async ({ data, idempotencyKey }) => {
+      const response = await apiService.createBooking(data, { idempotencyKey });
+      // Someone else took the slot; refresh so the picker stops offering it
+      if (response.apiError?.kind === 'conflict') {
+        void queryCache.invalidateMatching(AVAILABILITY_KEY_PREFIX);
+      }
+      // An earlier attempt created it, so it belongs on this device's list too
+      const existingUuid = existingBookingUuid(response.apiError);
+      if (existingUuid) {
+        rememberBooking(existingUuid);
+        void queryCache.invalidateMatching(BOOKING_LIST_KEY_PREFIX);
       }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: error instanceof Error ? error.message : 'An unexpected error occurred',
-        success: false,
-      }));
+      return response;
+    },
+    {
+      onSuccess: async data => {
+        if (data) rememberBooking(data.uuid);
+        await Promise.all([
+          queryCache.invalidateMatching(AVAILABILITY_KEY_PREFIX),
+          queryCache.invalidateMatching(BOOKING_LIST_KEY_PREFIX),
+        ]);
+      },
     }
-  }, []);
+  );
 
-  const getBookingDetails = useCallback(async (uuid: string) => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-    
-    try {
-      const response = await apiService.getBookingDetails(uuid);
-      
-      if (response.success && response.data) {
-        setState(prev => ({
-          ...prev,
-          loading: false,
-          success: true,
-          bookingDetails: response.data!,
-          error: null,
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          loading: false,
-          error: response.error || 'Failed to fetch booking details',
-          success: false,
-        }));
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        loading: false,
-        error: error instanceof Error ? error.message : 'An unexpected error occurred',
-        success: false,
-      }));
+  const confirm = useMutation<string>(target => apiService.confirmBooking(target), {
+    onSuccess: async (_data, target) => {
+      await Promise.all([
+        queryCache.invalidate(bookingQueryKey(target)),
+        queryCache.invalidateMatching(BOOKING_LIST_KEY_PREFIX),
+      ]);
+    },
+  });
+
+  const payment = useMutation<PaymentUpdateVariables>(
+    ({ uuid: target, paymentData }) => apiService.updatePaymentStatus(target, paymentData),
+    {
+      onSuccess: async (_data, { uuid: target }) => {
+        await Promise.all([
+          queryCache.invalidate(bookingQueryKey(target)),
+          queryCache.invalidateMatching(BOOKING_LIST_KEY_PREFIX),
+        ]);
+      },
     }
-  }, []);
+  );
 
-  return {
-    ...state,
-    createBooking,
-    confirmBooking,
-    updatePayment,
-    getBookingDetails,
-    clearState,
+  // Both free up the old slot, so availability is refetched too
+  const afterChange = async (target: string) => {
+    await Promise.all([
+      queryCache.invalidate(bookingQueryKey(target)),
+      queryCache.invalidateMatching(BOOKING_LIST_KEY_PREFIX),
+      queryCache.invalidateMatching(AVAILABILITY_KEY_PREFIX),
+    ]);
   };
-}; 
\ No newline at end of file
+
+  const cancel = useMutation<CancelBookingVariables, BookingDetails>(
+    ({ uuid: target, request }) => apiService.cancelBooking(target, request),
+    { onSuccess: (_data, { uuid: target }) => afterChange(target) }
+  );
+
+  const reschedule = useMutation<RescheduleBookingVariables, BookingDetails>(
+    ({ uuid: target, request }) => apiService.rescheduleBooking(target, request),
+    { onSuccess: (_data, { uuid: target }) => afterChange(target) }
+  );
+
+  return { details, create, confirm, payment, cancel, reschedule };
+};
@@ -0,0 +1,29 @@
+import { apiService, BookingDataExport, BookingDetails } from '../services/api';
+import { queryCache } from '../services/queryCache';
+import { useMutation, UseMutationResult } from './useQuery';
+import { bookingQueryKey } from './useBooking';
+import { linkAnalyticsQueryKey } from './useLinkAnalytics';
+
+interface UseBookingDataResult {
+  exportData: UseMutationResult<string, BookingDataExport>;
+  requestDeletion: UseMutationResult<string, BookingDetails>;
+}
+
+// The customer's data requests for one booking, keyed by uuid
+export const useBookingData = (): UseBookingDataResult => {
+  const exportData = useMutation<string, BookingDataExport>(uuid => apiService.exportBookingData(uuid));
+
+  const requestDeletion = useMutation<string, BookingDetails>(
+    uuid => apiService.requestBookingDataDeletion(uuid),
+    {
+      onSuccess: async (booking, uuid) => {
+        if (!booking) return;
+        queryCache.setData(bookingQueryKey(uuid), () => booking);
+        // Its tracked events are gone
+        await queryCache.invalidate(linkAnalyticsQueryKey(booking.magicLinkId));
+      },
+    }
+  );
+
+  return { exportData, requestDeletion };
+};
@@ -0,0 +1,162 @@
+import { useState, useCallback, useRef } from 'react';
+import { apiService } from '../services/api';
+import { refusedAction } from '../services/apiError';
+import { formatRefusedAction } from '../services/bookingLifecycle';
+import { queryCache } from '../services/queryCache';
+import { Price } from '../services/pricing';
+import { CardDetails, CardErrors, getPaymentProvider, toMinorUnits, validateCard } from '../services/payments';
+import { bookingQueryKey } from './useBooking';
+import { useI18n } from './useI18n';
+
+export type CheckoutStep = 'idle' | 'processing' | 'succeeded' | 'declined' | 'error';
+
+interface UseCheckoutState {
+  step: CheckoutStep;
+  cardErrors: CardErrors;
+  error: string | null;
+  paymentId: string | null;
+}
+
+export type CheckoutOutcome =
+  | { status: 'succeeded'; paymentId: string }
+  | { status: 'failed'; message: string }
+  // Card details did not validate; nothing was sent
+  | { status: 'invalid' };
+
+interface UseCheckoutActions {
+  payWithCard: (card: CardDetails, price: Price) => Promise<CheckoutOutcome>;
+  // Gives up on a payment left `processing` by an interrupted attempt so the
+  // customer can pay again; see isPaymentStale
+  recoverPayment: () => Promise<boolean>;
+  reset: () => void;
+}
+
+const initialState: UseCheckoutState = {
+  step: 'idle',
+  cardErrors: {},
+  error: null,
+  paymentId: null,
+};
+
+// Recording the outcome is a PUT of the full status, so retrying it is safe
+const RECORD_RETRIES = 2;
+
+// Drives a card payment for one booking:
+// pending -> processing -> completed | failed, recorded via updatePaymentStatus
+export const useCheckout = (uuid: string): UseCheckoutState & UseCheckoutActions => {
+  const { locale, t } = useI18n();
+  const [state, setState] = useState<UseCheckoutState>(initialState);
+
+  // A failed attempt whose outcome could not be recorded leaves the booking
+  // `processing`; the next attempt records it first
+  const unrecordedFailure = useRef(false);
+
+  const reset = useCallback(() => setState(initialState), []);
+
+  const recordFailure = useCallback(
+    async (paymentId?: string): Promise<boolean> => {
+      const recorded = await apiService.updatePaymentStatus(
+        uuid,
+        { paymentStatus: 'failed', paymentId },
+        { retries: RECORD_RETRIES }
+      );
+      unrecordedFailure.current = !recorded.success;
+      return recorded.success;
+    },
+    [uuid]
+  );
+
+  const recoverPayment = useCallback(async (): Promise<boolean> => {
+    try {
+      return await recordFailure();
+    } finally {
+      await queryCache.invalidate(bookingQueryKey(uuid));
+    }
+  }, [uuid, recordFailure]);
+
+  const payWithCard = useCallback(
+    async (card: CardDetails, price: Price): Promise<CheckoutOutcome> => {
+      const cardErrors = validateCard(card, locale);
+      if (Object.keys(cardErrors).length > 0) {
+        setState({ ...initialState, cardErrors });
+        return { status: 'invalid' };
+      }
+
+      setState({ ...initialState, step: 'processing' });
+
+      if (unrecordedFailure.current && !(await recordFailure())) {
+        const message = t('payment.error.notReset');
+        setState({ ...initialState, step: 'error', error: message });
+        return { status: 'failed', message };
+      }
+
+      const started = await apiService.updatePaymentStatus(uuid, {
+        paymentStatus: 'processing',
+        amount: price.amount,
+        currency: price.currency,
+      });
+      if (!started.success) {
+        const refused = refusedAction(started.apiError);
+        const message = refused ? formatRefusedAction(locale, refused) : started.error || t('payment.error.notStarted');
+        setState({ ...initialState, step: 'error', error: message });
+        return { status: 'failed', message };
+      }
+
+      const provider = getPaymentProvider();
+      let result;
+      try {
+        const intent = await provider.createPaymentIntent(
+          toMinorUnits(price.amount, price.currency),
+          price.currency,
+          { bookingUuid: uuid }
+        );
+        result = await provider.confirmCardPayment(intent, card);
+      } catch {
+        result = { status: 'error' as const };
+      }
+
+      try {
+        if (result.status === 'succeeded') {
+          const recorded = await apiService.updatePaymentStatus(
+            uuid,
+            {
+              paymentStatus: 'completed',
+              paymentId: result.paymentId,
+              amount: price.amount,
+              currency: price.currency,
+            },
+            { retries: RECORD_RETRIES }
+          );
+
+          if (!recorded.success) {
+            // The card was charged; surface the reference so support can reconcile
+            const message = t('payment.error.notRecorded', { reference: result.paymentId });
+            setState({ ...initialState, step: 'error', paymentId: result.paymentId, error: message });
+            return { status: 'failed', message };
+          }
+
+          setState({ ...initialState, step: 'succeeded', paymentId: result.paymentId });
+          return { status: 'succeeded', paymentId: result.paymentId };
+        }
+
+        const failureRecorded = await recordFailure(result.status === 'declined' ? result.paymentId : undefined);
+        // Providers' own messages are in English; declines are explained by code
+        const reason =
+          result.status === 'declined' ? t(`payment.decline.${result.code}`) : t('payment.error.notProcessed');
+        // Nothing was charged, so the customer can simply try again
+        const message = failureRecorded ? reason : t('payment.error.failureNotRecorded', { reason });
+        setState({
+          ...initialState,
+          step: result.status === 'declined' ? 'declined' : 'error',
+          error: message,
+        });
+        return { status: 'failed', message };
+      } finally {
+        await queryCache.invalidate(bookingQueryKey(uuid));
+      }
+    },
+    [uuid, recordFailure, locale, t]
+  );
+
+  return { ...state, payWithCard, recoverPayment, reset };
+};
@@ -0,0 +1,23 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { consentStore } from '../services/consent';
+import { ConsentChoices, ConsentRecord } from '../types/consent';
+
+interface UseConsentResult {
+  // Null until the user has decided under the current consent version
+  record: ConsentRecord | null;
+  preferencesOpen: boolean;
+  save: (choices: ConsentChoices) => void;
+  openPreferences: () => void;
+  closePreferences: () => void;
+}
+
+export const useConsent = (): UseConsentResult => {
+  const record = useSyncExternalStore(consentStore.subscribe, consentStore.get);
+  const preferencesOpen = useSyncExternalStore(consentStore.subscribe, consentStore.isPreferencesOpen);
+
+  const save = useCallback((choices: ConsentChoices) => consentStore.save(choices), []);
+  const openPreferences = useCallback(() => consentStore.setPreferencesOpen(true), []);
+  const closePreferences = useCallback(() => consentStore.setPreferencesOpen(false), []);
+
+  return { record, preferencesOpen, save, openPreferences, closePreferences };
+};
@@ -0,0 +1,19 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Focuses an element by id once the next render is on screen, so focus can
+// move to something that is only rendered by the state change that asked for
+// it (a field on another step, a button hidden behind an open panel). Call it
+// alongside the state update.
+export const useFocusAfterRender = (): ((id: string) => void) => {
+  const target = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!target.current) return;
+    document.getElementById(target.current)?.focus();
+    target.current = null;
+  });
+
+  return useCallback((id: string) => {
+    target.current = id;
+  }, []);
+};
@@ -0,0 +1,41 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { Locale } from '../types/i18n';
+import {
+  formatDate,
+  formatDateTime,
+  formatNumber,
+  localeStore,
+  MessageKey,
+  MessageParams,
+  translate,
+} from '../services/i18n';
+import { formatPrice } from '../services/pricing';
+
+interface UseI18nResult {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDate: (value: string | Date) => string;
+  formatDateTime: (value: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatPrice: (amount: number, currency: string) => string;
+}
+
+// Translations and Intl formatting in the current language; components
+// re-render when the language changes
+export const useI18n = (): UseI18nResult => {
+  const locale = useSyncExternalStore(localeStore.subscribe, localeStore.get);
+
+  const setLocale = useCallback((next: Locale) => localeStore.set(next), []);
+  const t = useCallback((key: MessageKey, params?: MessageParams) => translate(locale, key, params), [locale]);
+
+  return {
+    locale,
+    setLocale,
+    t,
+    formatDate: value => formatDate(value, locale),
+    formatDateTime: (value, options) => formatDateTime(value, locale, options),
+    formatNumber: (value, options) => formatNumber(value, locale, options),
+    formatPrice: (amount, currency) => formatPrice(amount, currency, locale),
+  };
+};
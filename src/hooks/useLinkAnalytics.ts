@@ -0,0 +1,27 @@
+import { useCallback, useEffect } from 'react';
+import { apiService, MagicLinkAnalytics } from '../services/api';
+import { queryCache } from '../services/queryCache';
+import { onTrackedEventsSent } from '../services/tracking';
+import { useQuery, UseQueryResult } from './useQuery';
+
+export const LINK_ANALYTICS_KEY_PREFIX = 'link-analytics:';
+
+export const linkAnalyticsQueryKey = (magicLinkId: string) => `${LINK_ANALYTICS_KEY_PREFIX}${magicLinkId}`;
+
+// Cached opens and events for one magic link; idle without an id. Refetched
+// when this page's tracker delivers events for the link.
+export const useLinkAnalytics = (magicLinkId?: string): UseQueryResult<MagicLinkAnalytics> => {
+  useEffect(() => {
+    if (!magicLinkId) return;
+    return onTrackedEventsSent(events => {
+      if (events.some(event => event.magicLinkId === magicLinkId)) {
+        void queryCache.invalidate(linkAnalyticsQueryKey(magicLinkId));
+      }
+    });
+  }, [magicLinkId]);
+
+  return useQuery<MagicLinkAnalytics>(
+    magicLinkId ? linkAnalyticsQueryKey(magicLinkId) : null,
+    useCallback(signal => apiService.getMagicLinkAnalytics(magicLinkId!, { signal }), [magicLinkId])
+  );
+};
@@ -1,16 +1,16 @@
 import { useState, useCallback } from 'react';
-import { apiService, MagicLinkPreview, AnalyticsEvent } from '../services/api';
+import { apiService, ApiError, MagicLinkPreview, MagicLinkAnalytics } from '../services/api';
 
 interface UseMagicLinkState {
   loading: boolean;
   error: string | null;
+  apiError: ApiError | null;
   preview: MagicLinkPreview | null;
-  analytics: any | null;
+  analytics: MagicLinkAnalytics | null;
 }
 
 interface UseMagicLinkActions {
   previewMagicLink: (magicLinkId: string) => Promise<void>;
-  trackEvent: (magicLinkId: string, event: AnalyticsEvent) => Promise<void>;
   getAnalytics: (magicLinkId: string) => Promise<void>;
   clearState: () => void;
 }
@@ -19,6 +19,7 @@ export const useMagicLink = (): UseMagicLinkState & UseMagicLinkActions => {
   const [state, setState] = useState<UseMagicLinkState>({
     loading: false,
     error: null,
+    apiError: null,
     preview: null,
     analytics: null,
   });
@@ -27,13 +28,14 @@ export const useMagicLink = (): UseMagicLinkState & UseMagicLinkActions => {
     setState({
       loading: false,
       error: null,
+      apiError: null,
       preview: null,
       analytics: null,
     });
   }, []);
 
   const previewMagicLink = useCallback(async (magicLinkId: string) => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
+    setState(prev => ({ ...prev, loading: true, error: null, apiError: null }));
     
     try {
       const response = await apiService.previewMagicLink(magicLinkId);
@@ -44,12 +46,14 @@ export const useMagicLink = (): UseMagicLinkState & UseMagicLinkActions => {
           loading: false,
           preview: response.data!,
           error: null,
+          apiError: null,
         }));
       } else {
         setState(prev => ({
           ...prev,
           loading: false,
           error: response.error || 'Failed to preview magic link',
+          apiError: response.apiError ?? null,
         }));
       }
     } catch (error) {
@@ -57,22 +61,13 @@ export const useMagicLink = (): UseMagicLinkState & UseMagicLinkActions => {
         ...prev,
         loading: false,
         error: error instanceof Error ? error.message : 'An unexpected error occurred',
+        apiError: null,
       }));
     }
   }, []);
 
-  const trackEvent = useCallback(async (magicLinkId: string, eventData: AnalyticsEvent) => {
-    try {
-      // Track event in background - don't update loading state for this
-      await apiService.trackMagicLinkEvent(magicLinkId, eventData);
-    } catch (error) {
-      console.error('Failed to track event:', error);
-      // Don't show error to user for tracking failures
-    }
-  }, []);
-
   const getAnalytics = useCallback(async (magicLinkId: string) => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
+    setState(prev => ({ ...prev, loading: true, error: null, apiError: null }));
     
     try {
       const response = await apiService.getMagicLinkAnalytics(magicLinkId);
@@ -81,14 +76,16 @@ export const useMagicLink = (): UseMagicLinkState & UseMagicLinkActions => {
         setState(prev => ({
           ...prev,
           loading: false,
-          analytics: response.data,
+          analytics: response.data ?? null,
           error: null,
+          apiError: null,
         }));
       } else {
         setState(prev => ({
           ...prev,
           loading: false,
           error: response.error || 'Failed to fetch analytics',
+          apiError: response.apiError ?? null,
         }));
       }
     } catch (error) {
@@ -96,6 +93,7 @@ export const useMagicLink = (): UseMagicLinkState & UseMagicLinkActions => {
         ...prev,
         loading: false,
         error: error instanceof Error ? error.message : 'An unexpected error occurred',
+        apiError: null,
       }));
     }
   }, []);
@@ -103,7 +101,6 @@ export const useMagicLink = (): UseMagicLinkState & UseMagicLinkActions => {
   return {
     ...state,
     previewMagicLink,
-    trackEvent,
     getAnalytics,
     clearState,
   };
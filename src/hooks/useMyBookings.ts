@@ -0,0 +1,53 @@
+import { useCallback, useState, useSyncExternalStore } from 'react';
+import { apiService, BookingDetails, BookingListQuery } from '../services/api';
+import { forgetBooking, getRememberedBookingIds } from '../services/rememberedBookings';
+import { sessionStore } from '../services/session';
+import { useQuery, UseQueryResult } from './useQuery';
+
+export const BOOKING_LIST_KEY_PREFIX = 'booking-list:';
+
+export type BookingListFilters = Omit<BookingListQuery, 'ids'>;
+
+// The signed-in phone is part of the key because the backend adds that
+// phone's bookings to the list
+export const bookingListQueryKey = (
+  { ids, status, paymentStatus, sort }: BookingListQuery,
+  phone?: string
+) =>
+  `${BOOKING_LIST_KEY_PREFIX}${phone ?? ''}:${ids.join(',')}:${status ?? ''}:${paymentStatus ?? ''}:${sort ?? 'asc'}`;
+
+interface UseMyBookingsResult {
+  // Idle when signed out and this device has no remembered bookings
+  bookings: UseQueryResult<BookingDetails[]>;
+  rememberedIds: string[];
+  forget: (uuid: string) => void;
+}
+
+// Bookings remembered on this device, plus those made with the signed-in phone,
+// filtered and sorted by the backend. Creating, confirming or paying for a
+// booking invalidates every list.
+export const useMyBookings = (filters: BookingListFilters): UseMyBookingsResult => {
+  const { status, paymentStatus, sort } = filters;
+  const [rememberedIds, setRememberedIds] = useState(getRememberedBookingIds);
+  const phone = useSyncExternalStore(sessionStore.subscribe, () => sessionStore.get()?.phone);
+  const key =
+    rememberedIds.length > 0 || phone
+      ? bookingListQueryKey({ ids: rememberedIds, status, paymentStatus, sort }, phone)
+      : null;
+
+  const bookings = useQuery<BookingDetails[]>(
+    key,
+    useCallback(
+      signal =>
+        apiService.listBookings({ ids: rememberedIds, status, paymentStatus, sort }, { signal }),
+      [rememberedIds, status, paymentStatus, sort]
+    )
+  );
+
+  const forget = useCallback((uuid: string) => {
+    forgetBooking(uuid);
+    setRememberedIds(getRememberedBookingIds());
+  }, []);
+
+  return { bookings, rememberedIds, forget };
+};
@@ -0,0 +1,115 @@
+import { useState, useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { ApiError, ApiResponse } from '../services/api';
+import { queryCache, QueryFetcher, QueryState } from '../services/queryCache';
+
+const IDLE_QUERY: QueryState<never> = {
+  data: undefined,
+  error: null,
+  apiError: null,
+  loading: false,
+  fetching: false,
+  updatedAt: 0,
+};
+
+export interface UseQueryResult<T> extends QueryState<T> {
+  refetch: () => Promise<void>;
+}
+
+// Subscribes to a cached query. Pass `null` as the key to skip fetching.
+export const useQuery = <T>(key: string | null, fetcher: QueryFetcher<T>): UseQueryResult<T> => {
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => (key ? queryCache.subscribe(key, listener) : () => {}),
+    [key]
+  );
+  const getSnapshot = useCallback(
+    (): QueryState<T> => (key ? queryCache.getState<T>(key) : IDLE_QUERY),
+    [key]
+  );
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (key) {
+      void queryCache.fetch<T>(key, signal => fetcherRef.current(signal));
+    }
+  }, [key]);
+
+  const refetch = useCallback(
+    () =>
+      key
+        ? queryCache.fetch<T>(key, signal => fetcherRef.current(signal), { force: true })
+        : Promise.resolve(),
+    [key]
+  );
+
+  return { ...state, refetch };
+};
+
+export interface MutationState<T> {
+  loading: boolean;
+  success: boolean;
+  error: string | null;
+  apiError: ApiError | null;
+  data: T | null;
+}
+
+export interface UseMutationResult<TVariables, T> extends MutationState<T> {
+  mutate: (variables: TVariables) => Promise<ApiResponse<T>>;
+  reset: () => void;
+}
+
+interface UseMutationOptions<TVariables, T> {
+  // Awaited before the mutation reports success, so a query invalidated here
+  // has refetched by the time the caller's await resolves
+  onSuccess?: (data: T | undefined, variables: TVariables) => void | Promise<void>;
+}
+
+const IDLE_MUTATION: MutationState<never> = {
+  loading: false,
+  success: false,
+  error: null,
+  apiError: null,
+  data: null,
+};
+
+// Tracks loading/error state for one kind of write, independently of any
+// other mutation or query on the page
+export const useMutation = <TVariables, T = unknown>(
+  mutationFn: (variables: TVariables) => Promise<ApiResponse<T>>,
+  options: UseMutationOptions<TVariables, T> = {}
+): UseMutationResult<TVariables, T> => {
+  const [state, setState] = useState<MutationState<T>>(IDLE_MUTATION);
+
+  const mutationFnRef = useRef(mutationFn);
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    mutationFnRef.current = mutationFn;
+    optionsRef.current = options;
+  });
+
+  const mutate = useCallback(async (variables: TVariables) => {
+    setState({ ...IDLE_MUTATION, loading: true });
+
+    const response = await mutationFnRef.current(variables);
+
+    if (response.success) {
+      await optionsRef.current.onSuccess?.(response.data, variables);
+      setState({ ...IDLE_MUTATION, success: true, data: response.data ?? null });
+    } else {
+      setState({
+        ...IDLE_MUTATION,
+        error: response.error || 'Request failed',
+        apiError: response.apiError ?? null,
+      });
+    }
+    return response;
+  }, []);
+
+  const reset = useCallback(() => setState(IDLE_MUTATION), []);
+
+  return { ...state, mutate, reset };
+};
@@ -0,0 +1,55 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { apiService, OtpChallenge, Session } from '../services/api';
+import { queryCache } from '../services/queryCache';
+import { sessionStore } from '../services/session';
+import { useMutation, UseMutationResult } from './useQuery';
+import { BOOKING_KEY_PREFIX } from './useBooking';
+import { BOOKING_LIST_KEY_PREFIX } from './useMyBookings';
+
+interface VerifyOtpVariables {
+  phone: string;
+  code: string;
+}
+
+interface UseSessionResult {
+  // Null when signed out, including after a refresh token is rejected
+  session: Session | null;
+  signOut: () => Promise<void>;
+}
+
+interface UseOtpSignInResult {
+  request: UseMutationResult<string, OtpChallenge>;
+  verify: UseMutationResult<VerifyOtpVariables, Session>;
+}
+
+// Cached queries may hold bookings only the previous session could see
+const invalidateSessionQueries = async () => {
+  await Promise.all([
+    queryCache.invalidateMatching(BOOKING_LIST_KEY_PREFIX),
+    queryCache.invalidateMatching(BOOKING_KEY_PREFIX),
+  ]);
+};
+
+export const useSession = (): UseSessionResult => {
+  const session = useSyncExternalStore(sessionStore.subscribe, sessionStore.get);
+
+  const signOut = useCallback(async () => {
+    await apiService.signOut();
+    await invalidateSessionQueries();
+  }, []);
+
+  return { session, signOut };
+};
+
+// The two steps of signing in: text a code to the phone, then exchange it for
+// a session
+export const useOtpSignIn = (): UseOtpSignInResult => {
+  const request = useMutation<string, OtpChallenge>(phone => apiService.requestOtp(phone));
+
+  const verify = useMutation<VerifyOtpVariables, Session>(
+    ({ phone, code }) => apiService.verifyOtp(phone, code),
+    { onSuccess: invalidateSessionQueries }
+  );
+
+  return { request, verify };
+};
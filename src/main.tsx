@@ -1,10 +1,19 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { ConfigErrorScreen } from './components/ConfigErrorScreen';
+import { environment } from './config/environment';
+import { startTracking } from './services/tracking';
 import './index.css';
 
+if (environment.valid) startTracking();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {environment.valid ? (
+      <App />
+    ) : (
+      <ConfigErrorScreen profile={environment.profile} issues={environment.issues} />
+    )}
   </StrictMode>
 );
@@ -0,0 +1,441 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  RefreshCw,
+  Search,
+  SearchX,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { AdminBookingTable } from '../components/AdminBookingTable';
+import { AppointmentTime } from '../components/AppointmentTime';
+import { BookingAuditLog } from '../components/BookingAuditLog';
+import { MagicLinkAnalytics } from '../components/MagicLinkAnalytics';
+import { PaymentReconciliation } from '../components/PaymentReconciliation';
+import { useAdminBookings, useBulkBookingAction } from '../hooks/useAdmin';
+import { useBooking } from '../hooks/useBooking';
+import { useSession } from '../hooks/useSession';
+import { AdminBookingQuery, BulkBookingAction } from '../services/api';
+import { BOOKING_STATUS_LABELS, PAYMENT_STATUS_LABELS } from '../services/bookingStatus';
+import {
+  BOOKING_STATUSES,
+  PAYMENT_STATUSES,
+  BookingStatus,
+  PaymentStatus,
+} from '../types/booking';
+
+const PAGE_SIZE = 20;
+
+// Typing in the search box waits for a pause before querying
+const SEARCH_DELAY_MS = 300;
+
+// The table state lives in the URL so a filtered page can be reloaded or shared
+const readQuery = (params: URLSearchParams): AdminBookingQuery => {
+  const status = params.get('status');
+  const paymentStatus = params.get('payment');
+  const page = Number(params.get('page'));
+  return {
+    search: params.get('q') ?? undefined,
+    status: BOOKING_STATUSES.includes(status as BookingStatus) ? (status as BookingStatus) : undefined,
+    paymentStatus: PAYMENT_STATUSES.includes(paymentStatus as PaymentStatus)
+      ? (paymentStatus as PaymentStatus)
+      : undefined,
+    sort: params.get('sort') === 'desc' ? 'desc' : 'asc',
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    pageSize: PAGE_SIZE,
+  };
+};
+
+const withParams = (params: URLSearchParams, changes: Record<string, string | undefined>) => {
+  const next = new URLSearchParams(params);
+  Object.entries(changes).forEach(([name, value]) => {
+    if (value) next.set(name, value);
+    else next.delete(name);
+  });
+  return next;
+};
+
+const BULK_ACTION_LABELS: Record<BulkBookingAction, string> = {
+  confirm: 'confirmed',
+  cancel: 'cancelled',
+};
+
+export const AdminPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = readQuery(searchParams);
+  const activeUuid = searchParams.get('booking') ?? undefined;
+
+  const { session, signOut } = useSession();
+  const bookings = useAdminBookings(query);
+  const bulkAction = useBulkBookingAction();
+  const { details: activeBooking } = useBooking(activeUuid);
+
+  const [searchInput, setSearchInput] = useState(query.search ?? '');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [lastBulk, setLastBulk] = useState<{ action: BulkBookingAction; updated: number } | null>(null);
+
+  const items = bookings.data?.items ?? [];
+  const total = bookings.data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const updateParams = (changes: Record<string, string | undefined>) =>
+    setSearchParams(current => withParams(current, changes), { replace: true });
+
+  // Any filter change starts again from the first page
+  const setFilter = (name: 'status' | 'payment' | 'sort', value: string) =>
+    updateParams({ [name]: value, page: undefined });
+
+  const setPage = (page: number) => updateParams({ page: page > 1 ? String(page) : undefined });
+
+  const appliedSearch = query.search ?? '';
+  useEffect(() => {
+    const value = searchInput.trim();
+    if (value === appliedSearch) return;
+    const timer = window.setTimeout(
+      () => setSearchParams(current => withParams(current, { q: value, page: undefined }), { replace: true }),
+      SEARCH_DELAY_MS
+    );
+    return () => window.clearTimeout(timer);
+  }, [searchInput, appliedSearch, setSearchParams]);
+
+  const toggle = (uuid: string) =>
+    setSelected(current =>
+      current.includes(uuid) ? current.filter(candidate => candidate !== uuid) : [...current, uuid]
+    );
+
+  const toggleAll = () => {
+    const pageIds = items.map(booking => booking.id);
+    const allSelected = pageIds.every(uuid => selected.includes(uuid));
+    setSelected(current =>
+      allSelected
+        ? current.filter(uuid => !pageIds.includes(uuid))
+        : [...current, ...pageIds.filter(uuid => !current.includes(uuid))]
+    );
+  };
+
+  const runBulkAction = async (action: BulkBookingAction) => {
+    const count = `${selected.length} booking${selected.length === 1 ? '' : 's'}`;
+    if (action === 'cancel' && !window.confirm(`Cancel ${count}? Customers will lose their slot.`)) {
+      return;
+    }
+    setLastBulk(null);
+    const response = await bulkAction.mutate({ uuids: selected, action });
+    if (response.success && response.data) {
+      const failedIds = response.data.filter(result => !result.success).map(result => result.uuid);
+      setLastBulk({ action, updated: response.data.length - failedIds.length });
+      // Failures stay selected so they can be looked at or retried
+      setSelected(failedIds);
+    }
+  };
+
+  const failures = bulkAction.data?.filter(result => !result.success) ?? [];
+  const selectClassName =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200';
+
+  const renderTable = () => {
+    if (bookings.loading) {
+      return (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      );
+    }
+
+    if (bookings.error && !bookings.data) {
+      return (
+        <div className="p-8 text-center text-red-600">
+          <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold">Couldn't Load Bookings</h3>
+          <p className="text-sm mt-1">{bookings.error}</p>
+          <button
+            onClick={() => bookings.refetch()}
+            className="mt-6 inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200"
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>Try Again</span>
+          </button>
+        </div>
+      );
+    }
+
+    if (items.length === 0) {
+      return (
+        <div className="p-8 text-center text-gray-500">
+          <SearchX className="h-12 w-12 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold">No Bookings Found</h3>
+          <p className="text-sm mt-1">Try a different search or clear the filters.</p>
+        </div>
+      );
+    }
+
+    return (
+      <AdminBookingTable
+        bookings={items}
+        selected={selected}
+        onToggle={toggle}
+        onToggleAll={toggleAll}
+        activeUuid={activeUuid}
+        onManage={uuid => updateParams({ booking: uuid === activeUuid ? undefined : uuid })}
+      />
+    );
+  };
+
+  const renderManagePanel = () => {
+    if (!activeUuid) return null;
+    const booking = activeBooking.data;
+
+    return (
+      <section
+        aria-labelledby="manage-booking-heading"
+        className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 space-y-6"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 id="manage-booking-heading" className="text-lg font-semibold text-gray-900">
+              {booking ? booking.userName : 'Booking'}
+            </h2>
+            {booking && (
+              <div className="text-sm text-gray-500 space-y-1 mt-1">
+                <p className="font-mono text-xs">{booking.bookingId}</p>
+                <AppointmentTime
+                  date={booking.appointmentDate}
+                  tutorTimeZone={booking.tutorTimeZone}
+                  bookerTimeZone={booking.bookerTimeZone}
+                />
+                <p>
+                  {BOOKING_STATUS_LABELS[booking.status]} · Payment {PAYMENT_STATUS_LABELS[booking.paymentStatus].toLowerCase()}
+                  {booking.paymentId && ` (ref ${booking.paymentId})`}
+                </p>
+              </div>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => updateParams({ booking: undefined })}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close booking panel"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {activeBooking.loading && <Loader2 className="h-6 w-6 animate-spin text-blue-600" />}
+        {activeBooking.error && !booking && <p className="text-sm text-red-600">{activeBooking.error}</p>}
+
+        {booking && (
+          <>
+            <div className="border-t pt-6">
+              <h3 className="text-sm font-semibold text-gray-900 mb-4">Reconcile Payment</h3>
+              {/* Keyed so the form resets to the booking's figures when another is opened */}
+              <PaymentReconciliation key={booking.id} booking={booking} />
+            </div>
+            <div className="border-t pt-6">
+              <h3 className="text-sm font-semibold text-gray-900 mb-4">Audit Log</h3>
+              <BookingAuditLog uuid={booking.id} />
+            </div>
+            <div className="border-t pt-6">
+              <h3 className="text-sm font-semibold text-gray-900 mb-4">Link Activity</h3>
+              <MagicLinkAnalytics booking={booking} />
+            </div>
+          </>
+        )}
+      </section>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link to="/" className="flex items-center text-gray-600 hover:text-gray-900 transition-colors">
+              <ArrowLeft className="h-5 w-5 mr-2" />
+            </Link>
+            <h1 className="text-xl font-semibold text-gray-900">Bookings Admin</h1>
+          </div>
+          <div className="flex items-center space-x-4 text-sm">
+            <span className="hidden sm:inline text-gray-500">Staff {session?.phone}</span>
+            <button
+              type="button"
+              onClick={() => void signOut()}
+              className="text-gray-600 hover:text-gray-900 font-medium"
+            >
+              Sign out
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="py-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+          {/* Filters */}
+          <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-4 grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <label htmlFor="admin-search" className="block text-sm font-medium text-gray-700 mb-2">
+                Search
+              </label>
+              <div className="relative">
+                <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  id="admin-search"
+                  type="search"
+                  value={searchInput}
+                  onChange={e => setSearchInput(e.target.value)}
+                  className={`${selectClassName} pl-9`}
+                  placeholder="Name, phone or booking ID"
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="admin-status" className="block text-sm font-medium text-gray-700 mb-2">
+                Booking Status
+              </label>
+              <select
+                id="admin-status"
+                value={query.status ?? ''}
+                onChange={e => setFilter('status', e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">All</option>
+                {BOOKING_STATUSES.map(status => (
+                  <option key={status} value={status}>
+                    {BOOKING_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="admin-payment" className="block text-sm font-medium text-gray-700 mb-2">
+                Payment Status
+              </label>
+              <select
+                id="admin-payment"
+                value={query.paymentStatus ?? ''}
+                onChange={e => setFilter('payment', e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">All</option>
+                {PAYMENT_STATUSES.map(status => (
+                  <option key={status} value={status}>
+                    {PAYMENT_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Bulk actions */}
+          {selected.length > 0 && (
+            <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 flex flex-wrap items-center gap-3">
+              <span className="text-sm font-medium text-blue-900">{selected.length} selected</span>
+              <button
+                type="button"
+                onClick={() => void runBulkAction('confirm')}
+                disabled={bulkAction.loading}
+                className="inline-flex items-center space-x-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white py-2 px-3 rounded-lg text-sm font-medium transition-all duration-200"
+              >
+                <CheckCircle className="h-4 w-4" />
+                <span>Confirm</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => void runBulkAction('cancel')}
+                disabled={bulkAction.loading}
+                className="inline-flex items-center space-x-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white py-2 px-3 rounded-lg text-sm font-medium transition-all duration-200"
+              >
+                <XCircle className="h-4 w-4" />
+                <span>Cancel Bookings</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => setSelected([])}
+                className="text-sm text-blue-700 hover:text-blue-900 font-medium"
+              >
+                Clear selection
+              </button>
+              {bulkAction.loading && <Loader2 className="h-4 w-4 animate-spin text-blue-600" />}
+            </div>
+          )}
+
+          {(lastBulk || bulkAction.error) && (
+            <div role="status" className="bg-white rounded-xl border border-gray-200 p-4 text-sm space-y-2">
+              {bulkAction.error && <p className="text-red-600">{bulkAction.error}</p>}
+              {lastBulk && (
+                <p className="text-gray-700">
+                  {lastBulk.updated} booking{lastBulk.updated === 1 ? '' : 's'} {BULK_ACTION_LABELS[lastBulk.action]}.
+                </p>
+              )}
+              {failures.length > 0 && (
+                <ul className="text-red-600 list-disc list-inside">
+                  {failures.map(failure => (
+                    <li key={failure.uuid}>
+                      {items.find(booking => booking.id === failure.uuid)?.userName ?? failure.uuid}:{' '}
+                      {failure.error ?? 'Not updated'}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* Table */}
+          <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+            {renderTable()}
+            <div className="flex items-center justify-between border-t border-gray-100 px-4 py-3 text-sm text-gray-600">
+              <span>
+                {total === 0
+                  ? 'No results'
+                  : `${(query.page - 1) * PAGE_SIZE + 1}–${Math.min(query.page * PAGE_SIZE, total)} of ${total}`}
+              </span>
+              <div className="flex items-center space-x-2">
+                <label htmlFor="admin-sort" className="sr-only">
+                  Sort by date
+                </label>
+                <select
+                  id="admin-sort"
+                  value={query.sort}
+                  onChange={e => setFilter('sort', e.target.value === 'asc' ? '' : e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="asc">Soonest first</option>
+                  <option value="desc">Latest first</option>
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setPage(query.page - 1)}
+                  disabled={query.page <= 1}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                  aria-label="Previous page"
+                >
+                  <ChevronLeft className="h-5 w-5" />
+                </button>
+                <span>
+                  Page {query.page} of {pageCount}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setPage(query.page + 1)}
+                  disabled={query.page >= pageCount}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                  aria-label="Next page"
+                >
+                  <ChevronRight className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {renderManagePanel()}
+        </div>
+      </div>
+    </div>
+  );
+};
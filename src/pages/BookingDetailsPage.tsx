@@ -1,6 +1,8 @@
 import React, { useEffect } from "react";
 import { BookingDetails } from "../components/BookingDetails";
 import { ArrowLeft } from "lucide-react";
+import { LanguageSwitcher } from "../components/LanguageSwitcher";
+import { useI18n } from "../hooks/useI18n";
 
 interface BookingDetailsPageProps {
   bookingId?: string;
@@ -11,6 +13,7 @@ export const BookingDetailsPage: React.FC<BookingDetailsPageProps> = ({
   bookingId,
   onBack,
 }) => {
+  const { t } = useI18n();
   // Extract UUID from bookingId if needed
   // The bookingId from URL might be the human-readable ID or the UUID
   // For now, we'll assume it's the UUID that we need for API calls
@@ -40,6 +43,7 @@ export const BookingDetailsPage: React.FC<BookingDetailsPageProps> = ({
                 </button>
               )}
             </div>
+            <LanguageSwitcher className="text-gray-600" />
           </div>
         </div>
       </div>
@@ -53,11 +57,9 @@ export const BookingDetailsPage: React.FC<BookingDetailsPageProps> = ({
             <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-8">
               <div className="text-center text-gray-500">
                 <h3 className="text-lg font-semibold">
-                  No Booking ID Provided
+                  {t("details.noId.title")}
                 </h3>
-                <p className="text-sm mt-1">
-                  Please provide a valid booking ID in the URL.
-                </p>
+                <p className="text-sm mt-1">{t("details.noId.description")}</p>
               </div>
             </div>
           )}
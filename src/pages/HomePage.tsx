@@ -1,34 +1,80 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarCheck, LayoutDashboard, LogIn, LogOut } from 'lucide-react';
 import { BookingForm } from '../components/BookingForm';
+import { useSession } from '../hooks/useSession';
+import { useConsent } from '../hooks/useConsent';
+import { useI18n } from '../hooks/useI18n';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
 
 export const HomePage: React.FC = () => {
+  const { session, signOut } = useSession();
+  const { openPreferences } = useConsent();
+  const { t } = useI18n();
+  const heroButtonClassName =
+    'inline-flex items-center space-x-2 bg-white/10 hover:bg-white/20 border border-white/30 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200';
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Hero Section */}
-      <div className="bg-gradient-to-r from-blue-600 to-blue-700 text-white py-16">
+      <header className="bg-gradient-to-r from-blue-600 to-blue-700 text-white py-16">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
           <h1 className="text-4xl md:text-5xl font-bold mb-4">
-            Book Your Appointment
+            {t('home.title')}
           </h1>
           <p className="text-xl text-blue-100 mb-8">
-            Schedule your consultation, tutoring session, or assessment with ease
+            {t('home.subtitle')}
           </p>
+          <div className="flex flex-wrap items-center justify-center gap-3">
+            <Link to="/my-bookings" className={heroButtonClassName}>
+              <CalendarCheck className="h-5 w-5" />
+              <span>{t('home.myBookings')}</span>
+            </Link>
+            {session?.role === 'staff' && (
+              <Link to="/admin" className={heroButtonClassName}>
+                <LayoutDashboard className="h-5 w-5" />
+                <span>{t('home.admin')}</span>
+              </Link>
+            )}
+            {session ? (
+              <button type="button" onClick={() => void signOut()} className={heroButtonClassName}>
+                <LogOut className="h-5 w-5" />
+                <span>{t('home.signOut')}</span>
+              </button>
+            ) : (
+              <Link to="/sign-in" className={heroButtonClassName}>
+                <LogIn className="h-5 w-5" />
+                <span>{t('home.signIn')}</span>
+              </Link>
+            )}
+            <LanguageSwitcher className="text-white" />
+          </div>
+          {session && (
+            <p className="text-sm text-blue-100 mt-3">{t('home.signedInAs', { phone: session.phone })}</p>
+          )}
         </div>
-      </div>
+      </header>
 
       {/* Booking Form Section */}
-      <div className="py-12">
+      <main className="py-12">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
           <BookingForm />
         </div>
-      </div>
+      </main>
 
       {/* Footer */}
       <footer className="bg-gray-800 text-white py-8 mt-16">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
           <p className="text-gray-300">
-            © 2024 Textbook Booking System. All rights reserved.
+            {t('home.copyright')}
           </p>
+          <button
+            type="button"
+            onClick={openPreferences}
+            className="mt-2 text-sm text-gray-400 hover:text-white underline"
+          >
+            {t('common.privacySettings')}
+          </button>
         </div>
       </footer>
     </div>
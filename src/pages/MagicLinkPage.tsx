@@ -0,0 +1,113 @@
+import React, { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, RefreshCw, SearchX, Timer } from 'lucide-react';
+import { useMagicLink } from '../hooks/useMagicLink';
+import { useI18n } from '../hooks/useI18n';
+import { queryCache } from '../services/queryCache';
+import { bookingQueryKey } from '../hooks/useBooking';
+import { rememberBooking } from '../services/rememberedBookings';
+import { track } from '../services/tracking';
+
+// The redirect points at the frontend's /booking/:uuid route
+const bookingUuidFromRedirect = (redirectUrl: string): string | null => {
+  try {
+    return new URL(redirectUrl, window.location.origin).pathname.match(/\/booking\/([^/]+)$/)?.[1] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+interface MagicLinkPageProps {
+  magicLinkId?: string;
+}
+
+export const MagicLinkPage: React.FC<MagicLinkPageProps> = ({ magicLinkId }) => {
+  const navigate = useNavigate();
+  const { loading, error, apiError, preview, previewMagicLink } = useMagicLink();
+  const { t } = useI18n();
+
+  // StrictMode runs effects twice in development; only count one visit
+  const openedLinkRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!magicLinkId || openedLinkRef.current === magicLinkId) return;
+    openedLinkRef.current = magicLinkId;
+
+    previewMagicLink(magicLinkId);
+    track('page_view', { referrer: document.referrer || undefined }, { magicLinkId });
+  }, [magicLinkId, previewMagicLink]);
+
+  useEffect(() => {
+    if (!preview) return;
+
+    const { bookingDetails } = preview;
+    const uuid = bookingDetails?.id ?? bookingUuidFromRedirect(preview.redirectUrl);
+    if (!uuid) {
+      window.location.replace(preview.redirectUrl);
+      return;
+    }
+    // A full preview seeds the cache so the details page renders without a
+    // second request. With sign-in required the preview may leave the booking
+    // out, and the details page loads it once the customer has signed in.
+    if (bookingDetails) queryCache.setData(bookingQueryKey(uuid), () => bookingDetails);
+    // Opening the link on a new device adds the booking to "My bookings" there
+    rememberBooking(uuid);
+    navigate(`/booking/${uuid}?source=magic_link`, { replace: true });
+  }, [preview, navigate]);
+
+  const renderContent = () => {
+    if (!magicLinkId || apiError?.kind === 'not_found') {
+      return (
+        <div className="text-center text-gray-500">
+          <SearchX className="h-12 w-12 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold">{t('magicLink.invalid.title')}</h3>
+          <p className="text-sm mt-1">{t('magicLink.invalid.description')}</p>
+        </div>
+      );
+    }
+
+    if (apiError?.kind === 'expired') {
+      return (
+        <div className="text-center text-gray-500">
+          <Timer className="h-12 w-12 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold">{t('details.error.expired.title')}</h3>
+          <p className="text-sm mt-1">{t('details.error.expired.description')}</p>
+        </div>
+      );
+    }
+
+    if (error && !loading) {
+      return (
+        <div className="text-center text-red-600">
+          <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold">{t('magicLink.failed')}</h3>
+          <p className="text-sm mt-1">{error}</p>
+          <button
+            onClick={() => previewMagicLink(magicLinkId)}
+            className="mt-6 inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200"
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>{t('common.tryAgain')}</span>
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center justify-center">
+        <RefreshCw className="h-8 w-8 animate-spin text-blue-600" />
+        <span className="ml-3 text-lg text-gray-600">{t('magicLink.opening')}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-16">
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-8">
+          {renderContent()}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+import React from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, CalendarPlus, Filter, Inbox, LogIn, RefreshCw, SearchX } from 'lucide-react';
+import { BookingCard } from '../components/BookingCard';
+import { useMyBookings, BookingListFilters } from '../hooks/useMyBookings';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+import { BookingDetails } from '../services/api';
+import { DEFAULT_DURATION_MINUTES } from '../services/pricing';
+import {
+  BOOKING_STATUSES,
+  PAYMENT_STATUSES,
+  BookingStatus,
+  PaymentStatus,
+} from '../types/booking';
+
+// Filters live in the URL so a filtered view survives a reload
+const readFilters = (params: URLSearchParams): BookingListFilters => {
+  const status = params.get('status');
+  const paymentStatus = params.get('payment');
+  return {
+    status: BOOKING_STATUSES.includes(status as BookingStatus) ? (status as BookingStatus) : undefined,
+    paymentStatus: PAYMENT_STATUSES.includes(paymentStatus as PaymentStatus)
+      ? (paymentStatus as PaymentStatus)
+      : undefined,
+    sort: params.get('sort') === 'desc' ? 'desc' : 'asc',
+  };
+};
+
+// Upcoming until the appointment has ended
+const isUpcoming = (booking: BookingDetails, now: number) =>
+  Date.parse(booking.appointmentDate) +
+    (booking.bookingDetails.duration ?? DEFAULT_DURATION_MINUTES) * 60000 >
+  now;
+
+export const MyBookingsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = readFilters(searchParams);
+  const { bookings, rememberedIds, forget } = useMyBookings(filters);
+  const { data, loading, error, refetch } = bookings;
+  const { session, signOut } = useSession();
+  const { t } = useI18n();
+
+  // Signed-in customers also see bookings made on other devices
+  const hasBookingSource = rememberedIds.length > 0 || Boolean(session);
+  const hasFilters = Boolean(filters.status || filters.paymentStatus);
+
+  const setFilter = (name: 'status' | 'payment' | 'sort', value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(name, value);
+    else next.delete(name);
+    setSearchParams(next, { replace: true });
+  };
+
+  const clearFilters = () => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('status');
+    next.delete('payment');
+    setSearchParams(next, { replace: true });
+  };
+
+  const now = Date.now();
+  const upcoming = (data ?? []).filter(booking => isUpcoming(booking, now));
+  const past = (data ?? []).filter(booking => !isUpcoming(booking, now));
+
+  const selectClassName =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200';
+
+  const renderSection = (title: string, items: BookingDetails[], emptyText: string) => (
+    <section className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">
+        {title} <span className="text-gray-500 font-normal">({items.length})</span>
+      </h2>
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500 bg-white rounded-lg border border-gray-100 p-4">{emptyText}</p>
+      ) : (
+        items.map(booking => (
+          <div key={booking.id} className="space-y-2">
+            <BookingCard
+              booking={booking}
+              // Checkout lives on the details page
+              onPayment={() => navigate(`/booking/${booking.id}`)}
+            />
+            <div className="flex justify-end space-x-4 text-sm">
+              {rememberedIds.includes(booking.id) && (
+                <button
+                  type="button"
+                  onClick={() => forget(booking.id)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  {t('myBookings.forget')}
+                </button>
+              )}
+              <Link to={`/booking/${booking.id}`} className="text-blue-600 hover:text-blue-700 font-medium">
+                {t('myBookings.viewDetails')}
+              </Link>
+            </div>
+          </div>
+        ))
+      )}
+    </section>
+  );
+
+  const renderContent = () => {
+    if (!hasBookingSource) {
+      return (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-8 text-center text-gray-500">
+          <Inbox className="h-12 w-12 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold">{t('myBookings.none.title')}</h3>
+          <p className="text-sm mt-1">{t('myBookings.none.description')}</p>
+          <div className="mt-6 flex flex-wrap justify-center gap-3">
+            <Link
+              to="/"
+              className="inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200"
+            >
+              <CalendarPlus className="h-4 w-4" />
+              <span>{t('myBookings.book')}</span>
+            </Link>
+            <Link
+              to="/sign-in?redirect=/my-bookings"
+              className="inline-flex items-center space-x-2 border border-gray-300 text-gray-700 hover:bg-gray-50 py-2 px-4 rounded-lg font-medium transition-all duration-200"
+            >
+              <LogIn className="h-4 w-4" />
+              <span>{t('home.signIn')}</span>
+            </Link>
+          </div>
+        </div>
+      );
+    }
+
+    if (loading) {
+      return (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      );
+    }
+
+    if (error && !data) {
+      return (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-8 text-center text-red-600">
+          <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold">{t('myBookings.loadFailed')}</h3>
+          <p className="text-sm mt-1">{error}</p>
+          <button
+            onClick={() => refetch()}
+            className="mt-6 inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg font-medium transition-all duration-200"
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>{t('common.tryAgain')}</span>
+          </button>
+        </div>
+      );
+    }
+
+    if (data && data.length === 0) {
+      return (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-8 text-center text-gray-500">
+          <SearchX className="h-12 w-12 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold">
+            {hasFilters ? t('myBookings.noMatches.title') : t('myBookings.notFound.title')}
+          </h3>
+          <p className="text-sm mt-1">
+            {hasFilters
+              ? t('myBookings.noMatches.description')
+              : session
+                ? t('myBookings.notFound.signedIn', { phone: session.phone })
+                : t('myBookings.notFound.description')}
+          </p>
+          {hasFilters && (
+            <button
+              onClick={clearFilters}
+              className="mt-6 inline-flex items-center space-x-2 border border-gray-300 text-gray-700 hover:bg-gray-50 py-2 px-4 rounded-lg font-medium transition-all duration-200"
+            >
+              <Filter className="h-4 w-4" />
+              <span>{t('myBookings.clearFilters')}</span>
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-10">
+        {renderSection(t('myBookings.upcoming'), upcoming, t('myBookings.noUpcoming'))}
+        {renderSection(t('myBookings.past'), past, t('myBookings.noPast'))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link to="/" className="flex items-center text-gray-600 hover:text-gray-900 transition-colors">
+              <ArrowLeft className="h-5 w-5 mr-2" />
+            </Link>
+            <h1 className="text-xl font-semibold text-gray-900">{t('home.myBookings')}</h1>
+          </div>
+          <div className="flex items-center space-x-4 text-sm">
+            {session ? (
+              <>
+                <span className="hidden sm:inline text-gray-500">
+                  {t('home.signedInAs', { phone: session.phone })}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => void signOut()}
+                  className="text-gray-600 hover:text-gray-900 font-medium"
+                >
+                  {t('home.signOut')}
+                </button>
+              </>
+            ) : (
+              <Link to="/sign-in?redirect=/my-bookings" className="text-gray-600 hover:text-gray-900 font-medium">
+                {t('home.signIn')}
+              </Link>
+            )}
+            <Link to="/" className="text-blue-600 hover:text-blue-700 font-medium">
+              {t('myBookings.bookAnother')}
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="py-8">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+          {hasBookingSource && (
+            <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="filter-status" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('details.bookingStatus')}
+                </label>
+                <select
+                  id="filter-status"
+                  value={filters.status ?? ''}
+                  onChange={e => setFilter('status', e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">{t('myBookings.all')}</option>
+                  {BOOKING_STATUSES.map(status => (
+                    <option key={status} value={status}>
+                      {t(`bookingStatus.${status}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="filter-payment" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('details.paymentStatus')}
+                </label>
+                <select
+                  id="filter-payment"
+                  value={filters.paymentStatus ?? ''}
+                  onChange={e => setFilter('payment', e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">{t('myBookings.all')}</option>
+                  {PAYMENT_STATUSES.map(status => (
+                    <option key={status} value={status}>
+                      {t(`paymentStatus.${status}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="filter-sort" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('myBookings.sort')}
+                </label>
+                <select
+                  id="filter-sort"
+                  value={filters.sort}
+                  onChange={e => setFilter('sort', e.target.value === 'asc' ? '' : e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="asc">{t('myBookings.sort.asc')}</option>
+                  <option value="desc">{t('myBookings.sort.desc')}</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          {renderContent()}
+        </div>
+      </div>
+    </div>
+  );
+};
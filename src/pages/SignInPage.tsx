@@ -0,0 +1,48 @@
+import React from 'react';
+import { Link, Navigate, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, ShieldCheck } from 'lucide-react';
+import { PhoneSignIn } from '../components/PhoneSignIn';
+import { useSession } from '../hooks/useSession';
+import { useI18n } from '../hooks/useI18n';
+
+// Only same-app paths, so the link cannot send someone to another site
+const safeRedirect = (value: string | null): string =>
+  value && value.startsWith('/') && !value.startsWith('//') ? value : '/my-bookings';
+
+export const SignInPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { session } = useSession();
+  const { t } = useI18n();
+  const redirect = safeRedirect(searchParams.get('redirect'));
+
+  if (session) return <Navigate to={redirect} replace />;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center space-x-4">
+          <Link to="/" className="flex items-center text-gray-600 hover:text-gray-900 transition-colors">
+            <ArrowLeft className="h-5 w-5 mr-2" />
+          </Link>
+          <h1 className="text-xl font-semibold text-gray-900">{t('home.signIn')}</h1>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="py-12">
+        <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-8 space-y-6">
+            <div className="text-center">
+              <ShieldCheck className="h-12 w-12 mx-auto mb-4 text-blue-600" />
+              <h2 className="text-lg font-semibold text-gray-900">{t('signIn.title')}</h2>
+              <p className="text-sm text-gray-500 mt-1">{t('signIn.description')}</p>
+            </div>
+            <PhoneSignIn onSignedIn={() => navigate(redirect, { replace: true })} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
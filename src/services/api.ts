@@ -1,105 +1,582 @@
-import { BookingFormData } from '../types/booking';
+import {
+  AUDIT_ACTIONS,
+  Booking,
+  BookingFormData,
+  BookingStatus,
+  CancellationReason,
+  PaymentStatus,
+} from '../types/booking';
+import { SessionRole } from '../types/session';
+import { getApiUrl, getMagicLinkUrl, getConfig } from '../config/environment';
+import {
+  ApiError,
+  errorFromResponse,
+  networkError,
+  timeoutError,
+  abortedError,
+  validationError,
+  isRetryable,
+} from './apiError';
+import { parsePhoneNumber, validateBooking } from './bookingValidation';
+import { localeStore, translate } from './i18n';
+import { sessionStore } from './session';
+import { Decoder, formatIssues } from './decode';
+import { sanitizeAnalyticsEvent, sanitizeTrackedEvent } from './privacy';
+import type { TrackedEvent } from './tracking/catalog';
+import {
+  auditLogDecoder,
+  availabilityDecoder,
+  bookingDataExportDecoder,
+  bookingDecoder,
+  bookingListDecoder,
+  bookingPageDecoder,
+  bulkBookingResultsDecoder,
+  bookingResponseDecoder,
+  magicLinkAnalyticsDecoder,
+  magicLinkPreviewDecoder,
+  otpChallengeDecoder,
+  sessionDecoder,
+  trackingBatchResultDecoder,
+} from './bookingDecoders';
 
-const magicLinkBaseUrl = 'https://tbook-v1.vercel.app';
-const apiBaseUrl = 'https://tbook-v1.vercel.app';
+export type { ApiError, ApiErrorKind, FieldErrors } from './apiError';
+
+// Sends a request and resolves with the raw response. Live mode uses fetch;
+// mock mode swaps in the in-browser backend from services/mock.
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+const fetchTransport: Transport = (url, init) => fetch(url, init);
 
 // API Response Types
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  // Set whenever success is false
+  apiError?: ApiError;
   message?: string;
 }
 
+export interface RequestOptions extends RequestInit {
+  // Per-attempt timeout; defaults to VITE_API_TIMEOUT_MS
+  timeoutMs?: number;
+  // Retry attempts after a retryable failure; defaults to VITE_API_MAX_RETRIES
+  // for GET requests and 0 for everything else
+  retries?: number;
+  // Attach the session token and refresh it when needed; off for the sign-in
+  // endpoints themselves
+  auth?: boolean;
+}
+
+const RETRY_BASE_DELAY_MS = 300;
+
+// Access tokens this close to expiry are refreshed before a request is sent
+const SESSION_REFRESH_MARGIN_MS = 30_000;
+
+export interface CreateBookingOptions extends RequestOptions {
+  // Identifies one submission. The server returns the booking already created
+  // for a key instead of creating another, which also makes the POST safe to
+  // retry; retries default to VITE_API_MAX_RETRIES when a key is given.
+  idempotencyKey?: string;
+}
+
 export interface BookingResponse {
   bookingId: string;
   uuid: string;
   magicLink: string;
-  status: string;
+  status: BookingStatus;
   message: string;
 }
 
-export interface BookingDetails {
-  id: string;
-  bookingId: string;
-  magicLinkId: string;
-  userName: string;
-  userPhone: string;
-  appointmentType: string;
-  appointmentDate: string;
-  bookingDetails: any;
-  status: string;
-  paymentStatus: string;
-  paymentId?: string;
-  paymentAmount?: number;
-  paymentCurrency?: string;
-  createdAt: string;
-  confirmedAt?: string;
-  paymentUpdatedAt?: string;
-  lastAccessedAt?: string;
-  accessCount: number;
-  isExpired?: boolean;
-}
+// Kept as an alias so existing imports keep working; the model itself lives
+// in types/booking.ts
+export type BookingDetails = Booking;
 
 export interface PaymentUpdateRequest {
-  paymentStatus: 'pending' | 'completed' | 'failed' | 'refunded';
+  paymentStatus: PaymentStatus;
   paymentId?: string;
   amount?: number;
   currency?: string;
+  // Recorded in the booking's audit log, e.g. why a payment was reconciled by hand
+  note?: string;
+}
+
+// The terms in services/cancellationPolicy.ts apply; a paid booking gets its
+// refund requested as part of the cancellation
+export interface CancelBookingRequest {
+  reason: CancellationReason;
+  // Required when the reason is `other`
+  note?: string;
+}
+
+export interface RescheduleBookingRequest {
+  // ISO start of the new slot; same duration as before
+  appointmentDate: string;
+}
+
+// A verified phone number. `expiresAt` is when the access token expires; the
+// refresh token outlives it.
+export interface Session {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: string;
+  phone: string;
+  role: SessionRole;
+}
+
+export interface OtpChallenge {
+  // The number the code was sent to, in E.164
+  phone: string;
+  expiresAt: string;
+  // A new code can be requested after this many seconds
+  resendAfterSeconds: number;
+}
+
+export type BookingSortOrder = 'asc' | 'desc';
+
+export interface BookingListQuery {
+  // Bookings to look up; without customer accounts the caller names them
+  ids: string[];
+  status?: BookingStatus;
+  paymentStatus?: PaymentStatus;
+  // By appointment date; defaults to soonest first
+  sort?: BookingSortOrder;
+}
+
+export interface AdminBookingQuery {
+  // Matched against the booking id, uuid, customer name and phone number
+  search?: string;
+  status?: BookingStatus;
+  paymentStatus?: PaymentStatus;
+  sort?: BookingSortOrder;
+  // 1-based
+  page: number;
+  pageSize: number;
+}
+
+export interface BookingPage {
+  items: Booking[];
+  // Matches across all pages
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type BulkBookingAction = 'confirm' | 'cancel';
+
+// Bulk actions apply to each booking separately; one that cannot change
+// (e.g. confirming a cancelled booking) fails without affecting the rest
+export interface BulkBookingResult {
+  uuid: string;
+  success: boolean;
+  error?: string;
+}
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export interface AuditChange {
+  field: string;
+  from?: string;
+  to?: string;
+}
+
+export interface BookingAuditEntry {
+  id: string;
+  action: AuditAction;
+  actorRole: SessionRole;
+  // Staff member's phone number; not set for changes made by the customer
+  actorPhone?: string;
+  at: string;
+  changes: AuditChange[];
+  note?: string;
 }
 
 export interface MagicLinkPreview {
   bookingId: string;
   redirectUrl: string;
-  status: string;
-  bookingDetails: BookingDetails;
+  // Left out when sign-in is required and the caller can't see the booking
+  status?: BookingStatus;
+  bookingDetails?: Booking;
+}
+
+// Opening hours for one weekday (0 = Sunday), as "HH:MM" in the tutor's zone
+export interface BusinessHours {
+  weekday: number;
+  open: string;
+  close: string;
+}
+
+export interface BookedInterval {
+  start: string;
+  end: string;
 }
 
+// Everything needed to work out free slots for a date range. Dates are
+// YYYY-MM-DD in `timeZone`, the tutor's IANA time zone.
+export interface Availability {
+  timeZone: string;
+  businessHours: BusinessHours[];
+  blackoutDates: string[];
+  booked: BookedInterval[];
+  // Minimum notice before a slot can be booked
+  leadTimeMinutes: number;
+}
+
+// The server records the address a request comes from; the client never
+// sends one. See services/privacy.ts for what else is sent.
 export interface AnalyticsEvent {
   event: string;
   userAgent?: string;
-  ipAddress?: string;
-  metadata?: any;
+  metadata?: MagicLinkEventMetadata;
+}
+
+// Known metadata keys; other keys sent with an event are kept as-is
+export interface MagicLinkEventMetadata {
+  referrer?: string;
+  // Random id stored on the device that opened the link
+  deviceId?: string;
+  [key: string]: unknown;
+}
+
+export interface MagicLinkEvent {
+  // e.g. `page_view` each time the link is opened
+  event: string;
+  userAgent?: string;
+  metadata: MagicLinkEventMetadata;
+  createdAt: string;
+}
+
+export interface MagicLinkAnalytics {
+  magicLinkId: string;
+  bookingId: string;
+  accessCount: number;
+  lastAccessedAt?: string;
+  // Oldest first
+  events: MagicLinkEvent[];
 }
 
+// Everything stored about one booking, as handed to the customer
+export interface BookingDataExport {
+  exportedAt: string;
+  booking: Booking;
+  events: MagicLinkEvent[];
+  auditLog: BookingAuditEntry[];
+}
+
+export interface TrackingBatch {
+  events: TrackedEvent[];
+}
+
+export interface TrackingBatchResult {
+  // Stored now or already stored by an earlier send
+  accepted: number;
+  // Malformed events; sending them again won't help
+  rejected: number;
+}
+
+// Takes batches both as JSON requests and as beacons
+const TRACKING_ENDPOINT = '/api/events';
+
+const sanitizeTrackedEvents = (events: TrackedEvent[]): TrackedEvent[] =>
+  events.map(sanitizeTrackedEvent).filter((event): event is TrackedEvent => event !== null);
+
+const withAuthorization = (init: RequestInit, accessToken: string): RequestInit => ({
+  ...init,
+  headers: { ...init.headers, Authorization: `Bearer ${accessToken}` },
+});
+
 // API Service Class
 class ApiService {
+  private transport: Transport | null = null;
+  // Shared by every request that finds the token expired at the same time
+  private refreshing: Promise<boolean> | null = null;
+
+  // Resolved on first use so the mock backend is only loaded in mock mode
+  private async getTransport(): Promise<Transport> {
+    if (!this.transport) {
+      this.transport =
+        getConfig().apiMode === 'mock'
+          ? (await import('./mock/mockBackend')).mockTransport
+          : fetchTransport;
+    }
+    return this.transport;
+  }
+
+  setTransport(transport: Transport): void {
+    this.transport = transport;
+  }
+
+  // When a decoder is given, `data` of a successful response is validated
+  // against it and a mismatch becomes a `decode` error
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestOptions = {},
+    decoder?: Decoder<T>
+  ): Promise<ApiResponse<T>> {
+    const { timeoutMs, retries, signal, auth = true, ...init } = options;
+    const config = getConfig();
+    const method = (init.method ?? 'GET').toUpperCase();
+    const maxRetries = retries ?? (method === 'GET' ? config.maxRetries : 0);
+
+    if (auth) await this.refreshIfExpiring();
+
+    let attempt = 0;
+    let reauthorized = false;
+    for (;;) {
+      const session = auth ? sessionStore.get() : null;
+      const result = await this.attempt<T>(
+        endpoint,
+        session ? withAuthorization(init, session.accessToken) : init,
+        timeoutMs ?? config.requestTimeoutMs,
+        signal
+      );
+
+      // The token was rejected: refresh once and try again. If the refresh
+      // fails the session is cleared, and the retry goes out signed out.
+      if (session && !reauthorized && result.apiError?.kind === 'unauthorized') {
+        reauthorized = true;
+        await this.refreshSession();
+        continue;
+      }
+
+      if (result.success || !result.apiError || !isRetryable(result.apiError) || attempt >= maxRetries) {
+        if (!result.success) {
+          console.error(`API request failed: ${method} ${endpoint}`, result.apiError);
+          return result;
+        }
+        return decoder ? this.decode(result, decoder, endpoint) : result;
+      }
+
+      attempt += 1;
+      // Exponential backoff with jitter: ~300ms, ~600ms, ~1200ms...
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+      if (!(await this.wait(delay, signal))) {
+        return this.failure(abortedError());
+      }
+    }
+  }
+
+  private async attempt<T>(
+    endpoint: string,
+    init: RequestInit,
+    timeoutMs: number,
+    signal?: AbortSignal | null
   ): Promise<ApiResponse<T>> {
+    if (signal?.aborted) return this.failure(abortedError());
+
+    // One controller per attempt, aborted by either the timeout or the caller
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort);
+
     try {
-      const url = `${apiBaseUrl}${endpoint}`;
-      const response = await fetch(url, {
+      const transport = await this.getTransport();
+      const response = await transport(getApiUrl(endpoint), {
+        ...init,
         headers: {
           'Content-Type': 'application/json',
-          ...options.headers,
+          ...init.headers,
         },
-        ...options,
+        signal: controller.signal,
       });
 
-      const data = await response.json();
+      const text = await response.text();
+      let body: unknown;
+      try {
+        body = text ? JSON.parse(text) : undefined;
+      } catch {
+        body = undefined;
+      }
 
       if (!response.ok) {
-        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        return this.failure(errorFromResponse(response.status, body));
+      }
+
+      if (typeof body !== 'object' || body === null) {
+        return this.failure({
+          kind: 'server',
+          message: 'The server returned an unreadable response',
+          status: response.status,
+        });
+      }
+
+      // Some endpoints report failure in a 200 envelope
+      if ((body as ApiResponse<T>).success === false) {
+        return this.failure(errorFromResponse(response.status, body));
       }
 
-      return data;
+      return body as ApiResponse<T>;
     } catch (error) {
-      console.error('API request failed:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      if (timedOut) return this.failure(timeoutError(timeoutMs));
+      if (signal?.aborted) return this.failure(abortedError());
+      return this.failure(networkError(error));
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  private async refreshIfExpiring(): Promise<void> {
+    const session = sessionStore.get();
+    if (session && Date.parse(session.expiresAt) - Date.now() < SESSION_REFRESH_MARGIN_MS) {
+      await this.refreshSession();
+    }
+  }
+
+  // Resolves true when a new token was stored. A rejected refresh token ends
+  // the session; a network failure keeps it for the next attempt.
+  private refreshSession(): Promise<boolean> {
+    const session = sessionStore.get();
+    if (!session) return Promise.resolve(false);
+
+    this.refreshing ??= this.request<Session>(
+      '/api/auth/refresh',
+      {
+        method: 'POST',
+        auth: false,
+        body: JSON.stringify({ refreshToken: session.refreshToken }),
+      },
+      sessionDecoder
+    )
+      .then(response => {
+        if (response.success && response.data) {
+          sessionStore.set(response.data);
+          return true;
+        }
+        const kind = response.apiError?.kind;
+        if (kind === 'unauthorized' || kind === 'expired' || kind === 'validation') {
+          sessionStore.clear();
+        }
+        return false;
+      })
+      .finally(() => {
+        this.refreshing = null;
+      });
+    return this.refreshing;
+  }
+
+  private decode<T>(result: ApiResponse<T>, decoder: Decoder<T>, endpoint: string): ApiResponse<T> {
+    const decoded = decoder(result.data, 'data');
+    if (decoded.ok) {
+      return { ...result, data: decoded.value };
+    }
+
+    console.error(`Unexpected response shape from ${endpoint}: ${formatIssues(decoded.issues)}`);
+    return this.failure({
+      kind: 'decode',
+      message: 'The server returned data in an unexpected format',
+      issues: decoded.issues,
+    });
+  }
+
+  private failure<T>(apiError: ApiError): ApiResponse<T> {
+    return { success: false, error: apiError.message, apiError };
+  }
+
+  // Resolves false if the caller aborted while waiting
+  private wait(ms: number, signal?: AbortSignal | null): Promise<boolean> {
+    return new Promise(resolve => {
+      if (signal?.aborted) {
+        resolve(false);
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve(false);
       };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(true);
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  // Sign-in APIs
+
+  // Sends a one-time code by SMS to the given number
+  async requestOtp(phone: string): Promise<ApiResponse<OtpChallenge>> {
+    const parsed = parsePhoneNumber(phone, localeStore.get());
+    if (!parsed.ok) {
+      return this.failure(validationError({ phone: parsed.message }));
     }
+
+    return this.request<OtpChallenge>(
+      '/api/auth/otp/request',
+      { method: 'POST', auth: false, body: JSON.stringify({ phone: parsed.e164 }) },
+      otpChallengeDecoder
+    );
   }
 
-  // Booking Management APIs
-  async createBooking(bookingData: BookingFormData): Promise<ApiResponse<BookingResponse>> {
-    return this.request<BookingResponse>('/api/booking/create', {
+  // Exchanges the code for a session, which is stored and used from then on
+  async verifyOtp(phone: string, code: string): Promise<ApiResponse<Session>> {
+    // Checked here before sending, so the messages are in the UI's language
+    const locale = localeStore.get();
+    const parsed = parsePhoneNumber(phone, locale);
+    if (!parsed.ok) {
+      return this.failure(validationError({ phone: parsed.message }));
+    }
+    const trimmed = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(trimmed)) {
+      return this.failure(validationError({ code: translate(locale, 'signIn.codeInvalid') }));
+    }
+
+    const response = await this.request<Session>(
+      '/api/auth/otp/verify',
+      { method: 'POST', auth: false, body: JSON.stringify({ phone: parsed.e164, code: trimmed }) },
+      sessionDecoder
+    );
+    if (response.success && response.data) {
+      sessionStore.set(response.data);
+    }
+    return response;
+  }
+
+  // The local session is cleared even if the server cannot be told
+  async signOut(): Promise<void> {
+    const session = sessionStore.get();
+    if (!session) return;
+
+    // Revoked by refresh token, which still works when the access token has expired
+    await this.request('/api/auth/logout', {
       method: 'POST',
-      body: JSON.stringify(bookingData),
+      auth: false,
+      body: JSON.stringify({ refreshToken: session.refreshToken }),
     });
+    sessionStore.clear();
+  }
+
+  // Booking Management APIs
+  async createBooking(
+    bookingData: BookingFormData,
+    options: CreateBookingOptions = {}
+  ): Promise<ApiResponse<BookingResponse>> {
+    // Same rules as the form; also normalises the phone number to E.164
+    const validation = validateBooking(bookingData, { locale: localeStore.get() });
+    if (!validation.valid) {
+      return this.failure(validationError(validation.errors));
+    }
+
+    const { idempotencyKey, ...requestOptions } = options;
+    return this.request<BookingResponse>(
+      '/api/booking/create',
+      {
+        retries: idempotencyKey ? getConfig().maxRetries : undefined,
+        ...requestOptions,
+        method: 'POST',
+        headers: {
+          ...requestOptions.headers,
+          ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+        },
+        body: JSON.stringify(validation.value),
+      },
+      bookingResponseDecoder
+    );
   }
 
   async confirmBooking(uuid: string): Promise<ApiResponse> {
@@ -110,45 +587,208 @@ class ApiService {
 
   async updatePaymentStatus(
     uuid: string,
-    paymentData: PaymentUpdateRequest
+    paymentData: PaymentUpdateRequest,
+    options?: RequestOptions
   ): Promise<ApiResponse> {
     return this.request(`/api/booking/payment/${uuid}`, {
+      ...options,
       method: 'PUT',
       body: JSON.stringify(paymentData),
     });
   }
 
-  async getBookingDetails(uuid: string): Promise<ApiResponse<BookingDetails>> {
-    return this.request<BookingDetails>(`/api/booking/${uuid}`);
+  // Both answer with the updated booking
+  async cancelBooking(
+    uuid: string,
+    request: CancelBookingRequest,
+    options?: RequestOptions
+  ): Promise<ApiResponse<BookingDetails>> {
+    return this.request<BookingDetails>(
+      `/api/booking/cancel/${uuid}`,
+      { ...options, method: 'POST', body: JSON.stringify(request) },
+      bookingDecoder
+    );
+  }
+
+  async rescheduleBooking(
+    uuid: string,
+    request: RescheduleBookingRequest,
+    options?: RequestOptions
+  ): Promise<ApiResponse<BookingDetails>> {
+    return this.request<BookingDetails>(
+      `/api/booking/reschedule/${uuid}`,
+      { ...options, method: 'POST', body: JSON.stringify(request) },
+      bookingDecoder
+    );
+  }
+
+  // The customer's copy of what is stored about their booking
+  async exportBookingData(
+    uuid: string,
+    options?: RequestOptions
+  ): Promise<ApiResponse<BookingDataExport>> {
+    return this.request<BookingDataExport>(
+      `/api/booking/${uuid}/data-export`,
+      options,
+      bookingDataExportDecoder
+    );
+  }
+
+  // Erases the booking's tracked events and records the request; the booking
+  // itself is kept until it is settled. Asking twice changes nothing.
+  async requestBookingDataDeletion(
+    uuid: string,
+    options?: RequestOptions
+  ): Promise<ApiResponse<BookingDetails>> {
+    return this.request<BookingDetails>(
+      `/api/booking/${uuid}/data-deletion`,
+      { ...options, method: 'POST' },
+      bookingDecoder
+    );
+  }
+
+  // Admin APIs; the server answers 403 unless the session has the staff role
+  async searchBookings(
+    query: AdminBookingQuery,
+    options?: RequestOptions
+  ): Promise<ApiResponse<BookingPage>> {
+    const params = new URLSearchParams({ page: String(query.page), pageSize: String(query.pageSize) });
+    if (query.search) params.set('q', query.search);
+    if (query.status) params.set('status', query.status);
+    if (query.paymentStatus) params.set('paymentStatus', query.paymentStatus);
+    if (query.sort) params.set('sort', query.sort);
+    return this.request<BookingPage>(`/api/admin/bookings?${params}`, options, bookingPageDecoder);
+  }
+
+  async bulkUpdateBookings(
+    uuids: string[],
+    action: BulkBookingAction,
+    options?: RequestOptions
+  ): Promise<ApiResponse<BulkBookingResult[]>> {
+    return this.request<BulkBookingResult[]>(
+      '/api/admin/bookings/bulk',
+      { ...options, method: 'POST', body: JSON.stringify({ uuids, action }) },
+      bulkBookingResultsDecoder
+    );
+  }
+
+  // Oldest entry first
+  async getBookingAuditLog(
+    uuid: string,
+    options?: RequestOptions
+  ): Promise<ApiResponse<BookingAuditEntry[]>> {
+    return this.request<BookingAuditEntry[]>(
+      `/api/admin/bookings/${uuid}/audit`,
+      options,
+      auditLogDecoder
+    );
+  }
+
+  async getBookingDetails(
+    uuid: string,
+    options?: RequestOptions
+  ): Promise<ApiResponse<BookingDetails>> {
+    return this.request<BookingDetails>(`/api/booking/${uuid}`, options, bookingDecoder);
+  }
+
+  // Unknown ids are left out of the result rather than failing the request
+  async listBookings(
+    query: BookingListQuery,
+    options?: RequestOptions
+  ): Promise<ApiResponse<BookingDetails[]>> {
+    const params = new URLSearchParams({ ids: query.ids.join(',') });
+    if (query.status) params.set('status', query.status);
+    if (query.paymentStatus) params.set('paymentStatus', query.paymentStatus);
+    if (query.sort) params.set('sort', query.sort);
+    return this.request<BookingDetails[]>(`/api/bookings?${params}`, options, bookingListDecoder);
+  }
+
+  // `from` and `to` are inclusive YYYY-MM-DD dates in the tutor's time zone
+  async getAvailability(
+    from: string,
+    to: string,
+    options?: RequestOptions
+  ): Promise<ApiResponse<Availability>> {
+    const query = new URLSearchParams({ from, to });
+    return this.request<Availability>(`/api/availability?${query}`, options, availabilityDecoder);
   }
 
   // Magic Link APIs
-  async previewMagicLink(magicLinkId: string): Promise<ApiResponse<MagicLinkPreview>> {
-    return this.request<MagicLinkPreview>(`/appt/${magicLinkId}/preview`);
+  async previewMagicLink(
+    magicLinkId: string,
+    options?: RequestOptions
+  ): Promise<ApiResponse<MagicLinkPreview>> {
+    return this.request<MagicLinkPreview>(
+      `/appt/${magicLinkId}/preview`,
+      options,
+      magicLinkPreviewDecoder
+    );
   }
 
+  // A no-op without analytics consent
   async trackMagicLinkEvent(
     magicLinkId: string,
     eventData: AnalyticsEvent
   ): Promise<ApiResponse> {
+    const event = sanitizeAnalyticsEvent(eventData);
+    if (!event) return { success: true, message: 'Not tracked without analytics consent' };
+
     return this.request(`/appt/${magicLinkId}/track`, {
       method: 'POST',
-      body: JSON.stringify(eventData),
+      body: JSON.stringify(event),
     });
   }
 
-  async getMagicLinkAnalytics(magicLinkId: string): Promise<ApiResponse> {
-    return this.request(`/appt/${magicLinkId}/analytics`);
+  // Events from the tracking queue; see services/tracking
+  async sendTrackingEvents(
+    batch: TrackingBatch,
+    options?: RequestOptions
+  ): Promise<ApiResponse<TrackingBatchResult>> {
+    const events = sanitizeTrackedEvents(batch.events);
+    if (events.length === 0) return { success: true, data: { accepted: 0, rejected: 0 } };
+
+    return this.request<TrackingBatchResult>(
+      TRACKING_ENDPOINT,
+      { retries: 0, ...options, auth: false, method: 'POST', body: JSON.stringify({ events }) },
+      trackingBatchResultDecoder
+    );
+  }
+
+  // Hands a batch to the browser to deliver after the page has gone. False
+  // when the browser refuses it, and always in mock mode, whose backend goes
+  // away with the page; the caller keeps the events queued for next time.
+  // True without consent: there is nothing that may be delivered.
+  sendTrackingBeacon(batch: TrackingBatch): boolean {
+    const events = sanitizeTrackedEvents(batch.events);
+    if (events.length === 0) return true;
+    if (getConfig().apiMode === 'mock' || typeof navigator === 'undefined' || !navigator.sendBeacon) {
+      return false;
+    }
+    // text/plain, so a cross-origin beacon needs no CORS preflight
+    const body = new Blob([JSON.stringify({ events })], { type: 'text/plain;charset=UTF-8' });
+    return navigator.sendBeacon(getApiUrl(TRACKING_ENDPOINT), body);
+  }
+
+  // Visible to the customer who made the booking and to staff
+  async getMagicLinkAnalytics(
+    magicLinkId: string,
+    options?: RequestOptions
+  ): Promise<ApiResponse<MagicLinkAnalytics>> {
+    return this.request<MagicLinkAnalytics>(
+      `/appt/${magicLinkId}/analytics`,
+      options,
+      magicLinkAnalyticsDecoder
+    );
   }
 
   // Utility Methods
   getMagicLinkUrl(magicLinkId: string): string {
-    return `${magicLinkBaseUrl}/appt/${magicLinkId}`;
+    return getMagicLinkUrl(magicLinkId);
   }
 
   // Health Check
-  async healthCheck(): Promise<ApiResponse> {
-    return this.request('/health');
+  async healthCheck(options?: RequestOptions): Promise<ApiResponse> {
+    return this.request('/health', options);
   }
 }
 
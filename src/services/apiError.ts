@@ -0,0 +1,153 @@
+// Typed error model for ApiService. Every failed request resolves with one of
+// these instead of a bare message, so callers can tell a missing booking from
+// an expired link or an unreachable server.
+
+import { BOOKING_STATUSES, BookingStatus, PAYMENT_STATUSES, PaymentStatus } from '../types/booking';
+import { describeRefusedAction, isBookingAction, RefusedAction } from './bookingLifecycle';
+import type { DecodeIssue } from './decode';
+
+export type FieldErrors = Record<string, string>;
+
+export type ApiError =
+  | { kind: 'network'; message: string }
+  | { kind: 'timeout'; message: string; timeoutMs: number }
+  | { kind: 'aborted'; message: string }
+  | { kind: 'validation'; message: string; status: number; fieldErrors: FieldErrors }
+  | { kind: 'not_found'; message: string; status: number }
+  | { kind: 'expired'; message: string; status: number }
+  // No session, or one the server no longer accepts (`code` e.g. TOKEN_EXPIRED)
+  | { kind: 'unauthorized'; message: string; status: number; code?: string }
+  // Signed in, but not as someone allowed to see or change this resource
+  | { kind: 'forbidden'; message: string; status: number }
+  | { kind: 'rate_limited'; message: string; status: number; retryAfterSeconds?: number }
+  // The request clashes with current server state, e.g. a slot that was just
+  // taken. `existingUuid` is set when the booking being created already exists,
+  // and `refused` when the booking's state doesn't allow the change.
+  | { kind: 'conflict'; message: string; status: number; code?: string; existingUuid?: string; refused?: RefusedAction }
+  // The request succeeded but the payload did not match the booking model
+  | { kind: 'decode'; message: string; issues: DecodeIssue[] }
+  // Any other non-success status, and successful statuses with an unreadable body
+  | { kind: 'server'; message: string; status: number };
+
+export type ApiErrorKind = ApiError['kind'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accepts both `details: [{ field, message }]` and `errors: { field: message }`
+const extractFieldErrors = (body: unknown): FieldErrors => {
+  if (!isRecord(body)) return {};
+  const fieldErrors: FieldErrors = {};
+
+  if (Array.isArray(body.details)) {
+    for (const detail of body.details) {
+      if (isRecord(detail) && typeof detail.field === 'string' && typeof detail.message === 'string') {
+        fieldErrors[detail.field] = detail.message;
+      }
+    }
+  }
+
+  if (isRecord(body.errors)) {
+    for (const [field, message] of Object.entries(body.errors)) {
+      if (typeof message === 'string') fieldErrors[field] = message;
+    }
+  }
+
+  return fieldErrors;
+};
+
+// ACTION_REFUSED bodies name the action and the state it was refused in
+const extractRefusedAction = (body: unknown): RefusedAction | undefined => {
+  if (!isRecord(body) || body.code !== 'ACTION_REFUSED' || !isBookingAction(body.action)) return undefined;
+  const status = body.status as BookingStatus;
+  const paymentStatus = body.paymentStatus as PaymentStatus;
+  return BOOKING_STATUSES.includes(status) && PAYMENT_STATUSES.includes(paymentStatus)
+    ? describeRefusedAction({ status, paymentStatus }, body.action)
+    : undefined;
+};
+
+const isExpiredBody = (body: unknown): boolean =>
+  isRecord(body) && (body.code === 'LINK_EXPIRED' || body.isExpired === true);
+
+// Maps a non-success HTTP response (body already parsed, or undefined when it
+// was not JSON) onto the error model
+export const errorFromResponse = (status: number, body: unknown): ApiError => {
+  const message =
+    isRecord(body) && typeof body.error === 'string' && body.error
+      ? body.error
+      : `HTTP error! status: ${status}`;
+
+  if (status === 410 || isExpiredBody(body)) {
+    return { kind: 'expired', message, status };
+  }
+  if (status === 404) {
+    return { kind: 'not_found', message, status };
+  }
+  if (status === 401) {
+    const code = isRecord(body) && typeof body.code === 'string' ? body.code : undefined;
+    return { kind: 'unauthorized', message, status, code };
+  }
+  if (status === 403) {
+    return { kind: 'forbidden', message, status };
+  }
+  if (status === 429) {
+    const retryAfterSeconds =
+      isRecord(body) && typeof body.retryAfterSeconds === 'number' ? body.retryAfterSeconds : undefined;
+    return { kind: 'rate_limited', message, status, retryAfterSeconds };
+  }
+  if (status === 409) {
+    const code = isRecord(body) && typeof body.code === 'string' ? body.code : undefined;
+    const existingUuid =
+      isRecord(body) && code === 'BOOKING_EXISTS' && typeof body.uuid === 'string' ? body.uuid : undefined;
+    return { kind: 'conflict', message, status, code, existingUuid, refused: extractRefusedAction(body) };
+  }
+  if (status === 400 || status === 422) {
+    return { kind: 'validation', message, status, fieldErrors: extractFieldErrors(body) };
+  }
+  return { kind: 'server', message, status };
+};
+
+// Raised before a request is sent, when the payload fails the shared schema in
+// bookingValidation.ts. Carries the status the server would have answered with.
+export const validationError = (fieldErrors: FieldErrors): ApiError => ({
+  kind: 'validation',
+  message: 'Please correct the highlighted fields',
+  status: 422,
+  fieldErrors,
+});
+
+export const networkError = (error: unknown): ApiError => ({
+  kind: 'network',
+  message:
+    error instanceof Error && error.message
+      ? `Unable to reach the server: ${error.message}`
+      : 'Unable to reach the server',
+});
+
+export const timeoutError = (timeoutMs: number): ApiError => ({
+  kind: 'timeout',
+  message: `The server did not respond within ${Math.round(timeoutMs / 1000)}s`,
+  timeoutMs,
+});
+
+export const abortedError = (): ApiError => ({
+  kind: 'aborted',
+  message: 'The request was cancelled',
+});
+
+// The booking a create request duplicated, e.g. one that went through before
+// a retry; callers show it instead of an error
+export const existingBookingUuid = (error: ApiError | undefined): string | undefined =>
+  error?.kind === 'conflict' ? error.existingUuid : undefined;
+
+// Why the server refused a change to a booking, for callers to show in the
+// user's language instead of the server's English message
+export const refusedAction = (error: ApiError | null | undefined): RefusedAction | undefined =>
+  error?.kind === 'conflict' ? error.refused : undefined;
+
+// Network failures, timeouts and 5xx responses may succeed on a second try;
+// anything the server rejected on its merits will not
+export const isRetryable = (error: ApiError): boolean =>
+  error.kind === 'network' ||
+  error.kind === 'timeout' ||
+  (error.kind === 'server' && error.status >= 500);
@@ -0,0 +1,194 @@
+import { APPOINTMENT_TYPES, AppointmentType, Booking, BookingDetailFields, TypeSpecificFieldKey } from '../types/booking';
+import { DEFAULT_LOCALE, Locale } from '../types/i18n';
+import type { MessageKey } from './i18n/messages/en';
+import { MessageParams, translate } from './i18n/translate';
+import { formatPrice, isLevel } from './pricing';
+
+// Declarative description of the extra fields each appointment type asks for.
+// BookingForm renders inputs from it, bookingValidation.ts checks values
+// against it, and BookingDetails uses it to label what was submitted.
+// Labels are message keys, translated where they are shown.
+
+export interface FieldOption {
+  value: string;
+  label: MessageKey;
+}
+
+interface BaseFieldDefinition<K extends TypeSpecificFieldKey> {
+  key: K;
+  label: MessageKey;
+  required: boolean;
+  // Given the field's min and max
+  hint?: MessageKey;
+}
+
+export type TypeFieldDefinition =
+  | (BaseFieldDefinition<'participantCount'> & { kind: 'number'; min: number; max: number })
+  // One entry per participant, sized by participantCount
+  | (BaseFieldDefinition<'attendeeNames'> & { kind: 'list'; itemLabel: MessageKey; maxItemLength: number })
+  | (BaseFieldDefinition<'examBoard' | 'workshopId'> & { kind: 'select'; options: FieldOption[] })
+  | (BaseFieldDefinition<'targetGrade'> & { kind: 'text'; maxLength: number; placeholder?: MessageKey });
+
+// English names; translated screens use the `appointmentType.*` messages
+export const APPOINTMENT_TYPE_LABELS = Object.fromEntries(
+  APPOINTMENT_TYPES.map(type => [type, translate('en', `appointmentType.${type}`)])
+) as Record<AppointmentType, string>;
+
+export const EXAM_BOARDS: FieldOption[] = [
+  { value: 'AQA', label: 'examBoard.AQA' },
+  { value: 'EDEXCEL', label: 'examBoard.EDEXCEL' },
+  { value: 'OCR', label: 'examBoard.OCR' },
+  { value: 'WJEC', label: 'examBoard.WJEC' },
+  { value: 'CAMBRIDGE', label: 'examBoard.CAMBRIDGE' },
+  { value: 'IB', label: 'examBoard.IB' },
+  { value: 'COLLEGE_BOARD', label: 'examBoard.COLLEGE_BOARD' },
+];
+
+export const WORKSHOPS: FieldOption[] = [
+  { value: 'exam-technique', label: 'workshop.exam-technique' },
+  { value: 'study-skills', label: 'workshop.study-skills' },
+  { value: 'essay-writing', label: 'workshop.essay-writing' },
+  { value: 'stem-lab', label: 'workshop.stem-lab' },
+];
+
+export const GROUP_SIZE = { min: 2, max: 12 };
+
+export const APPOINTMENT_TYPE_FIELDS: Record<AppointmentType, TypeFieldDefinition[]> = {
+  CONSULTATION: [],
+  TUTORIAL: [],
+  ASSESSMENT: [
+    { key: 'examBoard', kind: 'select', label: 'field.examBoard', required: true, options: EXAM_BOARDS },
+    {
+      key: 'targetGrade',
+      kind: 'text',
+      label: 'field.targetGrade',
+      required: true,
+      maxLength: 10,
+      placeholder: 'field.targetGrade.placeholder',
+    },
+  ],
+  GROUP_SESSION: [
+    {
+      key: 'participantCount',
+      kind: 'number',
+      label: 'field.participantCount',
+      required: true,
+      min: GROUP_SIZE.min,
+      max: GROUP_SIZE.max,
+      hint: 'field.participantCount.hint',
+    },
+    {
+      key: 'attendeeNames',
+      kind: 'list',
+      label: 'field.attendeeNames',
+      itemLabel: 'field.attendeeNames.item',
+      required: true,
+      maxItemLength: 100,
+    },
+  ],
+  WORKSHOP: [
+    { key: 'workshopId', kind: 'select', label: 'field.workshopId', required: true, options: WORKSHOPS },
+  ],
+};
+
+export const getTypeFields = (appointmentType: AppointmentType): TypeFieldDefinition[] =>
+  APPOINTMENT_TYPE_FIELDS[appointmentType] ?? [];
+
+const TYPE_FIELD_KEYS = new Set<string>(
+  Object.values(APPOINTMENT_TYPE_FIELDS).flatMap(fields => fields.map(field => field.key))
+);
+
+// Drops values left over from another appointment type, e.g. attendee names
+// entered before switching from a group session to a tutorial
+export const pickTypeFields = (
+  appointmentType: AppointmentType,
+  details: BookingDetailFields
+): BookingDetailFields => {
+  const allowed = new Set<string>(getTypeFields(appointmentType).map(field => field.key));
+  return Object.fromEntries(
+    Object.entries(details).filter(([key]) => !TYPE_FIELD_KEYS.has(key) || allowed.has(key))
+  ) as BookingDetailFields;
+};
+
+// Resizes the attendee list to match the participant count, keeping names
+// already entered
+export const resizeAttendees = (names: string[] | undefined, count: number): string[] =>
+  Array.from({ length: Math.max(0, count) }, (_, index) => names?.[index] ?? '');
+
+export interface DetailEntry {
+  // The bookingDetails key the value came from
+  id: string;
+  label: string;
+  value: string | string[];
+}
+
+const optionLabel = (options: FieldOption[], value: string, locale: Locale) => {
+  const option = options.find(candidate => candidate.value === value);
+  return option ? translate(locale, option.label) : value;
+};
+
+// Keys shown by describeBookingDetails in a fixed order; anything else the
+// backend returns is listed after them under a humanised key
+const KNOWN_KEYS = new Set(['subject', 'level', 'duration', 'notes', 'quote', ...TYPE_FIELD_KEYS]);
+
+const humanize = (key: string) =>
+  key
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .replace(/^./, char => char.toUpperCase());
+
+const describeValue = (value: unknown): string | string[] | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) return value.map(item => String(item));
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Labelled, display-ready values for a booking's details. Also used for the
+// review step, before the booking exists.
+export const describeBookingDetails = (
+  booking: Pick<Booking, 'appointmentType' | 'bookingDetails'>,
+  locale: Locale = DEFAULT_LOCALE
+): DetailEntry[] => {
+  const details = booking.bookingDetails;
+  const entries: DetailEntry[] = [];
+  const push = (id: string, label: string, value: string | string[] | null) => {
+    if (value !== null && (!Array.isArray(value) || value.length > 0)) entries.push({ id, label, value });
+  };
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+
+  push('subject', t('field.subject'), describeValue(details.subject));
+  push('level', t('field.level'), isLevel(details.level) ? t(`level.${details.level}`) : describeValue(details.level));
+  push(
+    'duration',
+    t('field.duration'),
+    details.duration !== undefined ? t('form.durationOption', { count: details.duration }) : null
+  );
+
+  for (const field of getTypeFields(booking.appointmentType)) {
+    const value = details[field.key];
+    if (field.kind === 'select' && typeof value === 'string') {
+      push(field.key, t(field.label), optionLabel(field.options, value, locale));
+    } else if (field.kind === 'list') {
+      push(field.key, t(field.label), (details.attendeeNames ?? []).filter(name => name.trim()));
+    } else {
+      push(field.key, t(field.label), describeValue(value));
+    }
+  }
+
+  push('notes', t('field.notes'), describeValue(details.notes));
+  if (details.quote) {
+    const price = formatPrice(details.quote.total, details.quote.currency, locale);
+    push(
+      'quote',
+      t('field.quote'),
+      details.quote.promoCode ? t('field.quote.withPromo', { price, code: details.quote.promoCode }) : price
+    );
+  }
+
+  for (const [key, value] of Object.entries(details)) {
+    if (!KNOWN_KEYS.has(key)) push(key, humanize(key), describeValue(value));
+  }
+
+  return entries;
+};
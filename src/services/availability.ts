@@ -0,0 +1,104 @@
+import type { Availability } from './api';
+import { addDaysToKey, getWeekdayOfKey, toDateKey, zonedTimeToUtc } from './timeZone';
+
+// Turns the availability returned by the API into bookable slots. Business
+// hours are wall-clock times in the tutor's zone, so each day's opening and
+// closing times are resolved to instants before stepping through them.
+
+// Slots start on this grid; how long each one lasts comes from the duration
+export const SLOT_STEP_MINUTES = 30;
+
+// How far ahead the picker lets customers book
+export const BOOKING_WINDOW_DAYS = 60;
+
+export interface BookingWindow {
+  // Viewer-zone dates a slot may fall on
+  today: string;
+  lastDay: string;
+  // Tutor-zone range to request; one day wider on each side because the
+  // tutor's calendar date can differ from the viewer's
+  from: string;
+  to: string;
+}
+
+export const getBookingWindow = (viewerTimeZone: string, now: Date = new Date()): BookingWindow => {
+  const today = toDateKey(now, viewerTimeZone);
+  const lastDay = addDaysToKey(today, BOOKING_WINDOW_DAYS);
+  return { today, lastDay, from: addDaysToKey(today, -1), to: addDaysToKey(lastDay, 1) };
+};
+
+export interface TimeSlot {
+  // ISO instants
+  start: string;
+  end: string;
+}
+
+interface SlotRange {
+  // Inclusive YYYY-MM-DD dates in the tutor's zone
+  from: string;
+  to: string;
+  durationMinutes: number;
+  now?: Date;
+}
+
+export const buildSlots = (
+  availability: Availability,
+  { from, to, durationMinutes, now = new Date() }: SlotRange
+): TimeSlot[] => {
+  const { timeZone } = availability;
+  const blackoutDates = new Set(availability.blackoutDates);
+  const earliestStart = now.getTime() + availability.leadTimeMinutes * 60000;
+  const durationMs = durationMinutes * 60000;
+  const booked = availability.booked.map(interval => ({
+    start: Date.parse(interval.start),
+    end: Date.parse(interval.end),
+  }));
+
+  const slots: TimeSlot[] = [];
+  for (let day = from; day <= to; day = addDaysToKey(day, 1)) {
+    if (blackoutDates.has(day)) continue;
+
+    const weekday = getWeekdayOfKey(day);
+    for (const hours of availability.businessHours) {
+      if (hours.weekday !== weekday) continue;
+
+      const open = zonedTimeToUtc(day, hours.open, timeZone).getTime();
+      const close = zonedTimeToUtc(day, hours.close, timeZone).getTime();
+      for (let start = open; start + durationMs <= close; start += SLOT_STEP_MINUTES * 60000) {
+        const end = start + durationMs;
+        if (start < earliestStart) continue;
+        if (booked.some(interval => start < interval.end && interval.start < end)) continue;
+
+        slots.push({ start: new Date(start).toISOString(), end: new Date(end).toISOString() });
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a.start.localeCompare(b.start));
+};
+
+// Groups slots by calendar date as seen in `timeZone` (normally the viewer's),
+// so a slot late in the tutor's evening can land on the viewer's next day
+export const groupSlotsByDate = (slots: TimeSlot[], timeZone: string): Map<string, TimeSlot[]> => {
+  const groups = new Map<string, TimeSlot[]>();
+  for (const slot of slots) {
+    const key = toDateKey(new Date(slot.start), timeZone);
+    const group = groups.get(key);
+    if (group) group.push(slot);
+    else groups.set(key, [slot]);
+  }
+  return groups;
+};
+
+export const isSlotAvailable = (
+  availability: Availability,
+  start: string,
+  durationMinutes: number,
+  now?: Date
+): boolean => {
+  const day = toDateKey(new Date(start), availability.timeZone);
+  const startMs = Date.parse(start);
+  return buildSlots(availability, { from: day, to: day, durationMinutes, now }).some(
+    slot => Date.parse(slot.start) === startMs
+  );
+};
@@ -0,0 +1,218 @@
+import {
+  APPOINTMENT_TYPES,
+  AUDIT_ACTIONS,
+  BOOKING_STATUSES,
+  CANCELLATION_REASONS,
+  PAYMENT_STATUSES,
+  Booking,
+  BookingDetailFields,
+  BookingQuote,
+} from '../types/booking';
+import { SESSION_ROLES } from '../types/session';
+import type {
+  Availability,
+  BookingAuditEntry,
+  BookingDataExport,
+  MagicLinkEvent,
+  BookingPage,
+  BookingResponse,
+  BulkBookingResult,
+  MagicLinkAnalytics,
+  MagicLinkEventMetadata,
+  MagicLinkPreview,
+  OtpChallenge,
+  Session,
+  TrackingBatchResult,
+} from './api';
+import {
+  Decoder,
+  array,
+  object,
+  string,
+  number,
+  boolean,
+  isoDate,
+  oneOf,
+  optional,
+  withDefault,
+} from './decode';
+
+// Runtime decoders for booking payloads. The backend's enums are stored
+// upper-case in Postgres and have been seen in either casing on the wire, so
+// each enum is normalised to the casing used in types/booking.ts.
+
+export const appointmentTypeDecoder = oneOf(APPOINTMENT_TYPES, value => value.toUpperCase());
+export const bookingStatusDecoder = oneOf(BOOKING_STATUSES, value => value.toLowerCase());
+export const paymentStatusDecoder = oneOf(PAYMENT_STATUSES, value => value.toLowerCase());
+export const cancellationReasonDecoder = oneOf(CANCELLATION_REASONS, value => value.toLowerCase());
+
+export const bookingQuoteDecoder: Decoder<BookingQuote> = object({
+  total: number,
+  currency: string,
+  promoCode: optional(string),
+});
+
+// Unknown keys are kept so details added by newer clients survive a round trip
+export const bookingDetailFieldsDecoder: Decoder<BookingDetailFields> = object(
+  {
+    subject: optional(string),
+    level: optional(string),
+    duration: optional(number),
+    notes: optional(string),
+    quote: optional(bookingQuoteDecoder),
+    participantCount: optional(number),
+    attendeeNames: optional(array(string)),
+    examBoard: optional(string),
+    targetGrade: optional(string),
+    workshopId: optional(string),
+  },
+  { passthrough: true }
+);
+
+export const bookingDecoder: Decoder<Booking> = object({
+  id: string,
+  bookingId: string,
+  magicLinkId: string,
+  userName: string,
+  userPhone: string,
+  appointmentType: appointmentTypeDecoder,
+  appointmentDate: isoDate,
+  bookerTimeZone: optional(string),
+  tutorTimeZone: optional(string),
+  bookingDetails: withDefault(bookingDetailFieldsDecoder, {}),
+  status: bookingStatusDecoder,
+  paymentStatus: paymentStatusDecoder,
+  paymentId: optional(string),
+  paymentAmount: optional(number),
+  paymentCurrency: optional(string),
+  createdAt: isoDate,
+  confirmedAt: optional(isoDate),
+  cancelledAt: optional(isoDate),
+  cancellationReason: optional(cancellationReasonDecoder),
+  cancellationNote: optional(string),
+  rescheduledAt: optional(isoDate),
+  previousAppointmentDate: optional(isoDate),
+  refundRequestedAt: optional(isoDate),
+  refundAmount: optional(number),
+  dataDeletionRequestedAt: optional(isoDate),
+  paymentUpdatedAt: optional(isoDate),
+  lastAccessedAt: optional(isoDate),
+  accessCount: withDefault(number, 0),
+  isExpired: optional(boolean),
+});
+
+export const bookingResponseDecoder: Decoder<BookingResponse> = object({
+  bookingId: string,
+  uuid: string,
+  magicLink: string,
+  status: bookingStatusDecoder,
+  message: withDefault(string, ''),
+});
+
+export const bookingListDecoder: Decoder<Booking[]> = array(bookingDecoder);
+
+export const magicLinkPreviewDecoder: Decoder<MagicLinkPreview> = object({
+  bookingId: string,
+  redirectUrl: string,
+  status: optional(bookingStatusDecoder),
+  bookingDetails: optional(bookingDecoder),
+});
+
+const magicLinkEventMetadataDecoder: Decoder<MagicLinkEventMetadata> = object(
+  { referrer: optional(string), deviceId: optional(string) },
+  { passthrough: true }
+);
+
+const magicLinkEventDecoder: Decoder<MagicLinkEvent> = object({
+  event: string,
+  userAgent: optional(string),
+  metadata: withDefault(magicLinkEventMetadataDecoder, {}),
+  createdAt: isoDate,
+});
+
+export const magicLinkAnalyticsDecoder: Decoder<MagicLinkAnalytics> = object({
+  magicLinkId: string,
+  bookingId: string,
+  accessCount: withDefault(number, 0),
+  lastAccessedAt: optional(isoDate),
+  events: withDefault(array(magicLinkEventDecoder), []),
+});
+
+const timeOfDay: Decoder<string> = (input, path = '$') => {
+  const result = string(input, path);
+  if (result.ok && !/^([01]\d|2[0-3]):[0-5]\d$/.test(result.value)) {
+    return { ok: false, issues: [{ path, message: `expected HH:MM, got "${result.value}"` }] };
+  }
+  return result;
+};
+
+export const availabilityDecoder: Decoder<Availability> = object({
+  timeZone: string,
+  businessHours: array(
+    object({
+      weekday: number,
+      open: timeOfDay,
+      close: timeOfDay,
+    })
+  ),
+  blackoutDates: withDefault(array(string), []),
+  booked: withDefault(array(object({ start: isoDate, end: isoDate })), []),
+  leadTimeMinutes: withDefault(number, 0),
+});
+
+export const otpChallengeDecoder: Decoder<OtpChallenge> = object({
+  phone: string,
+  expiresAt: isoDate,
+  resendAfterSeconds: number,
+});
+
+export const sessionDecoder: Decoder<Session> = object({
+  accessToken: string,
+  refreshToken: string,
+  expiresAt: isoDate,
+  phone: string,
+  // Servers without roles only issue customer sessions
+  role: withDefault(oneOf(SESSION_ROLES, value => value.toLowerCase()), 'customer'),
+});
+
+export const bookingPageDecoder: Decoder<BookingPage> = object({
+  items: array(bookingDecoder),
+  total: number,
+  page: number,
+  pageSize: number,
+});
+
+export const bulkBookingResultsDecoder: Decoder<BulkBookingResult[]> = array(
+  object({
+    uuid: string,
+    success: boolean,
+    error: optional(string),
+  })
+);
+
+export const auditLogDecoder: Decoder<BookingAuditEntry[]> = array(
+  object({
+    id: string,
+    action: oneOf(AUDIT_ACTIONS),
+    actorRole: oneOf(SESSION_ROLES, value => value.toLowerCase()),
+    actorPhone: optional(string),
+    at: isoDate,
+    changes: withDefault(
+      array(object({ field: string, from: optional(string), to: optional(string) })),
+      []
+    ),
+    note: optional(string),
+  })
+);
+
+export const trackingBatchResultDecoder: Decoder<TrackingBatchResult> = object({
+  accepted: number,
+  rejected: withDefault(number, 0),
+});
+
+export const bookingDataExportDecoder: Decoder<BookingDataExport> = object({
+  exportedAt: isoDate,
+  booking: bookingDecoder,
+  events: withDefault(array(magicLinkEventDecoder), []),
+  auditLog: withDefault(auditLogDecoder, []),
+});
@@ -0,0 +1,99 @@
+import { APPOINTMENT_TYPES, BookingFormData } from '../types/booking';
+import { Currency, DEFAULT_CURRENCY, isCurrency } from './pricing';
+
+// Autosaved BookingForm input, so a refresh or a failed submit does not lose
+// what the user typed. One draft per browser, under a single localStorage key.
+
+const STORAGE_KEY = 'tbook.bookingDraft.v1';
+
+// Drafts older than this are discarded rather than restored
+const DRAFT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const BOOKING_STEPS = ['details', 'appointment', 'extras', 'review'] as const;
+
+export type BookingStep = typeof BOOKING_STEPS[number];
+
+export interface BookingDraft {
+  formData: BookingFormData;
+  promoCode: string;
+  currency: Currency;
+  step: BookingStep;
+  // Sent with every create attempt for this draft, so a retry after a lost
+  // response returns the booking instead of creating a second one
+  idempotencyKey: string;
+  savedAt: string;
+}
+
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  // randomUUID is only available in secure contexts
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFormData = (value: unknown): value is BookingFormData =>
+  isRecord(value) &&
+  typeof value.userName === 'string' &&
+  typeof value.userPhone === 'string' &&
+  typeof value.appointmentDate === 'string' &&
+  APPOINTMENT_TYPES.includes(value.appointmentType as BookingFormData['appointmentType']) &&
+  isRecord(value.bookingDetails);
+
+export const loadBookingDraft = (now: Date = new Date()): BookingDraft | null => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed) || !isFormData(parsed.formData) || typeof parsed.savedAt !== 'string') {
+      clearBookingDraft();
+      return null;
+    }
+    if (now.getTime() - Date.parse(parsed.savedAt) > DRAFT_TTL_MS) {
+      clearBookingDraft();
+      return null;
+    }
+
+    const formData = parsed.formData;
+    // A slot that has already started cannot be booked; keep everything else
+    const appointmentDate =
+      formData.appointmentDate && Date.parse(formData.appointmentDate) > now.getTime()
+        ? formData.appointmentDate
+        : '';
+
+    return {
+      formData: { ...formData, appointmentDate },
+      promoCode: typeof parsed.promoCode === 'string' ? parsed.promoCode : '',
+      currency: isCurrency(parsed.currency) ? parsed.currency : DEFAULT_CURRENCY,
+      step: BOOKING_STEPS.includes(parsed.step as BookingStep) ? (parsed.step as BookingStep) : 'details',
+      idempotencyKey:
+        typeof parsed.idempotencyKey === 'string' && parsed.idempotencyKey
+          ? parsed.idempotencyKey
+          : createIdempotencyKey(),
+      savedAt: parsed.savedAt,
+    };
+  } catch (error) {
+    console.error('Booking draft is unreadable, discarding it:', error);
+    clearBookingDraft();
+    return null;
+  }
+};
+
+export const saveBookingDraft = (draft: Omit<BookingDraft, 'savedAt'>): void => {
+  try {
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ ...draft, savedAt: new Date().toISOString() })
+    );
+  } catch (error) {
+    // Private browsing or a full quota; the form still works without a draft
+    console.error('Failed to save booking draft:', error);
+  }
+};
+
+export const clearBookingDraft = (): void => {
+  window.localStorage.removeItem(STORAGE_KEY);
+};
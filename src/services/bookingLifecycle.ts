@@ -0,0 +1,156 @@
+import { BOOKING_STATUSES, Booking, BookingStatus, PAYMENT_STATUSES, PaymentStatus } from '../types/booking';
+import { SessionRole } from '../types/session';
+import { Locale } from '../types/i18n';
+import { translate } from './i18n/translate';
+
+// The booking lifecycle as a state machine over BookingStatus × PaymentStatus.
+// Every change to a booking is one of these actions; the UI offers only the
+// actions allowed from the current state and the backend refuses the rest.
+
+export type BookingAction =
+  | 'confirm'
+  | 'start_payment'
+  | 'complete_payment'
+  | 'fail_payment'
+  // Staff recording a payment taken outside checkout
+  | 'record_payment'
+  | 'cancel'
+  | 'reschedule'
+  | 'refund';
+
+export interface LifecycleState {
+  status: BookingStatus;
+  paymentStatus: PaymentStatus;
+}
+
+interface Transition {
+  from: {
+    status: readonly BookingStatus[];
+    paymentStatus: readonly PaymentStatus[];
+  };
+  // Fields left out keep their current value
+  to: Partial<LifecycleState>;
+  staffOnly?: boolean;
+}
+
+const OPEN_STATUSES: readonly BookingStatus[] = ['pending_confirmation', 'confirmed'];
+
+// A booking can't change while a card payment is in flight
+const SETTLED_PAYMENT_STATUSES: readonly PaymentStatus[] = ['pending', 'failed', 'completed', 'refunded'];
+
+const TRANSITIONS: Record<BookingAction, Transition> = {
+  confirm: {
+    from: { status: ['pending_confirmation'], paymentStatus: PAYMENT_STATUSES },
+    to: { status: 'confirmed' },
+    staffOnly: true,
+  },
+  start_payment: {
+    from: { status: ['confirmed'], paymentStatus: ['pending', 'failed'] },
+    to: { paymentStatus: 'processing' },
+  },
+  complete_payment: {
+    from: { status: ['confirmed'], paymentStatus: ['processing'] },
+    to: { paymentStatus: 'completed' },
+  },
+  fail_payment: {
+    from: { status: ['confirmed'], paymentStatus: ['processing'] },
+    to: { paymentStatus: 'failed' },
+  },
+  record_payment: {
+    from: { status: [...OPEN_STATUSES, 'completed'], paymentStatus: ['pending', 'processing', 'failed'] },
+    to: { paymentStatus: 'completed' },
+    staffOnly: true,
+  },
+  cancel: {
+    from: { status: OPEN_STATUSES, paymentStatus: SETTLED_PAYMENT_STATUSES },
+    to: { status: 'cancelled' },
+  },
+  reschedule: {
+    from: { status: OPEN_STATUSES, paymentStatus: SETTLED_PAYMENT_STATUSES },
+    to: {},
+  },
+  refund: {
+    from: { status: BOOKING_STATUSES, paymentStatus: ['completed'] },
+    to: { paymentStatus: 'refunded' },
+    staffOnly: true,
+  },
+};
+
+const ACTIONS = Object.keys(TRANSITIONS) as BookingAction[];
+
+export const isBookingAction = (value: unknown): value is BookingAction => ACTIONS.includes(value as BookingAction);
+
+export const canTransition = (
+  { status, paymentStatus }: LifecycleState,
+  action: BookingAction,
+  role: SessionRole = 'customer'
+): boolean => {
+  const { from, staffOnly } = TRANSITIONS[action];
+  return (
+    (!staffOnly || role === 'staff') && from.status.includes(status) && from.paymentStatus.includes(paymentStatus)
+  );
+};
+
+// The state after `action`, or null when it isn't allowed
+export const transition = (
+  state: LifecycleState,
+  action: BookingAction,
+  role: SessionRole = 'customer'
+): LifecycleState | null =>
+  canTransition(state, action, role)
+    ? { status: state.status, paymentStatus: state.paymentStatus, ...TRANSITIONS[action].to }
+    : null;
+
+export const getAvailableActions = (state: LifecycleState, role: SessionRole = 'customer'): BookingAction[] =>
+  ACTIONS.filter(action => canTransition(state, action, role));
+
+// A card payment still `processing` this long after it started was cut off
+// (the tab closed, or its outcome could not be recorded). The customer may
+// then fail it and pay again; a charge that did go through is reconciled by
+// staff from its paymentId.
+export const STALE_PAYMENT_MINUTES = 5;
+
+export const isPaymentStale = (
+  { paymentStatus, paymentUpdatedAt }: Pick<Booking, 'paymentStatus' | 'paymentUpdatedAt'>,
+  now: Date = new Date()
+): boolean =>
+  paymentStatus === 'processing' &&
+  (!paymentUpdatedAt || now.getTime() - Date.parse(paymentUpdatedAt) >= STALE_PAYMENT_MINUTES * 60 * 1000);
+
+// Payment updates name the status they move to; this is the action that
+// update stands for. Null means no action reaches `target` from `current`.
+export const paymentActionFor = (current: PaymentStatus, target: PaymentStatus): BookingAction | null => {
+  switch (target) {
+    case 'processing':
+      return 'start_payment';
+    case 'completed':
+      return current === 'processing' ? 'complete_payment' : 'record_payment';
+    case 'failed':
+      return 'fail_payment';
+    case 'refunded':
+      return 'refund';
+    default:
+      return null;
+  }
+};
+
+// Why an action was refused, as a catalog key and the state it was refused in.
+// The backend sends it along with its 409 so the UI can show it translated.
+export interface RefusedAction {
+  key: `lifecycle.refused.${BookingAction}`;
+  params: LifecycleState;
+}
+
+export const describeRefusedAction = (
+  { status, paymentStatus }: LifecycleState,
+  action: BookingAction
+): RefusedAction => ({
+  key: `lifecycle.refused.${action}`,
+  params: { status, paymentStatus },
+});
+
+export const formatRefusedAction = (locale: Locale, { key, params }: RefusedAction): string =>
+  translate(locale, key, {
+    status: translate(locale, `bookingStatus.${params.status}`).toLocaleLowerCase(locale),
+    paymentStatus: translate(locale, `paymentStatus.${params.paymentStatus}`).toLocaleLowerCase(locale),
+  });
@@ -0,0 +1,14 @@
+import { BOOKING_STATUSES, BookingStatus, PAYMENT_STATUSES, PaymentStatus } from '../types/booking';
+import { translate } from './i18n/translate';
+
+// English display names for the booking and payment status enums, for the
+// admin console and other text that isn't translated yet. Translated screens
+// use the `bookingStatus.*` and `paymentStatus.*` messages instead.
+
+export const BOOKING_STATUS_LABELS = Object.fromEntries(
+  BOOKING_STATUSES.map(status => [status, translate('en', `bookingStatus.${status}`)])
+) as Record<BookingStatus, string>;
+
+export const PAYMENT_STATUS_LABELS = Object.fromEntries(
+  PAYMENT_STATUSES.map(status => [status, translate('en', `paymentStatus.${status}`)])
+) as Record<PaymentStatus, string>;
@@ -0,0 +1,279 @@
+import { APPOINTMENT_TYPES, AppointmentType, BookingFormData, TypeSpecificFieldKey } from '../types/booking';
+import { DEFAULT_LOCALE, Locale } from '../types/i18n';
+import type { Availability } from './api';
+import type { FieldErrors } from './apiError';
+import { isSlotAvailable } from './availability';
+import { getTypeFields, pickTypeFields } from './appointmentFields';
+import { translate } from './i18n/translate';
+import { DEFAULT_DURATION_MINUTES } from './pricing';
+
+// Validation schema for new bookings, shared by BookingForm (inline errors),
+// ApiService.createBooking (last check before sending) and the mock backend.
+// Error keys are field paths as used in the form, e.g. "bookingDetails.notes",
+// which is also how server-side field errors are mapped back. Messages are in
+// the context's locale, English by default.
+
+export type BookingField =
+  | 'userName'
+  | 'userPhone'
+  | 'appointmentType'
+  | 'appointmentDate'
+  | 'bookingDetails.subject'
+  | 'bookingDetails.duration'
+  | 'bookingDetails.notes'
+  | `bookingDetails.${TypeSpecificFieldKey}`;
+
+export interface ValidationContext {
+  now?: Date;
+  // When known, the appointment must fall inside these business hours
+  availability?: Availability;
+  locale?: Locale;
+}
+
+export const NAME_MAX_LENGTH = 100;
+export const SUBJECT_MAX_LENGTH = 100;
+export const NOTES_MAX_LENGTH = 1000;
+
+export const DURATION_LIMITS: Record<AppointmentType, { min: number; max: number }> = {
+  CONSULTATION: { min: 30, max: 60 },
+  TUTORIAL: { min: 30, max: 120 },
+  ASSESSMENT: { min: 60, max: 120 },
+  GROUP_SESSION: { min: 60, max: 120 },
+  WORKSHOP: { min: 90, max: 120 },
+};
+
+export type PhoneParseResult = { ok: true; e164: string } | { ok: false; message: string };
+
+// Accepts common ways of writing a number ("+44 20 7946 0958", "(555) 123-4567",
+// "0044 ...") and returns it in E.164. Numbers without a country code are
+// read as North American.
+export const parsePhoneNumber = (
+  input: string,
+  locale: Locale = DEFAULT_LOCALE,
+  defaultCallingCode = '1'
+): PhoneParseResult => {
+  const trimmed = input.trim();
+  if (!trimmed) return { ok: false, message: translate(locale, 'validation.phone.required') };
+  if (/[^\d\s().+-]/.test(trimmed) || trimmed.lastIndexOf('+') > 0) {
+    return { ok: false, message: translate(locale, 'validation.phone.characters') };
+  }
+
+  const digits = trimmed.replace(/\D/g, '');
+  let e164: string;
+  if (trimmed.startsWith('+')) {
+    e164 = `+${digits}`;
+  } else if (digits.startsWith('00')) {
+    e164 = `+${digits.slice(2)}`;
+  } else if (digits.length === 10) {
+    e164 = `+${defaultCallingCode}${digits}`;
+  } else if (digits.length === 11 && digits.startsWith(defaultCallingCode)) {
+    e164 = `+${digits}`;
+  } else {
+    return { ok: false, message: translate(locale, 'validation.phone.countryCode') };
+  }
+
+  // E.164: a non-zero country code and at most 15 digits in total
+  if (!/^\+[1-9]\d{7,14}$/.test(e164)) {
+    return { ok: false, message: translate(locale, 'validation.phone.invalid') };
+  }
+  return { ok: true, e164 };
+};
+
+type Rule = (data: BookingFormData, context: ValidationContext & { locale: Locale }) => string | null;
+
+// Rules for the per-type fields come from their definitions in
+// appointmentFields.ts. A field the selected type does not ask for is not
+// checked; it is dropped from the payload instead.
+const typeFieldRule = (key: TypeSpecificFieldKey): Rule => ({ appointmentType, bookingDetails }, { locale }) => {
+  const field = getTypeFields(appointmentType).find(candidate => candidate.key === key);
+  if (!field) return null;
+
+  const label = translate(locale, field.label);
+  const required = translate(locale, 'validation.required', { label });
+  switch (field.kind) {
+    case 'number': {
+      const value = bookingDetails[field.key];
+      if (value === undefined) return field.required ? required : null;
+      if (!Number.isInteger(value) || value < field.min || value > field.max) {
+        return translate(locale, 'validation.between', { label, min: field.min, max: field.max });
+      }
+      return null;
+    }
+    case 'select': {
+      const value = bookingDetails[field.key];
+      if (!value) return field.required ? required : null;
+      return field.options.some(option => option.value === value)
+        ? null
+        : translate(locale, 'validation.chooseFromList', { label });
+    }
+    case 'text': {
+      const value = (bookingDetails[field.key] ?? '').trim();
+      if (!value) return field.required ? required : null;
+      return value.length > field.maxLength
+        ? translate(locale, 'validation.tooLong', { label, max: field.maxLength })
+        : null;
+    }
+    case 'list': {
+      const value: unknown = bookingDetails[field.key];
+      const names = Array.isArray(value) ? value.map(String) : [];
+      const expected = bookingDetails.participantCount;
+      if (names.length === 0) return field.required ? required : null;
+      if (names.some(name => !name.trim()) || (expected !== undefined && names.length !== expected)) {
+        return translate(locale, 'validation.nameEach', {
+          item: translate(locale, field.itemLabel).toLocaleLowerCase(locale),
+        });
+      }
+      return names.some(name => name.trim().length > field.maxItemLength)
+        ? translate(locale, 'validation.nameEachTooLong', { max: field.maxItemLength })
+        : null;
+    }
+  }
+};
+
+const NAME_PATTERN = /^[\p{L}\p{M}][\p{L}\p{M}' .-]*$/u;
+
+const SCHEMA: Record<BookingField, Rule> = {
+  userName: ({ userName }, { locale }) => {
+    const name = userName.trim();
+    if (!name) return translate(locale, 'validation.name.required');
+    if (name.length < 2) return translate(locale, 'validation.name.tooShort', { min: 2 });
+    if (name.length > NAME_MAX_LENGTH) return translate(locale, 'validation.name.tooLong', { max: NAME_MAX_LENGTH });
+    if (!NAME_PATTERN.test(name)) return translate(locale, 'validation.name.characters');
+    return null;
+  },
+
+  userPhone: ({ userPhone }, { locale }) => {
+    const result = parsePhoneNumber(userPhone, locale);
+    return result.ok ? null : result.message;
+  },
+
+  appointmentType: ({ appointmentType }, { locale }) =>
+    APPOINTMENT_TYPES.includes(appointmentType) ? null : translate(locale, 'validation.appointmentType'),
+
+  appointmentDate: (
+    { appointmentDate, appointmentType, bookingDetails },
+    { now = new Date(), availability, locale }
+  ) => {
+    if (!appointmentDate) return translate(locale, 'validation.date.required');
+    const start = Date.parse(appointmentDate);
+    if (Number.isNaN(start)) return translate(locale, 'validation.date.invalid');
+    if (start <= now.getTime()) return translate(locale, 'validation.date.past');
+
+    if (availability && APPOINTMENT_TYPES.includes(appointmentType)) {
+      const duration = bookingDetails.duration ?? DEFAULT_DURATION_MINUTES;
+      // Booked slots are the server's call; only business hours are checked here
+      if (!isSlotAvailable({ ...availability, booked: [] }, new Date(start).toISOString(), duration, now)) {
+        return translate(locale, 'validation.date.outsideHours');
+      }
+    }
+    return null;
+  },
+
+  'bookingDetails.subject': ({ bookingDetails }, { locale }) =>
+    (bookingDetails.subject ?? '').trim().length > SUBJECT_MAX_LENGTH
+      ? translate(locale, 'validation.tooLong', { label: translate(locale, 'field.subject'), max: SUBJECT_MAX_LENGTH })
+      : null,
+
+  'bookingDetails.duration': ({ appointmentType, bookingDetails }, { locale }) => {
+    const duration = bookingDetails.duration ?? DEFAULT_DURATION_MINUTES;
+    const limits = DURATION_LIMITS[appointmentType];
+    if (!limits) return null;
+    if (!Number.isInteger(duration) || duration < limits.min || duration > limits.max) {
+      return translate(locale, 'validation.duration', { min: limits.min, max: limits.max });
+    }
+    return null;
+  },
+
+  'bookingDetails.participantCount': typeFieldRule('participantCount'),
+  'bookingDetails.attendeeNames': typeFieldRule('attendeeNames'),
+  'bookingDetails.examBoard': typeFieldRule('examBoard'),
+  'bookingDetails.targetGrade': typeFieldRule('targetGrade'),
+  'bookingDetails.workshopId': typeFieldRule('workshopId'),
+
+  'bookingDetails.notes': ({ bookingDetails }, { locale }) =>
+    (bookingDetails.notes ?? '').length > NOTES_MAX_LENGTH
+      ? translate(locale, 'validation.tooLong', { label: translate(locale, 'field.notes'), max: NOTES_MAX_LENGTH })
+      : null,
+};
+
+export const BOOKING_FIELDS = Object.keys(SCHEMA) as BookingField[];
+
+export const validateBookingField = (
+  field: BookingField,
+  data: BookingFormData,
+  context: ValidationContext = {}
+): string | null => SCHEMA[field](data, { ...context, locale: context.locale ?? DEFAULT_LOCALE });
+
+export type BookingValidationResult =
+  | { valid: true; value: BookingFormData }
+  | { valid: false; errors: FieldErrors };
+
+// Checks every field and, when valid, returns the data with names trimmed, the
+// phone number in E.164 and only the details the appointment type asks for
+export const validateBooking = (
+  data: BookingFormData,
+  context: ValidationContext = {}
+): BookingValidationResult => {
+  const errors: FieldErrors = {};
+  for (const field of BOOKING_FIELDS) {
+    const message = validateBookingField(field, data, context);
+    if (message) errors[field] = message;
+  }
+  if (Object.keys(errors).length > 0) {
+    return { valid: false, errors };
+  }
+
+  const phone = parsePhoneNumber(data.userPhone);
+  const bookingDetails = pickTypeFields(data.appointmentType, data.bookingDetails);
+  if (bookingDetails.attendeeNames) {
+    bookingDetails.attendeeNames = bookingDetails.attendeeNames.map(name => name.trim());
+  }
+  if (bookingDetails.targetGrade) {
+    bookingDetails.targetGrade = bookingDetails.targetGrade.trim();
+  }
+
+  return {
+    valid: true,
+    value: {
+      ...data,
+      userName: data.userName.trim().replace(/\s+/g, ' '),
+      userPhone: phone.ok ? phone.e164 : data.userPhone,
+      bookingDetails,
+    },
+  };
+};
+
+// The backend reports some fields under their own names
+const SERVER_FIELD_ALIASES: Record<string, BookingField> = {
+  name: 'userName',
+  phone: 'userPhone',
+  type: 'appointmentType',
+  date: 'appointmentDate',
+  subject: 'bookingDetails.subject',
+  duration: 'bookingDetails.duration',
+  notes: 'bookingDetails.notes',
+  participantCount: 'bookingDetails.participantCount',
+  attendeeNames: 'bookingDetails.attendeeNames',
+  examBoard: 'bookingDetails.examBoard',
+  targetGrade: 'bookingDetails.targetGrade',
+  workshopId: 'bookingDetails.workshopId',
+};
+
+const isBookingField = (field: string): field is BookingField =>
+  Object.prototype.hasOwnProperty.call(SCHEMA, field);
+
+// Splits server field errors into those the form can show next to a field and
+// the rest, which are shown in the general error message
+export const mapServerFieldErrors = (
+  fieldErrors: FieldErrors
+): { fields: Partial<Record<BookingField, string>>; unmatched: string[] } => {
+  const fields: Partial<Record<BookingField, string>> = {};
+  const unmatched: string[] = [];
+
+  for (const [field, message] of Object.entries(fieldErrors)) {
+    const target = isBookingField(field) ? field : SERVER_FIELD_ALIASES[field];
+    if (target) fields[target] = message;
+    else unmatched.push(message);
+  }
+  return { fields, unmatched };
+};
@@ -0,0 +1,155 @@
+import { Booking } from '../types/booking';
+import { DEFAULT_LOCALE, Locale } from '../types/i18n';
+import { translate } from './i18n/translate';
+import { DEFAULT_DURATION_MINUTES } from './pricing';
+
+// Add-to-calendar exports for a booking: an ICS file (RFC 5545) plus Google
+// and Outlook deep links. The ICS UID is derived from the booking uuid, so a
+// file downloaded after a reschedule or cancellation updates the event
+// imported earlier instead of adding a second one.
+
+// The fields an export needs; a full Booking works, and so does the booking
+// form's data plus the create response
+export type CalendarBooking = Pick<Booking, 'id' | 'bookingId' | 'appointmentType' | 'appointmentDate' | 'bookingDetails'> &
+  Partial<Pick<Booking, 'status' | 'createdAt' | 'rescheduledAt' | 'cancelledAt'>>;
+
+export interface CalendarEvent {
+  uid: string;
+  title: string;
+  description: string;
+  start: Date;
+  end: Date;
+  // The booking's magic link
+  url: string;
+  cancelled: boolean;
+  // Bumped by every change, so calendars apply the newest file
+  sequence: number;
+}
+
+// Minutes before the start that the imported event reminds the customer
+export const REMINDER_MINUTES = 60;
+
+const PRODUCT_ID = '-//Textbook//Magic Link Booking System//EN';
+
+// The event's title and description are in `locale`
+export const toCalendarEvent = (
+  booking: CalendarBooking,
+  magicLink: string,
+  locale: Locale = DEFAULT_LOCALE
+): CalendarEvent => {
+  const start = new Date(booking.appointmentDate);
+  const duration = booking.bookingDetails.duration ?? DEFAULT_DURATION_MINUTES;
+  const typeLabel = translate(locale, `appointmentType.${booking.appointmentType}`);
+  const { subject } = booking.bookingDetails;
+
+  // Seconds between creation and the latest change; grows with every change
+  const created = booking.createdAt ? Date.parse(booking.createdAt) : 0;
+  const changed = Math.max(
+    created,
+    booking.rescheduledAt ? Date.parse(booking.rescheduledAt) : 0,
+    booking.cancelledAt ? Date.parse(booking.cancelledAt) : 0
+  );
+
+  return {
+    uid: `${booking.id}@textbook-booking`,
+    title: subject ? `${typeLabel}: ${subject}` : typeLabel,
+    description: translate(locale, 'calendar.description', { bookingId: booking.bookingId, link: magicLink }),
+    start,
+    end: new Date(start.getTime() + duration * 60000),
+    url: magicLink,
+    cancelled: booking.status === 'cancelled',
+    sequence: Math.floor((changed - created) / 1000),
+  };
+};
+
+// 20250304T150000Z
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+export const buildIcs = (event: CalendarEvent, now: Date = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${event.cancelled ? 'CANCEL' : 'PUBLISH'}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `URL:${event.url}`,
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    ...(event.cancelled
+      ? []
+      : [
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeText(event.title)}`,
+          `TRIGGER:-PT${REMINDER_MINUTES}M`,
+          'END:VALARM',
+        ]),
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+export const downloadIcs = (event: CalendarEvent, fileName: string): void => {
+  const blob = new Blob([buildIcs(event)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked after the click has been handled, or some browsers cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const getGoogleCalendarUrl = (event: CalendarEvent): string => {
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: event.title,
+    dates: `${formatUtc(event.start)}/${formatUtc(event.end)}`,
+    details: event.description,
+  });
+  return `https://calendar.google.com/calendar/render?${params}`;
+};
+
+export const getOutlookCalendarUrl = (event: CalendarEvent): string => {
+  const params = new URLSearchParams({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: event.title,
+    startdt: event.start.toISOString(),
+    enddt: event.end.toISOString(),
+    body: event.description,
+  });
+  return `https://outlook.live.com/calendar/0/deeplink/compose?${params}`;
+};
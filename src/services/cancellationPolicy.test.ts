@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Booking } from '../types/booking';
+import { getCancellationTerms } from './cancellationPolicy';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2024-06-10T09:00:00Z');
+
+const paidBooking = (startsInHours: number, amount: number, currency: string): Booking => ({
+  id: 'booking-1',
+  bookingId: 'TB-1',
+  magicLinkId: 'link-1',
+  userName: 'Ana García',
+  userPhone: '+15551234567',
+  appointmentType: 'CONSULTATION',
+  appointmentDate: new Date(NOW + startsInHours * HOUR).toISOString(),
+  bookingDetails: {},
+  status: 'confirmed',
+  paymentStatus: 'completed',
+  paymentAmount: amount,
+  paymentCurrency: currency,
+  createdAt: new Date(NOW - 48 * HOUR).toISOString(),
+  accessCount: 0,
+});
+
+describe('getCancellationTerms', () => {
+  it('refunds everything before the free change window closes', () => {
+    const terms = getCancellationTerms(paidBooking(48, 45.5, 'USD'), NOW);
+    expect(terms.isLate).toBe(false);
+    expect(terms.refund).toEqual({ amount: 45.5, currency: 'USD' });
+  });
+
+  it('refunds half of a late cancellation, to the cent', () => {
+    const terms = getCancellationTerms(paidBooking(2, 45.55, 'USD'), NOW);
+    expect(terms.isLate).toBe(true);
+    expect(terms.refund).toEqual({ amount: 22.78, currency: 'USD' });
+  });
+
+  it('refunds whole yen, since JPY has no minor unit', () => {
+    const terms = getCancellationTerms(paidBooking(2, 6075, 'JPY'), NOW);
+    expect(terms.refund).toEqual({ amount: 3038, currency: 'JPY' });
+  });
+
+  it('refunds nothing when nothing was paid', () => {
+    const booking = { ...paidBooking(2, 45, 'USD'), paymentStatus: 'pending' as const };
+    expect(getCancellationTerms(booking, NOW).refund).toBeNull();
+  });
+});
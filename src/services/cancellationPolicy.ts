@@ -0,0 +1,63 @@
+import { Booking, CANCELLATION_REASONS, CancellationReason } from '../types/booking';
+import { canTransition } from './bookingLifecycle';
+import { translate } from './i18n/translate';
+import { roundToMinorUnit } from './payments/minorUnits';
+import { Price, getBookingPrice } from './pricing';
+
+// Cancellation and rescheduling rules, shared by BookingDetails and the mock
+// backend so the terms shown to the customer are the ones applied
+
+// Changes are free until this long before the appointment starts
+export const FREE_CHANGE_WINDOW_HOURS = 24;
+
+// Share of the amount paid that is refunded for a late cancellation
+export const LATE_CANCELLATION_REFUND_RATE = 0.5;
+
+// English names; translated screens use the `cancellationReason.*` messages
+export const CANCELLATION_REASON_LABELS = Object.fromEntries(
+  CANCELLATION_REASONS.map(reason => [reason, translate('en', `cancellationReason.${reason}`)])
+) as Record<CancellationReason, string>;
+
+// Reasons that only make sense with an explanation
+export const REASONS_REQUIRING_NOTE: CancellationReason[] = ['other'];
+
+export const MAX_CANCELLATION_NOTE_LENGTH = 500;
+
+export interface CancellationTerms {
+  // The lifecycle allows cancelling and the appointment hasn't started
+  changeable: boolean;
+  // Changes made before this time are free
+  freeUntil: string;
+  isLate: boolean;
+  // Late bookings keep their time; they can still be cancelled
+  canReschedule: boolean;
+  // What cancelling now would refund; null when nothing has been paid
+  refund: Price | null;
+}
+
+export const getCancellationTerms = (
+  booking: Booking,
+  now: number = Date.now()
+): CancellationTerms => {
+  const start = Date.parse(booking.appointmentDate);
+  const freeUntil = start - FREE_CHANGE_WINDOW_HOURS * 60 * 60 * 1000;
+  const changeable = canTransition(booking, 'cancel') && now < start;
+  const isLate = now >= freeUntil;
+
+  let refund: Price | null = null;
+  if (booking.paymentStatus === 'completed') {
+    const paid = getBookingPrice(booking);
+    refund = {
+      amount: isLate ? roundToMinorUnit(paid.amount * LATE_CANCELLATION_REFUND_RATE, paid.currency) : paid.amount,
+      currency: paid.currency,
+    };
+  }
+
+  return {
+    changeable,
+    freeUntil: new Date(freeUntil).toISOString(),
+    isLate,
+    canReschedule: canTransition(booking, 'reschedule') && now < start && !isLate,
+    refund,
+  };
+};
@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ACCEPT_ALL, CONSENT_VERSION, REJECT_ALL, consentStore, hasConsent, parseConsentRecord } from './consent';
+import { enqueue, loadQueue } from './tracking/queue';
+import { track, startTracking } from './tracking';
+
+describe('parseConsentRecord', () => {
+  const decidedAt = '2024-06-01T12:00:00.000Z';
+
+  it('reads a record made under the current version', () => {
+    expect(parseConsentRecord({ version: CONSENT_VERSION, choices: { analytics: true }, decidedAt })).toEqual({
+      version: CONSENT_VERSION,
+      choices: { analytics: true },
+      decidedAt,
+    });
+  });
+
+  it('asks again after the version changes', () => {
+    expect(parseConsentRecord({ version: CONSENT_VERSION - 1, choices: { analytics: true }, decidedAt })).toBeNull();
+  });
+
+  it('treats anything not explicitly allowed as off', () => {
+    expect(parseConsentRecord({ version: CONSENT_VERSION, choices: { analytics: 'yes' }, decidedAt })?.choices).toEqual(
+      REJECT_ALL
+    );
+    expect(parseConsentRecord({ version: CONSENT_VERSION, decidedAt })?.choices).toEqual(REJECT_ALL);
+  });
+
+  it('ignores records it cannot read', () => {
+    expect(parseConsentRecord(null)).toBeNull();
+    expect(parseConsentRecord('analytics')).toBeNull();
+    expect(parseConsentRecord({ version: CONSENT_VERSION, choices: ACCEPT_ALL })).toBeNull();
+  });
+});
+
+describe('consent gating', () => {
+  const trackedEvent = {
+    id: 'queued-earlier',
+    name: 'link_copied' as const,
+    properties: {},
+    deviceId: 'device-1',
+    occurredAt: new Date().toISOString(),
+  };
+
+  // Consent, the queue and the device id all live in localStorage, and the
+  // store keeps its own copy of the decision
+  beforeEach(() => {
+    window.localStorage.clear();
+    consentStore.clear();
+  });
+
+  it('allows necessary storage and nothing optional before the user decides', () => {
+    expect(consentStore.get()).toBeNull();
+    expect(hasConsent('necessary')).toBe(true);
+    expect(hasConsent('analytics')).toBe(false);
+  });
+
+  it('queues nothing without analytics consent', () => {
+    consentStore.save(REJECT_ALL);
+    track('link_copied', {});
+    expect(loadQueue()).toEqual([]);
+  });
+
+  it('queues events once analytics is allowed', () => {
+    consentStore.save(ACCEPT_ALL);
+    track('link_copied', {}, { bookingUuid: 'booking-1' });
+    expect(loadQueue()).toEqual([expect.objectContaining({ name: 'link_copied', bookingUuid: 'booking-1' })]);
+    expect(window.localStorage.getItem('tbook.deviceId.v1')).not.toBeNull();
+  });
+
+  it('drops the queue and the device id when consent is withdrawn', () => {
+    startTracking();
+    consentStore.save(ACCEPT_ALL);
+    enqueue(trackedEvent);
+
+    consentStore.save(REJECT_ALL);
+
+    expect(loadQueue()).toEqual([]);
+    expect(window.localStorage.getItem('tbook.deviceId.v1')).toBeNull();
+    expect(hasConsent('analytics')).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { ConsentCategory, ConsentChoices, ConsentRecord, OPTIONAL_CONSENT_CATEGORIES } from '../types/consent';
+
+// The user's consent choices, persisted with the version of the categories
+// they were made under and shared with other tabs like the session. Anything
+// optional stays off until the user decides; ApiService and the tracker check
+// hasConsent before sending usage data.
+
+// Bump when a category is added or what one covers changes; choices made
+// under an older version are asked for again
+export const CONSENT_VERSION = 1;
+
+const STORAGE_KEY = 'tbook.consent.v1';
+
+const allChoices = (value: boolean): ConsentChoices =>
+  Object.fromEntries(OPTIONAL_CONSENT_CATEGORIES.map(category => [category, value])) as ConsentChoices;
+
+export const ACCEPT_ALL: ConsentChoices = allChoices(true);
+export const REJECT_ALL: ConsentChoices = allChoices(false);
+
+// A stored record as it applies now: null when it is missing, unreadable or
+// made under another version, and any category not explicitly allowed is off
+export const parseConsentRecord = (value: unknown): ConsentRecord | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const candidate = value as Partial<ConsentRecord>;
+  if (candidate.version !== CONSENT_VERSION || typeof candidate.decidedAt !== 'string') return null;
+  const stored: Partial<Record<string, unknown>> = candidate.choices ?? {};
+  const choices = Object.fromEntries(
+    OPTIONAL_CONSENT_CATEGORIES.map(category => [category, stored[category] === true])
+  ) as ConsentChoices;
+  return { version: CONSENT_VERSION, choices, decidedAt: candidate.decidedAt };
+};
+
+const readStored = (): ConsentRecord | null => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return parseConsentRecord(raw ? JSON.parse(raw) : null);
+  } catch (error) {
+    console.error('Stored consent is unreadable, asking again:', error);
+    return null;
+  }
+};
+
+class ConsentStore {
+  private record: ConsentRecord | null = readStored();
+  private preferencesOpen = false;
+  private listeners = new Set<() => void>();
+  private storageListenerAttached = false;
+
+  // Null until the user has decided under the current version
+  get = (): ConsentRecord | null => this.record;
+
+  has = (category: ConsentCategory): boolean =>
+    category === 'necessary' || this.record?.choices[category] === true;
+
+  save(choices: ConsentChoices): void {
+    const record: ConsentRecord = { version: CONSENT_VERSION, choices, decidedAt: new Date().toISOString() };
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(record));
+    } catch (error) {
+      // Applies to this page; asked again after a reload
+      console.error('Failed to save consent:', error);
+    }
+    this.preferencesOpen = false;
+    this.update(record);
+  }
+
+  // Forgets the decision, so the banner asks again
+  clear(): void {
+    try {
+      window.localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.error('Failed to clear consent:', error);
+    }
+    this.update(null);
+  }
+
+  // The preferences panel, opened from the banner or a "Privacy settings" link
+  isPreferencesOpen = (): boolean => this.preferencesOpen;
+
+  setPreferencesOpen(open: boolean): void {
+    this.preferencesOpen = open;
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.attachStorageListener();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private update(record: ConsentRecord | null): void {
+    this.record = record;
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Choices made in another tab apply here too
+  private attachStorageListener(): void {
+    if (this.storageListenerAttached) return;
+    this.storageListenerAttached = true;
+    window.addEventListener('storage', event => {
+      if (event.key === STORAGE_KEY) this.update(readStored());
+    });
+  }
+}
+
+export const consentStore = new ConsentStore();
+
+export const hasConsent = (category: ConsentCategory): boolean => consentStore.has(category);
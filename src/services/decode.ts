@@ -0,0 +1,111 @@
+// Minimal runtime decoders for API payloads. Each decoder checks an unknown
+// value and either returns it typed or reports every problem it found with
+// the path to the offending field.
+
+export interface DecodeIssue {
+  path: string;
+  message: string;
+}
+
+export type DecodeResult<T> = { ok: true; value: T } | { ok: false; issues: DecodeIssue[] };
+
+export type Decoder<T> = (input: unknown, path?: string) => DecodeResult<T>;
+
+export type Decoded<D> = D extends Decoder<infer T> ? T : never;
+
+const success = <T>(value: T): DecodeResult<T> => ({ ok: true, value });
+
+const failure = <T>(path: string, message: string): DecodeResult<T> => ({
+  ok: false,
+  issues: [{ path, message }],
+});
+
+const describe = (input: unknown): string =>
+  input === null ? 'null' : Array.isArray(input) ? 'array' : typeof input;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const string: Decoder<string> = (input, path = '$') =>
+  typeof input === 'string' ? success(input) : failure(path, `expected string, got ${describe(input)}`);
+
+// Numeric columns (e.g. Prisma Decimal) may arrive as strings
+export const number: Decoder<number> = (input, path = '$') => {
+  if (typeof input === 'number' && Number.isFinite(input)) return success(input);
+  if (typeof input === 'string' && input.trim() !== '' && Number.isFinite(Number(input))) {
+    return success(Number(input));
+  }
+  return failure(path, `expected number, got ${describe(input)}`);
+};
+
+export const boolean: Decoder<boolean> = (input, path = '$') =>
+  typeof input === 'boolean' ? success(input) : failure(path, `expected boolean, got ${describe(input)}`);
+
+export const isoDate: Decoder<string> = (input, path = '$') => {
+  if (typeof input !== 'string') return failure(path, `expected date string, got ${describe(input)}`);
+  return Number.isNaN(Date.parse(input)) ? failure(path, `"${input}" is not a valid date`) : success(input);
+};
+
+// Matches one of a fixed set of string values. `normalize` lets the decoder
+// accept the backend's casing (e.g. "consultation" for "CONSULTATION").
+export const oneOf = <T extends string>(
+  values: readonly T[],
+  normalize: (value: string) => string = value => value
+): Decoder<T> => (input, path = '$') => {
+  if (typeof input === 'string') {
+    const candidate = normalize(input);
+    const match = values.find(value => value === candidate);
+    if (match) return success(match);
+  }
+  return failure(path, `expected one of ${values.join(', ')}, got ${JSON.stringify(input)}`);
+};
+
+// Accepts undefined and null (the backend sends null for empty columns)
+export const optional = <T>(decoder: Decoder<T>): Decoder<T | undefined> => (input, path = '$') =>
+  input === undefined || input === null ? success(undefined) : decoder(input, path);
+
+export const withDefault = <T>(decoder: Decoder<T>, fallback: T): Decoder<T> => (input, path = '$') =>
+  input === undefined || input === null ? success(fallback) : decoder(input, path);
+
+export const array = <T>(decoder: Decoder<T>): Decoder<T[]> => (input, path = '$') => {
+  if (!Array.isArray(input)) return failure(path, `expected array, got ${describe(input)}`);
+
+  const values: T[] = [];
+  const issues: DecodeIssue[] = [];
+  input.forEach((item, index) => {
+    const result = decoder(item, `${path}[${index}]`);
+    if (result.ok) values.push(result.value);
+    else issues.push(...result.issues);
+  });
+  return issues.length > 0 ? { ok: false, issues } : success(values);
+};
+
+type Shape = Record<string, Decoder<unknown>>;
+
+// Decodes the listed fields. With `passthrough`, keys not in the shape are
+// kept as-is instead of being dropped.
+export const object = <S extends Shape>(
+  shape: S,
+  options: { passthrough?: boolean } = {}
+): Decoder<{ [K in keyof S]: Decoded<S[K]> }> => (input, path = '$') => {
+  if (!isRecord(input)) return failure(path, `expected object, got ${describe(input)}`);
+
+  const value: Record<string, unknown> = options.passthrough ? { ...input } : {};
+  const issues: DecodeIssue[] = [];
+  for (const [key, decoder] of Object.entries(shape)) {
+    const result = decoder(input[key], `${path}.${key}`);
+    if (result.ok) {
+      if (result.value !== undefined) value[key] = result.value;
+      else delete value[key];
+    } else {
+      issues.push(...result.issues);
+    }
+  }
+
+  return issues.length > 0
+    ? { ok: false, issues }
+    : success(value as { [K in keyof S]: Decoded<S[K]> });
+};
+
+export const formatIssues = (issues: DecodeIssue[]): string =>
+  issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
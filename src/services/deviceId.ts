@@ -0,0 +1,32 @@
+// A random id kept in this browser, sent with tracked events so analytics can
+// count distinct devices. It identifies nothing beyond "the same browser", and
+// is only created once the user allows analytics.
+
+const STORAGE_KEY = 'tbook.deviceId.v1';
+
+const randomId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+export const getDeviceId = (): string => {
+  try {
+    const existing = window.localStorage.getItem(STORAGE_KEY);
+    if (existing) return existing;
+    const id = randomId();
+    window.localStorage.setItem(STORAGE_KEY, id);
+    return id;
+  } catch {
+    // Storage is blocked; the event still counts as an open
+    return randomId();
+  }
+};
+
+// Withdrawing analytics consent starts the next opt-in with a new id
+export const forgetDeviceId = (): void => {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing stored
+  }
+};
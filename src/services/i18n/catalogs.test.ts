@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { en } from './messages/en';
+import { es } from './messages/es';
+import { Catalog, Message, translate } from './translate';
+
+// The type-check already requires every key; these also catch extra keys,
+// dropped placeholders and plurals flattened to a single string.
+
+const TRANSLATIONS: Record<string, Catalog> = { es };
+
+const texts = (message: Message): string[] => (typeof message === 'string' ? [message] : Object.values(message));
+
+const placeholders = (message: Message): string[] =>
+  [...new Set(texts(message).flatMap(text => [...text.matchAll(/\{(\w+)\}/g)].map(match => match[1])))].sort();
+
+describe.each(Object.entries(TRANSLATIONS))('%s catalog', (_, catalog) => {
+  it('has exactly the English keys', () => {
+    expect(Object.keys(catalog).sort()).toEqual(Object.keys(en).sort());
+  });
+
+  it('uses the same placeholders as English', () => {
+    for (const [key, message] of Object.entries(en)) {
+      expect({ key, placeholders: placeholders(catalog[key as keyof Catalog]) }).toEqual({
+        key,
+        placeholders: placeholders(message),
+      });
+    }
+  });
+
+  it('keeps plural messages plural, with an `other` form', () => {
+    for (const [key, message] of Object.entries(en)) {
+      const translated = catalog[key as keyof Catalog];
+      expect({ key, plural: typeof translated !== 'string' }).toEqual({ key, plural: typeof message !== 'string' });
+      if (typeof translated !== 'string') expect(translated.other, key).toBeTruthy();
+    }
+  });
+
+  it('has no empty messages', () => {
+    for (const [key, message] of Object.entries(catalog)) {
+      expect(texts(message).every(text => text.trim()), key).toBe(true);
+    }
+  });
+});
+
+describe('translate', () => {
+  it('picks the plural form for the count and formats numbers in the locale', () => {
+    expect(translate('en', 'slots.noOpenings', { count: 1 })).toBe('No openings in the next 1 day.');
+    expect(translate('es', 'analytics.opened', { count: 1200 })).toBe('Enlace abierto 1200 veces.');
+    expect(translate('en', 'analytics.opened', { count: 1200 })).toBe('Link opened 1,200 times.');
+  });
+
+  it('leaves unknown placeholders as they are', () => {
+    expect(translate('en', 'pricing.promo')).toBe('Promo {code}');
+  });
+});
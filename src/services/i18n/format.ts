@@ -0,0 +1,18 @@
+import { Locale } from '../../types/i18n';
+
+// Dates and numbers in the reader's language. Prices go through
+// formatPrice in services/pricing.ts, which takes the same locale.
+
+export const DATE_TIME_FORMAT: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' };
+
+export const formatDateTime = (
+  value: string | Date,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = DATE_TIME_FORMAT
+): string => new Intl.DateTimeFormat(locale, options).format(new Date(value));
+
+export const formatDate = (value: string | Date, locale: Locale): string =>
+  formatDateTime(value, locale, { dateStyle: 'long' });
+
+export const formatNumber = (value: number, locale: Locale, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(locale, options).format(value);
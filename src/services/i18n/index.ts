@@ -0,0 +1,5 @@
+export { translate } from './translate';
+export type { Catalog, Message, MessageParams, PluralMessage } from './translate';
+export type { MessageKey } from './messages/en';
+export { DATE_TIME_FORMAT, formatDate, formatDateTime, formatNumber } from './format';
+export { localeStore } from './localeStore';
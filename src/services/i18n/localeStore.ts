@@ -0,0 +1,80 @@
+import { DEFAULT_LOCALE, Locale, LOCALES } from '../../types/i18n';
+
+const STORAGE_KEY = 'tbook.locale.v1';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// First of the browser's preferred languages we have a catalog for, e.g.
+// "es-MX" picks "es"
+const detectLocale = (): Locale => {
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of preferred) {
+    const language = tag?.split('-')[0].toLowerCase();
+    if (isLocale(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+};
+
+const readStored = (): Locale | null => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isLocale(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+// The language the UI is shown in: the user's pick from the switcher if they
+// made one, otherwise the browser's
+class LocaleStore {
+  private locale: Locale = readStored() ?? detectLocale();
+  private listeners = new Set<() => void>();
+  private storageListenerAttached = false;
+
+  constructor() {
+    this.applyToDocument();
+  }
+
+  get = (): Locale => this.locale;
+
+  set(locale: Locale): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, locale);
+    } catch (error) {
+      // Still applies until the page is reloaded
+      console.error('Failed to save language:', error);
+    }
+    this.update(locale);
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.attachStorageListener();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private update(locale: Locale): void {
+    if (locale === this.locale) return;
+    this.locale = locale;
+    this.applyToDocument();
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Screen readers and hyphenation follow the document language
+  private applyToDocument(): void {
+    document.documentElement.lang = this.locale;
+  }
+
+  // A language picked in another tab applies here too
+  private attachStorageListener(): void {
+    if (this.storageListenerAttached) return;
+    this.storageListenerAttached = true;
+    window.addEventListener('storage', event => {
+      if (event.key === STORAGE_KEY) this.update(readStored() ?? detectLocale());
+    });
+  }
+}
+
+export const localeStore = new LocaleStore();
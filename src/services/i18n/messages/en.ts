@@ -0,0 +1,452 @@
+import type { Message } from '../translate';
+
+// Source catalog. Keys are grouped by screen, plus shared labels for the
+// booking enums; other catalogs are typed against this one.
+export const en = {
+  'common.fullName': 'Full Name',
+  'common.phoneNumber': 'Phone Number',
+  'common.appointmentType': 'Appointment Type',
+  'common.dateTime': 'Date & Time',
+  'common.subject': 'Subject',
+  'common.cancel': 'Cancel',
+  'common.retry': 'Retry',
+  'common.tryAgain': 'Try Again',
+  'common.privacySettings': 'Privacy settings',
+
+  'language.label': 'Language',
+
+  'appointmentType.CONSULTATION': 'Consultation',
+  'appointmentType.TUTORIAL': 'Tutorial Session',
+  'appointmentType.ASSESSMENT': 'Assessment',
+  'appointmentType.GROUP_SESSION': 'Group Session',
+  'appointmentType.WORKSHOP': 'Workshop',
+
+  'bookingStatus.pending_confirmation': 'Pending confirmation',
+  'bookingStatus.confirmed': 'Confirmed',
+  'bookingStatus.completed': 'Completed',
+  'bookingStatus.cancelled': 'Cancelled',
+
+  'paymentStatus.pending': 'Pending',
+  'paymentStatus.processing': 'Processing',
+  'paymentStatus.completed': 'Paid',
+  'paymentStatus.failed': 'Failed',
+  'paymentStatus.refunded': 'Refunded',
+
+  'cancellationReason.schedule_conflict': 'Schedule conflict',
+  'cancellationReason.illness': 'Illness',
+  'cancellationReason.no_longer_needed': 'No longer needed',
+  'cancellationReason.found_alternative': 'Found another tutor',
+  'cancellationReason.tutor_unavailable': 'Tutor unavailable',
+  'cancellationReason.other': 'Other',
+
+  'level.beginner': 'Beginner',
+  'level.intermediate': 'Intermediate',
+  'level.advanced': 'Advanced',
+  'level.expert': 'Expert',
+
+  'home.title': 'Book Your Appointment',
+  'home.subtitle': 'Schedule your consultation, tutoring session, or assessment with ease',
+  'home.myBookings': 'My Bookings',
+  'home.admin': 'Admin',
+  'home.signIn': 'Sign In',
+  'home.signOut': 'Sign Out',
+  'home.signedInAs': 'Signed in as {phone}',
+  'home.copyright': '© 2024 Textbook Booking System. All rights reserved.',
+
+  'form.title': 'Create New Booking',
+  'form.stepProgress': 'Step {step} of {total}',
+  'form.steps.details.label': 'Details',
+  'form.steps.details.title': 'Personal Information',
+  'form.steps.appointment.label': 'Appointment',
+  'form.steps.appointment.title': 'Appointment Details',
+  'form.steps.extras.label': 'Extras',
+  'form.steps.extras.title': 'Additional Details',
+  'form.steps.review.label': 'Review',
+  'form.steps.review.title': 'Review Your Booking',
+  'form.restored': 'We restored your unfinished booking from {date}.',
+  'form.startOver': 'Start over',
+  'form.fullNamePlaceholder': 'Enter your full name',
+  'form.duration': 'Duration',
+  'form.durationOption': { one: '{count} minute', other: '{count} minutes' },
+  'form.selectOption': 'Select {label}',
+  'form.setParticipantsFirst': 'Set the number of participants first.',
+  'form.subjectPlaceholder': 'Mathematics, Science, etc.',
+  'form.level': 'Level',
+  'form.selectLevel': 'Select Level',
+  'form.promoCode': 'Promo Code',
+  'form.currency': 'Currency',
+  'form.promoCodePlaceholder': 'Optional',
+  'form.notes': 'Additional Notes',
+  'form.notesPlaceholder': 'Any special requirements or notes...',
+  'form.failed': 'Booking Failed',
+  'form.back': 'Back',
+  'form.next': 'Next: {step}',
+  'form.creating': 'Creating Booking...',
+  'form.create': 'Create Booking',
+
+  'card.title': 'Booking Confirmation',
+  'card.studentName': 'Student Name',
+  'card.appointmentDetails': 'Appointment Details',
+  'card.date': 'Date',
+  'card.time': 'Time',
+  'card.tutorTime': '{time} for your tutor',
+  'card.type': 'Type',
+  'card.paymentInformation': 'Payment Information',
+  'card.amount': 'Amount:',
+  'card.paymentCompleted': 'Payment Completed Successfully!',
+  'card.confirmationEmail': 'You will receive a confirmation email shortly.',
+
+  'payment.title': 'Complete Payment',
+  'payment.secure': 'Secure',
+  'payment.method': 'Payment Method',
+  'payment.card': 'Card',
+  'payment.cardNumber': 'Card Number',
+  'payment.expiry': 'Expiry Date',
+  'payment.expiryPlaceholder': 'MM/YY',
+  'payment.cvv': 'CVV',
+  'payment.cardholder': 'Cardholder Name',
+  'payment.cardholderPlaceholder': 'John Doe',
+  'payment.paypalUnavailable': "PayPal checkout isn't available yet. Please pay by card.",
+  'payment.testMode':
+    'Test mode: use {success} with any future expiry and CVV to succeed, or {declined} to see a decline.',
+  'payment.declined': 'Payment Declined',
+  'payment.failed': 'Payment Failed',
+  'payment.secureTitle': 'Your payment is secure',
+  'payment.secureDescription': 'We use bank-level encryption to protect your information.',
+  'payment.processing': 'Processing...',
+  'payment.pay': 'Pay {amount}',
+
+  'details.error.notFound.title': 'Booking Not Found',
+  'details.error.notFound.description': "We couldn't find a booking for this link. Please check the URL and try again.",
+  'details.error.expired.title': 'Link Expired',
+  'details.error.expired.description': 'This booking link has expired. Please contact support for a new one.',
+  'details.error.unauthorized.title': 'Sign In Required',
+  'details.error.unauthorized.description':
+    'Please sign in with the phone number you booked with to view this booking.',
+  'details.error.forbidden.title': 'Not Your Booking',
+  'details.error.forbidden.description':
+    'This booking was made with a different phone number. Sign in with that number to view it.',
+  'details.error.network.title': "Can't Reach the Server",
+  'details.error.network.description': 'Please check your connection and try again.',
+  'details.error.decode.title': 'Unexpected Booking Data',
+  'details.error.decode.description':
+    "We received booking information we couldn't read. Please contact support if this keeps happening.",
+  'details.error.server.title': 'Service Unavailable',
+  'details.error.server.description': 'Something went wrong on our side. Please try again in a moment.',
+  'details.error.unknown.title': 'Error Loading Booking',
+  'details.loading': 'Loading booking details...',
+  'details.noId.title': 'No Booking ID Provided',
+  'details.noId.description': 'Please provide a valid booking ID in the URL.',
+  'details.noBooking.title': 'No Booking Found',
+  'details.noBooking.description': 'Please check your booking ID and try again.',
+  'details.expired.title': 'Booking Expired',
+  'details.expired.description': 'Your booking has expired. Please contact support.',
+  'details.title': 'Booking Details',
+  'details.bookingId': 'Booking ID: {id}',
+  'details.refreshFailed': "Couldn't refresh booking details: {error}",
+  'details.bookingStatus': 'Booking Status',
+  'details.paymentStatus': 'Payment Status',
+  'details.personalInformation': 'Personal Information',
+  'details.appointmentDetails': 'Appointment Details',
+  'details.copyPhone': 'Copy phone number',
+  'details.additionalDetails': 'Additional Details',
+  'details.awaitingConfirmation':
+    'Your tutor will confirm this booking shortly. You can pay once it has been confirmed.',
+  'details.payNow': 'Pay Now ({amount})',
+  'details.retryPayment': 'Retry Payment ({amount})',
+  'details.paymentInProgress': {
+    one: 'A payment for this booking is being processed. If it does not finish, you can start again after {count} minute.',
+    other: 'A payment for this booking is being processed. If it does not finish, you can start again after {count} minutes.',
+  },
+  'details.paymentInterrupted':
+    'Your last payment did not finish. If you were not charged, you can start a new payment.',
+  'details.restartPayment': 'Start a New Payment',
+  'details.restartPaymentFailed': 'We could not reset the payment. Please try again.',
+  'details.cancelled': 'This booking was cancelled.',
+  'details.cancelledWithReason': 'This booking was cancelled ({reason}).',
+  'details.refunded': 'Your payment has been refunded.',
+  'details.refundRequested': "A refund of {amount} has been requested. We'll let you know once it has been paid out.",
+  'details.reschedule': 'Reschedule',
+  'details.cancelBooking': 'Cancel Booking',
+  'details.lateChange': {
+    one: 'This appointment is less than {count} hour away, so it can no longer be moved and cancelling it is charged.',
+    other:
+      'This appointment is less than {count} hours away, so it can no longer be moved and cancelling it is charged.',
+  },
+  'details.freeChangesUntil': 'Free cancellation and rescheduling until {date}.',
+  'details.timeline': 'Timeline',
+  'details.linkActivity': 'Link Activity',
+  'details.copyLink': 'Copy link',
+  'details.showDetails': 'Show details',
+  'details.hideDetails': 'Hide details',
+  'details.yourData': 'Your Data',
+  'details.copied': 'Copied to clipboard!',
+
+  'field.subject': 'Subject',
+  'field.level': 'Level',
+  'field.duration': 'Duration',
+  'field.notes': 'Notes',
+  'field.quote': 'Quoted Price',
+  'field.quote.withPromo': '{price} (promo {code})',
+  'field.examBoard': 'Exam Board',
+  'field.targetGrade': 'Target Grade',
+  'field.targetGrade.placeholder': 'e.g. A*, 7, 1400',
+  'field.participantCount': 'Participants',
+  'field.participantCount.hint': 'Between {min} and {max} people, including you',
+  'field.attendeeNames': 'Attendee Names',
+  'field.attendeeNames.item': 'Attendee',
+  'field.workshopId': 'Workshop',
+
+  'examBoard.AQA': 'AQA',
+  'examBoard.EDEXCEL': 'Pearson Edexcel',
+  'examBoard.OCR': 'OCR',
+  'examBoard.WJEC': 'WJEC / Eduqas',
+  'examBoard.CAMBRIDGE': 'Cambridge International',
+  'examBoard.IB': 'International Baccalaureate',
+  'examBoard.COLLEGE_BOARD': 'College Board (SAT / AP)',
+
+  'workshop.exam-technique': 'Exam Technique Masterclass',
+  'workshop.study-skills': 'Study Skills and Revision Planning',
+  'workshop.essay-writing': 'Essay Writing Bootcamp',
+  'workshop.stem-lab': 'Hands-on STEM Lab',
+
+  'validation.required': '{label} is required',
+  'validation.between': '{label} must be between {min} and {max}',
+  'validation.chooseFromList': 'Choose an option from the list for {label}',
+  'validation.tooLong': '{label} must be at most {max} characters',
+  'validation.nameEach': 'Enter a name for each {item}',
+  'validation.nameEachTooLong': 'Each name must be at most {max} characters',
+  'validation.name.required': 'Name is required',
+  'validation.name.tooShort': 'Name must be at least {min} characters',
+  'validation.name.tooLong': 'Name must be at most {max} characters',
+  'validation.name.characters': 'Name can only contain letters, spaces, apostrophes, hyphens and periods',
+  'validation.phone.required': 'Phone number is required',
+  'validation.phone.characters': 'Phone number can only contain digits, spaces and + ( ) -',
+  'validation.phone.countryCode': 'Include your country code, e.g. +44 20 7946 0958',
+  'validation.phone.invalid': 'Enter a valid phone number',
+  'validation.appointmentType': 'Choose an appointment type',
+  'validation.date.required': 'Choose a date and time',
+  'validation.date.invalid': 'Enter a valid date and time',
+  'validation.date.past': 'The appointment must be in the future',
+  'validation.date.outsideHours': 'Choose a time within business hours',
+  'validation.duration': 'This appointment type must last between {min} and {max} minutes',
+
+  'promo.WELCOME10': '10% off your first session',
+  'promo.TUTOR5': '{amount} off tutorials',
+  'promo.GROUP20': '20% off group sessions and workshops',
+  'promo.unknown': 'This promo code is not recognised',
+  'promo.expired': 'This promo code has expired',
+  'promo.notApplicable': 'This promo code does not apply to this appointment type',
+
+  'pricing.estimate': 'Price Estimate',
+  'pricing.total': 'Total',
+  'pricing.session': '{minutes} min at {rate}/hour',
+  'pricing.levelSurcharge': '{level} level (+{percent})',
+  'pricing.promo': 'Promo {code}',
+  'pricing.salesTax': 'Sales tax ({percent})',
+
+  'review.yourDetails': 'Your Details',
+  'review.edit': 'Edit',
+  'review.editSection': 'Edit {section}',
+  'review.notSelected': 'Not selected',
+  'review.nothingAdded': 'Nothing added',
+  'form.numberedItem': '{item} {number}',
+
+  'slots.loading': 'Loading available times...',
+  'slots.loadFailed': 'Available times could not be loaded.',
+  'slots.previousMonth': 'Previous month',
+  'slots.nextMonth': 'Next month',
+  'slots.noTimes': 'No times available',
+  'slots.tutorTime': '{time} tutor',
+  'slots.dayFull': 'Nothing free on this day. Please pick another date.',
+  'slots.noOpenings': { one: 'No openings in the next {count} day.', other: 'No openings in the next {count} days.' },
+  'slots.viewerZone': 'Times shown in your time zone ({zone}, {abbreviation}).',
+  'slots.tutorZone': 'Your tutor is in {zone}.',
+
+  'time.tutor': "Tutor's time",
+  'time.booker': 'Booked from',
+  'time.otherZone': '{label}: {time} {abbreviation} ({zone})',
+
+  'success.title': 'Booking Created Successfully!',
+  'success.magicLink': 'Booking Magic Link:',
+  'success.addToCalendar': 'Add it to your calendar',
+  'success.viewBooking': 'View Booking',
+  'success.bookAnother': 'Book Another Appointment',
+
+  'calendar.description': 'Booking ID: {bookingId}\nManage your booking: {link}',
+  'calendar.download': 'Download .ics',
+  'calendar.downloadUpdate': 'Download Updated Event (.ics)',
+  'calendar.downloadCancellation': 'Download Cancellation (.ics)',
+  'calendar.google': 'Add to Google',
+  'calendar.outlook': 'Add to Outlook',
+  'calendar.updateHint': 'Open the file to update the event already in your calendar.',
+  'calendar.removeHint': 'Open the file to remove the event already in your calendar.',
+
+  'timeline.created': 'Booked',
+  'timeline.confirmed': 'Confirmed',
+  'timeline.payment.pending': 'Payment pending',
+  'timeline.payment.processing': 'Payment processing',
+  'timeline.payment.completed': 'Payment received',
+  'timeline.payment.failed': 'Payment failed',
+  'timeline.payment.refunded': 'Payment refunded',
+  'timeline.rescheduled': 'Rescheduled',
+  'timeline.movedFrom': 'Moved from {date}',
+  'timeline.cancelled': 'Cancelled',
+  'timeline.refundRequested': 'Refund requested',
+  'timeline.freeChangeDeadline': 'Free cancellation ends',
+  'timeline.appointment': 'Appointment',
+  'timeline.upcoming': 'Upcoming',
+
+  'lifecycle.refused.confirm': 'Cannot confirm a booking that is {status} (payment {paymentStatus})',
+  'lifecycle.refused.start_payment': 'Cannot pay for a booking that is {status} (payment {paymentStatus})',
+  'lifecycle.refused.complete_payment':
+    'Cannot complete the payment for a booking that is {status} (payment {paymentStatus})',
+  'lifecycle.refused.fail_payment': 'Cannot fail the payment for a booking that is {status} (payment {paymentStatus})',
+  'lifecycle.refused.record_payment':
+    'Cannot record a payment for a booking that is {status} (payment {paymentStatus})',
+  'lifecycle.refused.cancel': 'Cannot cancel a booking that is {status} (payment {paymentStatus})',
+  'lifecycle.refused.reschedule': 'Cannot reschedule a booking that is {status} (payment {paymentStatus})',
+  'lifecycle.refused.refund': 'Cannot refund a booking that is {status} (payment {paymentStatus})',
+
+  'reschedule.title': 'Choose a new time',
+  'reschedule.unchanged': "That's the booking's current time.",
+  'reschedule.submit': 'Move Booking',
+  'reschedule.keep': 'Keep Current Time',
+
+  'cancel.title': 'Cancel this booking',
+  'cancel.late': 'This appointment starts within the free cancellation window, so it counts as a late cancellation.',
+  'cancel.lateRefund': 'Late cancellations are refunded {share} of the amount paid.',
+  'cancel.freeUntil': 'Free cancellation until {date}.',
+  'cancel.refund': 'A refund of {amount} will be requested automatically.',
+  'cancel.reason': 'Reason',
+  'cancel.note': 'Note',
+  'cancel.optional': '(optional)',
+  'cancel.keep': 'Keep Booking',
+  'cancel.error.reason': 'Choose a reason for cancelling',
+  'cancel.error.noteRequired': 'Please tell us why you are cancelling',
+  'cancel.error.noteTooLong': 'Keep the note under {max} characters',
+
+  'data.intro':
+    'Download the details, activity and change history held for this booking, or ask for them to be deleted.',
+  'data.download': 'Download My Data',
+  'data.requestDeletion': 'Request Deletion',
+  'data.confirmDeletion':
+    "The activity recorded for this booking link is erased straight away. The booking itself is deleted once it has been completed or cancelled and any payment settled. This can't be undone.",
+  'data.delete': 'Delete My Data',
+  'data.keep': 'Keep It',
+  'data.deletionRequested':
+    'Deletion requested on {date}. Tracked activity has been erased, and the booking will be removed once it has been settled.',
+
+  'analytics.opened': { one: 'Link opened {count} time.', other: 'Link opened {count} times.' },
+  'analytics.openedRecently': {
+    one: 'Link opened {count} time, most recently {date}.',
+    other: 'Link opened {count} times, most recently {date}.',
+  },
+  'analytics.notOpened': 'Not opened yet. Nobody has visited this booking link.',
+  'analytics.opensOnDay': { one: '{date}: {count} open', other: '{date}: {count} opens' },
+  'analytics.totalOpens': 'Total opens',
+  'analytics.uniqueDevices': 'Unique devices',
+  'analytics.firstOpened': 'First opened',
+  'analytics.opensChart': { one: 'Opens, last {count} day', other: 'Opens, last {count} days' },
+  'analytics.opensChartSummary': {
+    one: '{count} open in the last {days} days',
+    other: '{count} opens in the last {days} days',
+  },
+  'analytics.devices': 'Devices',
+  'analytics.noDevices': 'No devices recorded yet.',
+  'analytics.referrers': 'Referrers',
+  'analytics.noVisits': 'No visits recorded yet.',
+  'analytics.conversion': 'Conversion',
+  'analytics.stepDone': 'done',
+  'analytics.stepPending': 'not yet',
+  'analytics.funnel.opened': 'Link opened',
+  'analytics.funnel.confirmed': 'Booking confirmed',
+  'analytics.funnel.paid': 'Paid',
+  'analytics.device': '{browser} on {system}',
+  'analytics.unknownDevice': 'Unknown device',
+  'analytics.otherBrowser': 'Other browser',
+  'analytics.otherSystem': 'Other system',
+  'analytics.directReferrer': 'Direct or messaging app',
+
+  'payment.error.numberLength': 'Card number must be {min} to {max} digits',
+  'payment.error.numberInvalid': 'Card number is invalid',
+  'payment.error.expiryFormat': 'Use the format MM/YY',
+  'payment.error.expired': 'Card has expired or the month is invalid',
+  'payment.error.cvv': { one: 'CVV must be {count} digit', other: 'CVV must be {count} digits' },
+  'payment.error.nameRequired': 'Cardholder name is required',
+  'payment.error.notReset': 'Could not start payment. Please try again in a moment.',
+  'payment.error.notStarted': 'Could not start payment',
+  'payment.error.notRecorded':
+    "Your payment went through but we couldn't update your booking. Please contact support with reference {reference}.",
+  'payment.error.notProcessed': 'Payment could not be processed',
+  'payment.error.failureNotRecorded': '{reason} Your booking could not be updated yet; it will be when you try again.',
+  'payment.decline.card_declined': 'Your card was declined.',
+  'payment.decline.insufficient_funds': 'Your card has insufficient funds.',
+  'payment.decline.expired_card': 'Your card has expired.',
+  'payment.decline.incorrect_cvc': "Your card's security code is incorrect.",
+  'payment.decline.processing_error': 'An error occurred while processing your card.',
+
+  'consent.banner.label': 'Cookie consent',
+  'consent.banner.text':
+    'We use necessary storage to run your bookings. With your permission we also record how booking pages are used, which shows whether a booking link was opened. Nothing optional is recorded until you choose.',
+  'consent.preferences': 'Preferences',
+  'consent.acceptAll': 'Accept All',
+  'consent.rejectAll': 'Reject All',
+  'consent.save': 'Save Choices',
+  'consent.preferences.title': 'Privacy Settings',
+  'consent.preferences.close': 'Close privacy settings',
+  'consent.category.necessary': 'Necessary',
+  'consent.category.necessary.description':
+    'Keeps you signed in, saves the booking form as you type and remembers bookings made on this device. Always on.',
+  'consent.category.analytics': 'Analytics',
+  'consent.category.analytics.description':
+    'Records how booking pages are used, such as steps viewed, payments started and booking links opened, along with a random id for this browser. Lets you and your tutor see whether a booking link was opened.',
+
+  'signIn.title': 'Sign in with your phone',
+  'signIn.description': 'See and manage every booking made with your phone number, on any device.',
+  'signIn.phoneHint': "Use the number you booked with. We'll text you a sign-in code.",
+  'signIn.sendCode': 'Send Code',
+  'signIn.sendCodeIn': 'Send Code ({seconds}s)',
+  'signIn.codeSent': 'We sent a 6-digit code to {phone}.',
+  'signIn.code': 'Sign-in Code',
+  'signIn.codeInvalid': 'Enter the 6-digit code from the message',
+  'signIn.changeNumber': 'Use a different number',
+  'signIn.resend': 'Resend code',
+  'signIn.resendIn': 'Resend code in {seconds}s',
+  'signIn.staffOnly.title': 'Staff Only',
+  'signIn.staffOnly.description':
+    "{phone} doesn't have access to this page. Sign in with a staff number to continue.",
+  'signIn.staffOnly.home': 'Go to booking',
+  'signIn.staffOnly.signOut': 'Sign out',
+
+  'magicLink.invalid.title': 'Invalid Link',
+  'magicLink.invalid.description':
+    "This booking link isn't valid. Please check the message you received and try again.",
+  'magicLink.failed': "Couldn't Open Your Booking",
+  'magicLink.opening': 'Opening your booking...',
+
+  'myBookings.upcoming': 'Upcoming',
+  'myBookings.past': 'Past',
+  'myBookings.noUpcoming': 'No upcoming bookings.',
+  'myBookings.noPast': 'No past bookings.',
+  'myBookings.viewDetails': 'View details',
+  'myBookings.forget': 'Remove from this device',
+  'myBookings.bookAnother': 'Book another appointment',
+  'myBookings.book': 'Book an Appointment',
+  'myBookings.none.title': 'No Bookings on This Device Yet',
+  'myBookings.none.description':
+    'Bookings you make here, or open from a booking link, will show up on this page. Sign in to see bookings made on other devices.',
+  'myBookings.loadFailed': "Couldn't Load Your Bookings",
+  'myBookings.noMatches.title': 'No Bookings Match These Filters',
+  'myBookings.noMatches.description': 'Try a different status, or clear the filters to see everything.',
+  'myBookings.notFound.title': 'No Bookings Found',
+  'myBookings.notFound.signedIn': 'No bookings were found for {phone} or on this device.',
+  'myBookings.notFound.description': 'The bookings remembered on this device could not be found.',
+  'myBookings.clearFilters': 'Clear Filters',
+  'myBookings.all': 'All',
+  'myBookings.sort': 'Sort by Date',
+  'myBookings.sort.asc': 'Soonest first',
+  'myBookings.sort.desc': 'Latest first',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
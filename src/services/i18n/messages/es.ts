@@ -0,0 +1,454 @@
+import type { Catalog } from '../translate';
+
+export const es: Catalog = {
+  'common.fullName': 'Nombre completo',
+  'common.phoneNumber': 'Número de teléfono',
+  'common.appointmentType': 'Tipo de cita',
+  'common.dateTime': 'Fecha y hora',
+  'common.subject': 'Asignatura',
+  'common.cancel': 'Cancelar',
+  'common.retry': 'Reintentar',
+  'common.tryAgain': 'Intentar de nuevo',
+  'common.privacySettings': 'Configuración de privacidad',
+
+  'language.label': 'Idioma',
+
+  'appointmentType.CONSULTATION': 'Consulta',
+  'appointmentType.TUTORIAL': 'Sesión de tutoría',
+  'appointmentType.ASSESSMENT': 'Evaluación',
+  'appointmentType.GROUP_SESSION': 'Sesión en grupo',
+  'appointmentType.WORKSHOP': 'Taller',
+
+  'bookingStatus.pending_confirmation': 'Pendiente de confirmación',
+  'bookingStatus.confirmed': 'Confirmada',
+  'bookingStatus.completed': 'Completada',
+  'bookingStatus.cancelled': 'Cancelada',
+
+  'paymentStatus.pending': 'Pendiente',
+  'paymentStatus.processing': 'En proceso',
+  'paymentStatus.completed': 'Pagado',
+  'paymentStatus.failed': 'Fallido',
+  'paymentStatus.refunded': 'Reembolsado',
+
+  'cancellationReason.schedule_conflict': 'Conflicto de horario',
+  'cancellationReason.illness': 'Enfermedad',
+  'cancellationReason.no_longer_needed': 'Ya no es necesaria',
+  'cancellationReason.found_alternative': 'Encontré otro tutor',
+  'cancellationReason.tutor_unavailable': 'Tutor no disponible',
+  'cancellationReason.other': 'Otro motivo',
+
+  'level.beginner': 'Principiante',
+  'level.intermediate': 'Intermedio',
+  'level.advanced': 'Avanzado',
+  'level.expert': 'Experto',
+
+  'home.title': 'Reserva tu cita',
+  'home.subtitle': 'Programa tu consulta, sesión de tutoría o evaluación de forma sencilla',
+  'home.myBookings': 'Mis reservas',
+  'home.admin': 'Administración',
+  'home.signIn': 'Iniciar sesión',
+  'home.signOut': 'Cerrar sesión',
+  'home.signedInAs': 'Sesión iniciada como {phone}',
+  'home.copyright': '© 2024 Textbook Booking System. Todos los derechos reservados.',
+
+  'form.title': 'Nueva reserva',
+  'form.stepProgress': 'Paso {step} de {total}',
+  'form.steps.details.label': 'Datos',
+  'form.steps.details.title': 'Datos personales',
+  'form.steps.appointment.label': 'Cita',
+  'form.steps.appointment.title': 'Detalles de la cita',
+  'form.steps.extras.label': 'Extras',
+  'form.steps.extras.title': 'Detalles adicionales',
+  'form.steps.review.label': 'Revisión',
+  'form.steps.review.title': 'Revisa tu reserva',
+  'form.restored': 'Hemos recuperado tu reserva sin terminar del {date}.',
+  'form.startOver': 'Empezar de nuevo',
+  'form.fullNamePlaceholder': 'Escribe tu nombre completo',
+  'form.duration': 'Duración',
+  'form.durationOption': { one: '{count} minuto', other: '{count} minutos' },
+  'form.selectOption': 'Selecciona: {label}',
+  'form.setParticipantsFirst': 'Indica primero el número de participantes.',
+  'form.subjectPlaceholder': 'Matemáticas, Ciencias, etc.',
+  'form.level': 'Nivel',
+  'form.selectLevel': 'Selecciona un nivel',
+  'form.promoCode': 'Código promocional',
+  'form.currency': 'Moneda',
+  'form.promoCodePlaceholder': 'Opcional',
+  'form.notes': 'Notas adicionales',
+  'form.notesPlaceholder': 'Requisitos especiales o comentarios...',
+  'form.failed': 'No se pudo crear la reserva',
+  'form.back': 'Atrás',
+  'form.next': 'Siguiente: {step}',
+  'form.creating': 'Creando reserva...',
+  'form.create': 'Crear reserva',
+
+  'card.title': 'Confirmación de reserva',
+  'card.studentName': 'Nombre del alumno',
+  'card.appointmentDetails': 'Detalles de la cita',
+  'card.date': 'Fecha',
+  'card.time': 'Hora',
+  'card.tutorTime': '{time} para tu tutor',
+  'card.type': 'Tipo',
+  'card.paymentInformation': 'Información de pago',
+  'card.amount': 'Importe:',
+  'card.paymentCompleted': '¡Pago completado con éxito!',
+  'card.confirmationEmail': 'En breve recibirás un correo de confirmación.',
+
+  'payment.title': 'Completar pago',
+  'payment.secure': 'Seguro',
+  'payment.method': 'Método de pago',
+  'payment.card': 'Tarjeta',
+  'payment.cardNumber': 'Número de tarjeta',
+  'payment.expiry': 'Fecha de caducidad',
+  'payment.expiryPlaceholder': 'MM/AA',
+  'payment.cvv': 'CVV',
+  'payment.cardholder': 'Titular de la tarjeta',
+  'payment.cardholderPlaceholder': 'Juan Pérez',
+  'payment.paypalUnavailable': 'El pago con PayPal aún no está disponible. Paga con tarjeta.',
+  'payment.testMode':
+    'Modo de prueba: usa {success} con cualquier caducidad futura y CVV para un pago correcto, o {declined} para ver un rechazo.',
+  'payment.declined': 'Pago rechazado',
+  'payment.failed': 'Error en el pago',
+  'payment.secureTitle': 'Tu pago es seguro',
+  'payment.secureDescription': 'Usamos cifrado de nivel bancario para proteger tu información.',
+  'payment.processing': 'Procesando...',
+  'payment.pay': 'Pagar {amount}',
+
+  'details.error.notFound.title': 'Reserva no encontrada',
+  'details.error.notFound.description':
+    'No encontramos ninguna reserva para este enlace. Comprueba la URL e inténtalo de nuevo.',
+  'details.error.expired.title': 'Enlace caducado',
+  'details.error.expired.description': 'Este enlace de reserva ha caducado. Contacta con soporte para obtener uno nuevo.',
+  'details.error.unauthorized.title': 'Inicia sesión',
+  'details.error.unauthorized.description':
+    'Inicia sesión con el número de teléfono con el que reservaste para ver esta reserva.',
+  'details.error.forbidden.title': 'Esta reserva no es tuya',
+  'details.error.forbidden.description':
+    'Esta reserva se hizo con otro número de teléfono. Inicia sesión con ese número para verla.',
+  'details.error.network.title': 'No se puede conectar con el servidor',
+  'details.error.network.description': 'Comprueba tu conexión e inténtalo de nuevo.',
+  'details.error.decode.title': 'Datos de reserva inesperados',
+  'details.error.decode.description':
+    'Recibimos datos de la reserva que no pudimos leer. Contacta con soporte si vuelve a ocurrir.',
+  'details.error.server.title': 'Servicio no disponible',
+  'details.error.server.description': 'Algo ha fallado por nuestra parte. Inténtalo de nuevo en un momento.',
+  'details.error.unknown.title': 'Error al cargar la reserva',
+  'details.loading': 'Cargando los detalles de la reserva...',
+  'details.noId.title': 'Falta el ID de la reserva',
+  'details.noId.description': 'Indica un ID de reserva válido en la URL.',
+  'details.noBooking.title': 'No se encontró la reserva',
+  'details.noBooking.description': 'Comprueba el identificador de la reserva e inténtalo de nuevo.',
+  'details.expired.title': 'Reserva caducada',
+  'details.expired.description': 'Tu reserva ha caducado. Contacta con soporte.',
+  'details.title': 'Detalles de la reserva',
+  'details.bookingId': 'ID de reserva: {id}',
+  'details.refreshFailed': 'No se pudieron actualizar los detalles de la reserva: {error}',
+  'details.bookingStatus': 'Estado de la reserva',
+  'details.paymentStatus': 'Estado del pago',
+  'details.personalInformation': 'Datos personales',
+  'details.appointmentDetails': 'Detalles de la cita',
+  'details.copyPhone': 'Copiar número de teléfono',
+  'details.additionalDetails': 'Detalles adicionales',
+  'details.awaitingConfirmation':
+    'Tu tutor confirmará esta reserva en breve. Podrás pagar cuando esté confirmada.',
+  'details.payNow': 'Pagar ahora ({amount})',
+  'details.retryPayment': 'Reintentar el pago ({amount})',
+  'details.paymentInProgress': {
+    one: 'Se está procesando un pago de esta reserva. Si no termina, podrás empezar de nuevo dentro de {count} minuto.',
+    other: 'Se está procesando un pago de esta reserva. Si no termina, podrás empezar de nuevo dentro de {count} minutos.',
+  },
+  'details.paymentInterrupted':
+    'Tu último pago no terminó. Si no se te cobró, puedes iniciar un pago nuevo.',
+  'details.restartPayment': 'Iniciar un pago nuevo',
+  'details.restartPaymentFailed': 'No pudimos restablecer el pago. Inténtalo de nuevo.',
+  'details.cancelled': 'Esta reserva se canceló.',
+  'details.cancelledWithReason': 'Esta reserva se canceló ({reason}).',
+  'details.refunded': 'Se ha reembolsado tu pago.',
+  'details.refundRequested': 'Se ha solicitado un reembolso de {amount}. Te avisaremos cuando se haya abonado.',
+  'details.reschedule': 'Cambiar fecha',
+  'details.cancelBooking': 'Cancelar reserva',
+  'details.lateChange': {
+    one: 'Falta menos de {count} hora para esta cita, así que ya no se puede cambiar y cancelarla tiene coste.',
+    other: 'Faltan menos de {count} horas para esta cita, así que ya no se puede cambiar y cancelarla tiene coste.',
+  },
+  'details.freeChangesUntil': 'Cancelación y cambio de fecha gratuitos hasta el {date}.',
+  'details.timeline': 'Historial',
+  'details.linkActivity': 'Actividad del enlace',
+  'details.copyLink': 'Copiar enlace',
+  'details.showDetails': 'Ver detalles',
+  'details.hideDetails': 'Ocultar detalles',
+  'details.yourData': 'Tus datos',
+  'details.copied': '¡Copiado al portapapeles!',
+
+  'field.subject': 'Asignatura',
+  'field.level': 'Nivel',
+  'field.duration': 'Duración',
+  'field.notes': 'Notas',
+  'field.quote': 'Precio presupuestado',
+  'field.quote.withPromo': '{price} (código {code})',
+  'field.examBoard': 'Tribunal de examen',
+  'field.targetGrade': 'Nota objetivo',
+  'field.targetGrade.placeholder': 'p. ej. A*, 7, 1400',
+  'field.participantCount': 'Participantes',
+  'field.participantCount.hint': 'Entre {min} y {max} personas, incluido tú',
+  'field.attendeeNames': 'Nombres de los asistentes',
+  'field.attendeeNames.item': 'Asistente',
+  'field.workshopId': 'Taller',
+
+  'examBoard.AQA': 'AQA',
+  'examBoard.EDEXCEL': 'Pearson Edexcel',
+  'examBoard.OCR': 'OCR',
+  'examBoard.WJEC': 'WJEC / Eduqas',
+  'examBoard.CAMBRIDGE': 'Cambridge International',
+  'examBoard.IB': 'Bachillerato Internacional',
+  'examBoard.COLLEGE_BOARD': 'College Board (SAT / AP)',
+
+  'workshop.exam-technique': 'Clase magistral de técnica de examen',
+  'workshop.study-skills': 'Técnicas de estudio y planificación del repaso',
+  'workshop.essay-writing': 'Curso intensivo de redacción',
+  'workshop.stem-lab': 'Laboratorio práctico de ciencias',
+
+  'validation.required': '{label}: este campo es obligatorio',
+  'validation.between': '{label}: debe estar entre {min} y {max}',
+  'validation.chooseFromList': 'Elige una opción de la lista para {label}',
+  'validation.tooLong': '{label}: admite como máximo {max} caracteres',
+  'validation.nameEach': 'Escribe un nombre para cada {item}',
+  'validation.nameEachTooLong': 'Cada nombre admite como máximo {max} caracteres',
+  'validation.name.required': 'El nombre es obligatorio',
+  'validation.name.tooShort': 'El nombre debe tener al menos {min} caracteres',
+  'validation.name.tooLong': 'El nombre admite como máximo {max} caracteres',
+  'validation.name.characters': 'El nombre solo puede contener letras, espacios, apóstrofos, guiones y puntos',
+  'validation.phone.required': 'El número de teléfono es obligatorio',
+  'validation.phone.characters': 'El número de teléfono solo puede contener dígitos, espacios y + ( ) -',
+  'validation.phone.countryCode': 'Incluye el prefijo del país, p. ej. +34 912 345 678',
+  'validation.phone.invalid': 'Escribe un número de teléfono válido',
+  'validation.appointmentType': 'Elige un tipo de cita',
+  'validation.date.required': 'Elige una fecha y una hora',
+  'validation.date.invalid': 'Escribe una fecha y una hora válidas',
+  'validation.date.past': 'La cita debe ser en el futuro',
+  'validation.date.outsideHours': 'Elige una hora dentro del horario de atención',
+  'validation.duration': 'Este tipo de cita debe durar entre {min} y {max} minutos',
+
+  'promo.WELCOME10': '10 % de descuento en tu primera sesión',
+  'promo.TUTOR5': '{amount} de descuento en tutorías',
+  'promo.GROUP20': '20 % de descuento en sesiones de grupo y talleres',
+  'promo.unknown': 'No reconocemos este código promocional',
+  'promo.expired': 'Este código promocional ha caducado',
+  'promo.notApplicable': 'Este código promocional no se aplica a este tipo de cita',
+
+  'pricing.estimate': 'Precio estimado',
+  'pricing.total': 'Total',
+  'pricing.session': '{minutes} min a {rate}/hora',
+  'pricing.levelSurcharge': 'Nivel {level} (+{percent})',
+  'pricing.promo': 'Código {code}',
+  'pricing.salesTax': 'Impuesto sobre las ventas ({percent})',
+
+  'review.yourDetails': 'Tus datos',
+  'review.edit': 'Editar',
+  'review.editSection': 'Editar: {section}',
+  'review.notSelected': 'Sin seleccionar',
+  'review.nothingAdded': 'No has añadido nada',
+  'form.numberedItem': '{item} {number}',
+
+  'slots.loading': 'Cargando horarios disponibles...',
+  'slots.loadFailed': 'No se pudieron cargar los horarios disponibles.',
+  'slots.previousMonth': 'Mes anterior',
+  'slots.nextMonth': 'Mes siguiente',
+  'slots.noTimes': 'No hay horarios disponibles',
+  'slots.tutorTime': '{time} tutor',
+  'slots.dayFull': 'No hay nada libre este día. Elige otra fecha.',
+  'slots.noOpenings': {
+    one: 'No hay huecos libres en el próximo {count} día.',
+    other: 'No hay huecos libres en los próximos {count} días.',
+  },
+  'slots.viewerZone': 'Horas mostradas en tu zona horaria ({zone}, {abbreviation}).',
+  'slots.tutorZone': 'Tu tutor está en {zone}.',
+
+  'time.tutor': 'Hora del tutor',
+  'time.booker': 'Reservado desde',
+  'time.otherZone': '{label}: {time} {abbreviation} ({zone})',
+
+  'success.title': '¡Reserva creada con éxito!',
+  'success.magicLink': 'Enlace de la reserva:',
+  'success.addToCalendar': 'Añádela a tu calendario',
+  'success.viewBooking': 'Ver reserva',
+  'success.bookAnother': 'Reservar otra cita',
+
+  'calendar.description': 'ID de reserva: {bookingId}\nGestiona tu reserva: {link}',
+  'calendar.download': 'Descargar .ics',
+  'calendar.downloadUpdate': 'Descargar evento actualizado (.ics)',
+  'calendar.downloadCancellation': 'Descargar cancelación (.ics)',
+  'calendar.google': 'Añadir a Google',
+  'calendar.outlook': 'Añadir a Outlook',
+  'calendar.updateHint': 'Abre el archivo para actualizar el evento que ya está en tu calendario.',
+  'calendar.removeHint': 'Abre el archivo para eliminar el evento que ya está en tu calendario.',
+
+  'timeline.created': 'Reservada',
+  'timeline.confirmed': 'Confirmada',
+  'timeline.payment.pending': 'Pago pendiente',
+  'timeline.payment.processing': 'Pago en proceso',
+  'timeline.payment.completed': 'Pago recibido',
+  'timeline.payment.failed': 'Pago fallido',
+  'timeline.payment.refunded': 'Pago reembolsado',
+  'timeline.rescheduled': 'Fecha cambiada',
+  'timeline.movedFrom': 'Movida desde el {date}',
+  'timeline.cancelled': 'Cancelada',
+  'timeline.refundRequested': 'Reembolso solicitado',
+  'timeline.freeChangeDeadline': 'Fin de la cancelación gratuita',
+  'timeline.appointment': 'Cita',
+  'timeline.upcoming': 'Próximamente',
+
+  'lifecycle.refused.confirm': 'No se puede confirmar una reserva que está {status} (pago {paymentStatus})',
+  'lifecycle.refused.start_payment': 'No se puede pagar una reserva que está {status} (pago {paymentStatus})',
+  'lifecycle.refused.complete_payment':
+    'No se puede completar el pago de una reserva que está {status} (pago {paymentStatus})',
+  'lifecycle.refused.fail_payment':
+    'No se puede marcar como fallido el pago de una reserva que está {status} (pago {paymentStatus})',
+  'lifecycle.refused.record_payment':
+    'No se puede registrar un pago de una reserva que está {status} (pago {paymentStatus})',
+  'lifecycle.refused.cancel': 'No se puede cancelar una reserva que está {status} (pago {paymentStatus})',
+  'lifecycle.refused.reschedule': 'No se puede cambiar la hora de una reserva que está {status} (pago {paymentStatus})',
+  'lifecycle.refused.refund': 'No se puede reembolsar una reserva que está {status} (pago {paymentStatus})',
+
+  'reschedule.title': 'Elige una nueva hora',
+  'reschedule.unchanged': 'Esa es la hora actual de la reserva.',
+  'reschedule.submit': 'Mover reserva',
+  'reschedule.keep': 'Mantener la hora actual',
+
+  'cancel.title': 'Cancelar esta reserva',
+  'cancel.late': 'Esta cita empieza dentro del plazo de cancelación gratuita, así que cuenta como cancelación tardía.',
+  'cancel.lateRefund': 'En las cancelaciones tardías se reembolsa el {share} del importe pagado.',
+  'cancel.freeUntil': 'Cancelación gratuita hasta el {date}.',
+  'cancel.refund': 'Se solicitará automáticamente un reembolso de {amount}.',
+  'cancel.reason': 'Motivo',
+  'cancel.note': 'Nota',
+  'cancel.optional': '(opcional)',
+  'cancel.keep': 'Mantener reserva',
+  'cancel.error.reason': 'Elige un motivo para cancelar',
+  'cancel.error.noteRequired': 'Cuéntanos por qué cancelas',
+  'cancel.error.noteTooLong': 'La nota debe tener menos de {max} caracteres',
+
+  'data.intro':
+    'Descarga los datos, la actividad y el historial de cambios guardados de esta reserva, o pide que se eliminen.',
+  'data.download': 'Descargar mis datos',
+  'data.requestDeletion': 'Solicitar eliminación',
+  'data.confirmDeletion':
+    'La actividad registrada de este enlace se borra al momento. La reserva se elimina cuando se haya completado o cancelado y se haya liquidado cualquier pago. No se puede deshacer.',
+  'data.delete': 'Eliminar mis datos',
+  'data.keep': 'Conservarlos',
+  'data.deletionRequested':
+    'Eliminación solicitada el {date}. La actividad registrada se ha borrado y la reserva se eliminará cuando se haya liquidado.',
+
+  'analytics.opened': { one: 'Enlace abierto {count} vez.', other: 'Enlace abierto {count} veces.' },
+  'analytics.openedRecently': {
+    one: 'Enlace abierto {count} vez, la última el {date}.',
+    other: 'Enlace abierto {count} veces, la última el {date}.',
+  },
+  'analytics.notOpened': 'Aún no se ha abierto. Nadie ha visitado este enlace de reserva.',
+  'analytics.opensOnDay': { one: '{date}: {count} apertura', other: '{date}: {count} aperturas' },
+  'analytics.totalOpens': 'Aperturas totales',
+  'analytics.uniqueDevices': 'Dispositivos únicos',
+  'analytics.firstOpened': 'Primera apertura',
+  'analytics.opensChart': { one: 'Aperturas, último {count} día', other: 'Aperturas, últimos {count} días' },
+  'analytics.opensChartSummary': {
+    one: '{count} apertura en los últimos {days} días',
+    other: '{count} aperturas en los últimos {days} días',
+  },
+  'analytics.devices': 'Dispositivos',
+  'analytics.noDevices': 'Aún no hay dispositivos registrados.',
+  'analytics.referrers': 'Orígenes',
+  'analytics.noVisits': 'Aún no hay visitas registradas.',
+  'analytics.conversion': 'Conversión',
+  'analytics.stepDone': 'hecho',
+  'analytics.stepPending': 'aún no',
+  'analytics.funnel.opened': 'Enlace abierto',
+  'analytics.funnel.confirmed': 'Reserva confirmada',
+  'analytics.funnel.paid': 'Pagada',
+  'analytics.device': '{browser} en {system}',
+  'analytics.unknownDevice': 'Dispositivo desconocido',
+  'analytics.otherBrowser': 'Otro navegador',
+  'analytics.otherSystem': 'Otro sistema',
+  'analytics.directReferrer': 'Directo o aplicación de mensajería',
+
+  'payment.error.numberLength': 'El número de tarjeta debe tener entre {min} y {max} dígitos',
+  'payment.error.numberInvalid': 'El número de tarjeta no es válido',
+  'payment.error.expiryFormat': 'Usa el formato MM/AA',
+  'payment.error.expired': 'La tarjeta ha caducado o el mes no es válido',
+  'payment.error.cvv': { one: 'El CVV debe tener {count} dígito', other: 'El CVV debe tener {count} dígitos' },
+  'payment.error.nameRequired': 'El nombre del titular es obligatorio',
+  'payment.error.notReset': 'No se pudo iniciar el pago. Inténtalo de nuevo en un momento.',
+  'payment.error.notStarted': 'No se pudo iniciar el pago',
+  'payment.error.notRecorded':
+    'Tu pago se ha realizado, pero no pudimos actualizar tu reserva. Contacta con soporte indicando la referencia {reference}.',
+  'payment.error.notProcessed': 'No se pudo procesar el pago',
+  'payment.error.failureNotRecorded':
+    '{reason} Tu reserva aún no se ha podido actualizar; se hará cuando lo vuelvas a intentar.',
+  'payment.decline.card_declined': 'Tu tarjeta ha sido rechazada.',
+  'payment.decline.insufficient_funds': 'Tu tarjeta no tiene fondos suficientes.',
+  'payment.decline.expired_card': 'Tu tarjeta ha caducado.',
+  'payment.decline.incorrect_cvc': 'El código de seguridad de tu tarjeta es incorrecto.',
+  'payment.decline.processing_error': 'Se produjo un error al procesar tu tarjeta.',
+
+  'consent.banner.label': 'Consentimiento de cookies',
+  'consent.banner.text':
+    'Usamos el almacenamiento necesario para gestionar tus reservas. Con tu permiso, también registramos cómo se usan las páginas de reserva, lo que muestra si se abrió un enlace de reserva. No se registra nada opcional hasta que elijas.',
+  'consent.preferences': 'Preferencias',
+  'consent.acceptAll': 'Aceptar todo',
+  'consent.rejectAll': 'Rechazar todo',
+  'consent.save': 'Guardar preferencias',
+  'consent.preferences.title': 'Configuración de privacidad',
+  'consent.preferences.close': 'Cerrar la configuración de privacidad',
+  'consent.category.necessary': 'Necesario',
+  'consent.category.necessary.description':
+    'Mantiene tu sesión iniciada, guarda el formulario de reserva mientras escribes y recuerda las reservas hechas en este dispositivo. Siempre activo.',
+  'consent.category.analytics': 'Analítica',
+  'consent.category.analytics.description':
+    'Registra cómo se usan las páginas de reserva, como los pasos vistos, los pagos iniciados y los enlaces de reserva abiertos, junto con un identificador aleatorio de este navegador. Os permite a ti y a tu tutor ver si se abrió un enlace de reserva.',
+
+  'signIn.title': 'Inicia sesión con tu teléfono',
+  'signIn.description':
+    'Consulta y gestiona todas las reservas hechas con tu número de teléfono, desde cualquier dispositivo.',
+  'signIn.phoneHint': 'Usa el número con el que reservaste. Te enviaremos un código por SMS.',
+  'signIn.sendCode': 'Enviar código',
+  'signIn.sendCodeIn': 'Enviar código ({seconds} s)',
+  'signIn.codeSent': 'Hemos enviado un código de 6 dígitos al {phone}.',
+  'signIn.code': 'Código de acceso',
+  'signIn.codeInvalid': 'Escribe el código de 6 dígitos del mensaje',
+  'signIn.changeNumber': 'Usar otro número',
+  'signIn.resend': 'Reenviar código',
+  'signIn.resendIn': 'Reenviar código en {seconds} s',
+  'signIn.staffOnly.title': 'Solo para el personal',
+  'signIn.staffOnly.description':
+    'El {phone} no tiene acceso a esta página. Inicia sesión con un número del personal para continuar.',
+  'signIn.staffOnly.home': 'Ir a reservar',
+  'signIn.staffOnly.signOut': 'Cerrar sesión',
+
+  'magicLink.invalid.title': 'Enlace no válido',
+  'magicLink.invalid.description':
+    'Este enlace de reserva no es válido. Revisa el mensaje que recibiste e inténtalo de nuevo.',
+  'magicLink.failed': 'No se pudo abrir tu reserva',
+  'magicLink.opening': 'Abriendo tu reserva...',
+
+  'myBookings.upcoming': 'Próximas',
+  'myBookings.past': 'Pasadas',
+  'myBookings.noUpcoming': 'No tienes reservas próximas.',
+  'myBookings.noPast': 'No tienes reservas pasadas.',
+  'myBookings.viewDetails': 'Ver detalles',
+  'myBookings.forget': 'Quitar de este dispositivo',
+  'myBookings.bookAnother': 'Reservar otra cita',
+  'myBookings.book': 'Reservar una cita',
+  'myBookings.none.title': 'Aún no hay reservas en este dispositivo',
+  'myBookings.none.description':
+    'Las reservas que hagas aquí, o que abras desde un enlace de reserva, aparecerán en esta página. Inicia sesión para ver las reservas hechas en otros dispositivos.',
+  'myBookings.loadFailed': 'No se pudieron cargar tus reservas',
+  'myBookings.noMatches.title': 'Ninguna reserva coincide con estos filtros',
+  'myBookings.noMatches.description': 'Prueba con otro estado o quita los filtros para verlo todo.',
+  'myBookings.notFound.title': 'No se encontraron reservas',
+  'myBookings.notFound.signedIn': 'No se encontraron reservas para {phone} ni en este dispositivo.',
+  'myBookings.notFound.description': 'No se encontraron las reservas guardadas en este dispositivo.',
+  'myBookings.clearFilters': 'Quitar filtros',
+  'myBookings.all': 'Todas',
+  'myBookings.sort': 'Ordenar por fecha',
+  'myBookings.sort.asc': 'Más próximas primero',
+  'myBookings.sort.desc': 'Más lejanas primero',
+};
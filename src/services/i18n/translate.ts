@@ -0,0 +1,40 @@
+import { DEFAULT_LOCALE, Locale } from '../../types/i18n';
+import { en, MessageKey } from './messages/en';
+import { es } from './messages/es';
+
+// A message is plain text, or one text per plural category of its `count`
+// (see Intl.PluralRules). Placeholders are written as {name}.
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export type Catalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Catalog> = { en, es };
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+const pluralCategory = (locale: Locale, count: number): Intl.LDMLPluralRule => {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return rules.select(count);
+};
+
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  // A key missing from a stale catalog falls back to English
+  const message: Message = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key];
+  const text =
+    typeof message === 'string'
+      ? message
+      : message[pluralCategory(locale, Number(params.count ?? 0))] ?? message.other;
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+  });
+};
@@ -0,0 +1,161 @@
+import { Booking } from '../types/booking';
+import { DEFAULT_LOCALE, Locale } from '../types/i18n';
+import { MagicLinkAnalytics, MagicLinkEvent } from './api';
+import { translate } from './i18n/translate';
+import { addDaysToKey, toDateKey } from './timeZone';
+
+// Turns the raw event log of a magic link into the figures shown on the
+// analytics dashboard. Opens are `page_view` events; links opened before
+// events were recorded only have `accessCount` to go on.
+
+export const OPEN_EVENT = 'page_view';
+
+// Days covered by the opens chart, ending today
+export const OPENS_CHART_DAYS = 14;
+
+export interface CountByLabel {
+  label: string;
+  count: number;
+}
+
+export interface DailyCount {
+  // YYYY-MM-DD in the viewer's time zone
+  date: string;
+  count: number;
+}
+
+export type FunnelStepKey = 'opened' | 'confirmed' | 'paid';
+
+export interface FunnelStep {
+  key: FunnelStepKey;
+  label: string;
+  reached: boolean;
+  at?: string;
+}
+
+export interface LinkAnalyticsSummary {
+  opened: boolean;
+  totalOpens: number;
+  firstOpenedAt?: string;
+  lastOpenedAt?: string;
+  opensByDay: DailyCount[];
+  uniqueDevices: number;
+  devices: CountByLabel[];
+  referrers: CountByLabel[];
+  funnel: FunnelStep[];
+}
+
+// Product names are left as they are; only the fallbacks are translated
+const describeBrowser = (userAgent: string, locale: Locale): string => {
+  if (/Edg\//.test(userAgent)) return 'Edge';
+  if (/OPR\/|Opera/.test(userAgent)) return 'Opera';
+  if (/Firefox\//.test(userAgent)) return 'Firefox';
+  if (/Chrome\//.test(userAgent)) return 'Chrome';
+  if (/Safari\//.test(userAgent)) return 'Safari';
+  return translate(locale, 'analytics.otherBrowser');
+};
+
+const describeSystem = (userAgent: string, locale: Locale): string => {
+  if (/iPhone|iPad|iPod/.test(userAgent)) return 'iOS';
+  if (/Android/.test(userAgent)) return 'Android';
+  if (/Windows/.test(userAgent)) return 'Windows';
+  if (/Mac OS X|Macintosh/.test(userAgent)) return 'macOS';
+  if (/Linux/.test(userAgent)) return 'Linux';
+  return translate(locale, 'analytics.otherSystem');
+};
+
+export const describeDevice = (userAgent?: string, locale: Locale = DEFAULT_LOCALE): string =>
+  userAgent
+    ? translate(locale, 'analytics.device', {
+        browser: describeBrowser(userAgent, locale),
+        system: describeSystem(userAgent, locale),
+      })
+    : translate(locale, 'analytics.unknownDevice');
+
+export const describeReferrer = (referrer?: string, locale: Locale = DEFAULT_LOCALE): string => {
+  if (!referrer) return translate(locale, 'analytics.directReferrer');
+  try {
+    return new URL(referrer).hostname.replace(/^www\./, '');
+  } catch {
+    return referrer;
+  }
+};
+
+// Largest first, ties by label
+const countBy = (values: string[]): CountByLabel[] => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+// Older events without a device id are told apart by their user agent
+const deviceKey = (event: MagicLinkEvent): string =>
+  event.metadata.deviceId ?? `ua:${event.userAgent ?? 'unknown'}`;
+
+// Labels are in `locale`
+export const summarizeLinkAnalytics = (
+  analytics: MagicLinkAnalytics,
+  booking: Pick<Booking, 'confirmedAt' | 'paymentStatus' | 'paymentUpdatedAt'>,
+  timeZone: string,
+  locale: Locale = DEFAULT_LOCALE,
+  now: Date = new Date()
+): LinkAnalyticsSummary => {
+  const opens = analytics.events
+    .filter(event => event.event === OPEN_EVENT)
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+
+  const today = toDateKey(now, timeZone);
+  const firstDay = addDaysToKey(today, -(OPENS_CHART_DAYS - 1));
+  const perDay = new Map<string, number>();
+  opens.forEach(event => {
+    const day = toDateKey(new Date(event.createdAt), timeZone);
+    perDay.set(day, (perDay.get(day) ?? 0) + 1);
+  });
+  const opensByDay: DailyCount[] = [];
+  for (let day = firstDay; day <= today; day = addDaysToKey(day, 1)) {
+    opensByDay.push({ date: day, count: perDay.get(day) ?? 0 });
+  }
+
+  // One device entry per distinct device, labelled by its latest user agent
+  const latestByDevice = new Map<string, MagicLinkEvent>();
+  opens.forEach(event => latestByDevice.set(deviceKey(event), event));
+
+  const totalOpens = Math.max(opens.length, analytics.accessCount);
+  const firstOpenedAt = opens[0]?.createdAt ?? analytics.lastAccessedAt;
+  const lastOpenedAt = analytics.lastAccessedAt ?? opens[opens.length - 1]?.createdAt;
+  const paid = booking.paymentStatus === 'completed' || booking.paymentStatus === 'refunded';
+
+  return {
+    opened: totalOpens > 0,
+    totalOpens,
+    firstOpenedAt,
+    lastOpenedAt,
+    opensByDay,
+    uniqueDevices: latestByDevice.size,
+    devices: countBy([...latestByDevice.values()].map(event => describeDevice(event.userAgent, locale))),
+    referrers: countBy(opens.map(event => describeReferrer(event.metadata.referrer, locale))),
+    funnel: [
+      {
+        key: 'opened',
+        label: translate(locale, 'analytics.funnel.opened'),
+        reached: totalOpens > 0,
+        at: firstOpenedAt,
+      },
+      {
+        key: 'confirmed',
+        label: translate(locale, 'analytics.funnel.confirmed'),
+        reached: Boolean(booking.confirmedAt),
+        at: booking.confirmedAt,
+      },
+      // After a refund, paymentUpdatedAt is the refund's time
+      {
+        key: 'paid',
+        label: translate(locale, 'analytics.funnel.paid'),
+        reached: paid,
+        at: booking.paymentStatus === 'completed' ? booking.paymentUpdatedAt : undefined,
+      },
+    ],
+  };
+};
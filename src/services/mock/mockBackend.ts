@@ -0,0 +1,1384 @@
+import {
+  AuditAction,
+  AuditChange,
+  Availability,
+  BookingDetails,
+  BulkBookingAction,
+  BulkBookingResult,
+  BusinessHours,
+  PaymentUpdateRequest,
+  Transport,
+} from '../api';
+import {
+  APPOINTMENT_TYPES,
+  BOOKING_STATUSES,
+  CANCELLATION_REASONS,
+  PAYMENT_STATUSES,
+  AppointmentType,
+  BookingDetailFields,
+  BookingFormData,
+  BookingQuote,
+  BookingStatus,
+  CancellationReason,
+  PaymentStatus,
+} from '../../types/booking';
+import { getConfig, getMagicLinkUrl } from '../../config/environment';
+import {
+  loadMockState,
+  updateMockState,
+  resetMockState,
+  MockState,
+  StoredAnalyticsEvent,
+  StoredSession,
+} from './mockStore';
+import {
+  DEFAULT_CURRENCY,
+  DEFAULT_DURATION_MINUTES,
+  getBookingPrice,
+  isCurrency,
+  normalizePromoCode,
+  quoteAppointment,
+} from '../pricing';
+import {
+  FREE_CHANGE_WINDOW_HOURS,
+  MAX_CANCELLATION_NOTE_LENGTH,
+  REASONS_REQUIRING_NOTE,
+  getCancellationTerms,
+} from '../cancellationPolicy';
+import { isSlotAvailable } from '../availability';
+import {
+  BookingAction,
+  canTransition,
+  describeRefusedAction,
+  formatRefusedAction,
+  paymentActionFor,
+} from '../bookingLifecycle';
+import { parsePhoneNumber, validateBooking } from '../bookingValidation';
+import { addDaysToKey, isValidTimeZone, toDateKey, zonedTimeToUtc } from '../timeZone';
+
+// In-browser implementation of the booking backend. It is wired in as the
+// ApiService transport when VITE_API_MODE=mock and answers with the same
+// response envelopes as the live API, so nothing above the transport changes.
+
+export type MockRouteName =
+  | 'createBooking'
+  | 'confirmBooking'
+  | 'cancelBooking'
+  | 'rescheduleBooking'
+  | 'updatePaymentStatus'
+  | 'getBookingDetails'
+  | 'listBookings'
+  | 'searchBookings'
+  | 'bulkUpdateBookings'
+  | 'getBookingAuditLog'
+  | 'exportBookingData'
+  | 'requestDataDeletion'
+  | 'previewMagicLink'
+  | 'trackMagicLinkEvent'
+  | 'getMagicLinkAnalytics'
+  | 'trackEvents'
+  | 'getAvailability'
+  | 'requestOtp'
+  | 'verifyOtp'
+  | 'refreshSession'
+  | 'signOut'
+  | 'healthCheck';
+
+export interface MockFailure {
+  status?: number;
+  error?: string;
+}
+
+interface MockResult {
+  status: number;
+  body: unknown;
+}
+
+// Request metadata beyond the body. `session` is set when the request carried
+// a valid access token.
+interface MockRequestContext {
+  headers: Headers;
+  session: StoredSession | null;
+}
+
+interface MockRoute {
+  name: MockRouteName;
+  method: string;
+  pattern: RegExp;
+  handle: (
+    params: string[],
+    body: unknown,
+    query: URLSearchParams,
+    context: MockRequestContext
+  ) => MockResult;
+}
+
+// Runtime overrides on top of the VITE_MOCK_* settings
+const runtime: {
+  latencyMs?: number;
+  failureRate?: number;
+  queuedFailures: Partial<Record<MockRouteName, MockFailure[]>>;
+} = { queuedFailures: {} };
+
+const randomId = (length: number): string => {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let id = '';
+  for (let i = 0; i < length; i += 1) {
+    id += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return id;
+};
+
+const randomUuid = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+        const r = Math.floor(Math.random() * 16);
+        return (char === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+      });
+
+const ok = (body: Record<string, unknown>, status = 200): MockResult => ({
+  status,
+  body: { success: true, ...body },
+});
+
+const fail = (status: number, error: string, extra: Record<string, unknown> = {}): MockResult => ({
+  status,
+  body: { success: false, error, ...extra },
+});
+
+// The lifecycle doesn't allow `action` from the booking's current state. The
+// action and state come back too, so the UI can say why in its own language.
+const refuseAction = (booking: BookingDetails, action: BookingAction): MockResult =>
+  fail(409, formatRefusedAction('en', describeRefusedAction(booking, action)), {
+    code: 'ACTION_REFUSED',
+    action,
+    status: booking.status,
+    paymentStatus: booking.paymentStatus,
+  });
+
+const findBooking = (bookings: BookingDetails[], key: string): BookingDetails | undefined =>
+  bookings.find(booking => booking.id === key || booking.bookingId === key);
+
+// Magic links stop working a week after the appointment has passed
+const LINK_TTL_AFTER_APPOINTMENT_MS = 7 * 24 * 60 * 60 * 1000;
+
+const isLinkExpired = (booking: BookingDetails): boolean =>
+  Date.now() - Date.parse(booking.appointmentDate) > LINK_TTL_AFTER_APPOINTMENT_MS;
+
+const expired = (): MockResult =>
+  fail(410, 'This booking link has expired', { code: 'LINK_EXPIRED' });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The mock tutor works from New York, so viewers elsewhere see shifted times
+const TUTOR_TIME_ZONE = 'America/New_York';
+
+const BUSINESS_HOURS: BusinessHours[] = [
+  { weekday: 1, open: '09:00', close: '17:00' },
+  { weekday: 2, open: '09:00', close: '17:00' },
+  { weekday: 3, open: '09:00', close: '17:00' },
+  { weekday: 4, open: '09:00', close: '17:00' },
+  { weekday: 5, open: '09:00', close: '17:00' },
+  { weekday: 6, open: '10:00', close: '14:00' },
+];
+
+// Closed on these MM-DD dates every year
+const HOLIDAYS = ['01-01', '07-04', '12-24', '12-25', '12-31'];
+
+const LEAD_TIME_MINUTES = 120;
+
+// Longest range one availability request may cover
+const MAX_AVAILABILITY_DAYS = 62;
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Most bookings one list request may ask for
+const MAX_LIST_IDS = 100;
+
+const bookingDuration = (booking: Pick<BookingDetails, 'bookingDetails'>): number =>
+  booking.bookingDetails.duration ?? DEFAULT_DURATION_MINUTES;
+
+// How long a create request can be retried with the same Idempotency-Key
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const bookingCreated = (booking: BookingDetails): MockResult =>
+  ok(
+    {
+      data: {
+        bookingId: booking.bookingId,
+        uuid: booking.id,
+        // Lands on this app's /appt/:magicLinkId route in mock mode
+        magicLink: getMagicLinkUrl(booking.magicLinkId),
+        status: booking.status,
+        message: 'Booking created successfully. Confirmation link sent to user.',
+      },
+    },
+    201
+  );
+
+// The quote a booking is submitted with is only what the customer saw: the
+// backend prices the booking again from the catalog and refuses a total that
+// differs, e.g. from a stale form or an edited request
+const priceBooking = (
+  appointmentType: AppointmentType,
+  bookingDetails: BookingDetailFields,
+  claimed: unknown
+): { quote: BookingQuote } | { error: MockResult } => {
+  if (claimed !== undefined && (!isRecord(claimed) || typeof claimed.total !== 'number')) {
+    return { error: fail(400, 'bookingDetails.quote must have a numeric total') };
+  }
+  const currency = claimed?.currency ?? DEFAULT_CURRENCY;
+  if (!isCurrency(currency)) {
+    return { error: fail(422, `Prices are not available in ${String(currency)}`) };
+  }
+  const promoCode = typeof claimed?.promoCode === 'string' ? claimed.promoCode : undefined;
+  const quote = quoteAppointment({
+    appointmentType,
+    durationMinutes: bookingDetails.duration,
+    level: bookingDetails.level,
+    promoCode,
+    currency,
+  });
+  if (promoCode && quote.discount?.code !== normalizePromoCode(promoCode)) {
+    return { error: fail(409, `Promo code ${normalizePromoCode(promoCode)} can no longer be used`, { code: 'PRICE_CHANGED' }) };
+  }
+  if (claimed && claimed.total !== quote.total) {
+    return {
+      error: fail(409, 'The price of this booking has changed; please review it and submit again', {
+        code: 'PRICE_CHANGED',
+        quote: { total: quote.total, currency: quote.currency },
+      }),
+    };
+  }
+  return { quote: { total: quote.total, currency: quote.currency, promoCode: quote.discount?.code } };
+};
+
+const bookingExists = (booking: BookingDetails, error: string): MockResult =>
+  fail(409, error, { code: 'BOOKING_EXISTS', uuid: booking.id, bookingId: booking.bookingId });
+
+// Sign-in codes: valid for 5 minutes, resendable after 30 seconds, and locked
+// after 5 wrong guesses
+const OTP_TTL_MS = 5 * 60 * 1000;
+const OTP_RESEND_SECONDS = 30;
+const OTP_MAX_ATTEMPTS = 5;
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const createSession = (phone: string): StoredSession => {
+  const now = Date.now();
+  return {
+    accessToken: `mock_at_${randomId(32)}`,
+    refreshToken: `mock_rt_${randomId(40)}`,
+    phone,
+    role: getConfig().mock.staffPhones.includes(phone) ? 'staff' : 'customer',
+    expiresAt: new Date(now + ACCESS_TOKEN_TTL_MS).toISOString(),
+    refreshExpiresAt: new Date(now + REFRESH_TOKEN_TTL_MS).toISOString(),
+  };
+};
+
+const sessionBody = ({ accessToken, refreshToken, phone, role, expiresAt }: StoredSession) => ({
+  data: { accessToken, refreshToken, phone, role, expiresAt },
+});
+
+// With VITE_REQUIRE_SIGN_IN a booking is only visible to the phone number that
+// made it, and to staff. Returns the failure to send, or null when access is
+// allowed.
+const checkBookingAccess = (booking: BookingDetails, session: StoredSession | null): MockResult | null => {
+  if (!getConfig().requireSignIn) return null;
+  if (!session) return fail(401, 'Sign in to view this booking', { code: 'SIGN_IN_REQUIRED' });
+  if (session.role !== 'staff' && session.phone !== booking.userPhone) {
+    return fail(403, 'This booking was made with a different phone number');
+  }
+  return null;
+};
+
+const buildAvailability = (from: string, to: string, bookings: BookingDetails[]): Availability => {
+  const rangeStart = zonedTimeToUtc(from, '00:00', TUTOR_TIME_ZONE).getTime();
+  const rangeEnd = zonedTimeToUtc(addDaysToKey(to, 1), '00:00', TUTOR_TIME_ZONE).getTime();
+
+  const blackoutDates: string[] = [];
+  for (let day = from; day <= to; day = addDaysToKey(day, 1)) {
+    if (HOLIDAYS.includes(day.slice(5))) blackoutDates.push(day);
+  }
+
+  const booked = bookings
+    .filter(booking => booking.status !== 'cancelled')
+    .map(booking => {
+      const start = Date.parse(booking.appointmentDate);
+      return { start, end: start + bookingDuration(booking) * 60000 };
+    })
+    .filter(interval => interval.start < rangeEnd && rangeStart < interval.end)
+    .map(interval => ({
+      start: new Date(interval.start).toISOString(),
+      end: new Date(interval.end).toISOString(),
+    }));
+
+  return {
+    timeZone: TUTOR_TIME_ZONE,
+    businessHours: BUSINESS_HOURS,
+    blackoutDates,
+    booked,
+    leadTimeMinutes: LEAD_TIME_MINUTES,
+  };
+};
+
+const requireStaff = (session: StoredSession | null): MockResult | null => {
+  if (!session) return fail(401, 'Sign in with a staff account', { code: 'SIGN_IN_REQUIRED' });
+  if (session.role !== 'staff') return fail(403, 'Only staff can do this');
+  return null;
+};
+
+// Most bookings one bulk request or admin page may cover
+const MAX_BULK_BOOKINGS = 100;
+
+const recordAudit = (
+  state: MockState,
+  booking: BookingDetails,
+  action: AuditAction,
+  session: StoredSession | null,
+  changes: AuditChange[] = [],
+  note?: string
+): void => {
+  const staff = session?.role === 'staff';
+  state.auditLog.push({
+    id: randomUuid(),
+    bookingUuid: booking.id,
+    action,
+    actorRole: staff ? 'staff' : 'customer',
+    actorPhone: staff ? session.phone : undefined,
+    at: new Date().toISOString(),
+    changes,
+    note,
+  });
+};
+
+// Only fields whose value actually changed
+const diff = (fields: [string, unknown, unknown][]): AuditChange[] =>
+  fields
+    .filter(([, from, to]) => from !== to)
+    .map(([field, from, to]) => ({
+      field,
+      from: from === undefined ? undefined : String(from),
+      to: to === undefined ? undefined : String(to),
+    }));
+
+// Cancels `booking` and, when it has been paid, requests the refund the policy
+// allows. Staff cancellations are never charged, so they refund in full.
+const applyCancellation = (
+  state: MockState,
+  booking: BookingDetails,
+  session: StoredSession | null,
+  reason?: CancellationReason,
+  note?: string
+): void => {
+  const from = booking.status;
+  const now = new Date().toISOString();
+  const { refund } = getCancellationTerms(booking);
+
+  booking.status = 'cancelled';
+  booking.cancelledAt = now;
+  booking.cancellationReason = reason;
+  booking.cancellationNote = note;
+  if (refund) {
+    const amount = session?.role === 'staff' ? getBookingPrice(booking).amount : refund.amount;
+    if (amount > 0) {
+      booking.refundRequestedAt = now;
+      booking.refundAmount = amount;
+      booking.paymentCurrency = booking.paymentCurrency ?? refund.currency;
+    }
+  }
+
+  recordAudit(
+    state,
+    booking,
+    'cancelled',
+    session,
+    diff([
+      ['status', from, 'cancelled'],
+      ['cancellationReason', undefined, reason],
+      ['refundAmount', undefined, booking.refundAmount],
+    ]),
+    note
+  );
+};
+
+// Route handlers
+
+const createBooking = (
+  _params: string[],
+  body: unknown,
+  _query: URLSearchParams,
+  { headers, session }: MockRequestContext
+): MockResult => {
+  if (!isRecord(body)) return fail(400, 'Request body must be a JSON object');
+
+  // A retry of a request that already went through gets the same booking back
+  const idempotencyKey = headers.get('Idempotency-Key');
+  const fingerprint = JSON.stringify(body);
+  if (idempotencyKey) {
+    const state = loadMockState();
+    const record = state.idempotencyKeys.find(candidate => candidate.key === idempotencyKey);
+    const booking = record && findBooking(state.bookings, record.bookingUuid);
+    if (record && booking) {
+      return record.fingerprint === fingerprint
+        ? bookingCreated(booking)
+        : bookingExists(booking, 'This booking has already been submitted');
+    }
+  }
+
+  const data = body as Partial<BookingFormData>;
+  const missing = (['userName', 'userPhone', 'appointmentType', 'appointmentDate'] as const).filter(
+    field => typeof data[field] !== 'string' || !String(data[field]).trim()
+  );
+  if (missing.length > 0) {
+    return fail(400, `Missing required fields: ${missing.join(', ')}`, {
+      details: missing.map(field => ({ field, message: `${field} is required` })),
+    });
+  }
+  if (!APPOINTMENT_TYPES.includes(data.appointmentType as AppointmentType)) {
+    return fail(400, `Invalid appointmentType: ${data.appointmentType}`, {
+      details: [{ field: 'appointmentType', message: 'Unknown appointment type' }],
+    });
+  }
+  if (Number.isNaN(Date.parse(data.appointmentDate!))) {
+    return fail(400, 'appointmentDate must be an ISO date string', {
+      details: [{ field: 'appointmentDate', message: 'Must be a valid date' }],
+    });
+  }
+
+  const bookingDetails = isRecord(data.bookingDetails) ? data.bookingDetails : {};
+
+  // The backend applies the same schema as the form
+  const validation = validateBooking({ ...(data as BookingFormData), bookingDetails });
+  if (!validation.valid) {
+    return fail(422, 'Some fields are invalid', {
+      details: Object.entries(validation.errors).map(([field, message]) => ({ field, message })),
+    });
+  }
+
+  const { value } = validation;
+  const priced = priceBooking(value.appointmentType, value.bookingDetails, bookingDetails.quote);
+  if ('error' in priced) return priced.error;
+
+  const durationMinutes = bookingDuration(value);
+  const start = new Date(value.appointmentDate).toISOString();
+
+  const booking: BookingDetails = {
+    id: randomUuid(),
+    bookingId: `booking_${Date.now()}_${randomId(9).toLowerCase()}`,
+    magicLinkId: randomId(10),
+    userName: value.userName,
+    userPhone: value.userPhone,
+    appointmentType: value.appointmentType,
+    appointmentDate: start,
+    bookerTimeZone: isValidTimeZone(value.bookerTimeZone) ? value.bookerTimeZone : undefined,
+    tutorTimeZone: TUTOR_TIME_ZONE,
+    bookingDetails: { ...value.bookingDetails, quote: priced.quote },
+    status: 'pending_confirmation',
+    paymentStatus: 'pending',
+    createdAt: new Date().toISOString(),
+    accessCount: 0,
+  };
+
+  return updateMockState(state => {
+    const day = toDateKey(new Date(start), TUTOR_TIME_ZONE);
+    const availability = buildAvailability(day, day, state.bookings);
+    if (!isSlotAvailable({ ...availability, booked: [] }, start, durationMinutes)) {
+      return fail(400, 'appointmentDate is outside the available hours', {
+        details: [{ field: 'appointmentDate', message: 'Please choose one of the available times' }],
+      });
+    }
+    // The same person booking the same time again, e.g. from another device
+    const duplicate = state.bookings.find(
+      candidate =>
+        candidate.userPhone === booking.userPhone &&
+        candidate.appointmentDate === start &&
+        candidate.status !== 'cancelled'
+    );
+    if (duplicate) {
+      return bookingExists(duplicate, 'You have already booked this appointment');
+    }
+    if (!isSlotAvailable(availability, start, durationMinutes)) {
+      return fail(409, 'That time slot has just been booked', { code: 'SLOT_UNAVAILABLE' });
+    }
+
+    state.bookings.push(booking);
+    recordAudit(state, booking, 'created', session);
+    if (idempotencyKey) {
+      const now = Date.now();
+      state.idempotencyKeys = state.idempotencyKeys.filter(
+        record => now - Date.parse(record.createdAt) < IDEMPOTENCY_KEY_TTL_MS
+      );
+      state.idempotencyKeys.push({
+        key: idempotencyKey,
+        fingerprint,
+        bookingUuid: booking.id,
+        createdAt: new Date(now).toISOString(),
+      });
+    }
+    return bookingCreated(booking);
+  });
+};
+
+const confirmBooking = (
+  [uuid]: string[],
+  _body: unknown,
+  _query: URLSearchParams,
+  { session }: MockRequestContext
+): MockResult =>
+  updateMockState(state => {
+    const denied = requireStaff(session);
+    if (denied) return denied;
+    const booking = findBooking(state.bookings, uuid);
+    if (!booking) return fail(404, 'Booking not found');
+    if (!canTransition(booking, 'confirm', 'staff')) {
+      return refuseAction(booking, 'confirm');
+    }
+
+    booking.status = 'confirmed';
+    booking.confirmedAt = new Date().toISOString();
+    recordAudit(state, booking, 'confirmed', session, diff([['status', 'pending_confirmation', 'confirmed']]));
+    return ok({
+      message: 'Booking confirmed successfully',
+      data: { bookingId: booking.bookingId, status: booking.status, confirmedAt: booking.confirmedAt },
+    });
+  });
+
+const cancelBooking = (
+  [uuid]: string[],
+  body: unknown,
+  _query: URLSearchParams,
+  { session }: MockRequestContext
+): MockResult => {
+  if (!isRecord(body)) return fail(400, 'Request body must be a JSON object');
+
+  const reason = body.reason as CancellationReason;
+  if (!CANCELLATION_REASONS.includes(reason)) {
+    return fail(400, `Invalid reason: ${body.reason}`, {
+      details: [{ field: 'reason', message: 'Choose a reason for cancelling' }],
+    });
+  }
+  const note = typeof body.note === 'string' ? body.note.trim() : '';
+  if (note.length > MAX_CANCELLATION_NOTE_LENGTH) {
+    return fail(422, 'Some fields are invalid', {
+      details: [{ field: 'note', message: `Keep the note under ${MAX_CANCELLATION_NOTE_LENGTH} characters` }],
+    });
+  }
+  if (REASONS_REQUIRING_NOTE.includes(reason) && !note) {
+    return fail(422, 'Some fields are invalid', {
+      details: [{ field: 'note', message: 'Please tell us why you are cancelling' }],
+    });
+  }
+
+  return updateMockState(state => {
+    const booking = findBooking(state.bookings, uuid);
+    if (!booking) return fail(404, 'Booking not found');
+    const denied = checkBookingAccess(booking, session);
+    if (denied) return denied;
+    if (!canTransition(booking, 'cancel', session?.role)) {
+      return refuseAction(booking, 'cancel');
+    }
+    if (!getCancellationTerms(booking).changeable) {
+      return fail(409, 'This appointment has already started');
+    }
+
+    applyCancellation(state, booking, session, reason, note || undefined);
+    return ok({ message: 'Booking cancelled successfully', data: booking });
+  });
+};
+
+// Moves a booking to another free slot of the same length. Customers can only
+// do this outside the cancellation window; staff can at any time.
+const rescheduleBooking = (
+  [uuid]: string[],
+  body: unknown,
+  _query: URLSearchParams,
+  { session }: MockRequestContext
+): MockResult => {
+  if (!isRecord(body) || typeof body.appointmentDate !== 'string' || Number.isNaN(Date.parse(body.appointmentDate))) {
+    return fail(400, 'appointmentDate must be an ISO date string', {
+      details: [{ field: 'appointmentDate', message: 'Must be a valid date' }],
+    });
+  }
+  const start = new Date(body.appointmentDate).toISOString();
+
+  return updateMockState(state => {
+    const booking = findBooking(state.bookings, uuid);
+    if (!booking) return fail(404, 'Booking not found');
+    const denied = checkBookingAccess(booking, session);
+    if (denied) return denied;
+    if (!canTransition(booking, 'reschedule', session?.role)) {
+      return refuseAction(booking, 'reschedule');
+    }
+    const terms = getCancellationTerms(booking);
+    if (!terms.changeable) return fail(409, 'This appointment has already started');
+    if (!terms.canReschedule && session?.role !== 'staff') {
+      return fail(409, `Bookings can't be moved within ${FREE_CHANGE_WINDOW_HOURS} hours of the start`, {
+        code: 'CHANGE_WINDOW_CLOSED',
+      });
+    }
+    if (start === booking.appointmentDate) {
+      return fail(400, 'The booking is already at this time', {
+        details: [{ field: 'appointmentDate', message: 'Please choose a different time' }],
+      });
+    }
+
+    // The booking's own slot doesn't block a move that overlaps it
+    const durationMinutes = bookingDuration(booking);
+    const day = toDateKey(new Date(start), TUTOR_TIME_ZONE);
+    const availability = buildAvailability(
+      day,
+      day,
+      state.bookings.filter(candidate => candidate.id !== booking.id)
+    );
+    if (!isSlotAvailable({ ...availability, booked: [] }, start, durationMinutes)) {
+      return fail(400, 'appointmentDate is outside the available hours', {
+        details: [{ field: 'appointmentDate', message: 'Please choose one of the available times' }],
+      });
+    }
+    if (!isSlotAvailable(availability, start, durationMinutes)) {
+      return fail(409, 'That time slot has just been booked', { code: 'SLOT_UNAVAILABLE' });
+    }
+
+    const from = booking.appointmentDate;
+    booking.previousAppointmentDate = from;
+    booking.appointmentDate = start;
+    booking.rescheduledAt = new Date().toISOString();
+    recordAudit(state, booking, 'rescheduled', session, diff([['appointmentDate', from, start]]));
+    return ok({ message: 'Booking rescheduled successfully', data: booking });
+  });
+};
+
+const updatePaymentStatus = (
+  [uuid]: string[],
+  body: unknown,
+  _query: URLSearchParams,
+  { session }: MockRequestContext
+): MockResult => {
+  if (!isRecord(body)) return fail(400, 'Request body must be a JSON object');
+
+  const payment = body as Partial<PaymentUpdateRequest>;
+  if (!payment.paymentStatus || !PAYMENT_STATUSES.includes(payment.paymentStatus)) {
+    return fail(400, `Invalid paymentStatus: ${payment.paymentStatus}`);
+  }
+  // Checkout records its own payments; refunds and notes come from staff
+  if (payment.paymentStatus === 'refunded' || payment.note !== undefined) {
+    const denied = requireStaff(session);
+    if (denied) return denied;
+  }
+
+  return updateMockState(state => {
+    const booking = findBooking(state.bookings, uuid);
+    if (!booking) return fail(404, 'Booking not found');
+    const denied = checkBookingAccess(booking, session);
+    if (denied) return denied;
+
+    // Sending the current status again is a retry of an update that went through
+    if (payment.paymentStatus !== booking.paymentStatus) {
+      const action = paymentActionFor(booking.paymentStatus, payment.paymentStatus!);
+      if (!action) return fail(409, `Payment cannot go back to "${payment.paymentStatus}"`);
+      if (!canTransition(booking, action, session?.role)) {
+        const staffOnly = canTransition(booking, action, 'staff') ? requireStaff(session) : null;
+        return staffOnly ?? refuseAction(booking, action);
+      }
+    }
+
+    // Customers pay the booking's price, in its currency; only staff record
+    // other amounts, e.g. a partial bank transfer
+    if (session?.role !== 'staff' && payment.paymentStatus !== 'failed') {
+      const price = getBookingPrice(booking);
+      if (payment.amount === undefined || payment.currency === undefined) {
+        return fail(400, 'amount and currency are required');
+      }
+      if (payment.amount !== price.amount || payment.currency.toUpperCase() !== price.currency) {
+        return fail(409, 'The payment does not match the price of this booking', {
+          code: 'AMOUNT_MISMATCH',
+          price,
+        });
+      }
+    }
+
+    const before = { ...booking };
+    booking.paymentStatus = payment.paymentStatus!;
+    booking.paymentUpdatedAt = new Date().toISOString();
+    if (payment.paymentId !== undefined) booking.paymentId = payment.paymentId;
+    if (payment.paymentStatus !== 'failed' || session?.role === 'staff') {
+      if (payment.amount !== undefined) booking.paymentAmount = payment.amount;
+      if (payment.currency !== undefined) booking.paymentCurrency = payment.currency.toUpperCase();
+    }
+    recordAudit(
+      state,
+      booking,
+      'payment_updated',
+      session,
+      diff([
+        ['paymentStatus', before.paymentStatus, booking.paymentStatus],
+        ['paymentId', before.paymentId, booking.paymentId],
+        ['paymentAmount', before.paymentAmount, booking.paymentAmount],
+        ['paymentCurrency', before.paymentCurrency, booking.paymentCurrency],
+      ]),
+      typeof payment.note === 'string' && payment.note.trim() ? payment.note.trim() : undefined
+    );
+
+    return ok({
+      message: 'Payment status updated successfully',
+      data: {
+        bookingId: booking.bookingId,
+        paymentStatus: booking.paymentStatus,
+        paymentUpdatedAt: booking.paymentUpdatedAt,
+      },
+    });
+  });
+};
+
+const getBookingDetails = (
+  [uuid]: string[],
+  _body: unknown,
+  _query: URLSearchParams,
+  { session }: MockRequestContext
+): MockResult => {
+  const booking = findBooking(loadMockState().bookings, uuid);
+  if (!booking) return fail(404, 'Booking not found');
+  const denied = checkBookingAccess(booking, session);
+  if (denied) return denied;
+  if (isLinkExpired(booking)) return expired();
+  return ok({ data: booking });
+};
+
+// Returns the requested ids plus, when signed in, every booking made with the
+// session's phone number
+const listBookings = (
+  _params: string[],
+  _body: unknown,
+  query: URLSearchParams,
+  { session }: MockRequestContext
+): MockResult => {
+  const { requireSignIn } = getConfig();
+  if (requireSignIn && !session) {
+    return fail(401, 'Sign in to see your bookings', { code: 'SIGN_IN_REQUIRED' });
+  }
+
+  const ids = (query.get('ids') ?? '').split(',').filter(Boolean);
+  if (ids.length > MAX_LIST_IDS) {
+    return fail(400, `At most ${MAX_LIST_IDS} bookings can be listed at once`);
+  }
+
+  const status = query.get('status');
+  if (status && !BOOKING_STATUSES.includes(status as BookingStatus)) {
+    return fail(400, `Invalid status: ${status}`);
+  }
+  const paymentStatus = query.get('paymentStatus');
+  if (paymentStatus && !PAYMENT_STATUSES.includes(paymentStatus as PaymentStatus)) {
+    return fail(400, `Invalid paymentStatus: ${paymentStatus}`);
+  }
+  const sort = query.get('sort') ?? 'asc';
+  if (sort !== 'asc' && sort !== 'desc') {
+    return fail(400, 'sort must be asc or desc');
+  }
+
+  const direction = sort === 'asc' ? 1 : -1;
+  const bookings = loadMockState()
+    .bookings.filter(
+      booking =>
+        booking.userPhone === session?.phone ||
+        (!requireSignIn && (ids.includes(booking.id) || ids.includes(booking.bookingId)))
+    )
+    .filter(booking => !status || booking.status === status)
+    .filter(booking => !paymentStatus || booking.paymentStatus === paymentStatus)
+    .sort((a, b) => direction * (Date.parse(a.appointmentDate) - Date.parse(b.appointmentDate)));
+
+  return ok({ data: bookings });
+};
+
+// Staff search over every booking. `q` matches the booking id, uuid, name or
+// phone number (ignoring formatting).
+const searchBookings = (
+  _params: string[],
+  _body: unknown,
+  query: URLSearchParams,
+  { session }: MockRequestContext
+): MockResult => {
+  const denied = requireStaff(session);
+  if (denied) return denied;
+
+  const page = Number(query.get('page') ?? '1');
+  const pageSize = Number(query.get('pageSize') ?? '20');
+  if (!Number.isInteger(page) || page < 1) return fail(400, 'page must be a positive integer');
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_BULK_BOOKINGS) {
+    return fail(400, `pageSize must be between 1 and ${MAX_BULK_BOOKINGS}`);
+  }
+  const status = query.get('status');
+  if (status && !BOOKING_STATUSES.includes(status as BookingStatus)) {
+    return fail(400, `Invalid status: ${status}`);
+  }
+  const paymentStatus = query.get('paymentStatus');
+  if (paymentStatus && !PAYMENT_STATUSES.includes(paymentStatus as PaymentStatus)) {
+    return fail(400, `Invalid paymentStatus: ${paymentStatus}`);
+  }
+  const sort = query.get('sort') ?? 'asc';
+  if (sort !== 'asc' && sort !== 'desc') {
+    return fail(400, 'sort must be asc or desc');
+  }
+
+  const search = (query.get('q') ?? '').trim().toLowerCase();
+  const searchDigits = search.replace(/\D/g, '');
+  const matches = (booking: BookingDetails) =>
+    !search ||
+    booking.id.toLowerCase().includes(search) ||
+    booking.bookingId.toLowerCase().includes(search) ||
+    booking.userName.toLowerCase().includes(search) ||
+    (searchDigits.length >= 3 && booking.userPhone.replace(/\D/g, '').includes(searchDigits));
+
+  const direction = sort === 'asc' ? 1 : -1;
+  const filtered = loadMockState()
+    .bookings.filter(matches)
+    .filter(booking => !status || booking.status === status)
+    .filter(booking => !paymentStatus || booking.paymentStatus === paymentStatus)
+    .sort((a, b) => direction * (Date.parse(a.appointmentDate) - Date.parse(b.appointmentDate)));
+
+  return ok({
+    data: {
+      items: filtered.slice((page - 1) * pageSize, page * pageSize),
+      total: filtered.length,
+      page,
+      pageSize,
+    },
+  });
+};
+
+const applyBulkAction = (
+  state: MockState,
+  booking: BookingDetails,
+  action: BulkBookingAction,
+  session: StoredSession
+): string | null => {
+  const from = booking.status;
+  if (action === 'confirm') {
+    if (!canTransition(booking, 'confirm', 'staff')) {
+      return formatRefusedAction('en', describeRefusedAction(booking, 'confirm'));
+    }
+    booking.status = 'confirmed';
+    booking.confirmedAt = new Date().toISOString();
+    recordAudit(state, booking, 'confirmed', session, diff([['status', from, 'confirmed']]));
+    return null;
+  }
+
+  if (!canTransition(booking, 'cancel', 'staff')) {
+    return formatRefusedAction('en', describeRefusedAction(booking, 'cancel'));
+  }
+  applyCancellation(state, booking, session);
+  return null;
+};
+
+const bulkUpdateBookings = (
+  _params: string[],
+  body: unknown,
+  _query: URLSearchParams,
+  { session }: MockRequestContext
+): MockResult => {
+  const denied = requireStaff(session);
+  if (denied) return denied;
+  if (!isRecord(body) || !Array.isArray(body.uuids) || !body.uuids.every(uuid => typeof uuid === 'string')) {
+    return fail(400, 'uuids must be an array of booking ids');
+  }
+  if (body.action !== 'confirm' && body.action !== 'cancel') {
+    return fail(400, 'action must be confirm or cancel');
+  }
+  if (body.uuids.length === 0 || body.uuids.length > MAX_BULK_BOOKINGS) {
+    return fail(400, `Between 1 and ${MAX_BULK_BOOKINGS} bookings can be updated at once`);
+  }
+  const uuids = body.uuids as string[];
+  const action = body.action;
+
+  return updateMockState(state => {
+    const results: BulkBookingResult[] = uuids.map(uuid => {
+      const booking = findBooking(state.bookings, uuid);
+      if (!booking) return { uuid, success: false, error: 'Booking not found' };
+      const error = applyBulkAction(state, booking, action, session!);
+      return error ? { uuid, success: false, error } : { uuid, success: true };
+    });
+    return ok({ data: results });
+  });
+};
+
+const getBookingAuditLog = (
+  [uuid]: string[],
+  _body: unknown,
+  _query: URLSearchParams,
+  { session }: MockRequestContext
+): MockResult => {
+  const denied = requireStaff(session);
+  if (denied) return denied;
+  const state = loadMockState();
+  const booking = findBooking(state.bookings, uuid);
+  if (!booking) return fail(404, 'Booking not found');
+
+  return ok({ data: state.auditLog.filter(entry => entry.bookingUuid === booking.id) });
+};
+
+const belongsTo = (booking: BookingDetails) => (event: StoredAnalyticsEvent) =>
+  event.bookingUuid === booking.id || event.magicLinkId === booking.magicLinkId;
+
+const exportBookingData = (
+  [uuid]: string[],
+  _body: unknown,
+  _query: URLSearchParams,
+  { session }: MockRequestContext
+): MockResult => {
+  const state = loadMockState();
+  const booking = findBooking(state.bookings, uuid);
+  if (!booking) return fail(404, 'Booking not found');
+  const denied = checkBookingAccess(booking, session);
+  if (denied) return denied;
+
+  return ok({
+    data: {
+      exportedAt: new Date().toISOString(),
+      booking,
+      events: state.events
+        .filter(belongsTo(booking))
+        .map(({ event, userAgent, metadata, createdAt }) => ({ event, userAgent, metadata, createdAt })),
+      // Staff appear by role only; their phone numbers aren't the customer's data
+      auditLog: state.auditLog
+        .filter(entry => entry.bookingUuid === booking.id)
+        .map(({ id, action, actorRole, at, changes, note }) => ({ id, action, actorRole, at, changes, note })),
+    },
+  });
+};
+
+// Tracked events go straight away. The booking is kept so the appointment
+// and any refund can still be handled; staff erase it once it is settled.
+const requestDataDeletion = (
+  [uuid]: string[],
+  _body: unknown,
+  _query: URLSearchParams,
+  { session }: MockRequestContext
+): MockResult =>
+  updateMockState(state => {
+    const booking = findBooking(state.bookings, uuid);
+    if (!booking) return fail(404, 'Booking not found');
+    const denied = checkBookingAccess(booking, session);
+    if (denied) return denied;
+
+    if (!booking.dataDeletionRequestedAt) {
+      const isBookingEvent = belongsTo(booking);
+      state.events = state.events.filter(event => !isBookingEvent(event));
+      booking.dataDeletionRequestedAt = new Date().toISOString();
+      recordAudit(state, booking, 'data_deletion_requested', session);
+    }
+    return ok({ data: booking });
+  });
+
+// The link itself is the credential without VITE_REQUIRE_SIGN_IN. With it,
+// anyone may follow the link, but only the redirect comes back until the
+// caller could also load the booking; the details page asks them to sign in.
+const previewMagicLink = (
+  [magicLinkId]: string[],
+  _body: unknown,
+  _query: URLSearchParams,
+  { session }: MockRequestContext
+): MockResult =>
+  updateMockState(state => {
+    const booking = state.bookings.find(candidate => candidate.magicLinkId === magicLinkId);
+    if (!booking) return fail(404, 'Magic link not found');
+    if (isLinkExpired(booking)) return expired();
+
+    booking.accessCount += 1;
+    booking.lastAccessedAt = new Date().toISOString();
+
+    const { frontendBaseUrl } = getConfig();
+    if (checkBookingAccess(booking, session)) {
+      return ok({
+        data: {
+          bookingId: booking.bookingId,
+          redirectUrl: `${frontendBaseUrl}/booking/${booking.id}?source=magic_link`,
+        },
+      });
+    }
+    return ok({
+      data: {
+        bookingId: booking.bookingId,
+        redirectUrl: `${frontendBaseUrl}/booking/${booking.id}?status=${booking.status}&payment_status=${booking.paymentStatus}&source=magic_link`,
+        status: booking.status,
+        bookingDetails: booking,
+      },
+    });
+  });
+
+const trackMagicLinkEvent = ([magicLinkId]: string[], body: unknown): MockResult => {
+  if (!isRecord(body) || typeof body.event !== 'string' || !body.event) {
+    return fail(400, 'event is required');
+  }
+
+  return updateMockState(state => {
+    if (!state.bookings.some(booking => booking.magicLinkId === magicLinkId)) {
+      return fail(404, 'Magic link not found');
+    }
+
+    const event: StoredAnalyticsEvent = {
+      id: randomUuid(),
+      magicLinkId,
+      event: body.event as string,
+      userAgent: typeof body.userAgent === 'string' ? body.userAgent : undefined,
+      metadata: isRecord(body.metadata) ? body.metadata : {},
+      createdAt: new Date().toISOString(),
+    };
+    state.events.push(event);
+    return ok({ message: 'Event tracked successfully' });
+  });
+};
+
+// Most events a single batch may carry
+const MAX_TRACKING_BATCH = 50;
+
+// Batches from the tracking queue. Events are stored under the time they
+// happened, so ones sent late from the offline queue land on the right day,
+// and an id that was already stored is skipped rather than counted twice.
+const trackEvents = (_params: string[], body: unknown): MockResult => {
+  if (!isRecord(body) || !Array.isArray(body.events)) return fail(400, 'events must be an array');
+  if (body.events.length > MAX_TRACKING_BATCH) {
+    return fail(413, `A batch can hold at most ${MAX_TRACKING_BATCH} events`);
+  }
+  const events: unknown[] = body.events;
+
+  return updateMockState(state => {
+    const knownIds = new Set(state.events.map(event => event.id));
+    let accepted = 0;
+    let rejected = 0;
+
+    for (const event of events) {
+      if (
+        !isRecord(event) ||
+        typeof event.id !== 'string' ||
+        typeof event.name !== 'string' ||
+        typeof event.occurredAt !== 'string' ||
+        Number.isNaN(Date.parse(event.occurredAt))
+      ) {
+        rejected += 1;
+        continue;
+      }
+      accepted += 1;
+      if (knownIds.has(event.id)) continue;
+      knownIds.add(event.id);
+
+      const bookingUuid = typeof event.bookingUuid === 'string' ? event.bookingUuid : undefined;
+      const magicLinkId =
+        typeof event.magicLinkId === 'string'
+          ? event.magicLinkId
+          : state.bookings.find(booking => booking.id === bookingUuid)?.magicLinkId;
+
+      state.events.push({
+        id: event.id,
+        magicLinkId,
+        bookingUuid,
+        event: event.name,
+        userAgent: typeof event.userAgent === 'string' ? event.userAgent : undefined,
+        metadata: {
+          ...(isRecord(event.properties) ? event.properties : {}),
+          deviceId: typeof event.deviceId === 'string' ? event.deviceId : undefined,
+        },
+        createdAt: new Date(event.occurredAt).toISOString(),
+      });
+    }
+
+    return ok({ data: { accepted, rejected } });
+  });
+};
+
+const getMagicLinkAnalytics = (
+  [magicLinkId]: string[],
+  _body: unknown,
+  _query: URLSearchParams,
+  { session }: MockRequestContext
+): MockResult => {
+  const state = loadMockState();
+  const booking = state.bookings.find(candidate => candidate.magicLinkId === magicLinkId);
+  if (!booking) return fail(404, 'Magic link not found');
+  const denied = checkBookingAccess(booking, session);
+  if (denied) return denied;
+
+  return ok({
+    data: {
+      magicLinkId,
+      bookingId: booking.bookingId,
+      accessCount: booking.accessCount,
+      lastAccessedAt: booking.lastAccessedAt,
+      events: state.events.filter(event => event.magicLinkId === magicLinkId),
+    },
+  });
+};
+
+const getAvailability = (_params: string[], _body: unknown, query: URLSearchParams): MockResult => {
+  const from = query.get('from') ?? '';
+  const to = query.get('to') ?? '';
+  if (!DATE_KEY.test(from) || !DATE_KEY.test(to)) {
+    return fail(400, 'from and to must be YYYY-MM-DD dates');
+  }
+  if (to < from || addDaysToKey(from, MAX_AVAILABILITY_DAYS) < to) {
+    return fail(400, `The range must cover between 1 and ${MAX_AVAILABILITY_DAYS} days`);
+  }
+
+  return ok({ data: buildAvailability(from, to, loadMockState().bookings) });
+};
+
+const requestOtp = (_params: string[], body: unknown): MockResult => {
+  if (!isRecord(body) || typeof body.phone !== 'string') return fail(400, 'phone is required');
+  const phone = parsePhoneNumber(body.phone);
+  if (!phone.ok) {
+    return fail(422, phone.message, { details: [{ field: 'phone', message: phone.message }] });
+  }
+
+  return updateMockState(state => {
+    const now = Date.now();
+    const previous = state.otpChallenges.find(challenge => challenge.phone === phone.e164);
+    if (previous) {
+      const waitSeconds = Math.ceil(
+        (Date.parse(previous.sentAt) + OTP_RESEND_SECONDS * 1000 - now) / 1000
+      );
+      if (waitSeconds > 0) {
+        return fail(429, `Please wait ${waitSeconds}s before requesting another code`, {
+          retryAfterSeconds: waitSeconds,
+        });
+      }
+    }
+
+    const code = String(Math.floor(Math.random() * 1_000_000)).padStart(6, '0');
+    const expiresAt = new Date(now + OTP_TTL_MS).toISOString();
+    state.otpChallenges = state.otpChallenges.filter(
+      challenge => challenge.phone !== phone.e164 && Date.parse(challenge.expiresAt) > now
+    );
+    state.otpChallenges.push({
+      phone: phone.e164,
+      code,
+      sentAt: new Date(now).toISOString(),
+      expiresAt,
+      attempts: 0,
+    });
+    // Stands in for the text message
+    console.info(`[mock] Sign-in code for ${phone.e164}: ${code}`);
+
+    return ok({ data: { phone: phone.e164, expiresAt, resendAfterSeconds: OTP_RESEND_SECONDS } }, 201);
+  });
+};
+
+const verifyOtp = (_params: string[], body: unknown): MockResult => {
+  if (!isRecord(body) || typeof body.phone !== 'string' || typeof body.code !== 'string') {
+    return fail(400, 'phone and code are required');
+  }
+  const { phone, code } = body;
+
+  return updateMockState(state => {
+    const challenge = state.otpChallenges.find(candidate => candidate.phone === phone);
+    if (!challenge || Date.parse(challenge.expiresAt) <= Date.now()) {
+      return fail(410, 'This code has expired. Request a new one.', { code: 'OTP_EXPIRED' });
+    }
+    if (challenge.attempts >= OTP_MAX_ATTEMPTS) {
+      return fail(429, 'Too many incorrect codes. Request a new one.');
+    }
+    if (challenge.code !== code) {
+      challenge.attempts += 1;
+      return fail(422, 'That code is incorrect', {
+        details: [{ field: 'code', message: 'That code is incorrect' }],
+      });
+    }
+
+    const now = Date.now();
+    const session = createSession(phone);
+    state.otpChallenges = state.otpChallenges.filter(candidate => candidate !== challenge);
+    state.sessions = state.sessions.filter(candidate => Date.parse(candidate.refreshExpiresAt) > now);
+    state.sessions.push(session);
+    return ok(sessionBody(session));
+  });
+};
+
+// Rotates both tokens; the old refresh token stops working
+const refreshSession = (_params: string[], body: unknown): MockResult => {
+  const refreshToken = isRecord(body) ? body.refreshToken : undefined;
+
+  return updateMockState(state => {
+    const index = state.sessions.findIndex(
+      candidate =>
+        candidate.refreshToken === refreshToken && Date.parse(candidate.refreshExpiresAt) > Date.now()
+    );
+    if (index === -1) {
+      return fail(401, 'Your session has ended. Please sign in again.', {
+        code: 'INVALID_REFRESH_TOKEN',
+      });
+    }
+
+    const session = createSession(state.sessions[index].phone);
+    state.sessions[index] = session;
+    return ok(sessionBody(session));
+  });
+};
+
+const signOut = (_params: string[], body: unknown): MockResult => {
+  const refreshToken = isRecord(body) ? body.refreshToken : undefined;
+  return updateMockState(state => {
+    state.sessions = state.sessions.filter(session => session.refreshToken !== refreshToken);
+    return ok({ message: 'Signed out' });
+  });
+};
+
+const healthCheck = (): MockResult =>
+  ok({ message: 'OK', mode: 'mock', timestamp: new Date().toISOString() });
+
+const ROUTES: MockRoute[] = [
+  { name: 'healthCheck', method: 'GET', pattern: /^\/health$/, handle: healthCheck },
+  { name: 'createBooking', method: 'POST', pattern: /^\/api\/booking\/create$/, handle: createBooking },
+  { name: 'confirmBooking', method: 'POST', pattern: /^\/api\/booking\/confirm\/([^/]+)$/, handle: confirmBooking },
+  { name: 'cancelBooking', method: 'POST', pattern: /^\/api\/booking\/cancel\/([^/]+)$/, handle: cancelBooking },
+  { name: 'rescheduleBooking', method: 'POST', pattern: /^\/api\/booking\/reschedule\/([^/]+)$/, handle: rescheduleBooking },
+  { name: 'updatePaymentStatus', method: 'PUT', pattern: /^\/api\/booking\/payment\/([^/]+)$/, handle: updatePaymentStatus },
+  { name: 'listBookings', method: 'GET', pattern: /^\/api\/bookings$/, handle: listBookings },
+  { name: 'searchBookings', method: 'GET', pattern: /^\/api\/admin\/bookings$/, handle: searchBookings },
+  { name: 'bulkUpdateBookings', method: 'POST', pattern: /^\/api\/admin\/bookings\/bulk$/, handle: bulkUpdateBookings },
+  { name: 'getBookingAuditLog', method: 'GET', pattern: /^\/api\/admin\/bookings\/([^/]+)\/audit$/, handle: getBookingAuditLog },
+  { name: 'exportBookingData', method: 'GET', pattern: /^\/api\/booking\/([^/]+)\/data-export$/, handle: exportBookingData },
+  { name: 'requestDataDeletion', method: 'POST', pattern: /^\/api\/booking\/([^/]+)\/data-deletion$/, handle: requestDataDeletion },
+  { name: 'getBookingDetails', method: 'GET', pattern: /^\/api\/booking\/([^/]+)$/, handle: getBookingDetails },
+  { name: 'previewMagicLink', method: 'GET', pattern: /^\/appt\/([^/]+)\/preview$/, handle: previewMagicLink },
+  { name: 'trackMagicLinkEvent', method: 'POST', pattern: /^\/appt\/([^/]+)\/track$/, handle: trackMagicLinkEvent },
+  { name: 'getMagicLinkAnalytics', method: 'GET', pattern: /^\/appt\/([^/]+)\/analytics$/, handle: getMagicLinkAnalytics },
+  { name: 'trackEvents', method: 'POST', pattern: /^\/api\/events$/, handle: trackEvents },
+  { name: 'getAvailability', method: 'GET', pattern: /^\/api\/availability$/, handle: getAvailability },
+  { name: 'requestOtp', method: 'POST', pattern: /^\/api\/auth\/otp\/request$/, handle: requestOtp },
+  { name: 'verifyOtp', method: 'POST', pattern: /^\/api\/auth\/otp\/verify$/, handle: verifyOtp },
+  { name: 'refreshSession', method: 'POST', pattern: /^\/api\/auth\/refresh$/, handle: refreshSession },
+  { name: 'signOut', method: 'POST', pattern: /^\/api\/auth\/logout$/, handle: signOut },
+];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Jitter the configured latency by +/-50% so loading states are visible
+// without every request taking exactly the same time
+const simulateLatency = () => {
+  const base = runtime.latencyMs ?? getConfig().mock.latencyMs;
+  return sleep(base * (0.5 + Math.random()));
+};
+
+const takeInjectedFailure = (route: MockRouteName): MockResult | null => {
+  const queued = runtime.queuedFailures[route];
+  if (queued && queued.length > 0) {
+    const failure = queued.shift()!;
+    return fail(failure.status ?? 500, failure.error ?? `Mock backend: injected failure for ${route}`);
+  }
+
+  const failureRate = runtime.failureRate ?? getConfig().mock.failureRate;
+  if (failureRate > 0 && Math.random() < failureRate) {
+    return fail(503, 'Mock backend: simulated outage');
+  }
+  return null;
+};
+
+const toResponse = ({ status, body }: MockResult): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// A missing token is fine (routes decide whether they need one); a bad or
+// expired one is rejected before the route runs
+const resolveSession = (headers: Headers): StoredSession | MockResult | null => {
+  const authorization = headers.get('Authorization');
+  if (!authorization) return null;
+
+  const token = authorization.replace(/^Bearer\s+/i, '');
+  const session = loadMockState().sessions.find(candidate => candidate.accessToken === token);
+  if (!session) return fail(401, 'Your session is no longer valid', { code: 'INVALID_TOKEN' });
+  if (Date.parse(session.expiresAt) <= Date.now()) {
+    return fail(401, 'Your session has expired', { code: 'TOKEN_EXPIRED' });
+  }
+  return session;
+};
+
+const readBody = (init: RequestInit): unknown => {
+  if (typeof init.body !== 'string' || init.body === '') return undefined;
+  try {
+    return JSON.parse(init.body);
+  } catch {
+    return null;
+  }
+};
+
+export const mockTransport: Transport = async (url, init) => {
+  const { pathname, searchParams } = new URL(url, window.location.origin);
+  const method = (init.method ?? 'GET').toUpperCase();
+
+  await simulateLatency();
+
+  if (init.signal?.aborted) {
+    throw new DOMException('The operation was aborted.', 'AbortError');
+  }
+
+  for (const route of ROUTES) {
+    const match = pathname.match(route.pattern);
+    if (!match || route.method !== method) continue;
+
+    const injected = takeInjectedFailure(route.name);
+    if (injected) return toResponse(injected);
+
+    const body = readBody(init);
+    if (body === null) return toResponse(fail(400, 'Request body is not valid JSON'));
+
+    const headers = new Headers(init.headers);
+    const session = resolveSession(headers);
+    if (session && 'status' in session) return toResponse(session);
+
+    return toResponse(
+      route.handle(match.slice(1).map(decodeURIComponent), body, searchParams, { headers, session })
+    );
+  }
+
+  return toResponse(fail(404, `No mock route for ${method} ${pathname}`));
+};
+
+// Console-friendly controls, exposed as window.__tbookMock in mock mode
+export const mockControls = {
+  failNext(route: MockRouteName, failure: MockFailure = {}) {
+    (runtime.queuedFailures[route] ??= []).push(failure);
+  },
+  setLatency(latencyMs: number) {
+    runtime.latencyMs = latencyMs;
+  },
+  setFailureRate(failureRate: number) {
+    runtime.failureRate = failureRate;
+  },
+  reset() {
+    runtime.latencyMs = undefined;
+    runtime.failureRate = undefined;
+    runtime.queuedFailures = {};
+  },
+  clearData() {
+    resetMockState();
+  },
+  dump() {
+    return loadMockState();
+  },
+  // The code a sign-in text would have carried, e.g. lastOtp('+15551234567')
+  lastOtp(phone?: string) {
+    const challenges = loadMockState().otpChallenges.filter(
+      challenge => !phone || challenge.phone === phone
+    );
+    return challenges[challenges.length - 1]?.code ?? null;
+  },
+  // Makes every access token stale so the next request has to refresh
+  expireSessions() {
+    updateMockState(state => {
+      state.sessions.forEach(session => {
+        session.expiresAt = new Date(Date.now() - 1000).toISOString();
+      });
+    });
+  },
+};
+
+declare global {
+  interface Window {
+    __tbookMock?: typeof mockControls;
+  }
+}
+
+window.__tbookMock = mockControls;
@@ -0,0 +1,100 @@
+import { BookingDetails, AnalyticsEvent, BookingAuditEntry } from '../api';
+import { SessionRole } from '../../types/session';
+
+// Persistent state for the mock backend. Everything lives under a single
+// localStorage key so that a reload (or a second tab) sees the same data.
+
+const STORAGE_KEY = 'tbook.mock.v1';
+
+export interface StoredAnalyticsEvent extends AnalyticsEvent {
+  id: string;
+  // Not set for events from before a booking exists, e.g. the booking form
+  magicLinkId?: string;
+  bookingUuid?: string;
+  createdAt: string;
+}
+
+// Remembers which booking an Idempotency-Key created, so a retried request
+// gets the original booking back instead of a second one
+export interface StoredIdempotencyKey {
+  key: string;
+  // The request body the key was first used with
+  fingerprint: string;
+  bookingUuid: string;
+  createdAt: string;
+}
+
+// One outstanding sign-in code per phone number
+export interface StoredOtpChallenge {
+  phone: string;
+  code: string;
+  sentAt: string;
+  expiresAt: string;
+  attempts: number;
+}
+
+export interface StoredSession {
+  accessToken: string;
+  refreshToken: string;
+  phone: string;
+  role: SessionRole;
+  expiresAt: string;
+  refreshExpiresAt: string;
+}
+
+export interface StoredAuditEntry extends BookingAuditEntry {
+  bookingUuid: string;
+}
+
+export interface MockState {
+  bookings: BookingDetails[];
+  events: StoredAnalyticsEvent[];
+  idempotencyKeys: StoredIdempotencyKey[];
+  otpChallenges: StoredOtpChallenge[];
+  sessions: StoredSession[];
+  auditLog: StoredAuditEntry[];
+}
+
+const emptyState = (): MockState => ({
+  bookings: [],
+  events: [],
+  idempotencyKeys: [],
+  otpChallenges: [],
+  sessions: [],
+  auditLog: [],
+});
+
+export const loadMockState = (): MockState => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return emptyState();
+    const parsed = JSON.parse(raw) as Partial<MockState>;
+    return {
+      bookings: Array.isArray(parsed.bookings) ? parsed.bookings : [],
+      events: Array.isArray(parsed.events) ? parsed.events : [],
+      idempotencyKeys: Array.isArray(parsed.idempotencyKeys) ? parsed.idempotencyKeys : [],
+      otpChallenges: Array.isArray(parsed.otpChallenges) ? parsed.otpChallenges : [],
+      sessions: Array.isArray(parsed.sessions) ? parsed.sessions : [],
+      auditLog: Array.isArray(parsed.auditLog) ? parsed.auditLog : [],
+    };
+  } catch (error) {
+    console.error('Mock backend state is unreadable, starting fresh:', error);
+    return emptyState();
+  }
+};
+
+export const saveMockState = (state: MockState): void => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
+
+// Loads the state, applies a mutation and writes it back in one step
+export const updateMockState = <T>(mutate: (state: MockState) => T): T => {
+  const state = loadMockState();
+  const result = mutate(state);
+  saveMockState(state);
+  return result;
+};
+
+export const resetMockState = (): void => {
+  window.localStorage.removeItem(STORAGE_KEY);
+};
@@ -0,0 +1,83 @@
+import { DEFAULT_LOCALE, Locale } from '../../types/i18n';
+import { translate } from '../i18n/translate';
+import { CardDetails, CardErrors } from './types';
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'unknown';
+
+// Card numbers run from 13 digits (old Visa) to 19 (some Visa, Discover and Maestro)
+export const MIN_CARD_DIGITS = 13;
+export const MAX_CARD_DIGITS = 19;
+
+export const normalizeCardNumber = (value: string) => value.replace(/\D/g, '');
+
+export const detectCardBrand = (number: string): CardBrand => {
+  const digits = normalizeCardNumber(number);
+  if (/^4/.test(digits)) return 'visa';
+  if (/^(5[1-5]|2[2-7])/.test(digits)) return 'mastercard';
+  if (/^3[47]/.test(digits)) return 'amex';
+  if (/^6(011|5)/.test(digits)) return 'discover';
+  return 'unknown';
+};
+
+export const passesLuhn = (number: string): boolean => {
+  const digits = normalizeCardNumber(number);
+  if (digits.length === 0) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i += 1) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Cards are valid through the last day of the printed month
+export const isExpiryValid = (expiry: string, now: Date = new Date()): boolean => {
+  const match = /^(\d{2})\/(\d{2})$/.exec(expiry);
+  if (!match) return false;
+
+  const month = Number(match[1]);
+  const year = 2000 + Number(match[2]);
+  if (month < 1 || month > 12) return false;
+
+  const firstOfNextMonth = new Date(year, month, 1);
+  return firstOfNextMonth > now;
+};
+
+// Messages are in `locale`
+export const validateCard = (
+  card: CardDetails,
+  locale: Locale = DEFAULT_LOCALE,
+  now: Date = new Date()
+): CardErrors => {
+  const errors: CardErrors = {};
+  const digits = normalizeCardNumber(card.number);
+  const brand = detectCardBrand(digits);
+
+  if (digits.length < MIN_CARD_DIGITS || digits.length > MAX_CARD_DIGITS) {
+    errors.number = translate(locale, 'payment.error.numberLength', { min: MIN_CARD_DIGITS, max: MAX_CARD_DIGITS });
+  } else if (!passesLuhn(digits)) {
+    errors.number = translate(locale, 'payment.error.numberInvalid');
+  }
+
+  if (!/^\d{2}\/\d{2}$/.test(card.expiry)) {
+    errors.expiry = translate(locale, 'payment.error.expiryFormat');
+  } else if (!isExpiryValid(card.expiry, now)) {
+    errors.expiry = translate(locale, 'payment.error.expired');
+  }
+
+  const cvvLength = brand === 'amex' ? 4 : 3;
+  if (!new RegExp(`^\\d{${cvvLength}}$`).test(card.cvv)) {
+    errors.cvv = translate(locale, 'payment.error.cvv', { count: cvvLength });
+  }
+
+  if (!card.name.trim()) {
+    errors.name = translate(locale, 'payment.error.nameRequired');
+  }
+
+  return errors;
+};
@@ -0,0 +1,32 @@
+import { PaymentProvider } from './types';
+import { testPaymentProvider } from './testProvider';
+
+export * from './types';
+export {
+  validateCard,
+  detectCardBrand,
+  passesLuhn,
+  isExpiryValid,
+  MAX_CARD_DIGITS,
+  MIN_CARD_DIGITS,
+} from './cardValidation';
+export { TEST_CARD_NUMBERS } from './testProvider';
+export { getMinorUnitDigits, roundToMinorUnit, toMinorUnits } from './minorUnits';
+
+// Providers are looked up by id so a real processor can be registered
+// alongside (or instead of) the local test provider
+const providers = new Map<string, PaymentProvider>([[testPaymentProvider.id, testPaymentProvider]]);
+let activeProviderId = testPaymentProvider.id;
+
+export const registerPaymentProvider = (provider: PaymentProvider, options: { activate?: boolean } = {}) => {
+  providers.set(provider.id, provider);
+  if (options.activate) activeProviderId = provider.id;
+};
+
+export const getPaymentProvider = (): PaymentProvider => {
+  const provider = providers.get(activeProviderId);
+  if (!provider) {
+    throw new Error(`Payment provider "${activeProviderId}" is not registered`);
+  }
+  return provider;
+};
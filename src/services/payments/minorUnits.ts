@@ -0,0 +1,20 @@
+// Processors count money in the currency's minor unit. Most currencies have
+// two decimal places, but JPY has none and KWD three; Intl knows which.
+
+export const getMinorUnitDigits = (currency: string): number => {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    // Not an ISO 4217 code; the provider rejects it when the intent is made
+    return 2;
+  }
+};
+
+// To the currency's smallest unit, e.g. cents or whole yen
+export const roundToMinorUnit = (amount: number, currency: string): number => {
+  const factor = 10 ** getMinorUnitDigits(currency);
+  return Math.round(amount * factor) / factor;
+};
+
+export const toMinorUnits = (amount: number, currency: string): number =>
+  Math.round(amount * 10 ** getMinorUnitDigits(currency));
@@ -0,0 +1,49 @@
+import { DeclineCode, PaymentProvider, PaymentResult } from './types';
+import { normalizeCardNumber } from './cardValidation';
+
+// Local stand-in for a Stripe-style processor. It never leaves the browser
+// and recognises the usual test card numbers; any other valid card succeeds.
+
+const TEST_DECLINES: Record<string, { code: DeclineCode; message: string }> = {
+  '4000000000000002': { code: 'card_declined', message: 'Your card was declined.' },
+  '4000000000009995': { code: 'insufficient_funds', message: 'Your card has insufficient funds.' },
+  '4000000000000069': { code: 'expired_card', message: 'Your card has expired.' },
+  '4000000000000127': { code: 'incorrect_cvc', message: "Your card's security code is incorrect." },
+  '4000000000000119': { code: 'processing_error', message: 'An error occurred while processing your card.' },
+};
+
+const PROCESSING_DELAY_MS = 1200;
+
+const randomSuffix = () => Math.random().toString(36).slice(2, 14);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const testPaymentProvider: PaymentProvider = {
+  id: 'test',
+  name: 'Test payments',
+
+  async createPaymentIntent(amountMinor, currency) {
+    if (!Number.isInteger(amountMinor) || amountMinor <= 0) {
+      throw new Error(`Invalid payment amount: ${amountMinor}`);
+    }
+    return { id: `pi_test_${randomSuffix()}`, amountMinor, currency: currency.toUpperCase() };
+  },
+
+  async confirmCardPayment(intent, card): Promise<PaymentResult> {
+    await sleep(PROCESSING_DELAY_MS);
+
+    const decline = TEST_DECLINES[normalizeCardNumber(card.number)];
+    // Named after the intent so a recorded paymentId leads back to it
+    const chargeId = intent.id.replace(/^pi_/, 'ch_');
+    if (decline) {
+      return { status: 'declined', ...decline, paymentId: chargeId };
+    }
+
+    return { status: 'succeeded', paymentId: chargeId };
+  },
+};
+
+export const TEST_CARD_NUMBERS = {
+  success: '4242424242424242',
+  ...Object.fromEntries(Object.entries(TEST_DECLINES).map(([number, { code }]) => [code, number])),
+} as Record<'success' | DeclineCode, string>;
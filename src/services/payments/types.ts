@@ -0,0 +1,42 @@
+// Contract every payment provider implements. Amounts are passed in minor
+// units (cents, or whole yen) as most processors expect; see toMinorUnits.
+
+export interface CardDetails {
+  number: string;
+  expiry: string; // MM/YY
+  cvv: string;
+  name: string;
+}
+
+export type CardField = keyof CardDetails;
+
+export type CardErrors = Partial<Record<CardField, string>>;
+
+export interface PaymentIntent {
+  id: string;
+  amountMinor: number;
+  currency: string;
+}
+
+export type DeclineCode =
+  | 'card_declined'
+  | 'insufficient_funds'
+  | 'expired_card'
+  | 'incorrect_cvc'
+  | 'processing_error';
+
+export type PaymentResult =
+  | { status: 'succeeded'; paymentId: string }
+  | { status: 'declined'; code: DeclineCode; message: string; paymentId?: string }
+  | { status: 'error'; message: string };
+
+export interface PaymentProvider {
+  id: string;
+  name: string;
+  createPaymentIntent(
+    amountMinor: number,
+    currency: string,
+    metadata: Record<string, string>
+  ): Promise<PaymentIntent>;
+  confirmCardPayment(intent: PaymentIntent, card: CardDetails): Promise<PaymentResult>;
+}
@@ -0,0 +1,243 @@
+import { AppointmentType, Booking } from '../types/booking';
+import { DEFAULT_LOCALE, Locale } from '../types/i18n';
+import type { MessageKey } from './i18n/messages/en';
+import { formatNumber } from './i18n/format';
+import { translate } from './i18n/translate';
+import { roundToMinorUnit } from './payments/minorUnits';
+
+// Pricing catalog. A quote is built from the appointment type's hourly rate,
+// the session length and the student's level, then any promo code discount
+// and the tax lines are applied. Rates are set per currency rather than
+// converted, so every price list has round numbers.
+
+export interface Price {
+  amount: number;
+  currency: string;
+}
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY'] as const;
+export type Currency = typeof CURRENCIES[number];
+
+export const DEFAULT_CURRENCY: Currency = 'USD';
+export const DEFAULT_DURATION_MINUTES = 60;
+
+export const DURATION_OPTIONS = [30, 45, 60, 90, 120] as const;
+
+interface CatalogEntry {
+  hourlyRates: Record<Currency, number>;
+  // Sessions shorter than this are billed as this length
+  minimumMinutes: number;
+}
+
+const CATALOG: Record<AppointmentType, CatalogEntry> = {
+  CONSULTATION: { hourlyRates: { USD: 50, EUR: 46, GBP: 40, JPY: 7500 }, minimumMinutes: 30 },
+  TUTORIAL: { hourlyRates: { USD: 60, EUR: 55, GBP: 48, JPY: 9000 }, minimumMinutes: 45 },
+  ASSESSMENT: { hourlyRates: { USD: 80, EUR: 74, GBP: 64, JPY: 12000 }, minimumMinutes: 60 },
+  GROUP_SESSION: { hourlyRates: { USD: 30, EUR: 28, GBP: 24, JPY: 4500 }, minimumMinutes: 60 },
+  WORKSHOP: { hourlyRates: { USD: 45, EUR: 42, GBP: 36, JPY: 6800 }, minimumMinutes: 90 },
+};
+
+export type Level = 'beginner' | 'intermediate' | 'advanced' | 'expert';
+
+const LEVEL_MULTIPLIERS: Record<Level, number> = {
+  beginner: 1,
+  intermediate: 1.1,
+  advanced: 1.25,
+  expert: 1.5,
+};
+
+type PromoDiscount =
+  | { kind: 'percent'; percent: number }
+  // An amount off in each currency
+  | { kind: 'fixed'; amounts: Record<Currency, number> };
+
+interface PromoCode {
+  // {amount} is the fixed discount in the quote's currency
+  description: MessageKey;
+  discount: PromoDiscount;
+  appliesTo?: AppointmentType[];
+  expiresAt?: string;
+}
+
+const PROMO_CODES: Record<string, PromoCode> = {
+  WELCOME10: { description: 'promo.WELCOME10', discount: { kind: 'percent', percent: 10 } },
+  TUTOR5: {
+    description: 'promo.TUTOR5',
+    discount: { kind: 'fixed', amounts: { USD: 5, EUR: 5, GBP: 4, JPY: 750 } },
+    appliesTo: ['TUTORIAL'],
+  },
+  GROUP20: {
+    description: 'promo.GROUP20',
+    discount: { kind: 'percent', percent: 20 },
+    appliesTo: ['GROUP_SESSION', 'WORKSHOP'],
+  },
+};
+
+interface TaxLine {
+  id: string;
+  // Given the rate as {percent}
+  label: MessageKey;
+  rate: number;
+}
+
+const TAX_LINES: TaxLine[] = [{ id: 'sales_tax', label: 'pricing.salesTax', rate: 0.08 }];
+
+export interface QuoteLine {
+  label: string;
+  amount: number;
+}
+
+export interface Quote {
+  currency: Currency;
+  lines: QuoteLine[];
+  subtotal: number;
+  discount?: QuoteLine & { code: string };
+  taxes: (QuoteLine & { rate: number })[];
+  total: number;
+}
+
+export interface QuoteRequest {
+  appointmentType: AppointmentType;
+  durationMinutes?: number;
+  level?: string;
+  promoCode?: string;
+  currency?: Currency;
+}
+
+export type PromoCodeCheck =
+  | { valid: true; code: string; description: string }
+  | { valid: false; code: string; reason: string };
+
+export const isCurrency = (value: unknown): value is Currency =>
+  typeof value === 'string' && (CURRENCIES as readonly string[]).includes(value);
+
+export const isLevel = (value: string | undefined): value is Level =>
+  value !== undefined && Object.prototype.hasOwnProperty.call(LEVEL_MULTIPLIERS, value);
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+// Descriptions and reasons are in `locale`
+export const checkPromoCode = (
+  code: string,
+  appointmentType: AppointmentType,
+  currency: Currency = DEFAULT_CURRENCY,
+  locale: Locale = DEFAULT_LOCALE,
+  now: Date = new Date()
+): PromoCodeCheck => {
+  const normalized = normalizePromoCode(code);
+  const promo = PROMO_CODES[normalized];
+
+  if (!promo) {
+    return { valid: false, code: normalized, reason: translate(locale, 'promo.unknown') };
+  }
+  if (promo.expiresAt && Date.parse(promo.expiresAt) <= now.getTime()) {
+    return { valid: false, code: normalized, reason: translate(locale, 'promo.expired') };
+  }
+  if (promo.appliesTo && !promo.appliesTo.includes(appointmentType)) {
+    return { valid: false, code: normalized, reason: translate(locale, 'promo.notApplicable') };
+  }
+  const amount =
+    promo.discount.kind === 'fixed' ? formatPrice(promo.discount.amounts[currency], currency, locale) : '';
+  return { valid: true, code: normalized, description: translate(locale, promo.description, { amount }) };
+};
+
+// Line labels are in `locale`; the amounts do not depend on it
+export const quoteAppointment = (
+  {
+    appointmentType,
+    durationMinutes = DEFAULT_DURATION_MINUTES,
+    level,
+    promoCode,
+    currency = DEFAULT_CURRENCY,
+  }: QuoteRequest,
+  locale: Locale = DEFAULT_LOCALE,
+  now: Date = new Date()
+): Quote => {
+  const entry = CATALOG[appointmentType];
+  const hourlyRate = entry.hourlyRates[currency];
+  const billedMinutes = Math.max(durationMinutes, entry.minimumMinutes);
+  const round = (value: number) => roundToMinorUnit(value, currency);
+  const percent = (rate: number) => formatNumber(rate, locale, { style: 'percent', maximumFractionDigits: 2 });
+
+  const lines: QuoteLine[] = [
+    {
+      label: translate(locale, 'pricing.session', {
+        minutes: billedMinutes,
+        rate: formatPrice(hourlyRate, currency, locale),
+      }),
+      amount: round((hourlyRate * billedMinutes) / 60),
+    },
+  ];
+
+  if (isLevel(level) && LEVEL_MULTIPLIERS[level] !== 1) {
+    lines.push({
+      label: translate(locale, 'pricing.levelSurcharge', {
+        level: translate(locale, `level.${level}`),
+        percent: percent(LEVEL_MULTIPLIERS[level] - 1),
+      }),
+      amount: round(lines[0].amount * (LEVEL_MULTIPLIERS[level] - 1)),
+    });
+  }
+
+  const subtotal = round(lines.reduce((sum, line) => sum + line.amount, 0));
+
+  let discount: Quote['discount'];
+  if (promoCode) {
+    const check = checkPromoCode(promoCode, appointmentType, currency, locale, now);
+    if (check.valid) {
+      const promo = PROMO_CODES[check.code].discount;
+      const raw = promo.kind === 'percent' ? (subtotal * promo.percent) / 100 : promo.amounts[currency];
+      discount = {
+        code: check.code,
+        label: translate(locale, 'pricing.promo', { code: check.code }),
+        amount: -round(Math.min(raw, subtotal)),
+      };
+    }
+  }
+
+  const taxable = round(subtotal + (discount?.amount ?? 0));
+  const taxes = TAX_LINES.map(tax => ({
+    label: translate(locale, tax.label, { percent: percent(tax.rate) }),
+    rate: tax.rate,
+    amount: round(taxable * tax.rate),
+  }));
+
+  const total = round(taxable + taxes.reduce((sum, tax) => sum + tax.amount, 0));
+
+  return { currency, lines, subtotal, discount, taxes, total };
+};
+
+export const getAppointmentPrice = (
+  appointmentType: AppointmentType,
+  durationMinutes: number = DEFAULT_DURATION_MINUTES,
+  level?: string,
+  currency: Currency = DEFAULT_CURRENCY
+): Price => {
+  const quote = quoteAppointment({ appointmentType, durationMinutes, level, currency });
+  return { amount: quote.total, currency: quote.currency };
+};
+
+// Precedence: an amount already recorded on the booking, then the quote the
+// customer accepted when booking (re-priced by the backend), then the current
+// list price
+export const getBookingPrice = (booking: Booking): Price => {
+  if (booking.paymentAmount !== undefined) {
+    return { amount: booking.paymentAmount, currency: booking.paymentCurrency ?? DEFAULT_CURRENCY };
+  }
+
+  const { quote, duration, level } = booking.bookingDetails;
+  if (quote) {
+    return { amount: quote.total, currency: quote.currency };
+  }
+  return getAppointmentPrice(booking.appointmentType, duration, level);
+};
+
+// Intl picks the right symbol and minor-unit digits for each currency
+// (e.g. no decimals for JPY)
+export const formatPrice = (amount: number, currency: string, locale?: string): string => {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
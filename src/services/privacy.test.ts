@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ACCEPT_ALL, REJECT_ALL, consentStore } from './consent';
+import { sanitizeAnalyticsEvent, sanitizeTrackedEvent, trimReferrer } from './privacy';
+
+const pageView = {
+  id: 'event-1',
+  name: 'page_view' as const,
+  properties: { referrer: 'https://mail.example.com/inbox/123?q=tutor' },
+  deviceId: 'device-1',
+  occurredAt: '2024-06-01T12:00:00.000Z',
+};
+
+describe('trimReferrer', () => {
+  it('keeps only the referring site', () => {
+    expect(trimReferrer('https://www.example.com/search?q=my+name')).toBe('https://www.example.com');
+  });
+
+  it('drops values that are not URLs', () => {
+    expect(trimReferrer('not a url')).toBeUndefined();
+    expect(trimReferrer('')).toBeUndefined();
+    expect(trimReferrer(42)).toBeUndefined();
+  });
+});
+
+describe('without analytics consent', () => {
+  beforeEach(() => consentStore.save(REJECT_ALL));
+
+  it('sends no magic link events', () => {
+    expect(sanitizeAnalyticsEvent({ event: 'page_view', metadata: {} })).toBeNull();
+  });
+
+  it('sends no tracked events', () => {
+    expect(sanitizeTrackedEvent(pageView)).toBeNull();
+  });
+});
+
+describe('with analytics consent', () => {
+  beforeEach(() => consentStore.save(ACCEPT_ALL));
+
+  it('trims the referrer and drops unknown metadata', () => {
+    expect(
+      sanitizeAnalyticsEvent({
+        event: 'page_view',
+        userAgent: 'Mozilla/5.0',
+        metadata: { referrer: 'https://mail.example.com/inbox/123', deviceId: 'device-1', ipAddress: '203.0.113.7' },
+      })
+    ).toEqual({
+      event: 'page_view',
+      userAgent: 'Mozilla/5.0',
+      metadata: { referrer: 'https://mail.example.com', deviceId: 'device-1' },
+    });
+  });
+
+  it('trims the referrer of tracked events and leaves others alone', () => {
+    expect(sanitizeTrackedEvent(pageView)?.properties).toEqual({ referrer: 'https://mail.example.com' });
+    const copied = { ...pageView, name: 'link_copied' as const, properties: {} };
+    expect(sanitizeTrackedEvent(copied)).toBe(copied);
+  });
+});
@@ -0,0 +1,51 @@
+import type { AnalyticsEvent, BookingDataExport, MagicLinkEventMetadata } from './api';
+import type { TrackedEvent } from './tracking/catalog';
+import { hasConsent } from './consent';
+
+// What usage data may leave the browser. ApiService runs every analytics
+// payload through here: without analytics consent nothing is sent, and with
+// it the payload is cut down to what the dashboards use.
+
+// Paths and query strings can carry search terms or other people's links, so
+// only the referring site is kept
+export const trimReferrer = (referrer: unknown): string | undefined => {
+  if (typeof referrer !== 'string' || !referrer) return undefined;
+  try {
+    return new URL(referrer).origin;
+  } catch {
+    return undefined;
+  }
+};
+
+// Metadata keys a magic link event may carry; any others are dropped
+const ALLOWED_METADATA_KEYS = ['deviceId', 'source'];
+
+// Null when nothing may be sent
+export const sanitizeAnalyticsEvent = (event: AnalyticsEvent): AnalyticsEvent | null => {
+  if (!hasConsent('analytics')) return null;
+
+  const metadata: MagicLinkEventMetadata = { referrer: trimReferrer(event.metadata?.referrer) };
+  ALLOWED_METADATA_KEYS.forEach(key => {
+    if (typeof event.metadata?.[key] === 'string') metadata[key] = event.metadata[key];
+  });
+  return { event: event.event, userAgent: event.userAgent, metadata };
+};
+
+export const sanitizeTrackedEvent = (event: TrackedEvent): TrackedEvent | null => {
+  if (!hasConsent('analytics')) return null;
+  if (!('referrer' in event.properties)) return event;
+  return { ...event, properties: { ...event.properties, referrer: trimReferrer(event.properties.referrer) } };
+};
+
+// Saves a data export as pretty-printed JSON
+export const downloadBookingData = (data: BookingDataExport, fileName: string): void => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
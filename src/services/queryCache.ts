@@ -0,0 +1,171 @@
+import { ApiError, ApiResponse } from './api';
+
+// Small keyed cache for API reads. Concurrent requests for the same key share
+// one in-flight promise, subscribers are notified on every state change, and
+// active queries are refetched when the window regains focus or when a
+// mutation invalidates them.
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<ApiResponse<T>>;
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: string | null;
+  apiError: ApiError | null;
+  // No data yet and a request is in flight
+  loading: boolean;
+  // Any request in flight, including background refetches
+  fetching: boolean;
+  updatedAt: number;
+}
+
+interface QueryEntry<T> {
+  state: QueryState<T>;
+  listeners: Set<() => void>;
+  fetcher?: QueryFetcher<T>;
+  inFlight?: Promise<void>;
+  controller?: AbortController;
+}
+
+// Data younger than this is served from the cache without a request
+const STALE_TIME_MS = 10_000;
+
+const initialState = <T>(): QueryState<T> => ({
+  data: undefined,
+  error: null,
+  apiError: null,
+  loading: false,
+  fetching: false,
+  updatedAt: 0,
+});
+
+class QueryCache {
+  private entries = new Map<string, QueryEntry<unknown>>();
+  private focusListenerAttached = false;
+
+  private entry<T>(key: string): QueryEntry<T> {
+    let entry = this.entries.get(key) as QueryEntry<T> | undefined;
+    if (!entry) {
+      entry = { state: initialState<T>(), listeners: new Set() };
+      this.entries.set(key, entry as QueryEntry<unknown>);
+    }
+    return entry;
+  }
+
+  private update<T>(key: string, patch: Partial<QueryState<T>>): void {
+    const entry = this.entry<T>(key);
+    // Replace rather than mutate so useSyncExternalStore sees a new snapshot
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach(listener => listener());
+  }
+
+  getState<T>(key: string): QueryState<T> {
+    return this.entry<T>(key).state;
+  }
+
+  subscribe(key: string, listener: () => void): () => void {
+    this.attachFocusListener();
+    const entry = this.entry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }
+
+  // Fetches `key` unless fresh data is cached. An in-flight request for the
+  // same key is reused instead of starting a second one.
+  fetch<T>(key: string, fetcher: QueryFetcher<T>, options: { force?: boolean } = {}): Promise<void> {
+    const entry = this.entry<T>(key);
+    entry.fetcher = fetcher;
+
+    if (entry.inFlight) return entry.inFlight;
+
+    const isFresh = entry.state.updatedAt > 0 && Date.now() - entry.state.updatedAt < STALE_TIME_MS;
+    if (isFresh && !options.force) return Promise.resolve();
+
+    const controller = new AbortController();
+    entry.controller = controller;
+    this.update<T>(key, { fetching: true, loading: entry.state.data === undefined });
+
+    entry.inFlight = fetcher(controller.signal)
+      .then(response => {
+        if (controller.signal.aborted) return;
+
+        if (response.success && response.data !== undefined) {
+          this.update<T>(key, {
+            data: response.data,
+            error: null,
+            apiError: null,
+            updatedAt: Date.now(),
+          });
+        } else {
+          // Keep the last good data so a failed background refetch does not
+          // blank out what the user is looking at
+          this.update<T>(key, {
+            error: response.error || 'Request failed',
+            apiError: response.apiError ?? null,
+            updatedAt: Date.now(),
+          });
+        }
+      })
+      .finally(() => {
+        // Superseded by a newer request after invalidation
+        if (entry.controller !== controller) return;
+        entry.inFlight = undefined;
+        entry.controller = undefined;
+        this.update<T>(key, { fetching: false, loading: false });
+      });
+
+    return entry.inFlight;
+  }
+
+  // Marks the query stale and refetches it right away if anything is
+  // subscribed; otherwise the next subscriber fetches it
+  invalidate(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (!entry) return Promise.resolve();
+
+    entry.state = { ...entry.state, updatedAt: 0 };
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      // A request started before the mutation may return stale data
+      entry.controller?.abort();
+      entry.inFlight = undefined;
+      return this.fetch(key, entry.fetcher, { force: true });
+    }
+    return Promise.resolve();
+  }
+
+  // Invalidates every query whose key starts with `prefix`
+  invalidateMatching(prefix: string): Promise<void> {
+    const keys = [...this.entries.keys()].filter(key => key.startsWith(prefix));
+    return Promise.all(keys.map(key => this.invalidate(key))).then(() => undefined);
+  }
+
+  setData<T>(key: string, updater: (current: T | undefined) => T): void {
+    const entry = this.entry<T>(key);
+    this.update<T>(key, { data: updater(entry.state.data), updatedAt: Date.now() });
+  }
+
+  remove(key: string): void {
+    this.entries.get(key)?.controller?.abort();
+    this.entries.delete(key);
+  }
+
+  private refetchActive = () => {
+    if (document.visibilityState !== 'visible') return;
+
+    this.entries.forEach((entry, key) => {
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        void this.fetch(key, entry.fetcher);
+      }
+    });
+  };
+
+  private attachFocusListener(): void {
+    if (this.focusListenerAttached || typeof window === 'undefined') return;
+    window.addEventListener('focus', this.refetchActive);
+    document.addEventListener('visibilitychange', this.refetchActive);
+    this.focusListenerAttached = true;
+  }
+}
+
+export const queryCache = new QueryCache();
@@ -0,0 +1,49 @@
+// Bookings this browser has created or opened. There are no customer accounts,
+// so this list is what "My bookings" asks the backend for.
+
+const STORAGE_KEY = 'tbook.rememberedBookings.v1';
+
+// Oldest entries are dropped beyond this
+const MAX_REMEMBERED = 50;
+
+interface RememberedBooking {
+  uuid: string;
+  rememberedAt: string;
+}
+
+const load = (): RememberedBooking[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (entry): entry is RememberedBooking =>
+            typeof entry?.uuid === 'string' && typeof entry?.rememberedAt === 'string'
+        )
+      : [];
+  } catch (error) {
+    console.error('Remembered bookings are unreadable, starting fresh:', error);
+    return [];
+  }
+};
+
+const save = (entries: RememberedBooking[]): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Failed to save remembered bookings:', error);
+  }
+};
+
+// Most recently remembered first
+export const getRememberedBookingIds = (): string[] => load().map(entry => entry.uuid);
+
+export const rememberBooking = (uuid: string): void => {
+  const entries = load().filter(entry => entry.uuid !== uuid);
+  entries.unshift({ uuid, rememberedAt: new Date().toISOString() });
+  save(entries.slice(0, MAX_REMEMBERED));
+};
+
+export const forgetBooking = (uuid: string): void => {
+  save(load().filter(entry => entry.uuid !== uuid));
+};
@@ -0,0 +1,78 @@
+import type { Session } from './api';
+
+// The signed-in session, persisted so it survives reloads and shared with other
+// tabs through the storage event. ApiService reads the token from here and
+// refreshes or clears it; components subscribe through useSession.
+
+const STORAGE_KEY = 'tbook.session.v1';
+
+const isSession = (value: unknown): value is Session => {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.accessToken === 'string' &&
+    typeof candidate.refreshToken === 'string' &&
+    typeof candidate.expiresAt === 'string' &&
+    typeof candidate.phone === 'string'
+  );
+};
+
+const readStored = (): Session | null => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    if (!isSession(parsed)) return null;
+    // Saved before sessions had roles
+    return { ...parsed, role: parsed.role === 'staff' ? 'staff' : 'customer' };
+  } catch (error) {
+    console.error('Stored session is unreadable, signing out:', error);
+    return null;
+  }
+};
+
+class SessionStore {
+  private session: Session | null = readStored();
+  private listeners = new Set<() => void>();
+  private storageListenerAttached = false;
+
+  get = (): Session | null => this.session;
+
+  set(session: Session): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    } catch (error) {
+      // Still signed in for this page; just not after a reload
+      console.error('Failed to save session:', error);
+    }
+    this.update(session);
+  }
+
+  clear(): void {
+    window.localStorage.removeItem(STORAGE_KEY);
+    this.update(null);
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.attachStorageListener();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private update(session: Session | null): void {
+    this.session = session;
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Signing in or out in another tab applies here too
+  private attachStorageListener(): void {
+    if (this.storageListenerAttached) return;
+    this.storageListenerAttached = true;
+    window.addEventListener('storage', event => {
+      if (event.key === STORAGE_KEY) this.update(readStored());
+    });
+  }
+}
+
+export const sessionStore = new SessionStore();
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getTimeZoneOffset, toDateKey, zonedTimeToUtc } from './timeZone';
+
+// TZ is pinned to UTC in vite.config.ts; the zones under test are passed
+// explicitly, so none of these depend on the machine's own zone.
+
+describe('getTimeZoneOffset', () => {
+  it('follows New York across both DST changes', () => {
+    expect(getTimeZoneOffset(new Date('2024-03-10T06:59:00Z'), 'America/New_York')).toBe(-300);
+    expect(getTimeZoneOffset(new Date('2024-03-10T07:00:00Z'), 'America/New_York')).toBe(-240);
+    expect(getTimeZoneOffset(new Date('2024-11-03T05:59:00Z'), 'America/New_York')).toBe(-240);
+    expect(getTimeZoneOffset(new Date('2024-11-03T06:00:00Z'), 'America/New_York')).toBe(-300);
+  });
+
+  it('handles half-hour offsets', () => {
+    expect(getTimeZoneOffset(new Date('2024-06-01T00:00:00Z'), 'Asia/Kolkata')).toBe(330);
+    expect(getTimeZoneOffset(new Date('2024-06-01T00:00:00Z'), 'America/St_Johns')).toBe(-150);
+  });
+
+  it('handles a zone whose DST change is half an hour', () => {
+    // Lord Howe Island moves from +10:30 to +11:00 at 02:00 local time
+    expect(getTimeZoneOffset(new Date('2024-10-05T15:29:00Z'), 'Australia/Lord_Howe')).toBe(630);
+    expect(getTimeZoneOffset(new Date('2024-10-05T15:30:00Z'), 'Australia/Lord_Howe')).toBe(660);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('converts ordinary wall-clock times', () => {
+    expect(zonedTimeToUtc('2024-01-15', '09:00', 'America/New_York').toISOString()).toBe('2024-01-15T14:00:00.000Z');
+    expect(zonedTimeToUtc('2024-07-15', '09:00', 'America/New_York').toISOString()).toBe('2024-07-15T13:00:00.000Z');
+  });
+
+  it('moves a time skipped by spring-forward past the gap', () => {
+    // 02:00 -> 03:00 on 10 March 2024, so 02:30 does not exist; 03:30 EDT
+    expect(zonedTimeToUtc('2024-03-10', '02:30', 'America/New_York').toISOString()).toBe('2024-03-10T07:30:00.000Z');
+    expect(zonedTimeToUtc('2024-03-10', '03:00', 'America/New_York').toISOString()).toBe('2024-03-10T07:00:00.000Z');
+  });
+
+  it('resolves a time repeated by fall-back to its first occurrence', () => {
+    // 01:30 happens at 05:30Z (EDT) and again at 06:30Z (EST)
+    expect(zonedTimeToUtc('2024-11-03', '01:30', 'America/New_York').toISOString()).toBe('2024-11-03T05:30:00.000Z');
+    expect(zonedTimeToUtc('2024-11-03', '02:30', 'America/New_York').toISOString()).toBe('2024-11-03T07:30:00.000Z');
+  });
+
+  it('handles half-hour zones, with and without DST', () => {
+    expect(zonedTimeToUtc('2024-06-01', '09:00', 'Asia/Kolkata').toISOString()).toBe('2024-06-01T03:30:00.000Z');
+    // Adelaide is +10:30 in (southern) summer and +09:30 in winter
+    expect(zonedTimeToUtc('2024-01-15', '09:00', 'Australia/Adelaide').toISOString()).toBe('2024-01-14T22:30:00.000Z');
+    expect(zonedTimeToUtc('2024-07-15', '09:00', 'Australia/Adelaide').toISOString()).toBe('2024-07-14T23:30:00.000Z');
+  });
+
+  it('moves a time in a half-hour spring-forward gap past it', () => {
+    // Lord Howe skips 02:00-02:30 on 6 October 2024
+    expect(zonedTimeToUtc('2024-10-06', '02:15', 'Australia/Lord_Howe').toISOString()).toBe('2024-10-05T15:45:00.000Z');
+  });
+
+  it('round-trips every half hour of a DST day back to the same date', () => {
+    for (let minutes = 0; minutes < 24 * 60; minutes += 30) {
+      const time = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+      expect(toDateKey(zonedTimeToUtc('2024-11-03', time, 'America/New_York'), 'America/New_York')).toBe('2024-11-03');
+    }
+  });
+});
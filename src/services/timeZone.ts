@@ -0,0 +1,140 @@
+// Time zone helpers built on Intl, so IANA zones work without a date library.
+// A "date key" is a calendar date in some zone, formatted YYYY-MM-DD.
+
+export const getViewerTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Wall-clock fields of `instant` as seen in `timeZone`
+export const getZonedParts = (instant: Date, timeZone: string): ZonedParts => {
+  const parts = getPartsFormatter(timeZone).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+// Minutes to add to UTC to get wall-clock time in `timeZone` at `instant`
+export const getTimeZoneOffset = (instant: Date, timeZone: string): number => {
+  const parts = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const truncated = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((asUtc - truncated) / 60000);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toDateKey = (instant: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const parseDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return { year, month, day };
+};
+
+export const addDaysToKey = (dateKey: string, days: number): string => {
+  const { year, month, day } = parseDateKey(dateKey);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// 0 = Sunday, matching Date#getDay
+export const getWeekdayOfKey = (dateKey: string): number => {
+  const { year, month, day } = parseDateKey(dateKey);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+// Converts a wall-clock time ("HH:MM" on `dateKey`) in `timeZone` to an
+// instant. Around DST changes the offset at the wall-clock time is ambiguous,
+// so both candidate offsets are tried:
+// - a time that occurs twice (clocks going back) resolves to the earlier one
+// - a time skipped by clocks going forward resolves to the same distance past
+//   the gap, so 02:30 on a 02:00 -> 03:00 night becomes 03:30
+export const zonedTimeToUtc = (dateKey: string, time: string, timeZone: string): Date => {
+  const { year, month, day } = parseDateKey(dateKey);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Zones change offset at most once around any given day
+  const offsetBefore = getTimeZoneOffset(new Date(wallClockAsUtc - DAY_MS), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallClockAsUtc + DAY_MS), timeZone);
+
+  const matches = [offsetBefore, offsetAfter]
+    .map(offset => wallClockAsUtc - offset * 60000)
+    .filter(candidate => {
+      const parts = getZonedParts(new Date(candidate), timeZone);
+      return parts.day === day && parts.hour === hour && parts.minute === minute;
+    });
+
+  if (matches.length > 0) {
+    return new Date(Math.min(...matches));
+  }
+  // In the gap: applying the pre-transition offset lands past it
+  return new Date(wallClockAsUtc - offsetBefore * 60000);
+};
+
+export const isValidTimeZone = (timeZone: string | undefined): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    getPartsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Short zone name such as "EST" or "GMT+1", which changes across DST
+export const getTimeZoneAbbreviation = (instant: Date, timeZone: string, locale?: string): string => {
+  const parts = new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' }).formatToParts(instant);
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+};
+
+export const formatInTimeZone = (
+  iso: string,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions,
+  locale?: string
+): string => new Date(iso).toLocaleString(locale, { ...options, timeZone });
+
+// True when both zones show the same wall-clock time at `instant`
+export const sameWallClock = (instant: Date, zoneA: string, zoneB: string): boolean =>
+  getTimeZoneOffset(instant, zoneA) === getTimeZoneOffset(instant, zoneB);
@@ -0,0 +1,59 @@
+import type { ApiErrorKind } from '../apiError';
+import { AppointmentType } from '../../types/booking';
+import type { BookingStep } from '../bookingDraft';
+
+// Every event the app tracks, with the properties it carries. Properties must
+// not hold personal details (names, phone numbers, card data): the ids in the
+// event context are enough to tie an event to its booking.
+
+type NoProperties = Record<string, never>;
+
+export interface TrackingEventCatalog {
+  // A magic link was opened
+  page_view: { referrer?: string };
+  booking_step_viewed: { step: BookingStep };
+  // The review step's submit; the outcome follows as created or failed
+  confirm_clicked: { appointmentType: AppointmentType };
+  booking_created: { appointmentType: AppointmentType };
+  booking_failed: { reason: ApiErrorKind };
+  link_copied: NoProperties;
+  checkout_opened: { amount: number; currency: string };
+  change_panel_opened: { panel: 'cancel' | 'reschedule' };
+  payment_started: { amount: number; currency: string };
+  payment_succeeded: { amount: number; currency: string };
+  payment_failed: { amount: number; currency: string; message: string };
+}
+
+export type TrackingEventName = keyof TrackingEventCatalog;
+
+export const TRACKING_EVENT_NAMES: readonly TrackingEventName[] = [
+  'page_view',
+  'booking_step_viewed',
+  'confirm_clicked',
+  'booking_created',
+  'booking_failed',
+  'link_copied',
+  'checkout_opened',
+  'change_panel_opened',
+  'payment_started',
+  'payment_succeeded',
+  'payment_failed',
+];
+
+// Which booking an event is about; the backend fills in the magic link from
+// the booking when only the uuid is known
+export interface TrackingContext {
+  bookingUuid?: string;
+  magicLinkId?: string;
+}
+
+// An event as queued and sent
+export interface TrackedEvent extends TrackingContext {
+  // Random; lets the backend drop an event it has already received
+  id: string;
+  name: TrackingEventName;
+  properties: Record<string, unknown>;
+  deviceId: string;
+  userAgent?: string;
+  occurredAt: string;
+}
@@ -0,0 +1,17 @@
+import { tracker } from './tracker';
+import { TrackingContext, TrackingEventCatalog, TrackingEventName } from './catalog';
+
+export * from './catalog';
+export { BATCH_SIZE } from './queue';
+
+export const track = <K extends TrackingEventName>(
+  name: K,
+  properties: TrackingEventCatalog[K],
+  context?: TrackingContext
+): void => tracker.track(name, properties, context);
+
+export const startTracking = (): void => tracker.start();
+
+export const flushTracking = (): Promise<void> => tracker.flush();
+
+export const onTrackedEventsSent = tracker.subscribe;
@@ -0,0 +1,120 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  BATCH_SIZE,
+  FLUSH_DELAY_MS,
+  MAX_ATTEMPTS,
+  MAX_QUEUED_EVENTS,
+  MAX_RETRY_DELAY_MS,
+  QueuedEvent,
+  applySendOutcome,
+  enqueue,
+  getFlushDelay,
+  getRetryDelay,
+  loadQueue,
+  saveQueue,
+} from './queue';
+
+const queued = (id: string, overrides: Partial<QueuedEvent> = {}): QueuedEvent => ({
+  id,
+  name: 'link_copied',
+  properties: {},
+  deviceId: 'device-1',
+  occurredAt: new Date().toISOString(),
+  attempts: 0,
+  ...overrides,
+});
+
+const ids = (events: QueuedEvent[]) => events.map(event => event.id);
+
+beforeEach(() => {
+  window.localStorage.clear();
+});
+
+describe('applySendOutcome', () => {
+  const events = [queued('a'), queued('b'), queued('c')];
+  const batch = new Set(['a', 'b']);
+
+  it('removes a settled batch and keeps what was queued behind it', () => {
+    expect(ids(applySendOutcome(events, batch, 'settled'))).toEqual(['c']);
+  });
+
+  it('keeps everything when the server could not be reached', () => {
+    expect(applySendOutcome(events, batch, 'unreachable')).toEqual(events);
+  });
+
+  it('counts a server error against the batch only', () => {
+    const next = applySendOutcome(events, batch, 'server_error');
+    expect(next.map(event => event.attempts)).toEqual([1, 1, 0]);
+  });
+
+  it('gives up on an event after MAX_ATTEMPTS server errors', () => {
+    const tired = [queued('a', { attempts: MAX_ATTEMPTS - 1 }), queued('b', { attempts: 1 })];
+    expect(ids(applySendOutcome(tired, new Set(['a', 'b']), 'server_error'))).toEqual(['b']);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('does not wait before the first send', () => {
+    expect(getRetryDelay(0)).toBe(0);
+  });
+
+  it('doubles after each failure up to the cap', () => {
+    expect([1, 2, 3, 4].map(failures => getRetryDelay(failures))).toEqual([5000, 10000, 20000, 40000]);
+    expect(getRetryDelay(20)).toBe(MAX_RETRY_DELAY_MS);
+  });
+
+  it('waits at least as long as the server asked', () => {
+    expect(getRetryDelay(1, 60000)).toBe(60000);
+    expect(getRetryDelay(3, 1000)).toBe(20000);
+  });
+});
+
+describe('getFlushDelay', () => {
+  it('batches events tracked close together', () => {
+    expect(getFlushDelay(1, 0)).toBe(FLUSH_DELAY_MS);
+  });
+
+  it('sends a full batch straight away', () => {
+    expect(getFlushDelay(BATCH_SIZE, 0)).toBe(0);
+  });
+
+  it('keeps backing off even with a full batch', () => {
+    expect(getFlushDelay(BATCH_SIZE, 20000)).toBe(20000);
+  });
+});
+
+describe('stored queue', () => {
+  it('survives a reload', () => {
+    enqueue({ id: 'a', name: 'link_copied', properties: {}, deviceId: 'device-1', occurredAt: new Date().toISOString() });
+    expect(loadQueue()).toEqual([expect.objectContaining({ id: 'a', attempts: 0 })]);
+  });
+
+  it('drops events too old to send and entries it cannot read', () => {
+    const now = Date.parse('2024-06-10T00:00:00Z');
+    window.localStorage.setItem(
+      'tbook.trackingQueue.v1',
+      JSON.stringify([
+        queued('fresh', { occurredAt: '2024-06-09T00:00:00Z' }),
+        queued('stale', { occurredAt: '2024-05-01T00:00:00Z' }),
+        { id: 'broken' },
+        queued('unknown', { name: 'not_an_event' as QueuedEvent['name'] }),
+      ])
+    );
+    expect(ids(loadQueue(now))).toEqual(['fresh']);
+  });
+
+  it('keeps only the newest MAX_QUEUED_EVENTS', () => {
+    saveQueue(Array.from({ length: MAX_QUEUED_EVENTS + 5 }, (_, index) => queued(String(index))));
+    const stored = loadQueue();
+    expect(stored).toHaveLength(MAX_QUEUED_EVENTS);
+    expect(stored[0].id).toBe('5');
+  });
+
+  it('starts fresh when storage holds something unreadable', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    window.localStorage.setItem('tbook.trackingQueue.v1', '{not json');
+    expect(loadQueue()).toEqual([]);
+    expect(console.error).toHaveBeenCalled();
+  });
+});
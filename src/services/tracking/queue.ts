@@ -0,0 +1,125 @@
+import { TRACKING_EVENT_NAMES, TrackedEvent } from './catalog';
+
+// Events waiting to be sent, kept in localStorage so they survive going
+// offline, closing the tab and reloading. Tabs share the queue; an event sent
+// twice is dropped by the backend using its id.
+
+const STORAGE_KEY = 'tbook.trackingQueue.v1';
+
+// Oldest events are dropped beyond this, e.g. after a long time offline
+export const MAX_QUEUED_EVENTS = 500;
+
+// Events older than this are not worth sending
+const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Events per request, and per beacon
+export const BATCH_SIZE = 20;
+
+// Events tracked within this window go out in one request
+export const FLUSH_DELAY_MS = 5000;
+
+// Backoff after a failed send: 5s, 10s, 20s... up to 5 minutes
+const RETRY_BASE_DELAY_MS = 5000;
+export const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Server errors an event may meet before it is given up on. Failures that
+// never reached the server (offline, timeouts) don't count.
+export const MAX_ATTEMPTS = 5;
+
+export interface QueuedEvent extends TrackedEvent {
+  // Failed sends that reached the server; network failures don't count
+  attempts: number;
+}
+
+const isQueuedEvent = (value: unknown): value is QueuedEvent => {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === 'string' &&
+    TRACKING_EVENT_NAMES.includes(candidate.name as QueuedEvent['name']) &&
+    typeof candidate.properties === 'object' &&
+    candidate.properties !== null &&
+    typeof candidate.deviceId === 'string' &&
+    typeof candidate.occurredAt === 'string' &&
+    typeof candidate.attempts === 'number'
+  );
+};
+
+export const loadQueue = (now: number = Date.now()): QueuedEvent[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter(isQueuedEvent).filter(event => now - Date.parse(event.occurredAt) < MAX_EVENT_AGE_MS)
+      : [];
+  } catch (error) {
+    console.error('Tracking queue is unreadable, starting fresh:', error);
+    return [];
+  }
+};
+
+export const saveQueue = (events: QueuedEvent[]): void => {
+  try {
+    if (events.length === 0) {
+      window.localStorage.removeItem(STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(events.slice(-MAX_QUEUED_EVENTS)));
+    }
+  } catch (error) {
+    // Storage is full or blocked; the events are lost on reload
+    console.error('Failed to save tracking queue:', error);
+  }
+};
+
+export const enqueue = (event: TrackedEvent): void => {
+  saveQueue([...loadQueue(), { ...event, attempts: 0 }]);
+};
+
+// Reads the queue, applies `update` and saves the result
+export const updateQueue = (update: (events: QueuedEvent[]) => QueuedEvent[]): QueuedEvent[] => {
+  const next = update(loadQueue());
+  saveQueue(next);
+  return next;
+};
+
+export const clearQueue = (): void => saveQueue([]);
+
+// How a batch send ended, as far as the queue is concerned
+export type SendOutcome =
+  // Accepted, or refused in a way that sending again would not fix
+  | 'settled'
+  // The server failed; each event in the batch uses up an attempt
+  | 'server_error'
+  // Worth retrying but not the events' fault, e.g. offline or rate limited
+  | 'unreachable';
+
+// The queue after a send of the events in `batchIds`
+export const applySendOutcome = (
+  events: QueuedEvent[],
+  batchIds: ReadonlySet<string>,
+  outcome: SendOutcome
+): QueuedEvent[] => {
+  switch (outcome) {
+    case 'settled':
+      return events.filter(event => !batchIds.has(event.id));
+    case 'server_error':
+      return events
+        .map(event => (batchIds.has(event.id) ? { ...event, attempts: event.attempts + 1 } : event))
+        .filter(event => event.attempts < MAX_ATTEMPTS);
+    case 'unreachable':
+      return events;
+  }
+};
+
+// Wait before the next send after `failures` failed ones in a row, and at
+// least as long as the server asked for
+export const getRetryDelay = (failures: number, retryAfterMs: number = 0): number => {
+  if (failures === 0) return 0;
+  const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** (failures - 1), MAX_RETRY_DELAY_MS);
+  return Math.max(backoff, retryAfterMs);
+};
+
+// Wait before sending once an event is queued: a full batch goes straight
+// away, unless sends are backing off
+export const getFlushDelay = (queued: number, retryDelayMs: number): number =>
+  Math.max(queued >= BATCH_SIZE ? 0 : FLUSH_DELAY_MS, retryDelayMs);
@@ -0,0 +1,180 @@
+import { apiService } from '../api';
+import { ApiError, isRetryable } from '../apiError';
+import { createIdempotencyKey } from '../bookingDraft';
+import { consentStore, hasConsent } from '../consent';
+import { forgetDeviceId, getDeviceId } from '../deviceId';
+import { TrackedEvent, TrackingContext, TrackingEventCatalog, TrackingEventName } from './catalog';
+import {
+  BATCH_SIZE,
+  QueuedEvent,
+  SendOutcome,
+  applySendOutcome,
+  clearQueue,
+  enqueue,
+  getFlushDelay,
+  getRetryDelay,
+  loadQueue,
+  updateQueue,
+} from './queue';
+
+type SentListener = (events: TrackedEvent[]) => void;
+
+// The queue's bookkeeping stays on this side
+const toTrackedEvent = (event: QueuedEvent): TrackedEvent => ({
+  id: event.id,
+  name: event.name,
+  properties: event.properties,
+  bookingUuid: event.bookingUuid,
+  magicLinkId: event.magicLinkId,
+  deviceId: event.deviceId,
+  userAgent: event.userAgent,
+  occurredAt: event.occurredAt,
+});
+
+const shouldRetry = (apiError: ApiError) => isRetryable(apiError) || apiError.kind === 'rate_limited';
+
+const toSendOutcome = (response: { success: boolean; apiError?: ApiError }): SendOutcome => {
+  if (response.success || (response.apiError && !shouldRetry(response.apiError))) return 'settled';
+  return response.apiError?.kind === 'server' ? 'server_error' : 'unreachable';
+};
+
+// Queues events, sends them in batches and retries with backoff. Nothing is
+// recorded without analytics consent, and withdrawing it drops whatever is
+// queued along with the device id.
+class Tracker {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private dueAt = 0;
+  private flushing: Promise<void> | null = null;
+  private failures = 0;
+  private retryAfterMs = 0;
+  private listeners = new Set<SentListener>();
+  private started = false;
+
+  // Attaches the unload and connectivity listeners and sends anything left
+  // from an earlier visit. Called once at startup.
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    window.addEventListener('pagehide', this.flushWithBeacon);
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') this.flushWithBeacon();
+    });
+    window.addEventListener('online', () => {
+      void this.flush();
+    });
+    consentStore.subscribe(() => {
+      if (hasConsent('analytics')) return;
+      this.cancelTimer();
+      clearQueue();
+      forgetDeviceId();
+    });
+
+    if (loadQueue().length > 0) this.schedule(0);
+  }
+
+  track<K extends TrackingEventName>(name: K, properties: TrackingEventCatalog[K], context: TrackingContext = {}): void {
+    if (!hasConsent('analytics')) return;
+
+    enqueue({
+      id: createIdempotencyKey(),
+      name,
+      properties,
+      bookingUuid: context.bookingUuid,
+      magicLinkId: context.magicLinkId,
+      deviceId: getDeviceId(),
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+      occurredAt: new Date().toISOString(),
+    });
+    this.schedule(getFlushDelay(loadQueue().length, this.retryDelay()));
+  }
+
+  // Sends the next batch now; later batches follow straight after
+  flush(): Promise<void> {
+    this.flushing ??= this.sendNextBatch().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  // Called with each batch the backend has accepted
+  subscribe = (listener: SentListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private async sendNextBatch(): Promise<void> {
+    this.cancelTimer();
+    if (!hasConsent('analytics')) {
+      clearQueue();
+      return;
+    }
+
+    const batch = loadQueue().slice(0, BATCH_SIZE);
+    // Offline: the `online` listener sends it once the connection is back
+    if (batch.length === 0 || navigator.onLine === false) return;
+
+    const response = await apiService.sendTrackingEvents({ events: batch.map(toTrackedEvent) });
+    const sentIds = new Set(batch.map(event => event.id));
+    const outcome = toSendOutcome(response);
+    const remaining = updateQueue(events => applySendOutcome(events, sentIds, outcome));
+
+    if (outcome === 'settled') {
+      if (!response.success) {
+        // Sending the same batch again would fail the same way and hold up
+        // everything queued behind it
+        console.error('Tracking events were rejected and dropped:', response.apiError);
+      }
+      this.failures = 0;
+      this.retryAfterMs = 0;
+      if (response.success) this.listeners.forEach(listener => listener(batch.map(toTrackedEvent)));
+      if (remaining.length > 0) this.schedule(0);
+      return;
+    }
+
+    const apiError = response.apiError;
+    this.failures += 1;
+    this.retryAfterMs = apiError?.kind === 'rate_limited' ? (apiError.retryAfterSeconds ?? 0) * 1000 : 0;
+    this.schedule(this.retryDelay());
+  }
+
+  // The page is going away: hand the queue to the browser, which delivers it
+  // even after the page has closed
+  private flushWithBeacon = (): void => {
+    if (!hasConsent('analytics')) return;
+
+    const queued = loadQueue();
+    const delivered = new Set<string>();
+    for (let start = 0; start < queued.length; start += BATCH_SIZE) {
+      const batch = queued.slice(start, start + BATCH_SIZE);
+      if (!apiService.sendTrackingBeacon({ events: batch.map(toTrackedEvent) })) break;
+      batch.forEach(event => delivered.add(event.id));
+    }
+    if (delivered.size > 0) updateQueue(events => events.filter(event => !delivered.has(event.id)));
+  };
+
+  private retryDelay(): number {
+    return getRetryDelay(this.failures, this.retryAfterMs);
+  }
+
+  // Keeps an earlier flush that is already scheduled
+  private schedule(delayMs: number): void {
+    const dueAt = Date.now() + delayMs;
+    if (this.timer !== null && this.dueAt <= dueAt) return;
+    this.cancelTimer();
+    this.dueAt = dueAt;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, delayMs);
+  }
+
+  private cancelTimer(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
+
+export const tracker = new Tracker();
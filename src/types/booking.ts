@@ -1,3 +1,62 @@
+export const APPOINTMENT_TYPES = ['CONSULTATION', 'TUTORIAL', 'ASSESSMENT', 'GROUP_SESSION', 'WORKSHOP'] as const;
+export const BOOKING_STATUSES = ['pending_confirmation', 'confirmed', 'completed', 'cancelled'] as const;
+export const PAYMENT_STATUSES = ['pending', 'processing', 'completed', 'failed', 'refunded'] as const;
+export const CANCELLATION_REASONS = [
+  'schedule_conflict',
+  'illness',
+  'no_longer_needed',
+  'found_alternative',
+  'tutor_unavailable',
+  'other',
+] as const;
+
+// What an audit log entry records
+export const AUDIT_ACTIONS = [
+  'created',
+  'confirmed',
+  'cancelled',
+  'rescheduled',
+  'payment_updated',
+  'data_deletion_requested',
+] as const;
+
+export type AppointmentType = typeof APPOINTMENT_TYPES[number];
+export type BookingStatus = typeof BOOKING_STATUSES[number];
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+export type CancellationReason = typeof CANCELLATION_REASONS[number];
+
+// The price the customer accepted when booking; charged at checkout
+export interface BookingQuote {
+  total: number;
+  currency: string;
+  promoCode?: string;
+}
+
+// Extra details collected only for some appointment types; see
+// services/appointmentFields.ts for which type asks for which
+export interface TypeSpecificFields {
+  // GROUP_SESSION
+  participantCount?: number;
+  attendeeNames?: string[];
+  // ASSESSMENT
+  examBoard?: string;
+  targetGrade?: string;
+  // WORKSHOP
+  workshopId?: string;
+}
+
+export type TypeSpecificFieldKey = keyof TypeSpecificFields;
+
+export interface BookingDetailFields extends TypeSpecificFields {
+  subject?: string;
+  level?: string;
+  duration?: number;
+  notes?: string;
+  quote?: BookingQuote;
+}
+
+// Single source of truth for a booking as returned by the API. Responses
+// are checked against this shape by services/bookingDecoders.ts.
 export interface Booking {
   id: string;
   bookingId: string;
@@ -6,12 +65,10 @@ export interface Booking {
   userPhone: string;
   appointmentType: AppointmentType;
   appointmentDate: string;
-  bookingDetails: {
-    subject?: string;
-    level?: string;
-    duration?: number;
-    notes?: string;
-  };
+  // IANA zones: where the customer booked from, and where the tutor works
+  bookerTimeZone?: string;
+  tutorTimeZone?: string;
+  bookingDetails: BookingDetailFields;
   status: BookingStatus;
   paymentStatus: PaymentStatus;
   paymentId?: string;
@@ -19,21 +76,29 @@ export interface Booking {
   paymentCurrency?: string;
   createdAt: string;
   confirmedAt?: string;
+  cancelledAt?: string;
+  cancellationReason?: CancellationReason;
+  cancellationNote?: string;
+  // Set on the last move; `previousAppointmentDate` is the time it moved from
+  rescheduledAt?: string;
+  previousAppointmentDate?: string;
+  // Cancelling a paid booking asks for a refund of `refundAmount` (in
+  // paymentCurrency); paymentStatus becomes `refunded` once it is paid out
+  refundRequestedAt?: string;
+  refundAmount?: number;
+  // The customer asked for their data to be erased; tracked events go at once
+  dataDeletionRequestedAt?: string;
+  paymentUpdatedAt?: string;
+  lastAccessedAt?: string;
+  accessCount: number;
+  isExpired?: boolean;
 }
 
-export type AppointmentType = 'CONSULTATION' | 'TUTORIAL' | 'ASSESSMENT' | 'GROUP_SESSION' | 'WORKSHOP';
-export type BookingStatus = 'pending_confirmation' | 'confirmed' | 'completed' | 'cancelled';
-export type PaymentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'refunded';
-
 export interface BookingFormData {
   userName: string;
   userPhone: string;
   appointmentType: AppointmentType;
   appointmentDate: string;
-  bookingDetails: {
-    subject?: string;
-    level?: string;
-    duration?: number;
-    notes?: string;
-  };
-}
\ No newline at end of file
+  bookerTimeZone?: string;
+  bookingDetails: BookingDetailFields;
+}
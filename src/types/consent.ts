@@ -0,0 +1,20 @@
+// What the user can allow. Necessary storage (sign-in, the booking form draft,
+// bookings remembered on this device) is always on; the rest is opt-in.
+export const CONSENT_CATEGORIES = ['necessary', 'analytics'] as const;
+
+export type ConsentCategory = typeof CONSENT_CATEGORIES[number];
+
+export type OptionalConsentCategory = Exclude<ConsentCategory, 'necessary'>;
+
+export const OPTIONAL_CONSENT_CATEGORIES: readonly OptionalConsentCategory[] = CONSENT_CATEGORIES.filter(
+  (category): category is OptionalConsentCategory => category !== 'necessary'
+);
+
+export type ConsentChoices = Record<OptionalConsentCategory, boolean>;
+
+export interface ConsentRecord {
+  // CONSENT_VERSION the choices were made under
+  version: number;
+  choices: ConsentChoices;
+  decidedAt: string;
+}
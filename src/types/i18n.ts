@@ -0,0 +1,13 @@
+// Languages the booking UI is translated into. English is the source
+// catalog; every other catalog must cover the same keys.
+export const LOCALES = ['en', 'es'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Shown in the language switcher in the language itself
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
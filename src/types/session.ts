@@ -0,0 +1,5 @@
+// Staff sessions can use the admin endpoints as well as everything a
+// customer can
+export const SESSION_ROLES = ['customer', 'staff'] as const;
+
+export type SessionRole = typeof SESSION_ROLES[number];
@@ -1 +1,19 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_APP_PROFILE?: 'local' | 'staging' | 'production';
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_MAGIC_LINK_BASE_URL?: string;
+  readonly VITE_FRONTEND_BASE_URL?: string;
+  readonly VITE_API_TIMEOUT_MS?: string;
+  readonly VITE_API_MAX_RETRIES?: string;
+  readonly VITE_REQUIRE_SIGN_IN?: string;
+  readonly VITE_API_MODE?: 'live' | 'mock';
+  readonly VITE_MOCK_LATENCY_MS?: string;
+  readonly VITE_MOCK_FAILURE_RATE?: string;
+  readonly VITE_MOCK_STAFF_PHONES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
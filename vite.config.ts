@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -7,4 +8,10 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  test: {
+    include: ['src/**/*.test.{ts,tsx}'],
+    // Pinned so date and time zone results don't depend on the machine
+    env: { TZ: 'UTC' },
+    restoreMocks: true,
+  },
 });